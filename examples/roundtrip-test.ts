@@ -8,7 +8,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { DictionaryManager } from '../src/dictionary/manager';
-import { Translator } from '../src/core/translator';
+import { MultiLangDictionary } from '../src/dictionary/multiLang';
+import { UnifiedTranslator } from '../src/core/unifiedTranslator';
+import { RoundTripVerifier } from '../src/core/roundTrip';
 
 console.log('=== Roundtrip Translation Test ===\n');
 
@@ -19,6 +21,7 @@ const manager = new DictionaryManager();
 const dictPath = path.join(examplesDir, 'test-dictionary.json');
 const dictJson = fs.readFileSync(dictPath, 'utf-8');
 const dictionary = manager.import(dictJson);
+const translator = new UnifiedTranslator(new MultiLangDictionary(dictionary));
 
 // Load original code
 const sourcePath = path.join(examplesDir, 'calculator.ts');
@@ -34,8 +37,7 @@ console.log();
 // EN -> JA
 console.log('Step 2: Translate English → Japanese');
 console.log('-------------------------------------');
-const translatorEN2JA = new Translator(dictionary.terms);
-const resultJA = translatorEN2JA.toCustom(originalCode);
+const resultJA = translator.translate(originalCode, 'en', 'ja', undefined, sourcePath);
 console.log(`✓ Translation complete`);
 console.log(`  Translated tokens: ${resultJA.translatedTokens.length}`);
 console.log(`  Unmapped tokens: ${resultJA.unmappedTokens.length}`);
@@ -44,26 +46,22 @@ if (resultJA.unmappedTokens.length > 0) {
 }
 console.log();
 
-// JA -> EN
-console.log('Step 3: Translate Japanese → English');
-console.log('-------------------------------------');
-const reverseMapping = Object.fromEntries(
-  Object.entries(dictionary.terms).map(([k, v]) => [v, k])
-);
-const translatorJA2EN = new Translator(reverseMapping);
-const resultEN = translatorJA2EN.toCustom(resultJA.code);
+// JA -> EN, verified against the original
+console.log('Step 3: Translate Japanese → English and verify');
+console.log('-----------------------------------------------');
+const report = new RoundTripVerifier(translator).verify(originalCode, resultJA.code, 'en', 'ja', undefined, sourcePath);
 console.log(`✓ Reverse translation complete`);
-console.log(`  Translated tokens: ${resultEN.translatedTokens.length}`);
-console.log(`  Unmapped tokens: ${resultEN.unmappedTokens.length}`);
-if (resultEN.unmappedTokens.length > 0) {
-  console.log(`  Unmapped: ${resultEN.unmappedTokens.join(', ')}`);
+console.log(`  Token streams: ${report.structuralErrors.length === 0 ? 'equivalent' : 'different'}`);
+console.log(`  Offending identifiers: ${report.offendingIdentifiers.length}`);
+if (report.diagnostic) {
+  console.log(`  ${report.diagnostic}`);
 }
 console.log();
 
 // Compare
 console.log('Step 4: Compare with original');
 console.log('------------------------------');
-const isIdentical = resultEN.code === originalCode;
+const isIdentical = report.ok && report.identical;
 console.log(`✓ Comparison complete`);
 console.log(`  Result: ${isIdentical ? '✅ IDENTICAL' : '❌ DIFFERENT'}`);
 console.log();
@@ -73,7 +71,7 @@ if (!isIdentical) {
   console.log('Finding differences...\n');
 
   const originalLines = originalCode.split('\n');
-  const resultLines = resultEN.code.split('\n');
+  const resultLines = report.roundTripCode.split('\n');
 
   if (originalLines.length !== resultLines.length) {
     console.log(`Line count mismatch: ${originalLines.length} vs ${resultLines.length}`);
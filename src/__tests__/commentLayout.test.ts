@@ -0,0 +1,167 @@
+/**
+ * Tests for comment layout
+ *
+ * Covers writing translated comments back in the layout of the original:
+ * markers, line prefixes, one-line block comments, wrapping width, JSDoc
+ * tag indentation and aligned trailing comments.
+ */
+
+import crypto from 'crypto';
+import { parseCommentLayout, renderComment, restoreOriginalComments, displayWidth } from '../core/commentLayout';
+import { CommentExtractor } from '../core/commentExtractor';
+import { applyReplacements } from '../frontends';
+import { UnifiedTranslator } from '../core/unifiedTranslator';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+
+/** Render a translation in place of the only comment of a source */
+function rerender(source: string, translation: string): string {
+  const [comment] = new CommentExtractor().extractWithPositions(source);
+  const rendered = renderComment(translation, parseCommentLayout(comment, source));
+  return source.slice(0, comment.pos) + rendered + source.slice(comment.end);
+}
+
+const md5 = (text: string) => crypto.createHash('md5').update(text).digest('hex');
+
+describe('comment layout', () => {
+  it('should keep markers, gaps and one-line block comments', () => {
+    expect(rerender('//no gap\nx();', '隙間なし')).toBe('//隙間なし\nx();');
+    expect(rerender('x(); /* inline */', 'インライン')).toBe('x(); /* インライン */');
+    expect(rerender('/** Short doc */\nfunction f() {}', '短い説明')).toBe('/** 短い説明 */\nfunction f() {}');
+    expect(rerender('  /*inline*/', '二行\n目')).toBe('  /*\n   * 二行\n   * 目\n   */');
+  });
+
+  it('should keep the indentation, prefixes and blank lines of JSDoc blocks', () => {
+    const source = [
+      'class Cart {',
+      '    /**',
+      '     * Add an item.',
+      '     *',
+      '     * @param item - The item',
+      '     */',
+      '    add(item) {}',
+      '}',
+    ].join('\n');
+
+    expect(rerender(source, '商品を追加する。\n\n@param item - 商品')).toBe([
+      'class Cart {',
+      '    /**',
+      '     * 商品を追加する。',
+      '     *',
+      '     * @param item - 商品',
+      '     */',
+      '    add(item) {}',
+      '}',
+    ].join('\n'));
+  });
+
+  it('should keep text on the opener and closer lines', () => {
+    const source = '/* Retry the request\n   when it times out */';
+
+    expect(rerender(source, 'Reintenta\nal expirar')).toBe('/* Reintenta\n   al expirar */');
+  });
+
+  it('should wrap translated paragraphs at the original width with tag indentation', () => {
+    const source = [
+      '/**',
+      ' * Load the user profile from the cache and',
+      ' * fall back to the API when it is missing.',
+      ' * @param userId - The user whose profile is',
+      ' *   loaded from the cache.',
+      ' */',
+    ].join('\n');
+    const width = Math.max(...source.split('\n').map(line => displayWidth(line)));
+
+    const result = rerender(source, [
+      'キャッシュからユーザープロフィールを読み込み、見つからない場合はAPIから取得する。',
+      '@param userId - プロフィールをキャッシュから読み込むユーザー。',
+    ].join('\n'));
+
+    expect(result.split('\n')).toEqual([
+      '/**',
+      ' * キャッシュからユーザープロフィールを読み',
+      ' * 込み、見つからない場合はAPIから取得する。',
+      ' * @param userId - プロフィールをキャッシュ',
+      ' *   から読み込むユーザー。',
+      ' */',
+    ]);
+    expect(Math.max(...result.split('\n').map(line => displayWidth(line)))).toBeLessThanOrEqual(width);
+  });
+
+  it('should not break lines between a word and the CJK text written against it', () => {
+    const source = '/**\n * Load the profile from the cache. Fall back\n * to the API when it is missing.\n */';
+
+    expect(rerender(source, 'キャッシュから読み込む。見つからなければAPIから取得する。')).toBe([
+      '/**',
+      ' * キャッシュから読み込む。見つからなけれ',
+      ' * ばAPIから取得する。',
+      ' */',
+    ].join('\n'));
+  });
+});
+
+describe('original comments', () => {
+  it('should write comments with the words of the original as the original wrapped them', () => {
+    const original = '/**\n * Load the profile from the cache. Fall back\n * to the API when it is missing.\n */\nload(); // Sum\n';
+    const translated = '/**\n * Load the profile from the cache. Fall\n * back to the API when it is missing.\n */\nload(); // Sum all\n';
+    const extractor = new CommentExtractor();
+
+    const replacements = restoreOriginalComments(
+      translated,
+      extractor.extractWithPositions(translated),
+      original,
+      extractor.extractWithPositions(original)
+    );
+
+    expect(applyReplacements(translated, replacements)).toBe(original.replace('// Sum', '// Sum all'));
+  });
+});
+
+describe('aligned trailing comments', () => {
+  it('should keep trailing comments in one column when identifiers change width', () => {
+    const dictionary = new MultiLangDictionary({
+      origin: 'github.com:test/repo',
+      language: 'ja',
+      terms: {
+        total: '合計金額',
+        count: '数',
+      },
+      comments: { [md5('Sum')]: { en: 'Sum', ja: '合計' } },
+      metadata: { createdAt: '', updatedAt: '', version: '1.0.0' },
+    });
+    const source = [
+      'let total = 0;   // Sum',
+      'let count = 0;   // Items',
+      'let x = 0; // Alone',
+    ].join('\n');
+
+    const result = new UnifiedTranslator(dictionary).translate(source, 'en', 'ja');
+
+    expect(result.code).toBe([
+      'let 合計金額 = 0;   // 合計',
+      'let 数 = 0;         // Items',
+      'let x = 0; // Alone',
+    ].join('\n'));
+  });
+
+  it('should restore the original column when translating back', () => {
+    const dictionary = new MultiLangDictionary({
+      origin: 'github.com:test/repo',
+      language: 'ja',
+      terms: { a: '甲', bb: '乙乙乙' },
+      metadata: { createdAt: '', updatedAt: '', version: '1.0.0' },
+    });
+    const translator = new UnifiedTranslator(dictionary);
+    const source = [
+      'const a = 1;  // first',
+      'const bb = 2; // second',
+    ].join('\n');
+
+    const japanese = translator.translate(source, 'en', 'ja').code;
+
+    expect(japanese).toBe([
+      'const 甲 = 1;     // first',
+      'const 乙乙乙 = 2; // second',
+    ].join('\n'));
+    expect(translator.translate(japanese, 'ja', 'en').code).toBe(source);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for compound identifier composition
+ *
+ * Covers the affix patterns, reuse of known words, naming styles, and
+ * conforming backend translations to the patterns.
+ */
+
+import { CompoundComposer, getCompoundPatterns } from '../core/compounds';
+
+const JAPANESE: Record<string, string> = {
+  user: 'ユーザー',
+  name: '名前',
+  userName: 'ユーザー名',
+  max: '最大',
+  retry: '再試行',
+  valid: '有効',
+  Click: 'クリック',
+};
+
+const SPANISH: Record<string, string> = {
+  user: 'usuario',
+  Order: 'Pedido',
+  max: 'máximo',
+  retry: 'reintento',
+};
+
+const composer = (language: string, known: Record<string, string>) =>
+  new CompoundComposer(language, term => known[term]);
+
+describe('CompoundComposer', () => {
+  it('should compose affixes from the language patterns', () => {
+    const ja = composer('ja', JAPANESE);
+
+    expect(ja.compose('getUser')).toBe('ユーザーを取得');
+    expect(ja.compose('getUserById')).toBe('IDでユーザーを取得');
+    expect(ja.compose('isValid')).toBe('有効か');
+    expect(ja.compose('onClick')).toBe('クリック時');
+    expect(ja.compose('userId')).toBe('ユーザーID');
+  });
+
+  it('should reuse known compounds before single words', () => {
+    const ja = composer('ja', JAPANESE);
+
+    expect(ja.compose('getUserName')).toBe('ユーザー名を取得');
+    expect(ja.compose('setUserName')).toBe('ユーザー名を設定');
+  });
+
+  it('should keep the naming style of the original', () => {
+    expect(composer('ja', JAPANESE).compose('MAX_RETRY_COUNT')).toBe('最大_再試行_数');
+
+    const es = composer('es', SPANISH);
+    expect(es.compose('getUserById')).toBe('obtenerUsuarioPorId');
+    expect(es.compose('MAX_RETRY_COUNT')).toBe('CANTIDAD_MÁXIMO_REINTENTO');
+    expect(es.compose('OrderCount')).toBe('CantidadPedido');
+  });
+
+  it('should leave identifiers without an affix or with unknown words to the backend', () => {
+    const { composed, remaining } = composer('ja', JAPANESE).composeAll(['getUser', 'userName', 'getAccount', 'user']);
+
+    expect(composed).toEqual({ getUser: 'ユーザーを取得' });
+    expect(remaining).toEqual(['userName', 'getAccount', 'user']);
+  });
+
+  it('should follow the project glossary rules', () => {
+    const rules = { keep: ['Kawa'], translations: { getUser: 'ユーザー取得' }, forbidden: ['設定'] };
+    const ja = new CompoundComposer('ja', term => JAPANESE[term], rules);
+    const es = new CompoundComposer('es', term => SPANISH[term], rules);
+
+    expect(es.compose('getKawaId')).toBe('obtenerIdKawa');
+    expect(ja.compose('getUser')).toBeUndefined();
+    expect(ja.compose('setUserName')).toBeUndefined();
+  });
+
+  it('should conform backend translations to the patterns', () => {
+    const ja = composer('ja', {});
+    expect(ja.conform({ account: '口座', getAccount: '口座取得', deleteAccount: '口座削除' })).toEqual({
+      account: '口座',
+      getAccount: '口座を取得',
+      deleteAccount: '口座削除',
+    });
+
+    const es = composer('es', {});
+    expect(es.conform({ MAX_SIZE: 'tamañoMáximo', loadFile: 'cargar_archivo', getAccount: 'getAccount' })).toEqual({
+      MAX_SIZE: 'TAMAÑO_MÁXIMO',
+      loadFile: 'cargarArchivo',
+      getAccount: 'getAccount',
+    });
+  });
+
+  it('should use the base language patterns for regional languages', () => {
+    expect(getCompoundPatterns('es-MX')).toBe(getCompoundPatterns('es'));
+    expect(getCompoundPatterns('zh-Hant')?.get).toBe('取得{}');
+    expect(getCompoundPatterns('ar')).toBeUndefined();
+  });
+});
@@ -5,6 +5,8 @@
  */
 
 import { MultiLangDictionary } from '../dictionary/multiLang';
+import { disambiguateTerms, findCollisions, invertTranslations } from '../dictionary/collisions';
+import { UnifiedTranslator } from '../core/unifiedTranslator';
 import { Dictionary } from '../core/types';
 
 describe('MultiLangDictionary', () => {
@@ -306,4 +308,76 @@ describe('MultiLangDictionary', () => {
       expect(dict.getTranslation('test', 'en', 'ja')).toBe('テスト');
     });
   });
+
+  describe('Collisions', () => {
+    it('should not guess a reverse translation shared by two English terms', () => {
+      const dict = new MultiLangDictionary(
+        createDictionary({ 'user': 'ユーザー', 'account': 'ユーザー' })
+      );
+
+      expect(dict.getTranslation('ユーザー', 'ja', 'en')).toBeUndefined();
+      expect(dict.isAmbiguous('ユーザー', 'ja')).toBe(true);
+      expect(dict.isAmbiguous('account', 'en')).toBe(true);
+      expect(dict.getCollisions()).toEqual([
+        { translation: 'ユーザー', terms: ['user', 'account'] },
+      ]);
+    });
+
+    it('should detect collisions introduced by addTerms', () => {
+      const dict = new MultiLangDictionary(createDictionary({ 'user': 'ユーザー' }));
+
+      dict.addTerms({ 'account': 'ユーザー' });
+      expect(dict.isAmbiguous('ユーザー', 'ja')).toBe(true);
+
+      // Re-translating one of them resolves the collision
+      dict.addTerms({ 'account': 'アカウント' });
+      expect(dict.getCollisions()).toEqual([]);
+      expect(dict.getTranslation('ユーザー', 'ja', 'en')).toBe('user');
+      expect(dict.getTranslation('アカウント', 'ja', 'en')).toBe('account');
+    });
+
+    it('should flag ambiguous terms instead of translating them back', () => {
+      const dict = new MultiLangDictionary(
+        createDictionary({ 'user': 'ユーザー', 'account': 'ユーザー', 'save': '保存' })
+      );
+      const translator = new UnifiedTranslator(dict);
+
+      const result = translator.translate('保存(ユーザー);', 'ja', 'en');
+
+      expect(result.code).toBe('save(ユーザー);');
+      expect(result.ambiguousTokens).toEqual(['ユーザー']);
+      expect(result.unmappedTokens).not.toContain('ユーザー');
+    });
+
+    it('should suffix new terms whose translation is already taken', () => {
+      const { terms, renamed } = disambiguateTerms(
+        { 'user': 'ユーザー', 'user2': 'ユーザー2' },
+        { 'account': 'ユーザー', 'profile': 'プロフィール' }
+      );
+
+      expect(terms).toEqual({ 'account': 'ユーザー3', 'profile': 'プロフィール' });
+      expect(renamed).toEqual([{ term: 'account', from: 'ユーザー', to: 'ユーザー3' }]);
+      expect(findCollisions({ 'user': 'ユーザー', 'user2': 'ユーザー2', ...terms })).toEqual([]);
+    });
+
+    it('should release the old translation of an overwritten term', () => {
+      const { terms, renamed } = disambiguateTerms(
+        { 'user': 'ユーザー' },
+        { 'user': '利用者', 'account': 'ユーザー' }
+      );
+
+      expect(terms).toEqual({ 'user': '利用者', 'account': 'ユーザー' });
+      expect(renamed).toEqual([]);
+    });
+
+    it('should keep both foreign terms when they translate to the same English word', () => {
+      const { terms, renamed } = invertTranslations(
+        { '利用者': 'user', '使用者': 'user', '口座': 'account' },
+        { 'account': 'アカウント' }
+      );
+
+      expect(terms).toEqual({ 'user': '利用者', 'user2': '使用者', 'account2': '口座' });
+      expect(renamed.map(r => r.to)).toEqual(['user2', 'account2']);
+    });
+  });
 });
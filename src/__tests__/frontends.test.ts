@@ -0,0 +1,187 @@
+/**
+ * Tests for the language frontend registry
+ *
+ * Covers extension/name lookup, the built-in Vue and Rust frontends, and a
+ * third-party frontend picked up by the extractors, the translator and the
+ * round-trip verifier.
+ */
+
+import crypto from 'crypto';
+import * as ts from 'typescript';
+import {
+  LanguageFrontend,
+  SyntaxToken,
+  TextReplacement,
+  TranslationContext,
+  registerFrontend,
+  getFrontend,
+  getFrontendForFile,
+  getSupportedExtensions,
+} from '../frontends';
+import { IdentifierExtractor } from '../core/identifierExtractor';
+import { CommentExtractor } from '../core/commentExtractor';
+import { UnifiedTranslator } from '../core/unifiedTranslator';
+import { RoundTripVerifier } from '../core/roundTrip';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+import { Dictionary } from '../core/types';
+
+const createDictionary = (
+  terms: Record<string, string>,
+  comments: Record<string, { en: string; [key: string]: string }> = {}
+): Dictionary => ({
+  origin: 'github.com:test/repo',
+  language: 'ja',
+  terms,
+  comments,
+  metadata: {
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: '1.0.0',
+  },
+});
+
+const hash = (text: string) => crypto.createHash('md5').update(text.trim()).digest('hex');
+
+/**
+ * Minimal Go frontend: `func name` declarations and // comments
+ */
+class GoFrontend implements LanguageFrontend {
+  readonly id = 'go';
+  readonly extensions = ['.go'];
+  readonly aliases = ['golang'];
+
+  extractIdentifiers(sourceCode: string) {
+    return Array.from(sourceCode.matchAll(/\bfunc\s+(\w+)/g)).map(match => ({
+      name: match[1],
+      type: 'function' as const,
+      line: sourceCode.slice(0, match.index).split('\n').length,
+      count: 1,
+    }));
+  }
+
+  extractComments(sourceCode: string) {
+    return Array.from(sourceCode.matchAll(/\/\/ ?(.*)/g)).map(match => ({
+      text: match[1],
+      fullText: match[0],
+      pos: match.index!,
+      end: match.index! + match[0].length,
+      kind: 'SingleLine' as const,
+    }));
+  }
+
+  collectReplacements(sourceCode: string, context: TranslationContext): TextReplacement[] {
+    const replacements: TextReplacement[] = [];
+    for (const match of sourceCode.matchAll(/\bfunc\s+(\w+)/g)) {
+      const translated = context.translateIdentifier(match[1]);
+      if (translated) {
+        const start = match.index! + match[0].length - match[1].length;
+        replacements.push({ start, end: start + match[1].length, newText: translated, oldText: match[1] });
+      }
+    }
+    for (const comment of this.extractComments(sourceCode)) {
+      const translated = context.translateComment(comment.text);
+      if (translated) {
+        replacements.push({ start: comment.pos, end: comment.end, newText: `// ${translated}`, oldText: comment.fullText });
+      }
+    }
+    return replacements;
+  }
+
+  tokenize(sourceCode: string): SyntaxToken[] {
+    const code = sourceCode.replace(/\/\/.*/g, '');
+    return Array.from(code.matchAll(/[\p{L}_][\p{L}\p{N}_]*|\S/gu)).map(match => ({
+      kind: /^[\p{L}_]/u.test(match[0]) ? ts.SyntaxKind.Identifier : ts.SyntaxKind.Unknown,
+      text: match[0],
+      line: code.slice(0, match.index).split('\n').length,
+    }));
+  }
+}
+
+describe('Frontend registry', () => {
+  it('should resolve built-in frontends by extension and name', () => {
+    expect(getFrontendForFile('src/app.tsx')!.id).toBe('typescript');
+    expect(getFrontendForFile('src/App.vue')!.id).toBe('vue');
+    expect(getFrontendForFile('src/lib.rs')!.id).toBe('rust');
+    expect(getFrontendForFile('cart.py')!.id).toBe('python');
+    expect(getFrontendForFile('notes.txt')).toBeUndefined();
+    expect(getFrontend('javascript')!.id).toBe('typescript');
+    expect(getSupportedExtensions()).toEqual(expect.arrayContaining(['.ts', '.vue', '.rs', '.py']));
+  });
+
+  it('should use a registered third-party frontend everywhere', () => {
+    registerFrontend(new GoFrontend());
+    const source = '// Start the server\nfunc serve() {}\n';
+
+    expect(getSupportedExtensions()).toContain('.go');
+    expect(getFrontend('golang')!.id).toBe('go');
+    expect(new IdentifierExtractor().extractNames(source, 'main.go')).toEqual(['serve']);
+    expect(new CommentExtractor().extract(source, 'main.go')).toEqual(['Start the server']);
+
+    const dictionary = new MultiLangDictionary(createDictionary(
+      { 'serve': '提供する' },
+      { [hash('Start the server')]: { en: 'Start the server', ja: 'サーバーを起動する' } }
+    ));
+    const result = new UnifiedTranslator(dictionary).translate(source, 'en', 'ja', undefined, 'main.go');
+
+    expect(result.code).toBe('// サーバーを起動する\nfunc 提供する() {}\n');
+  });
+
+  it('should verify round trips with the tokens of the registered frontend', () => {
+    const go = new GoFrontend();
+    registerFrontend(go);
+    const tokenize = jest.spyOn(go, 'tokenize');
+
+    const japanese = 'func 提供する() {}\n';
+    const translator = new UnifiedTranslator(new MultiLangDictionary(createDictionary({ 'serve': '提供する' })));
+    const english = 'func serve() {}\n';
+    const verifier = new RoundTripVerifier(translator);
+
+    expect(verifier.verify(japanese, english, 'ja', 'en', undefined, 'main.go').ok).toBe(true);
+    expect(tokenize).toHaveBeenCalledWith(japanese, 'main.go');
+
+    const broken = verifier.verify(japanese, 'func serve() {}}\n', 'ja', 'en', undefined, 'main.go');
+    expect(broken.ok).toBe(false);
+    expect(broken.structuralErrors).toContain('token count changed from 6 to 7');
+  });
+});
+
+describe('Built-in frontends', () => {
+  const dictionary = new MultiLangDictionary(createDictionary(
+    { 'count': '件数', 'increment': '増やす' },
+    {
+      [hash('Counter state')]: { en: 'Counter state', ja: 'カウンターの状態' },
+      [hash('Main view')]: { en: 'Main view', ja: 'メイン画面' },
+      [hash('Adds one')]: { en: 'Adds one', ja: '一つ足す' },
+    }
+  ));
+  const translator = new UnifiedTranslator(dictionary);
+
+  it('should translate the Vue script block and HTML comments in place', () => {
+    const source = [
+      '<template>',
+      '  <!-- Main view -->',
+      '  <div>{{ count }}</div>',
+      '</template>',
+      '<script lang="ts">',
+      '// Counter state',
+      'let count = 0;',
+      '</script>',
+      '',
+    ].join('\n');
+
+    const result = translator.translate(source, 'en', 'ja', undefined, 'Counter.vue');
+
+    expect(result.code).toContain('<!-- メイン画面 -->');
+    expect(result.code).toContain('// カウンターの状態\nlet 件数 = 0;\n</script>');
+    expect(result.code.startsWith('<template>')).toBe(true);
+  });
+
+  it('should keep Rust doc comment markers', () => {
+    const source = '/// Adds one\nfn increment(count: u32) -> u32 {\n    count + 1\n}\n';
+
+    expect(new CommentExtractor().extract(source, 'lib.rs')).toEqual(['Adds one']);
+
+    const result = translator.translate(source, 'en', 'ja', undefined, 'lib.rs');
+    expect(result.code.startsWith('/// 一つ足す\n')).toBe(true);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for the rule-based glossary backend
+ *
+ * Covers splitting and joining identifiers by naming convention, glossary
+ * lookups in both directions, reporting of unknown words and the fallback.
+ */
+
+import fs from 'fs';
+import { joinIdentifier, splitIdentifier } from '../core/naming';
+import { GlossaryBackend } from '../translation/glossary-backend';
+import type { TranslationBackend } from '../translation/backend';
+import { getTranslationBackend, resetTranslationBackend } from '../translation';
+
+const GLOSSARIES = {
+  ja: { get: '取得', user: 'ユーザー', name: '名前', max: '最大', retry: '再試行', count: '回数', list: '一覧' },
+  es: { get: 'obtener', user: 'usuario', name: 'nombre', list: 'lista', item: 'elemento' },
+};
+
+describe('Naming conventions', () => {
+  it('should split identifiers into words and detect their style', () => {
+    expect(splitIdentifier('getUserName')).toEqual({ words: ['get', 'user', 'name'], style: 'camel', prefix: '', suffix: '' });
+    expect(splitIdentifier('UserList')).toMatchObject({ words: ['user', 'list'], style: 'pascal' });
+    expect(splitIdentifier('_max_retry_count')).toMatchObject({ words: ['max', 'retry', 'count'], style: 'snake', prefix: '_' });
+    expect(splitIdentifier('MAX_RETRY_COUNT')).toMatchObject({ words: ['max', 'retry', 'count'], style: 'constant' });
+    expect(splitIdentifier('parseHTTPResponse2')).toMatchObject({ words: ['parse', 'HTTP', 'response', '2'] });
+    expect(splitIdentifier('añadirÍtem')).toMatchObject({ words: ['añadir', 'ítem'], style: 'camel' });
+  });
+
+  it('should join words in each style', () => {
+    expect(joinIdentifier(['get', 'user', 'ID'], 'camel')).toBe('getUserID');
+    expect(joinIdentifier(['user', 'list'], 'pascal')).toBe('UserList');
+    expect(joinIdentifier(['max', 'count'], 'constant', '', '_')).toBe('MAX_COUNT_');
+    expect(joinIdentifier(['取得', 'ユーザー'], 'camel')).toBe('取得ユーザー');
+  });
+});
+
+describe('GlossaryBackend', () => {
+  const backend = new GlossaryBackend({ glossaries: GLOSSARIES });
+
+  it('should translate English identifiers word by word in their naming style', () => {
+    const report = backend.translateWithReport(['getUserName', 'MAX_RETRY_COUNT', 'UserList', 'userID'], 'en', 'ja');
+
+    expect(report.translations).toEqual({
+      getUserName: '取得ユーザー名前',
+      MAX_RETRY_COUNT: '最大_再試行_回数',
+      UserList: 'ユーザー一覧',
+      userID: 'ユーザーID',
+    });
+    expect(backend.translateWithReport(['getUserName'], 'en', 'es').translations).toEqual({ getUserName: 'obtenerUsuarioNombre' });
+  });
+
+  it('should report unknown words instead of guessing', () => {
+    const report = backend.translateWithReport(['getAccount', 'userName', 'accountList'], 'en', 'ja');
+
+    expect(report.translations).toEqual({ userName: 'ユーザー名前' });
+    expect(report.untranslated).toEqual(['getAccount', 'accountList']);
+    expect(report.unknownWords).toEqual(['account']);
+  });
+
+  it('should translate back to English by segmenting caseless words', () => {
+    const report = backend.translateWithReport(['取得ユーザー名前', '最大_再試行_回数', '取得口座'], 'ja', 'en');
+
+    expect(report.translations).toEqual({ 取得ユーザー名前: 'getUserName', 最大_再試行_回数: 'max_retry_count' });
+    expect(report.unknownWords).toEqual(['口座']);
+  });
+
+  it('should go through English between two other languages', () => {
+    expect(backend.translateWithReport(['obtenerUsuario'], 'es', 'ja').translations).toEqual({ obtenerUsuario: '取得ユーザー' });
+  });
+
+  it('should keep untranslatable identifiers or pass them to the fallback', async () => {
+    expect(await backend.translateIdentifiers(['getUser', 'getAccount'], 'en', 'ja')).toEqual({
+      getUser: '取得ユーザー',
+      getAccount: 'getAccount',
+    });
+
+    const fallback = {
+      name: 'fake',
+      translateIdentifiers: jest.fn(async (terms: string[]) => Object.fromEntries(terms.map(term => [term, '口座取得']))),
+      translateComments: jest.fn(async (comments: string[]) => Object.fromEntries(comments.map(c => [c, 'コメント']))),
+    } as unknown as TranslationBackend;
+    const chained = new GlossaryBackend({ glossaries: GLOSSARIES, fallback });
+
+    const result = await chained.translateProject(['getUser', 'getAccount'], ['Get the user'], 'en', 'ja');
+
+    expect(result.terms).toEqual({ getUser: '取得ユーザー', getAccount: '口座取得' });
+    expect(fallback.translateIdentifiers).toHaveBeenCalledWith(['getAccount'], 'en', 'ja', undefined, undefined);
+    expect(result.comments).toEqual({ 'Get the user': 'コメント' });
+  });
+});
+
+describe('Glossary backend settings', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    resetTranslationBackend();
+  });
+
+  it('should ignore the glossary as its own fallback', () => {
+    const { existsSync, readFileSync } = fs;
+    const isSettings = (file: fs.PathLike | number) => String(file).endsWith('settings.json');
+    jest.spyOn(fs, 'existsSync').mockImplementation(file => isSettings(file) || existsSync(file));
+    jest.spyOn(fs, 'readFileSync').mockImplementation(((file: any, options: any) => isSettings(file)
+      ? JSON.stringify({ translationMode: 'glossary', glossaryFallback: 'glossary' })
+      : readFileSync(file, options)) as typeof fs.readFileSync);
+
+    const backend = getTranslationBackend();
+
+    expect(backend.name).toBe('glossary');
+    expect((backend as any).options.fallback).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for context-aware identifier translation
+ *
+ * Covers the contexts collected from declarations, the identifier list of
+ * the prompt, and the senses parsed from the response.
+ */
+
+import { IdentifierExtractor } from '../core/identifierExtractor';
+import { IdentifierContext } from '../core/types';
+import { buildIdentifierTranslationPrompt, parseIdentifierResponse } from '../claude/prompts';
+import { translateIdentifiers, translateProject } from '../claude/translator';
+
+const CONTEXTS: Record<string, IdentifierContext> = {
+  order: { kind: 'parameter', file: 'src/cart/checkout.ts', snippet: 'function placeOrder(order: PurchaseOrder) {' },
+  placeOrder: { kind: 'function', file: 'src/cart/checkout.ts', snippet: 'function placeOrder(order: PurchaseOrder) {' },
+};
+
+describe('IdentifierExtractor.getContexts', () => {
+  it('should give the kind, file and declaration line of each identifier', () => {
+    const extractor = new IdentifierExtractor();
+    const code = [
+      'export class Cart {',
+      '  sortItems(items: string[],     order: "asc" | "desc") {',
+      '    return items;',
+      '  }',
+      '}',
+    ].join('\n');
+
+    const contexts = extractor.getContexts(extractor.extract(code, '/repo/src/cart.ts'), code, 'src/cart.ts');
+
+    expect(contexts.Cart).toEqual({ kind: 'class', file: 'src/cart.ts', snippet: 'export class Cart {' });
+    expect(contexts.order).toEqual({
+      kind: 'parameter',
+      file: 'src/cart.ts',
+      snippet: 'sortItems(items: string[], order: "asc" | "desc") {',
+    });
+  });
+
+  it('should shorten long declaration lines', () => {
+    const extractor = new IdentifierExtractor();
+    const code = `const total = ${'1 + '.repeat(60)}1;`;
+
+    const { total } = extractor.getContexts(extractor.extract(code), code);
+
+    expect(total.snippet).toHaveLength(101);
+    expect(total.snippet!.endsWith('…')).toBe(true);
+  });
+});
+
+describe('identifier prompt with contexts', () => {
+  it('should list each term with its context and ask for the sense', () => {
+    const prompt = buildIdentifierTranslationPrompt(['order', 'total'], 'en', 'ja', undefined, CONTEXTS);
+
+    expect(prompt).toContain('1. order  (parameter in src/cart/checkout.ts) `function placeOrder(order: PurchaseOrder) {`');
+    expect(prompt).toMatch(/^2\. total$/m);
+    expect(prompt).toContain('[translation for item 1] | [meaning of item 1]');
+  });
+
+  it('should keep the plain format without contexts', () => {
+    const prompt = buildIdentifierTranslationPrompt(['order'], 'en', 'ja');
+
+    expect(prompt).toMatch(/^1\. order$/m);
+    expect(prompt).not.toContain('meaning of item');
+  });
+
+  it('should split translations from senses', () => {
+    expect(parseIdentifierResponse('1. 注文 | purchase order\n2. 合計\n3. 並び順 |', 3)).toEqual([
+      { translation: '注文', sense: 'purchase order' },
+      { translation: '合計' },
+      { translation: '並び順', sense: undefined },
+    ]);
+  });
+});
+
+describe('project translation with contexts', () => {
+  it('should return the senses of accepted translations', async () => {
+    const prompts: string[] = [];
+    const callLLM = async (prompt: string) => {
+      prompts.push(prompt);
+      return prompt.includes('Terms to translate:')
+        ? '1. 注文 | purchase order\n2. 注文 する | place an order'
+        : '';
+    };
+
+    const result = await translateProject(
+      ['order', 'placeOrder'], [], 'en', 'ja', undefined, undefined, CONTEXTS, undefined, callLLM
+    );
+
+    expect(result.terms).toEqual({ order: '注文', placeOrder: 'placeOrder' });
+    expect(result.senses).toEqual({ order: 'purchase order' });
+    expect(prompts[0]).toContain('(function in src/cart/checkout.ts)');
+  });
+
+  it('should not ask for senses when translating identifiers without contexts', async () => {
+    const callLLM = async (prompt: string) => {
+      expect(prompt).not.toContain('meaning of item');
+      return '1. 注文';
+    };
+
+    expect(await translateIdentifiers(['order'], 'en', 'ja', undefined, undefined, callLLM)).toEqual({ order: '注文' });
+  });
+});
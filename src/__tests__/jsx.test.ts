@@ -0,0 +1,127 @@
+/**
+ * Tests for JSX / TSX support
+ *
+ * Covers parsing with the right script kind, extraction of JSX text and
+ * user-facing attribute strings, and their translation under the
+ * stringLiterals scope.
+ */
+
+import crypto from 'crypto';
+import { getFrontendForFile } from '../frontends';
+import { CommentExtractor } from '../core/commentExtractor';
+import { UnifiedTranslator } from '../core/unifiedTranslator';
+import { RoundTripVerifier } from '../core/roundTrip';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+import { Dictionary, TranslationScope } from '../core/types';
+
+const createDictionary = (
+  terms: Record<string, string>,
+  comments: Record<string, { en: string; [key: string]: string }> = {}
+): Dictionary => ({
+  origin: 'github.com:test/repo',
+  language: 'ja',
+  terms,
+  comments,
+  metadata: {
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: '1.0.0',
+  },
+});
+
+const hash = (text: string) => crypto.createHash('md5').update(text.trim()).digest('hex');
+
+const SCOPE: TranslationScope = {
+  comments: true,
+  stringLiterals: true,
+  identifiers: true,
+  keywords: false,
+  punctuation: false,
+  markdownFiles: false,
+};
+
+const SOURCE = `export function SearchBox({ query }: { query: string }) {
+  // Search form
+  return (
+    <form className="search" title="Search the catalog">
+      <label htmlFor="query">Find a product</label>
+      <input id="query" placeholder="Product name" aria-label="Search products" value={query} />
+      <p>
+        See https://example.com/help
+        for more tips
+      </p>
+    </form>
+  );
+}
+`;
+
+const dictionary = new MultiLangDictionary(createDictionary(
+  { 'SearchBox': '検索欄', 'query': '検索語' },
+  {
+    [hash('Search form')]: { en: 'Search form', ja: '検索フォーム' },
+    [hash('Search the catalog')]: { en: 'Search the catalog', ja: 'カタログを検索' },
+    [hash('Find a product')]: { en: 'Find a product', ja: '商品を探す' },
+    [hash('Product name')]: { en: 'Product name', ja: '商品名' },
+    [hash('Search products')]: { en: 'Search products', ja: '商品を検索' },
+    [hash('See https://example.com/help for more tips')]: {
+      en: 'See https://example.com/help for more tips',
+      ja: 'ヒントは https://example.com/help を参照',
+    },
+    [hash('search')]: { en: 'search', ja: '検索' },
+  }
+));
+const translator = new UnifiedTranslator(dictionary);
+
+describe('JSX extraction', () => {
+  it('should extract JSX text and user-facing attributes only', () => {
+    const texts = getFrontendForFile('SearchBox.tsx')!.extractTexts!(SOURCE, 'SearchBox.tsx');
+
+    expect(texts.map(text => text.text)).toEqual([
+      'Search the catalog',
+      'Find a product',
+      'Product name',
+      'Search products',
+      'See https://example.com/help for more tips',
+    ]);
+  });
+
+  it('should not mistake URLs in JSX text for comments', () => {
+    expect(new CommentExtractor().extract(SOURCE, 'SearchBox.tsx')).toEqual(['Search form']);
+  });
+
+  it('should parse JSX in .js files', () => {
+    const texts = getFrontendForFile('Hello.js')!.extractTexts!('const Hello = () => <b>Hello there</b>;', 'Hello.js');
+
+    expect(texts.map(text => text.text)).toEqual(['Hello there']);
+  });
+});
+
+describe('JSX translation', () => {
+  it('should translate text children and placeholder, title and aria-label', () => {
+    const result = translator.translate(SOURCE, 'en', 'ja', SCOPE, 'SearchBox.tsx');
+
+    expect(result.code).toContain('<form className="search" title="カタログを検索">');
+    expect(result.code).toContain('<label htmlFor="query">商品を探す</label>');
+    expect(result.code).toContain('placeholder="商品名" aria-label="商品を検索" value={検索語}');
+    expect(result.code).toContain('<p>\n        ヒントは https://example.com/help を参照\n      </p>');
+    expect(result.code).toContain('// 検索フォーム');
+  });
+
+  it('should leave JSX text alone outside the stringLiterals scope', () => {
+    const result = translator.translate(SOURCE, 'en', 'ja', { ...SCOPE, stringLiterals: false }, 'SearchBox.tsx');
+
+    expect(result.code).toContain('<label htmlFor="query">Find a product</label>');
+    expect(result.code).toContain('export function 検索欄(');
+  });
+
+  it('should round-trip EN→JA→EN', () => {
+    const japanese = translator.translate(SOURCE, 'en', 'ja', SCOPE, 'SearchBox.tsx');
+    const report = new RoundTripVerifier(translator).verify(SOURCE, japanese.code, 'en', 'ja', SCOPE, 'SearchBox.tsx');
+
+    expect(report.ok).toBe(true);
+    expect(report.roundTripCode).toBe(SOURCE.replace(
+      'See https://example.com/help\n        for more tips',
+      'See https://example.com/help for more tips'
+    ));
+  });
+});
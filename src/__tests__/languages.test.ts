@@ -0,0 +1,87 @@
+/**
+ * Tests for the language registry
+ *
+ * Covers the built-in definitions, config-enabled and config-defined
+ * languages, and their use in prompts and the keyword/punctuation passes.
+ */
+
+import * as settings from '../config/settings';
+import { getEnabledLanguages, getLanguage, getLanguageName, LanguageConfig } from '../languages';
+import { buildIdentifierTranslationPrompt } from '../claude/prompts';
+import { UnifiedTranslator } from '../core/unifiedTranslator';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+
+function useLanguageConfig(languages: LanguageConfig[]): void {
+  jest.spyOn(settings, 'getI18nSettings').mockReturnValue({
+    translateEnglishOnSave: false,
+    writeProjectDictionary: false,
+    languages,
+  });
+}
+
+describe('Language registry', () => {
+  beforeEach(() => useLanguageConfig([]));
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should describe the built-in languages', () => {
+    expect(getLanguage('he')).toMatchObject({ name: 'Hebrew', script: 'hebrew', direction: 'rtl', enabled: true });
+    expect(getLanguage('ja')?.keywords?.function).toBe('関数');
+    expect(getLanguageName('vi')).toBe('Vietnamese');
+    expect(getLanguageName('xx')).toBe('XX');
+  });
+
+  it('should enable known languages from config', () => {
+    expect(getEnabledLanguages().map(l => l.code)).not.toContain('vi');
+
+    useLanguageConfig(['vi', 'pl']);
+
+    const codes = getEnabledLanguages().map(l => l.code);
+    expect(codes).toEqual(expect.arrayContaining(['en', 'ja', 'vi', 'pl']));
+    expect(getLanguage('vi')).toMatchObject({ nativeName: 'Tiếng Việt', script: 'latin' });
+  });
+
+  it('should define new languages from config and ignore invalid entries', () => {
+    useLanguageConfig([
+      { code: 'fa', name: 'Persian', nativeName: 'فارسی', script: 'arabic', direction: 'rtl', identifiers: { caseless: true } },
+      { code: 'ja', enabled: false },
+      { code: 'Not a code' },
+    ]);
+
+    expect(getLanguage('fa')).toMatchObject({ name: 'Persian', direction: 'rtl', enabled: true });
+    expect(getLanguage('ja')).toMatchObject({ name: 'Japanese', enabled: false });
+    expect(getLanguage('ja')?.punctuation?.['.']).toBe('．');
+    expect(getLanguage('Not a code')).toBeUndefined();
+  });
+
+  it('should build identifier prompts from the language definition', () => {
+    useLanguageConfig([{ code: 'fa', name: 'Persian', direction: 'rtl', identifiers: { caseless: true } }]);
+
+    const persian = buildIdentifierTranslationPrompt(['userName'], 'en', 'fa');
+    expect(persian).toContain('to Persian');
+    expect(persian).toContain('NEVER add direction marks');
+    expect(persian).not.toContain('kanji');
+
+    const japanese = buildIdentifierTranslationPrompt(['userName'], 'en', 'ja');
+    expect(japanese).toContain('Prefer kanji over katakana');
+    expect(japanese).not.toContain('casing style');
+
+    expect(buildIdentifierTranslationPrompt(['userName'], 'en', 'pl')).toContain('casing style');
+  });
+
+  it('should apply keyword and punctuation maps from config', () => {
+    useLanguageConfig([{ code: 'pl', keywords: { const: 'stała' }, punctuation: { ';': '⁏' } }]);
+
+    const translator = new UnifiedTranslator(new MultiLangDictionary({
+      origin: 'github.com:test/repo',
+      language: 'pl',
+      terms: { count: 'licznik' },
+      metadata: { createdAt: '', updatedAt: '', version: '1.0.0' },
+    }));
+
+    const result = translator.translate('const count = 1;', 'en', 'pl', {
+      comments: false, stringLiterals: false, identifiers: true, keywords: true, punctuation: true, markdownFiles: false,
+    });
+
+    expect(result.code).toBe('stała licznik = 1⁏');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for BCP-47 locale tags and regional fallback
+ *
+ * Covers tag normalization, the fallback chain, regional dictionaries that
+ * fall back to their base language, and regional language definitions.
+ */
+
+import * as settings from '../config/settings';
+import { getLocaleFallbacks, normalizeLocale } from '../core/locale';
+import { Dictionary } from '../core/types';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+import { DictionaryManager } from '../dictionary/manager';
+import { buildCommentTranslationPrompt, buildIdentifierTranslationPrompt } from '../claude/prompts';
+import { getLanguage } from '../languages';
+
+const ORIGIN = 'test/locale-repo';
+
+const createDictionary = (language: string, terms: Record<string, string>, comments?: Dictionary['comments']): Dictionary => ({
+  origin: ORIGIN,
+  language,
+  terms,
+  comments,
+  metadata: { createdAt: '', updatedAt: '', version: '1.0.0' },
+});
+
+describe('Locale tags', () => {
+  it('should normalize case and separators', () => {
+    expect(normalizeLocale('PT_br')).toBe('pt-BR');
+    expect(normalizeLocale('zh-hant-tw')).toBe('zh-Hant-TW');
+    expect(normalizeLocale('es-419')).toBe('es-419');
+    expect(normalizeLocale('not a tag')).toBe('not a tag');
+  });
+
+  it('should fall back from regional to base language', () => {
+    expect(getLocaleFallbacks('pt-BR')).toEqual(['pt-BR', 'pt']);
+    expect(getLocaleFallbacks('zh-Hant-TW')).toEqual(['zh-Hant-TW', 'zh-Hant', 'zh']);
+    expect(getLocaleFallbacks('zh-TW')).toEqual(['zh-TW', 'zh-Hant', 'zh']);
+    expect(getLocaleFallbacks('ja')).toEqual(['ja']);
+  });
+});
+
+describe('Regional dictionaries', () => {
+  it('should prefer regional terms and comments over base ones', () => {
+    // Flat comments ({ English: translation }) are keyed by hash on load
+    const base = createDictionary('pt', { file: 'ficheiro', user: 'utilizador' }, {
+      'Open the file': 'Abrir o ficheiro',
+      'Save': 'Guardar',
+    } as any);
+    const regional = createDictionary('pt-BR', { file: 'arquivo' }, {
+      'Open the file': 'Abrir o arquivo',
+    } as any);
+
+    const dictionary = new MultiLangDictionary(regional, [base]);
+
+    expect(dictionary.getTranslation('file', 'en', 'pt-BR')).toBe('arquivo');
+    expect(dictionary.getTranslation('user', 'en', 'pt-BR')).toBe('utilizador');
+    expect(dictionary.getTranslation('arquivo', 'pt-BR', 'en')).toBe('file');
+    expect(dictionary.getCommentTranslation('Open the file', 'pt-BR')).toBe('Abrir o arquivo');
+    expect(dictionary.getCommentTranslation('Save', 'pt-BR')).toBe('Guardar');
+    expect(dictionary.getCommentTranslation('Abrir o arquivo', 'en')).toBe('Open the file');
+  });
+
+  describe('DictionaryManager', () => {
+    let manager: DictionaryManager;
+
+    beforeEach(() => {
+      manager = new DictionaryManager();
+      ['pt', 'pt-BR'].forEach(language => manager.delete(ORIGIN, language));
+    });
+
+    afterEach(() => {
+      ['pt', 'pt-BR'].forEach(language => manager.delete(ORIGIN, language));
+    });
+
+    it('should store regional dictionaries under canonical tags and fall back to the base one', async () => {
+      manager.create(ORIGIN, 'pt', { file: 'ficheiro', user: 'utilizador' });
+      const created = manager.create(ORIGIN, 'pt_br', { file: 'arquivo' });
+
+      expect(created.language).toBe('pt-BR');
+      expect(manager.exists(ORIGIN, 'pt-BR')).toBe(true);
+
+      const { dictionary } = await manager.loadMultiLang(ORIGIN, 'en', 'PT-br');
+      expect(dictionary.getLanguage()).toBe('pt-BR');
+      expect(dictionary.getTranslation('file', 'en', 'pt-BR')).toBe('arquivo');
+      expect(dictionary.getTranslation('user', 'en', 'pt-BR')).toBe('utilizador');
+      expect(manager.getTerms(ORIGIN, 'pt-BR')).toEqual({ file: 'arquivo', user: 'utilizador' });
+
+      // The regional cache file only holds regional terms
+      expect(manager.load(ORIGIN, 'pt-BR').terms).toEqual({ file: 'arquivo' });
+    });
+  });
+});
+
+describe('Regional languages', () => {
+  beforeEach(() => {
+    jest.spyOn(settings, 'getI18nSettings').mockReturnValue({
+      translateEnglishOnSave: false,
+      writeProjectDictionary: false,
+      languages: [],
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should name the variant in prompts', () => {
+    const identifiers = buildIdentifierTranslationPrompt(['fileName'], 'en', 'zh-Hant');
+    expect(identifiers).toContain('to Traditional Chinese');
+    expect(identifiers).toContain('Taiwan terminology');
+
+    expect(buildCommentTranslationPrompt(['Open the file'], 'en', 'pt-BR')).toContain('Brazilian Portuguese');
+  });
+
+  it('should derive unregistered variants from the base language', () => {
+    expect(getLanguage('fr-CA')).toMatchObject({ code: 'fr-CA', name: 'French (CA)', script: 'latin' });
+    expect(getLanguage('zh-TW')).toMatchObject({ name: 'Traditional Chinese (TW)', script: 'han' });
+  });
+});
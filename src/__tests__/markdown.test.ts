@@ -0,0 +1,141 @@
+/**
+ * Tests for markdown files
+ *
+ * Covers block extraction with positions and inline markup, and showing a
+ * markdown file translated through the markdown frontend.
+ */
+
+import crypto from 'crypto';
+import { MarkdownExtractor } from '../core/markdownExtractor';
+import { UnifiedTranslator } from '../core/unifiedTranslator';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+import { getFrontendForFile, getSupportedExtensions } from '../frontends';
+import { keepsProtectedSpans } from '../core/segmenter';
+import { TranslationScope } from '../core/types';
+
+const README = [
+  '---',
+  'title: Kawa',
+  '---',
+  '# Getting Started ##',
+  '',
+  'Install the extension and open',
+  'a **project**. See the [guide](docs/guide.md).',
+  '',
+  '- [x] Run `npm install`',
+  '- Scan the project',
+  '',
+  '> Translations are cached.',
+  '',
+  '| Option | Meaning |',
+  '|--------|---------|',
+  '| `scope` | What gets translated |',
+  '',
+  '```bash',
+  'npm run build # Build the extension',
+  '```',
+  '',
+].join('\n');
+
+const JAPANESE: Record<string, string> = {
+  'Getting Started': 'はじめに',
+  'Install the extension and open a **project**.': '拡張機能をインストールし、**プロジェクト**を開きます。',
+  'See the [guide](docs/guide.md).': '[ガイド](docs/guide.md)を参照してください。',
+  'Scan the project': 'プロジェクトをスキャンする',
+  'Translations are cached.': '翻訳はキャッシュされます。',
+  'Option': 'オプション',
+  'Meaning': '意味',
+  'What gets translated': '翻訳される対象',
+};
+
+const SCOPE: TranslationScope = {
+  comments: true,
+  stringLiterals: true,
+  identifiers: true,
+  keywords: false,
+  punctuation: false,
+  markdownFiles: true,
+};
+
+const md5 = (text: string) => crypto.createHash('md5').update(text).digest('hex');
+
+describe('MarkdownExtractor', () => {
+  it('should extract blocks with their positions and inline markup', () => {
+    const blocks = new MarkdownExtractor().extractWithPositions(README);
+
+    expect(blocks.map(block => [block.type, block.text])).toEqual([
+      ['heading', 'Getting Started'],
+      ['paragraph', 'Install the extension and open a **project**. See the [guide](docs/guide.md).'],
+      ['listItem', 'Run `npm install`'],
+      ['listItem', 'Scan the project'],
+      ['blockquote', 'Translations are cached.'],
+      ['tableCell', 'Option'],
+      ['tableCell', 'Meaning'],
+      ['tableCell', 'What gets translated'],
+    ]);
+
+    const paragraph = blocks[1];
+    expect(README.slice(paragraph.pos, paragraph.end)).toBe('Install the extension and open\na **project**. See the [guide](docs/guide.md).');
+    expect(paragraph.line).toBe(6);
+  });
+
+  it('should give the scan the translatable blocks only', () => {
+    const texts = new MarkdownExtractor().extract(`${README}\n- https://example.com/docs\n- OK\n`);
+
+    expect(texts).toContain('Run `npm install`');
+    expect(texts).not.toContain('https://example.com/docs');
+    expect(texts).not.toContain('OK');
+  });
+});
+
+describe('MarkdownFrontend', () => {
+  const dictionary = new MultiLangDictionary({
+    origin: 'github.com:test/repo',
+    language: 'ja',
+    terms: {},
+    comments: Object.fromEntries(Object.entries(JAPANESE).map(([en, ja]) => [md5(en), { en, ja }])),
+    metadata: { createdAt: '', updatedAt: '', version: '1.0.0' },
+  });
+
+  it('should be used for .md files but not scanned as code', () => {
+    expect(getFrontendForFile('docs/README.md')!.id).toBe('markdown');
+    expect(getSupportedExtensions()).not.toContain('.md');
+  });
+
+  it('should show a markdown file translated and keep its structure', () => {
+    const result = new UnifiedTranslator(dictionary).translate(README, 'en', 'ja', SCOPE, 'README.md');
+
+    expect(result.code).toBe([
+      '---',
+      'title: Kawa',
+      '---',
+      '# はじめに ##',
+      '',
+      '拡張機能をインストールし、**プロジェクト**を開きます。[ガイド](docs/guide.md)を参照してください。',
+      '',
+      '- [x] Run `npm install`',
+      '- プロジェクトをスキャンする',
+      '',
+      '> 翻訳はキャッシュされます。',
+      '',
+      '| オプション | 意味 |',
+      '|--------|---------|',
+      '| `scope` | 翻訳される対象 |',
+      '',
+      '```bash',
+      'npm run build # Build the extension',
+      '```',
+      '',
+    ].join('\n'));
+  });
+
+  it('should leave markdown untranslated outside the markdownFiles scope', () => {
+    const result = new UnifiedTranslator(dictionary).translate(README, 'en', 'ja', { ...SCOPE, markdownFiles: false }, 'README.md');
+
+    expect(result.code).toBe(README);
+  });
+
+  it('should reject translations that change link targets', () => {
+    expect(keepsProtectedSpans('See the [guide](docs/guide.md).', '[ガイド](docs/ガイド.md)を参照')).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for the OpenAI-compatible translation backend
+ *
+ * Runs against a local HTTP server that speaks the chat completions API,
+ * so requests, response parsing and retries are exercised end to end.
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleBackend } from '../translation/openai-backend';
+import { OpenAICompatibleSettings } from '../config/settings';
+
+interface ReceivedRequest {
+  path: string;
+  authorization?: string;
+  body: any;
+}
+
+describe('OpenAICompatibleBackend', () => {
+  let server: http.Server;
+  let settings: OpenAICompatibleSettings;
+  let received: ReceivedRequest[];
+  let replies: Array<{ status: number; content: string }>;
+
+  beforeEach(async () => {
+    received = [];
+    replies = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        received.push({ path: req.url!, authorization: req.headers.authorization, body: body ? JSON.parse(body) : undefined });
+
+        if (req.url === '/v1/models') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ data: [{ id: 'test-model' }] }));
+          return;
+        }
+
+        const reply = replies.shift() ?? { status: 500, content: 'no reply configured' };
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(reply.status === 200
+          ? JSON.stringify({ choices: [{ message: { role: 'assistant', content: reply.content } }] })
+          : reply.content);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as AddressInfo;
+    settings = { endpoint: `http://127.0.0.1:${port}/v1/`, model: 'test-model', apiKey: 'secret' };
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should report availability from the models endpoint', async () => {
+    const backend = new OpenAICompatibleBackend(() => settings);
+
+    expect(await backend.isAvailable()).toBe(true);
+    expect(await new OpenAICompatibleBackend(() => ({ ...settings, endpoint: 'http://127.0.0.1:1/v1' })).isAvailable()).toBe(false);
+  });
+
+  it('should send the identifier prompt and parse the numbered list', async () => {
+    replies.push({ status: 200, content: '<think>Two terms.</think>\n1. 計算する\n2. 結果' });
+    const backend = new OpenAICompatibleBackend(() => settings);
+
+    const translations = await backend.translateIdentifiers(['calculate', 'result'], 'en', 'ja');
+
+    expect(translations).toEqual({ calculate: '計算する', result: '結果' });
+    expect(received[0].path).toBe('/v1/chat/completions');
+    expect(received[0].authorization).toBe('Bearer secret');
+    expect(received[0].body.model).toBe('test-model');
+    expect(received[0].body.messages[0].content).toContain('calculate');
+  });
+
+  it('should apply the shared placeholder check to comment translations', async () => {
+    replies.push({ status: 200, content: '1. {1} へ {0} を移動しました\n2. 削除しました' });
+    const backend = new OpenAICompatibleBackend(() => settings);
+
+    const translations = await backend.translateComments(['Moved {0} to {1}', 'Deleted'], 'en', 'ja');
+
+    expect(translations).toEqual({ 'Moved {0} to {1}': 'Moved {0} to {1}', 'Deleted': '削除しました' });
+  });
+
+  it('should retry rate-limited requests', async () => {
+    replies.push({ status: 429, content: 'slow down' }, { status: 200, content: '1. 値' });
+    const backend = new OpenAICompatibleBackend(() => ({ ...settings, apiKey: undefined }));
+    const onProgress = jest.fn();
+
+    // The first retry waits the base backoff delay (2s)
+    expect(await backend.translateText(['value'], 'en', 'ja', onProgress)).toEqual({ value: '値' });
+
+    expect(received).toHaveLength(2);
+    expect(received[0].authorization).toBeUndefined();
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ status: 'retrying', retryAttempt: 1 }));
+  }, 10000);
+});
@@ -0,0 +1,152 @@
+/**
+ * Tests for project dictionaries (.kawa/i18n/<lang>.json)
+ *
+ * Covers discovery from the workspace root, precedence over the user cache,
+ * and the opt-in write-back of new terms and senses.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as settings from '../config/settings';
+import { ProjectDictionary } from '../dictionary/project';
+import { DictionaryManager } from '../dictionary/manager';
+
+const ORIGIN = 'test/project-dictionary-repo';
+
+const writeProjectDictionary = (root: string, content: object) => {
+  const dir = path.join(root, '.kawa', 'i18n');
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'ja.json'), JSON.stringify(content));
+  return path.join(dir, 'ja.json');
+};
+
+describe('ProjectDictionary', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-project-'));
+    fs.mkdirSync(path.join(root, '.git'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should be found from a subdirectory of the repository', () => {
+    const filePath = writeProjectDictionary(root, { terms: {} });
+    const packageDir = path.join(root, 'packages', 'app');
+    fs.mkdirSync(packageDir, { recursive: true });
+
+    expect(ProjectDictionary.find(packageDir, 'ja')?.filePath).toBe(filePath);
+    expect(ProjectDictionary.find(packageDir, 'es')).toBeNull();
+  });
+
+  it('should not look above the repository root', () => {
+    writeProjectDictionary(root, { terms: {} });
+    const nested = path.join(root, 'vendor', 'lib');
+    fs.mkdirSync(path.join(nested, '.git'), { recursive: true });
+
+    expect(ProjectDictionary.find(nested, 'ja')).toBeNull();
+  });
+
+  it('should key comments by their English text on disk', () => {
+    writeProjectDictionary(root, { comments: { 'Add two numbers': '2つの数値を足す' } });
+    const comments = ProjectDictionary.find(root, 'ja')!.getComments();
+
+    expect(Object.values(comments)).toEqual([{ en: 'Add two numbers', ja: '2つの数値を足す' }]);
+  });
+
+  it('should add new entries sorted without overwriting reviewed ones', () => {
+    const filePath = writeProjectDictionary(root, { terms: { user: '利用者' } });
+    const project = ProjectDictionary.find(root, 'ja')!;
+
+    const added = project.add(
+      { value: '値', user: 'ユーザー', count: '件数' },
+      { a1: { en: 'Sum of values', ja: '値の合計' } }
+    );
+
+    expect(added).toBe(3);
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe(
+      '{\n  "terms": {\n    "count": "件数",\n    "user": "利用者",\n    "value": "値"\n  },\n' +
+      '  "comments": {\n    "Sum of values": "値の合計"\n  }\n}\n'
+    );
+  });
+});
+
+describe('DictionaryManager with a project dictionary', () => {
+  let root: string;
+  let manager: DictionaryManager;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-project-'));
+    fs.mkdirSync(path.join(root, '.git'));
+    manager = new DictionaryManager();
+    manager.delete(ORIGIN, 'ja');
+    manager.create(ORIGIN, 'ja', { user: 'ユーザー', total: '合計', value: '値' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    manager.delete(ORIGIN, 'ja');
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should let project entries win over the user cache', async () => {
+    writeProjectDictionary(root, {
+      terms: { user: '利用者', account: '合計' },
+      comments: { 'Add two numbers': '2つの数値を足す' },
+    });
+
+    const { dictionary } = await manager.loadMultiLang(ORIGIN, 'en', 'ja', root);
+
+    expect(dictionary.getTranslation('user', 'en', 'ja')).toBe('利用者');
+    expect(dictionary.getTranslation('account', 'en', 'ja')).toBe('合計');
+    expect(dictionary.getTranslation('total', 'en', 'ja')).toBe('合計2');
+    expect(dictionary.getTranslation('value', 'en', 'ja')).toBe('値');
+    expect(dictionary.getCommentTranslation('Add two numbers', 'ja')).toBe('2つの数値を足す');
+
+    // The cache file itself is left untouched
+    expect(manager.load(ORIGIN, 'ja').terms.user).toBe('ユーザー');
+  });
+
+  it('should only write new terms back when enabled', async () => {
+    const filePath = writeProjectDictionary(root, { terms: { user: '利用者' } });
+    await manager.loadMultiLang(ORIGIN, 'en', 'ja', root);
+
+    manager.addTerms(ORIGIN, 'ja', { count: '件数' });
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8')).terms).toEqual({ user: '利用者' });
+
+    jest.spyOn(settings, 'getI18nSettings').mockReturnValue({
+      translateEnglishOnSave: false,
+      writeProjectDictionary: true,
+      languages: [],
+    });
+    manager.addTerms(ORIGIN, 'ja', { name: '名前' });
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8')).terms).toEqual({ name: '名前', user: '利用者' });
+  });
+
+  it('should keep the senses of earlier scans and write them back', async () => {
+    const filePath = writeProjectDictionary(root, { terms: { user: '利用者' } });
+    await manager.loadMultiLang(ORIGIN, 'en', 'ja', root);
+    jest.spyOn(settings, 'getI18nSettings').mockReturnValue({
+      translateEnglishOnSave: false,
+      writeProjectDictionary: true,
+      languages: [],
+    });
+    const scan = (terms: Record<string, string>, senses: Record<string, string>) => JSON.stringify({
+      origin: ORIGIN,
+      language: 'ja',
+      terms,
+      senses,
+      metadata: { createdAt: '', updatedAt: '', version: '1.0.0' },
+    });
+
+    manager.import(scan({ order: '注文' }, { order: 'purchase order' }));
+    manager.import(scan({ order: '注文', state: '状態' }, { state: 'current condition' }));
+
+    expect(manager.load(ORIGIN, 'ja').senses).toEqual({ order: 'purchase order', state: 'current condition' });
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8')).senses).toEqual({ order: 'purchase order', state: 'current condition' });
+    expect(ProjectDictionary.find(root, 'ja')!.getSenses()).toEqual({ order: 'purchase order', state: 'current condition' });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests for the project glossary (.kawa/i18n/glossary.json)
+ *
+ * Covers the file format and rules per direction, the glossary section of
+ * the identifier prompt, and enforcement after the LLM responds.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectGlossary } from '../dictionary/projectGlossary';
+import { containsTerm, enforceTermRules, TermRules } from '../core/termRules';
+import { buildIdentifierTranslationPrompt } from '../claude/prompts';
+import { translateIdentifiers } from '../claude/translator';
+import { UnifiedTranslator } from '../core/unifiedTranslator';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+import { RoundTripVerifier } from '../core/roundTrip';
+
+const RULES: TermRules = {
+  keep: ['Kawa', 'userId'],
+  translations: { invoice: '請求書' },
+  forbidden: ['ユーザ'],
+};
+
+describe('ProjectGlossary', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-glossary-'));
+    fs.mkdirSync(path.join(root, '.git'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should create the file at the repository root on the first entry', () => {
+    const packageDir = path.join(root, 'packages', 'app');
+    fs.mkdirSync(packageDir, { recursive: true });
+
+    const glossary = ProjectGlossary.forWorkspace(packageDir);
+    glossary.setEntry('translation', 'invoice', 'ja', '請求書');
+    glossary.setEntry('doNotTranslate', 'Kawa');
+
+    expect(glossary.filePath).toBe(path.join(root, '.kawa', 'i18n', 'glossary.json'));
+    expect(JSON.parse(fs.readFileSync(glossary.filePath, 'utf-8'))).toEqual({
+      doNotTranslate: ['Kawa'],
+      translations: { ja: { invoice: '請求書' } },
+      forbidden: {},
+    });
+    expect(() => glossary.setEntry('forbidden', 'ユーザ')).toThrow('Missing language');
+  });
+
+  it('should give rules for both directions and use base language entries', () => {
+    const glossary = ProjectGlossary.forWorkspace(root);
+    glossary.setEntry('translation', 'invoice', 'pt', 'fatura');
+    glossary.setEntry('translation', 'invoice', 'pt-BR', 'nota fiscal');
+    glossary.setEntry('translation', 'order', 'pt', 'pedido');
+    glossary.setEntry('forbidden', 'usuario', 'pt');
+
+    expect(glossary.getRules('en', 'pt-BR')).toEqual({
+      keep: [],
+      translations: { invoice: 'nota fiscal', order: 'pedido' },
+      forbidden: ['usuario'],
+    });
+    expect(glossary.getRules('pt', 'en').translations).toEqual({ fatura: 'invoice', pedido: 'order' });
+
+    expect(glossary.removeEntry('translation', 'order', 'pt')).toBe(true);
+    expect(glossary.removeEntry('translation', 'order', 'pt')).toBe(false);
+  });
+});
+
+describe('term rules', () => {
+  it('should match cased terms as words and caseless terms as substrings', () => {
+    expect(containsTerm('KawaClient', 'Kawa')).toBe(true);
+    expect(containsTerm('kawa_client', 'Kawa')).toBe(true);
+    expect(containsTerm('getUserIdList', 'userId')).toBe(true);
+    expect(containsTerm('kawaiiClient', 'Kawa')).toBe(false);
+    expect(containsTerm('ユーザ一覧', 'ユーザ')).toBe(true);
+  });
+
+  it('should reject translations that break the rules', () => {
+    const { translations, rejected } = enforceTermRules({
+      KawaClient: 'カワクライアント',
+      sendInvoice: '送信請求書',
+      getUser: 'ユーザを取得',
+      invoice: '請求',
+      getUserIdList: 'userIdリストを取得',
+    }, RULES);
+
+    expect(translations).toEqual({
+      KawaClient: 'KawaClient',
+      sendInvoice: '送信請求書',
+      getUser: 'getUser',
+      invoice: '請求書',
+      getUserIdList: 'userIdリストを取得',
+    });
+    expect(rejected.map(entry => entry.term)).toEqual(['KawaClient', 'getUser']);
+  });
+});
+
+describe('glossary in identifier translation', () => {
+  it('should add the relevant rules to the prompt', () => {
+    const prompt = buildIdentifierTranslationPrompt(['KawaClient'], 'en', 'ja', RULES);
+
+    expect(prompt).toContain('PROJECT GLOSSARY');
+    expect(prompt.indexOf('PROJECT GLOSSARY')).toBeLessThan(prompt.indexOf('Terms to translate:'));
+    expect(prompt).toContain('invoice → 請求書');
+    expect(buildIdentifierTranslationPrompt(['KawaClient'], 'en', 'ja')).not.toContain('PROJECT GLOSSARY');
+  });
+
+  it('should not send fixed terms and should keep rejected translations unchanged', async () => {
+    const prompts: string[] = [];
+    const callLLM = async (prompt: string) => {
+      prompts.push(prompt);
+      return '1. カワクライアント\n2. 合計を計算する';
+    };
+
+    const translations = await translateIdentifiers(
+      ['Kawa', 'invoice', 'KawaClient', 'calculateTotal'], 'en', 'ja', undefined, RULES, callLLM
+    );
+
+    expect(translations).toEqual({
+      Kawa: 'Kawa',
+      invoice: '請求書',
+      KawaClient: 'KawaClient',
+      calculateTotal: '合計を計算する',
+    });
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).not.toMatch(/^\d+\. invoice$/m);
+  });
+
+  it('should let the glossary win over the dictionary when translating code', () => {
+    const dictionary = new MultiLangDictionary({
+      origin: 'github.com:test/repo',
+      language: 'ja',
+      terms: { Kawa: 'カワ', invoice: '請求', total: '合計' },
+      metadata: { createdAt: '', updatedAt: '', version: '1.0.0' },
+    });
+    const translator = new UnifiedTranslator(dictionary, RULES);
+
+    const result = translator.translate('const total = invoice(Kawa);', 'en', 'ja');
+
+    expect(result.code).toContain('const 合計 = 請求書(Kawa);');
+    expect(result.unmappedTokens).not.toContain('Kawa');
+  });
+
+  it('should verify a save using a fixed translation with the reverse rules', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-glossary-'));
+    fs.mkdirSync(path.join(root, '.git'));
+    try {
+      const glossary = ProjectGlossary.forWorkspace(root);
+      glossary.setEntry('translation', 'invoice', 'ja', '請求書');
+      const dictionary = new MultiLangDictionary({
+        origin: 'github.com:test/repo',
+        language: 'ja',
+        terms: { invoice: 'インボイス', total: '合計' },
+        metadata: { createdAt: '', updatedAt: '', version: '1.0.0' },
+      });
+      const japanese = 'const 合計 = 請求書();';
+
+      const english = new UnifiedTranslator(dictionary, glossary.getRules('ja', 'en')).translate(japanese, 'ja', 'en').code;
+      const report = new RoundTripVerifier(new UnifiedTranslator(dictionary, glossary.getRules('en', 'ja')))
+        .verify(japanese, english, 'ja', 'en');
+
+      expect(english).toBe('const total = invoice();');
+      expect(report.ok).toBe(true);
+      expect(report.roundTripCode).toBe(japanese);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
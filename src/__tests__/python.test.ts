@@ -0,0 +1,172 @@
+/**
+ * Tests for Python source support
+ *
+ * Covers the tokenizer-based identifier/comment extraction and translation
+ * of def/class/param names, # comments, docstrings and f-strings.
+ */
+
+import crypto from 'crypto';
+import { PythonTokenizer } from '../core/pythonTokenizer';
+import { IdentifierExtractor } from '../core/identifierExtractor';
+import { CommentExtractor } from '../core/commentExtractor';
+import { UnifiedTranslator } from '../core/unifiedTranslator';
+import { RoundTripVerifier } from '../core/roundTrip';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+import { Dictionary } from '../core/types';
+
+const createDictionary = (
+  terms: Record<string, string>,
+  comments: Record<string, { en: string; [key: string]: string }> = {}
+): Dictionary => ({
+  origin: 'github.com:test/repo',
+  language: 'ja',
+  terms,
+  comments,
+  metadata: {
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: '1.0.0',
+  },
+});
+
+const hash = (text: string) => crypto.createHash('md5').update(text.trim()).digest('hex');
+
+const SOURCE = `import os
+from .models import Order
+
+# Compute the order total
+class Cart:
+    """Shopping cart."""
+
+    def __init__(self, owner):
+        self.items = []
+        self.owner = owner
+
+    def total(self, tax_rate=0.1):
+        """Sum all items.
+
+        Includes tax.
+        """
+        subtotal = sum(item.price for item in self.items)
+        path = os.path.join("carts", self.owner)
+        return f"{self.owner}: {subtotal * (1 + tax_rate):.2f}"
+`;
+
+describe('PythonTokenizer', () => {
+  const tokenizer = new PythonTokenizer();
+
+  it('should tokenize strings, comments and f-string fields', () => {
+    const tokens = tokenizer.tokenize(`x = f"{value!r} {{literal}}"  # note\ny = 'a#b'`);
+
+    const fString = tokens.find(t => t.kind === 'string' && t.prefix === 'f')!;
+    expect(fString.fields!.map(t => t.text)).toEqual(['value']);
+    expect(tokens.filter(t => t.kind === 'comment').map(t => t.text)).toEqual(['# note']);
+    expect(tokens.filter(t => t.kind === 'newline')).toHaveLength(1);
+    expect(tokens[tokens.length - 1].text).toBe(`'a#b'`);
+  });
+
+  it('should classify declarations and external names', () => {
+    const { names } = tokenizer.analyze(SOURCE);
+    const role = (text: string) => names.find(n => n.text === text)?.role;
+
+    expect(role('Cart')).toBe('class');
+    expect(role('total')).toBe('method');
+    expect(role('owner')).toBe('parameter');
+    expect(role('tax_rate')).toBe('parameter');
+    expect(role('items')).toBe('property');
+    expect(role('subtotal')).toBe('variable');
+    expect(names.filter(n => n.text === 'join').every(n => n.external)).toBe(true);
+    expect(names.filter(n => n.text === 'models').every(n => n.role === 'module')).toBe(true);
+    expect(names.find(n => n.text === 'Order')!.external).toBe(false);
+  });
+});
+
+describe('Python extraction', () => {
+  it('should extract def/class/param names', () => {
+    const names = new IdentifierExtractor().extractNames(SOURCE, 'cart.py');
+
+    expect(names).toEqual(expect.arrayContaining(['Cart', 'total', 'owner', 'tax_rate', 'items', 'subtotal']));
+    expect(names).not.toContain('os');
+    expect(names).not.toContain('self');
+    expect(names).not.toContain('__init__');
+  });
+
+  it('should extract # comments and docstrings', () => {
+    const comments = new CommentExtractor().extract(SOURCE, 'cart.py');
+
+    expect(comments).toEqual([
+      'Compute the order total',
+      'Shopping cart.',
+      'Sum all items.\n\nIncludes tax.',
+    ]);
+  });
+});
+
+describe('Python translation', () => {
+  const dictionary = new MultiLangDictionary(createDictionary(
+    {
+      'Cart': 'カート',
+      'owner': '所有者',
+      'items': '品目',
+      'total': '合計',
+      'tax_rate': '税率',
+      'subtotal': '小計',
+      'join': '結合',
+      'json': 'ジェイソン',
+    },
+    {
+      [hash('Shopping cart.')]: { en: 'Shopping cart.', ja: 'ショッピングカート。' },
+      [hash('Compute the order total')]: { en: 'Compute the order total', ja: '注文合計を計算する' },
+      [hash('Sum all items.\n\nIncludes tax.')]: { en: 'Sum all items.\n\nIncludes tax.', ja: '全品目を合計する。\n\n税込み。' },
+    }
+  ));
+  const translator = new UnifiedTranslator(dictionary);
+
+  it('should translate project names but keep imported and built-in names', () => {
+    const result = translator.translate(SOURCE, 'en', 'ja', undefined, 'cart.py');
+
+    expect(result.code).toContain('class カート:');
+    expect(result.code).toContain('def 合計(self, 税率=0.1):');
+    expect(result.code).toContain('self.品目 = []');
+    expect(result.code).toContain('os.path.join("carts", self.所有者)');
+    expect(result.code).toContain('f"{self.所有者}: {小計 * (1 + 税率):.2f}"');
+    expect(result.code).toContain('def __init__(self, 所有者):');
+  });
+
+  it('should keep attributes of values returned by packages', () => {
+    const code = [
+      'from .models import Cart',
+      'import requests as rq',
+      '',
+      'r = rq.get(url)',
+      'data = r.json()',
+      'owner = rq.get(url).json().owner',
+      'print(f"{r.json()}")',
+      'cart = Cart()',
+      'cart.total(cart.items)',
+      '',
+    ].join('\n');
+    const result = translator.translate(code, 'en', 'ja', undefined, 'cart.py');
+
+    expect(result.code).toContain('data = r.json()');
+    expect(result.code).toContain('所有者 = rq.get(url).json().owner');
+    expect(result.code).toContain('print(f"{r.json()}")');
+    expect(result.code).toContain('cart = カート()\ncart.合計(cart.品目)');
+  });
+
+  it('should translate comments and docstrings keeping their delimiters', () => {
+    const result = translator.translate(SOURCE, 'en', 'ja', undefined, 'cart.py');
+
+    expect(result.code).toContain('# 注文合計を計算する');
+    expect(result.code).toContain('    """ショッピングカート。"""');
+    expect(result.code).toContain('        """全品目を合計する。\n\n        税込み。\n        """');
+  });
+
+  it('should round-trip EN→JA→EN', () => {
+    const japanese = translator.translate(SOURCE, 'en', 'ja', undefined, 'cart.py');
+    const report = new RoundTripVerifier(translator).verify(SOURCE, japanese.code, 'en', 'ja', undefined, 'cart.py');
+
+    expect(report.ok).toBe(true);
+    expect(report.roundTripCode).toBe(SOURCE);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Tests for Hebrew and other right-to-left languages
+ *
+ * Covers script detection, prompts, and translating code to Hebrew and back.
+ */
+
+import { detectLanguage } from '../intent/handlers';
+import { buildIdentifierTranslationPrompt } from '../claude/prompts';
+import { UnifiedTranslator } from '../core/unifiedTranslator';
+import { RoundTripVerifier } from '../core/roundTrip';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+import { Dictionary } from '../core/types';
+
+const createDictionary = (terms: Record<string, string>): Dictionary => ({
+  origin: 'github.com:test/repo',
+  language: 'he',
+  terms,
+  metadata: {
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: '1.0.0',
+  },
+});
+
+describe('RTL language detection', () => {
+  it('should recognise Hebrew and Arabic script', () => {
+    expect(detectLanguage('הוספת בדיקות יחידה')).toBe('he');
+    expect(detectLanguage('Fix חישוב המחיר')).toBe('he');
+    expect(detectLanguage('إضافة اختبارات')).toBe('ar');
+    expect(detectLanguage('Add unit tests')).toBe('en');
+  });
+});
+
+describe('Hebrew translation', () => {
+  const dictionary = new MultiLangDictionary(createDictionary({
+    calculateTotal: 'חשבסכום',
+    price: 'מחיר',
+    quantity: 'כמות',
+  }));
+  const translator = new UnifiedTranslator(dictionary);
+  const code = 'function calculateTotal(price: number, quantity: number) {\n  return price * quantity;\n}\n';
+
+  it('should name Hebrew in prompts', () => {
+    expect(buildIdentifierTranslationPrompt(['price'], 'en', 'he')).toContain('to Hebrew');
+  });
+
+  it('should translate identifiers to Hebrew and back', () => {
+    const hebrew = translator.translate(code, 'en', 'he');
+    const report = new RoundTripVerifier(translator).verify(code, hebrew.code, 'en', 'he');
+
+    expect(hebrew.code).toBe('function חשבסכום(מחיר: number, כמות: number) {\n  return מחיר * כמות;\n}\n');
+    expect(report.ok).toBe(true);
+    expect(report.roundTripCode).toBe(code);
+  });
+});
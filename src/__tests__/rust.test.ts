@@ -0,0 +1,170 @@
+/**
+ * Tests for Rust source support
+ *
+ * Covers the lexer (comments, raw strings, lifetimes), name classification
+ * (fields, parameters, pattern bindings, generics, external trait items) and
+ * translation of .rs files with a round trip.
+ */
+
+import crypto from 'crypto';
+import { RustLexer } from '../core/rustLexer';
+import { IdentifierExtractor } from '../core/identifierExtractor';
+import { CommentExtractor } from '../core/commentExtractor';
+import { UnifiedTranslator } from '../core/unifiedTranslator';
+import { RoundTripVerifier } from '../core/roundTrip';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+import { Dictionary } from '../core/types';
+
+const createDictionary = (
+  terms: Record<string, string>,
+  comments: Record<string, { en: string; [key: string]: string }> = {}
+): Dictionary => ({
+  origin: 'github.com:test/repo',
+  language: 'ja',
+  terms,
+  comments,
+  metadata: {
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: '1.0.0',
+  },
+});
+
+const hash = (text: string) => crypto.createHash('md5').update(text.trim()).digest('hex');
+
+const SOURCE = `use std::fmt;
+
+/// A shopping cart
+pub struct Cart<Currency> {
+    owner: String,
+    total: u32,
+    currency: Currency,
+}
+
+impl<Currency> Cart<Currency> {
+    // Add an item price
+    pub fn add(&mut self, price: u32) -> u32 {
+        let (before, after) = (self.total, self.total + price);
+        self.total = after;
+        println!("{before} -> {after}");
+        match self.total.checked_sub(before) {
+            Some(added) if added > 0 => added,
+            _ => 0,
+        }
+    }
+}
+
+impl<Currency> fmt::Display for Cart<Currency> {
+    fn fmt(&self, formatter: &mut fmt::Formatter) -> fmt::Result {
+        write!(formatter, "{}", self.owner)
+    }
+}
+`;
+
+describe('RustLexer', () => {
+  const lexer = new RustLexer();
+
+  it('should tokenize nested comments, raw strings, chars and lifetimes', () => {
+    const tokens = lexer.tokenize(`/* outer /* inner */ */ let s: &'static str = r#"a "quoted" // b"#; let c = '"';`);
+
+    expect(tokens[0]).toMatchObject({ kind: 'comment', text: '/* outer /* inner */ */' });
+    expect(tokens.find(t => t.kind === 'lifetime')!.text).toBe(`'static`);
+    expect(tokens.find(t => t.kind === 'string')).toMatchObject({ text: 'r#"a "quoted" // b"#', open: 'r#"', close: '"#' });
+    expect(tokens.find(t => t.kind === 'char')!.text).toBe(`'"'`);
+  });
+
+  it('should classify declarations and external names', () => {
+    const { names } = lexer.analyze(SOURCE);
+    const role = (text: string) => names.find(n => n.text === text)?.role;
+
+    expect(role('Cart')).toBe('struct');
+    expect(role('Currency')).toBe('generic');
+    expect(role('owner')).toBe('field');
+    expect(role('price')).toBe('parameter');
+    expect(role('before')).toBe('variable');
+    expect(role('added')).toBe('variable');
+    expect(names.find(n => n.text === 'fmt' && n.role === 'method')!.external).toBe(true);
+    // self.total is a u32: its methods belong to the standard library
+    expect(names.filter(n => n.text === 'checked_sub').every(n => n.external)).toBe(true);
+    expect(names.filter(n => n.text === 'total' && n.role === 'member').every(n => !n.external)).toBe(true);
+    expect(names.filter(n => n.text === 'Formatter').every(n => n.external)).toBe(true);
+  });
+});
+
+describe('Rust extraction', () => {
+  it('should extract fields, parameters, bindings and generics', () => {
+    const names = new IdentifierExtractor().extractNames(SOURCE, 'cart.rs');
+
+    expect(names).toEqual(expect.arrayContaining(['Cart', 'Currency', 'owner', 'total', 'add', 'price', 'before', 'after', 'added', 'formatter']));
+    expect(names).not.toContain('fmt');
+    expect(names).not.toContain('Formatter');
+  });
+
+  it('should extract line, doc and block comments', () => {
+    const comments = new CommentExtractor().extract(SOURCE, 'cart.rs');
+
+    expect(comments).toEqual(['A shopping cart', 'Add an item price']);
+  });
+});
+
+describe('Rust translation', () => {
+  const dictionary = new MultiLangDictionary(createDictionary(
+    {
+      'Cart': 'カート',
+      'owner': '所有者',
+      'total': '合計',
+      'add': '追加',
+      'price': '価格',
+      'before': '前',
+      'after': '後',
+      'added': '追加分',
+      'fmt': '書式',
+    },
+    {
+      [hash('A shopping cart')]: { en: 'A shopping cart', ja: 'ショッピングカート' },
+      [hash('Add an item price')]: { en: 'Add an item price', ja: '商品の価格を足す' },
+    }
+  ));
+  const translator = new UnifiedTranslator(dictionary);
+
+  it('should translate project names, format arguments and comments', () => {
+    const result = translator.translate(SOURCE, 'en', 'ja', undefined, 'cart.rs');
+
+    expect(result.code).toContain('/// ショッピングカート\npub struct カート<Currency> {');
+    expect(result.code).toContain('    // 商品の価格を足す\n    pub fn 追加(&mut self, 価格: u32) -> u32 {');
+    expect(result.code).toContain('println!("{前} -> {後}");');
+    expect(result.code).toContain('Some(追加分) if 追加分 > 0 => 追加分,');
+    expect(result.code).toContain('fn fmt(&self, formatter: &mut fmt::Formatter) -> fmt::Result {');
+  });
+
+  it('should only rename members of project types', () => {
+    const code = [
+      'struct Counter {',
+      '    count: usize,',
+      '}',
+      '',
+      'fn tally(counter: &Counter, items: Vec<u32>) -> usize {',
+      '    let total = Counter { count: 0 };',
+      '    items.iter().map(|item| item + 1).count() + counter.count + total.count',
+      '}',
+      '',
+    ].join('\n');
+    const result = new UnifiedTranslator(new MultiLangDictionary(createDictionary({
+      'Counter': 'カウンター',
+      'count': '数',
+      'iter': '反復',
+      'map': '写像',
+    }))).translate(code, 'en', 'ja', undefined, 'counter.rs');
+
+    expect(result.code).toContain('    数: usize,');
+    expect(result.code).toContain('items.iter().map(|item| item + 1).count() + counter.数 + total.数');
+  });
+
+  it('should round-trip EN→JA→EN', () => {
+    const japanese = translator.translate(SOURCE, 'en', 'ja', undefined, 'cart.rs');
+    const report = new RoundTripVerifier(translator).verify(SOURCE, japanese.code, 'en', 'ja', undefined, 'cart.rs');
+
+    expect(report.ok).toBe(true);
+    expect(report.roundTripCode).toBe(SOURCE);
+  });
+});
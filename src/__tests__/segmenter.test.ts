@@ -0,0 +1,99 @@
+/**
+ * Tests for sentence segmentation
+ *
+ * Covers splitting comments into sentences and JSDoc tags, putting
+ * translations back together, and sentence-level dictionary lookups.
+ */
+
+import crypto from 'crypto';
+import { getSentences, keepsProtectedSpans, segmentText, translateSegments } from '../core/segmenter';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+import { translateComments } from '../claude/translator';
+
+const JSDOC = [
+  'Load the user profile from the cache. Falls back to the API,',
+  'see https://example.com/docs. Use {@link saveProfile} to store it.',
+  '',
+  '@param {string} userId - The user to load. Must exist.',
+  '@returns The profile, e.g. the cached one',
+  '@example',
+  "loadProfile('42'). then(print)",
+].join('\n');
+
+const JAPANESE: Record<string, string> = {
+  'Load the user profile from the cache.': 'キャッシュからユーザープロフィールを読み込む。',
+  'Falls back to the API, see https://example.com/docs.': 'なければAPIを使う（https://example.com/docs を参照）。',
+  'Use {@link saveProfile} to store it.': '保存には{@link saveProfile}を使う。',
+  'The user to load.': '読み込むユーザー。',
+  'Must exist.': '存在すること。',
+  'The profile, e.g. the cached one': 'プロフィール（キャッシュされたものなど）',
+};
+
+const md5 = (text: string) => crypto.createHash('md5').update(text).digest('hex');
+
+describe('segmentText', () => {
+  it('should split descriptions into sentences and keep tags and examples', () => {
+    expect(getSentences(JSDOC)).toEqual(Object.keys(JAPANESE));
+
+    const fixed = segmentText(JSDOC).filter(segment => segment.kind === 'fixed').map(segment => segment.text);
+    expect(fixed).toContain('@param {string} userId - ');
+    expect(fixed).toContain('@returns ');
+    expect(fixed).toContain("loadProfile('42'). then(print)");
+  });
+
+  it('should keep list items, fenced code and CJK sentences apart', () => {
+    const text = 'Options:\n- Retry on failure\n- Log errors\n```\nrun(). Then stop.\n```';
+    expect(getSentences(text)).toEqual(['Options:', 'Retry on failure', 'Log errors']);
+
+    expect(getSentences('設定を読み込む。失敗したら再試行する。')).toEqual(['設定を読み込む。', '失敗したら再試行する。']);
+    expect(getSentences('Load the\nsettings. Then\nretry.')).toEqual(['Load the settings.', 'Then retry.']);
+    expect(getSentences('設定を読み込み、\n失敗したら再試行する。')).toEqual(['設定を読み込み、失敗したら再試行する。']);
+  });
+
+  it('should put translated sentences back together', () => {
+    const translated = translateSegments(JSDOC, 'ja', sentence => JAPANESE[sentence]);
+
+    expect(translated).toBe([
+      'キャッシュからユーザープロフィールを読み込む。なければAPIを使う（https://example.com/docs を参照）。保存には{@link saveProfile}を使う。',
+      '',
+      '@param {string} userId - 読み込むユーザー。存在すること。',
+      '@returns プロフィール（キャッシュされたものなど）',
+      '@example',
+      "loadProfile('42'). then(print)",
+    ].join('\n'));
+    expect(translateSegments(JSDOC, 'ja', sentence => sentence === 'Must exist.' ? undefined : JAPANESE[sentence])).toBeUndefined();
+  });
+
+  it('should reject translations that change code, links or URLs', () => {
+    expect(keepsProtectedSpans('Call `save()` first', '先に`save()`を呼ぶ')).toBe(true);
+    expect(keepsProtectedSpans('Call `save()` first', '先に`保存()`を呼ぶ')).toBe(false);
+    expect(keepsProtectedSpans('Use {@link Foo}', '{@link フー}を使う')).toBe(false);
+  });
+});
+
+describe('sentence-level translation', () => {
+  it('should reuse cached sentences for comments without an entry of their own', () => {
+    const dictionary = new MultiLangDictionary({
+      origin: 'github.com:test/repo',
+      language: 'ja',
+      terms: {},
+      comments: {
+        [md5('Load the settings.')]: { en: 'Load the settings.', ja: '設定を読み込む。' },
+        [md5('Retry on failure.')]: { en: 'Retry on failure.', ja: '失敗したら再試行する。' },
+      },
+      metadata: { createdAt: '', updatedAt: '', version: '1.0.0' },
+    });
+
+    expect(dictionary.getCommentTranslation('Load the settings. Retry on failure.', 'ja')).toBe('設定を読み込む。失敗したら再試行する。');
+    expect(dictionary.getCommentTranslation('設定を読み込む。失敗したら再試行する。', 'en')).toBe('Load the settings. Retry on failure.');
+    expect(dictionary.getCommentTranslation('Load the settings. Then exit.', 'ja')).toBeUndefined();
+  });
+
+  it('should keep comments whose translation changed inline code untranslated', async () => {
+    const callLLM = async () => '1. 先に`保存()`を呼ぶ\n2. 設定を読み込む';
+
+    const translations = await translateComments(['Call `save()` first', 'Load the settings'], 'en', 'ja', undefined, {}, callLLM);
+
+    expect(translations).toEqual({ 'Call `save()` first': 'Call `save()` first', 'Load the settings': '設定を読み込む' });
+  });
+});
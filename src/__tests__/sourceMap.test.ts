@@ -0,0 +1,155 @@
+/**
+ * Tests for source maps
+ *
+ * Covers recording replacements as segments and spans, looking positions up
+ * in both directions, and the source map returned with a translation.
+ */
+
+import crypto from 'crypto';
+import { applyReplacementsWithSourceMap, SourceMap } from '../core/sourceMap';
+import { UnifiedTranslator } from '../core/unifiedTranslator';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+import { applyReplacements, TextReplacement } from '../frontends';
+import { SourceMapSegment, TextPosition, TranslationScope } from '../core/types';
+
+const md5 = (text: string) => crypto.createHash('md5').update(text).digest('hex');
+
+/** Offset of a position in a text */
+function offsetOf(text: string, position: TextPosition): number {
+  const lines = text.split('\n');
+  return lines.slice(0, position.line - 1).reduce((sum, line) => sum + line.length + 1, 0) + position.column;
+}
+
+/** Texts between the segments, which must be the same in both versions */
+function unchangedTexts(text: string, segments: SourceMapSegment[], side: 'original' | 'translated'): string[] {
+  const texts: string[] = [];
+  let cursor = 0;
+  for (const segment of segments) {
+    texts.push(text.slice(cursor, offsetOf(text, segment[side].start)));
+    cursor = offsetOf(text, segment[side].end);
+  }
+  texts.push(text.slice(cursor));
+  return texts;
+}
+
+describe('applyReplacementsWithSourceMap', () => {
+  it('should apply replacements and record each one as a segment', () => {
+    const source = 'const total = 0; // Sum';
+    const replacements: TextReplacement[] = [
+      { start: 17, end: 23, newText: '// 合計', oldText: '// Sum' },
+      { start: 6, end: 11, newText: '合計', oldText: 'total' },
+    ];
+
+    const { code, sourceMap } = applyReplacementsWithSourceMap(source, replacements);
+
+    expect(code).toBe(applyReplacements(source, replacements));
+    expect(sourceMap).toEqual([
+      { original: { start: { line: 1, column: 6 }, end: { line: 1, column: 11 } }, translated: { start: { line: 1, column: 6 }, end: { line: 1, column: 8 } } },
+      { original: { start: { line: 1, column: 17 }, end: { line: 1, column: 23 } }, translated: { start: { line: 1, column: 14 }, end: { line: 1, column: 19 } } },
+    ]);
+  });
+
+  it('should return replacements with a kind as spans', () => {
+    const source = 'let a = 0;  // A';
+    const { sourceMap, spans } = applyReplacementsWithSourceMap(source, [
+      { start: 4, end: 5, newText: '甲', oldText: 'a', kind: 'identifier' },
+      { start: 10, end: 12, newText: ' ', oldText: '  ' },
+      { start: 12, end: 16, newText: '// A', oldText: '// A', kind: 'comment' },
+    ]);
+
+    expect(sourceMap).toHaveLength(2);
+    expect(spans).toEqual([{
+      kind: 'identifier',
+      original: { start: { line: 1, column: 4 }, end: { line: 1, column: 5 } },
+      translated: { start: { line: 1, column: 4 }, end: { line: 1, column: 5 } },
+      originalText: 'a',
+      translatedText: '甲',
+    }]);
+  });
+});
+
+describe('SourceMap', () => {
+  const source = ['/** Load */', 'function load() {', '  return 1;', '}'].join('\n');
+  const { code, sourceMap } = applyReplacementsWithSourceMap(source, [
+    { start: 0, end: 11, newText: '/**\n * 読み込む\n * ユーザーを\n */', oldText: '/** Load */' },
+    { start: 21, end: 25, newText: '読込', oldText: 'load' },
+  ]);
+  const map = new SourceMap(sourceMap);
+
+  it('should move positions after a comment that gained lines', () => {
+    expect(code.split('\n')[4]).toBe('function 読込() {');
+    expect(map.toTranslated({ line: 2, column: 15 })).toEqual({ line: 5, column: 13 });
+    expect(map.toOriginal({ line: 5, column: 13 })).toEqual({ line: 2, column: 15 });
+    expect(map.toTranslatedLine(3)).toBe(6);
+    expect(map.toOriginalLine(6)).toBe(3);
+  });
+
+  it('should map positions inside a replacement to the replacement', () => {
+    expect(map.toOriginalLine(3)).toBe(1);
+    expect(map.toTranslated({ line: 2, column: 11 })).toEqual({ line: 5, column: 9 });
+    expect(map.toTranslated({ line: 1, column: 0 })).toEqual({ line: 1, column: 0 });
+  });
+});
+
+describe('UnifiedTranslator source map', () => {
+  const dictionary = new MultiLangDictionary({
+    origin: 'github.com:test/repo',
+    language: 'ja',
+    terms: { calculateTotal: '合計を計算', items: '商品' },
+    comments: { [md5('Sum the prices')]: { en: 'Sum the prices', ja: '価格を合計する\n（税込み）' } },
+    metadata: { createdAt: '', updatedAt: '', version: '1.0.0' },
+  });
+  const source = [
+    '// Sum the prices',
+    'function calculateTotal(items: number[]): number {',
+    '  return items.reduce((a, b) => a + b, 0);',
+    '}',
+  ].join('\n');
+  const scope: TranslationScope = {
+    comments: true, stringLiterals: false, identifiers: true, keywords: true, punctuation: true, markdownFiles: false,
+  };
+
+  it('should keep the text between segments the same in both versions', () => {
+    const result = new UnifiedTranslator(dictionary).translate(source, 'en', 'ja', { ...scope, punctuation: false });
+
+    expect(result.code).toContain('関数 合計を計算');
+    expect(unchangedTexts(result.code, result.sourceMap!, 'translated'))
+      .toEqual(unchangedTexts(source, result.sourceMap!, 'original'));
+  });
+
+  it('should not move positions for punctuation of the same length', () => {
+    const translator = new UnifiedTranslator(dictionary);
+
+    const withPunctuation = translator.translate(source, 'en', 'ja', scope);
+    const without = translator.translate(source, 'en', 'ja', { ...scope, punctuation: false });
+
+    expect(withPunctuation.code).toContain('（');
+    expect(withPunctuation.sourceMap).toEqual(without.sourceMap);
+  });
+
+  it('should map lines past a translated comment that gained a line', () => {
+    const result = new UnifiedTranslator(dictionary).translate(source, 'en', 'ja', { ...scope, keywords: false, punctuation: false });
+    const map = new SourceMap(result.sourceMap!);
+
+    expect(result.code.split('\n')[3]).toBe('  return 商品.reduce((a, b) => a + b, 0);');
+    expect(map.toTranslatedLine(3)).toBe(4);
+    expect(map.toOriginal({ line: 4, column: 9 })).toEqual({ line: 3, column: 9 });
+  });
+
+  it('should return the translated identifiers, comments and keywords as spans', () => {
+    const result = new UnifiedTranslator(dictionary).translate(source, 'en', 'ja', { ...scope, punctuation: false });
+
+    expect(result.spans!.map(span => [span.kind, span.originalText, span.translatedText])).toEqual([
+      ['comment', '// Sum the prices', '// 価格を合計する\n// （税込み）'],
+      ['keyword', 'function', '関数'],
+      ['identifier', 'calculateTotal', '合計を計算'],
+      ['identifier', 'items', '商品'],
+      ['keyword', 'return', '返す'],
+      ['identifier', 'items', '商品'],
+    ]);
+    for (const span of result.spans!) {
+      const { start, end } = span.translated;
+      expect(result.code.slice(offsetOf(result.code, start), offsetOf(result.code, end))).toBe(span.translatedText);
+    }
+  });
+});
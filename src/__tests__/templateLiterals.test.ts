@@ -0,0 +1,117 @@
+/**
+ * Tests for template literal translation
+ *
+ * Template literals are translated as one message with {0}-style
+ * placeholders; translations that drop or reorder placeholders are rejected.
+ */
+
+import crypto from 'crypto';
+import { getPlaceholders, hasSamePlaceholders, splitMessage, toMessage } from '../core/messageFormat';
+import { UnifiedTranslator } from '../core/unifiedTranslator';
+import { RoundTripVerifier } from '../core/roundTrip';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+import { Dictionary, TranslationScope } from '../core/types';
+
+const createDictionary = (
+  terms: Record<string, string>,
+  comments: Record<string, { en: string; [key: string]: string }> = {}
+): Dictionary => ({
+  origin: 'github.com:test/repo',
+  language: 'ja',
+  terms,
+  comments,
+  metadata: {
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: '1.0.0',
+  },
+});
+
+const message = (en: string, ja: string) => ({
+  [crypto.createHash('md5').update(en.trim()).digest('hex')]: { en, ja },
+});
+
+const SCOPE: TranslationScope = {
+  comments: true,
+  stringLiterals: true,
+  identifiers: true,
+  keywords: false,
+  punctuation: false,
+  markdownFiles: false,
+};
+
+describe('Message format', () => {
+  it('should join and split template parts around placeholders', () => {
+    expect(toMessage(['Deleted ', ' files from ', ''])).toBe('Deleted {0} files from {1}');
+    expect(toMessage(['Use {0} here ', ''])).toBeUndefined();
+    expect(splitMessage('{0} 件を {1} から削除', 2)).toEqual(['', ' 件を ', ' から削除']);
+    expect(splitMessage('{1} から {0} 件を削除', 2)).toBeUndefined();
+    expect(splitMessage('削除しました', 2)).toBeUndefined();
+  });
+
+  it('should compare placeholders in order', () => {
+    expect(getPlaceholders('a {0} b {1}')).toEqual([0, 1]);
+    expect(hasSamePlaceholders('a {0} b {1}', '{0} と {1}')).toBe(true);
+    expect(hasSamePlaceholders('a {0} b {1}', '{1} と {0}')).toBe(false);
+    expect(hasSamePlaceholders('a {0} b {1}', '{0} のみ')).toBe(false);
+  });
+});
+
+describe('Template literal translation', () => {
+  const dictionary = new MultiLangDictionary(createDictionary(
+    { 'count': '件数', 'folder': 'フォルダ', 'name': '名前' },
+    {
+      ...message('Deleted {0} files from {1}', '{0} 件のファイルを {1} から削除しました'),
+      ...message('Nothing to delete', '削除するものはありません'),
+      ...message('Hello, {0}!', 'こんにちは、{0}さん!'),
+      ...message('Moved {0} to {1}', '{1} へ {0} を移動しました'),
+      ...message('color: red', '色: 赤'),
+    }
+  ));
+  const translator = new UnifiedTranslator(dictionary);
+
+  it('should translate templates with interpolations as one message', () => {
+    const code = 'const text = `Deleted ${count} files from ${folder}`;';
+    const result = translator.translate(code, 'en', 'ja', SCOPE);
+
+    expect(result.code).toBe('const text = `${件数} 件のファイルを ${フォルダ} から削除しました`;');
+  });
+
+  it('should translate templates without substitutions', () => {
+    const result = translator.translate('alert(`Nothing to delete`);', 'en', 'ja', SCOPE);
+
+    expect(result.code).toBe('alert(`削除するものはありません`);');
+  });
+
+  it('should reject translations that reorder placeholders', () => {
+    const code = 'log(`Moved ${count} to ${folder}`);';
+    const result = translator.translate(code, 'en', 'ja', SCOPE);
+
+    expect(result.code).toBe('log(`Moved ${件数} to ${フォルダ}`);');
+    expect(result.rejectedStrings).toEqual(['Moved {0} to {1}']);
+  });
+
+  it('should translate message tags but not code tags', () => {
+    const code = 'const greeting = t`Hello, ${name}!`;\nconst style = css`color: red`;';
+    const result = translator.translate(code, 'en', 'ja', SCOPE);
+
+    expect(result.code).toContain('t`こんにちは、${名前}さん!`');
+    expect(result.code).toContain('css`color: red`');
+  });
+
+  it('should leave templates alone outside the stringLiterals scope', () => {
+    const code = 'const text = `Deleted ${count} files from ${folder}`;';
+    const result = translator.translate(code, 'en', 'ja');
+
+    expect(result.code).toBe('const text = `Deleted ${件数} files from ${フォルダ}`;');
+  });
+
+  it('should round-trip EN→JA→EN', () => {
+    const code = 'function report(count: number, folder: string) {\n  return `Deleted ${count} files from ${folder}`;\n}\n';
+    const japanese = translator.translate(code, 'en', 'ja', SCOPE);
+    const report = new RoundTripVerifier(translator).verify(code, japanese.code, 'en', 'ja', SCOPE);
+
+    expect(report.ok).toBe(true);
+    expect(report.roundTripCode).toBe(code);
+  });
+});
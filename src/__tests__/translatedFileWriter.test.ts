@@ -0,0 +1,163 @@
+/**
+ * Tests for saving translated code edited in the code viewer
+ *
+ * Covers conflicts with the file on disk, paths outside the project,
+ * markdown files, comment-only translations, wrapped comments and what
+ * keeps an edit from being written.
+ */
+
+import crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TranslatedFileWriter, TranslatedSaveRequest } from '../core/translatedFileWriter';
+import { UnifiedTranslator } from '../core/unifiedTranslator';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+import { TranslationScope } from '../core/types';
+
+const md5 = (text: string) => crypto.createHash('md5').update(text).digest('hex');
+
+const COMMENTS: Record<string, string> = {
+  'Sum the prices': '価格を合計する',
+  'Getting Started': 'はじめに',
+  'Install the extension.': '拡張機能をインストールします。',
+  'Load the prices from the cache.': 'キャッシュから読み込む。',
+  'Fall back to the API when they are missing.': '見つからなければAPIから取得する。',
+};
+
+const SCOPE: TranslationScope = {
+  comments: true, stringLiterals: true, identifiers: true, keywords: false, punctuation: false, markdownFiles: true,
+};
+
+describe('TranslatedFileWriter', () => {
+  const dictionary = new MultiLangDictionary({
+    origin: 'github.com:test/repo',
+    language: 'ja',
+    terms: { total: '合計', prices: '価格' },
+    comments: Object.fromEntries(Object.entries(COMMENTS).map(([en, ja]) => [md5(en), { en, ja }])),
+    metadata: { createdAt: '', updatedAt: '', version: '1.0.0' },
+  });
+  const writer = new TranslatedFileWriter(dictionary);
+  const translator = new UnifiedTranslator(dictionary);
+  let root: string;
+
+  /** Write an English file, and a request to save its Japanese rendering edited by `edit` */
+  const open = (
+    fileName: string,
+    english: string,
+    edit: (japanese: string) => string,
+    scope = SCOPE
+  ): TranslatedSaveRequest => {
+    fs.writeFileSync(path.join(root, fileName), english);
+    const japanese = translator.translate(english, 'en', 'ja', scope, fileName).code;
+    return { code: edit(japanese), baseCode: english, filePath: fileName, projectRoot: root, sourceLang: 'ja', scope };
+  };
+  const read = (fileName: string) => fs.readFileSync(path.join(root, fileName), 'utf-8');
+
+  const ENGLISH = '// Sum the prices\nconst total = prices + 1;\n';
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-save-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should write an edit back in English', () => {
+    const request = open('cart.ts', ENGLISH, japanese => japanese.replace('+ 1', '+ 2'));
+
+    expect(request.code).toBe('// 価格を合計する\nconst 合計 = 価格 + 2;\n');
+    expect(writer.save(request)).toMatchObject({ success: true, saved: true });
+    expect(read('cart.ts')).toBe('// Sum the prices\nconst total = prices + 2;\n');
+  });
+
+  it('should refuse to overwrite a file that changed on disk unless forced', () => {
+    const request = open('cart.ts', ENGLISH, japanese => japanese.replace('+ 1', '+ 2'));
+    fs.writeFileSync(path.join(root, 'cart.ts'), ENGLISH.replace('+ 1', '+ 3'));
+
+    expect(writer.save(request)).toMatchObject({ success: false, saved: false, conflict: true, diskCode: ENGLISH.replace('+ 1', '+ 3') });
+    expect(read('cart.ts')).toBe(ENGLISH.replace('+ 1', '+ 3'));
+
+    expect(writer.save({ ...request, force: true })).toMatchObject({ saved: true });
+    expect(read('cart.ts')).toBe(ENGLISH.replace('+ 1', '+ 2'));
+  });
+
+  it('should refuse paths outside the project', () => {
+    const request = open('cart.ts', ENGLISH, japanese => japanese);
+
+    expect(() => writer.save({ ...request, filePath: '../cart.ts' })).toThrow('outside the project');
+    expect(() => writer.save({ ...request, filePath: root })).toThrow('outside the project');
+  });
+
+  it('should write markdown files back in English', () => {
+    const english = '# Getting Started\n\nInstall the extension.\n';
+    const request = open('README.md', english, japanese => `${japanese}\n- 合計を表示します\n`);
+
+    expect(request.code).toContain('# はじめに');
+    expect(writer.save(request)).toMatchObject({ saved: false, untranslatedTexts: ['合計を表示します'] });
+    expect(read('README.md')).toBe(english);
+
+    expect(writer.save({ ...request, code: request.code.replace('合計を表示します', 'はじめに') })).toMatchObject({ saved: true });
+    expect(read('README.md')).toBe(`${english}\n- Getting Started\n`);
+  });
+
+  it('should translate comments back when only comments are translated', () => {
+    const scope = { ...SCOPE, identifiers: false };
+    const request = open('cart.ts', ENGLISH, japanese => japanese.replace('+ 1', '+ 2'), scope);
+
+    expect(request.code).toBe('// 価格を合計する\nconst total = prices + 2;\n');
+    expect(writer.save(request)).toMatchObject({ saved: true });
+    expect(read('cart.ts')).toBe('// Sum the prices\nconst total = prices + 2;\n');
+  });
+
+  it('should write wrapped comments back as the English file wrapped them', () => {
+    const english = [
+      '/**',
+      ' * Load the prices from the cache. Fall back',
+      ' * to the API when they are missing.',
+      ' */',
+      'const total = prices + 1;',
+      '',
+    ].join('\n');
+    const request = open('cart.ts', english, japanese => japanese.replace('+ 1', '+ 2'));
+
+    expect(request.code).toBe([
+      '/**',
+      ' * キャッシュから読み込む。見つからなけれ',
+      ' * ばAPIから取得する。',
+      ' */',
+      'const 合計 = 価格 + 2;',
+      '',
+    ].join('\n'));
+    expect(writer.save(request)).toMatchObject({ saved: true });
+    expect(read('cart.ts')).toBe(english.replace('+ 1', '+ 2'));
+  });
+
+  it('should not write comments or identifiers without an English translation', () => {
+    const comment = open('cart.ts', ENGLISH, japanese => japanese.replace('価格を合計する', '税込みの価格を合計する'));
+    expect(writer.save(comment)).toMatchObject({ saved: false, untranslatedTexts: ['税込みの価格を合計する'] });
+
+    const identifier = open('cart.ts', ENGLISH, japanese => `${japanese}const 税 = 合計;\n`);
+    expect(writer.save(identifier)).toMatchObject({ saved: false, unmappedTokens: ['税'] });
+
+    expect(read('cart.ts')).toBe(ENGLISH);
+  });
+
+  it('should save package imports and names left in English', () => {
+    const english = "import fs from 'fs';\n\nfunction load(file: string) {\n  return fs.readFileSync(file) + total;\n}\n";
+    const request = open('load.ts', english, japanese => japanese.replace('+ 合計', '+ 合計 + 1'));
+
+    expect(request.code).toContain('fs.readFileSync(file) + 合計');
+    expect(writer.save(request)).toMatchObject({ saved: true });
+    expect(read('load.ts')).toBe(english.replace('+ total', '+ total + 1'));
+  });
+
+  it('should keep non-English text the English file already had', () => {
+    const english = '// Sum the prices\nconst total = prices; // 税抜き\n';
+    const request = open('cart.ts', english, japanese => japanese.replace('価格;', '価格 * 2;'));
+
+    expect(writer.save(request)).toMatchObject({ saved: true });
+    expect(read('cart.ts')).toBe('// Sum the prices\nconst total = prices * 2; // 税抜き\n');
+  });
+});
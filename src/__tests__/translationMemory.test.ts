@@ -0,0 +1,116 @@
+/**
+ * Tests for the translation memory
+ *
+ * Covers near-match lookup, reuse of translations for edits to identifiers
+ * and numbers, and the references given to the comment prompt.
+ */
+
+import { TranslationMemory } from '../dictionary/translationMemory';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+import { buildCommentTranslationPrompt } from '../claude/prompts';
+import { translateComments } from '../claude/translator';
+
+const JSDOC = [
+  '/**',
+  ' * Load the user profile from the cache, falling back to the API',
+  ' * @param userId The user to load',
+  ' * @returns The profile, or null when the user was deleted',
+  ' */',
+].join('\n');
+
+const JSDOC_JA = [
+  '/**',
+  ' * キャッシュからユーザープロフィールを読み込み、なければAPIから取得する',
+  ' * @param userId 読み込むユーザー',
+  ' * @returns プロフィール。ユーザーが削除されている場合はnull',
+  ' */',
+].join('\n');
+
+const memory = () => new TranslationMemory([
+  [JSDOC, JSDOC_JA],
+  ['Retries the request 3 times', 'リクエストを3回再試行します'],
+  ['Close the connection', '接続を閉じる'],
+]);
+
+describe('TranslationMemory', () => {
+  it('should find near matches, most similar first', () => {
+    const edited = JSDOC.replace('falling back to the API', 'falling back to the database');
+
+    const [reference] = memory().findSimilar(edited);
+
+    expect(reference.source).toBe(JSDOC);
+    expect(reference.translation).toBe(JSDOC_JA);
+    expect(reference.similarity).toBeGreaterThan(0.9);
+    expect(memory().findSimilar('Open a new window')).toEqual([]);
+  });
+
+  it('should reuse translations when only identifiers or numbers changed', () => {
+    const mem = memory();
+
+    expect(mem.reuse('Retries the request 5 times')).toBe('リクエストを5回再試行します');
+    expect(mem.reuse(JSDOC.replace(/userId/g, 'accountId'))).toBe(JSDOC_JA.replace('userId', 'accountId'));
+    expect(mem.reuse('Retries the upload 3 times')).toBeUndefined();
+    expect(mem.reuse('Retries the request 3 times quickly')).toBeUndefined();
+  });
+
+  it('should split texts into reused, referenced and new', () => {
+    const edited = JSDOC.replace('from the cache', 'from the local cache');
+
+    const { reused, references, remaining } = memory().lookup(['Retries the request 10 times', edited, 'Open a new window']);
+
+    expect(reused).toEqual({ 'Retries the request 10 times': 'リクエストを10回再試行します' });
+    expect(remaining).toEqual([edited, 'Open a new window']);
+    expect(Object.keys(references)).toEqual([edited]);
+  });
+
+  it('should be built from the comments of a dictionary', () => {
+    const dictionary = new MultiLangDictionary({
+      origin: 'github.com:test/repo',
+      language: 'ja',
+      terms: {},
+      comments: {
+        a: { en: 'Close the connection', ja: '接続を閉じる' },
+        b: { en: 'Untranslated', ja: 'Untranslated' },
+        c: { en: 'Open a file', es: 'Abrir un archivo' },
+      },
+      metadata: { createdAt: '', updatedAt: '', version: '1.0.0' },
+    });
+
+    const mem = dictionary.getTranslationMemory('ja');
+
+    expect(mem.size).toBe(1);
+    expect(mem.findSimilar('Close the connections')[0].translation).toBe('接続を閉じる');
+  });
+});
+
+describe('comment translation with references', () => {
+  const decode = (prompt: string, label: string) => {
+    const match = prompt.match(new RegExp(`${label}: (\\S+)`));
+    return match ? Buffer.from(match[1], 'base64').toString() : undefined;
+  };
+
+  it('should give the references of each comment to the prompt', () => {
+    const references = { 'Close the connections': memory().findSimilar('Close the connections') };
+
+    const prompt = buildCommentTranslationPrompt(['Open a file', 'Close the connections'], 'en', 'ja', references);
+
+    expect(prompt).toContain('REFERENCE TRANSLATIONS');
+    expect(prompt).toMatch(/^Item 2 \(\d+% similar\):$/m);
+    expect(decode(prompt, 'earlier translation')).toBe('接続を閉じる');
+    expect(buildCommentTranslationPrompt(['Open a file'], 'en', 'ja')).not.toContain('REFERENCE TRANSLATIONS');
+  });
+
+  it('should send the references with their batch', async () => {
+    const prompts: string[] = [];
+    const callLLM = async (prompt: string) => {
+      prompts.push(prompt);
+      return '1. 接続をすべて閉じる';
+    };
+    const references = { 'Close the connections': memory().findSimilar('Close the connections') };
+
+    const translations = await translateComments(['Close the connections'], 'en', 'ja', undefined, references, callLLM);
+
+    expect(translations).toEqual({ 'Close the connections': '接続をすべて閉じる' });
+    expect(decode(prompts[0], 'earlier comment')).toBe('Close the connection');
+  });
+});
@@ -2,7 +2,11 @@
  * Tests for UnifiedTranslator (AST-based translation)
  */
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { UnifiedTranslator } from '../core/unifiedTranslator';
+import { RoundTripVerifier } from '../core/roundTrip';
 import { MultiLangDictionary } from '../dictionary/multiLang';
 import { Dictionary, TranslationScope } from '../core/types';
 
@@ -259,4 +263,160 @@ const result = {
       expect(result.unmappedTokens).toContain('unknownParam');
     });
   });
+
+  describe('Scope-aware identifiers', () => {
+    let scopedTranslator: UnifiedTranslator;
+
+    beforeEach(() => {
+      scopedTranslator = new UnifiedTranslator(new MultiLangDictionary(createDictionary({
+        'status': '状態',
+        'readFileSync': 'ファイル同期読込',
+        'port': 'ポート',
+        'data': 'データ',
+        'handler': 'ハンドラ',
+        'Calculator': '計算機',
+        'add': '足す',
+        'fetch': '取得',
+        'setTimeout': '遅延',
+        'console': 'コンソール',
+        'log': '記録',
+        'load': '読込',
+      })));
+    });
+
+    it('should not rename members of third-party objects', () => {
+      const code = `
+import express from 'express';
+const app = express();
+const handler = (req, res) => res.status(200);
+app.get('/', handler);
+      `.trim();
+      const result = scopedTranslator.translate(code, 'en', 'ja');
+
+      expect(result.code).toContain('res.status(200)');
+      expect(result.code).toContain('const ハンドラ =');
+      expect(result.unmappedTokens).not.toContain('get');
+    });
+
+    it('should not rename package imports or object keys passed to them', () => {
+      const code = `
+import fs from 'fs';
+const data = fs.readFileSync('a.txt');
+server.listen({ port: 3000 });
+      `.trim();
+      const result = scopedTranslator.translate(code, 'en', 'ja');
+
+      expect(result.code).toContain('fs.readFileSync(');
+      expect(result.code).toContain('{ port: 3000 }');
+      expect(result.code).toContain('const データ =');
+    });
+
+    it('should not rename global APIs', () => {
+      const code = `
+function load() { return fetch('/x'); }
+setTimeout(load, 10);
+console.log(process.env.HOME);
+      `.trim();
+      const result = scopedTranslator.translate(code, 'en', 'ja');
+
+      expect(result.code).toContain('function 読込() { return fetch(');
+      expect(result.code).toContain('setTimeout(読込, 10);');
+      expect(result.code).toContain('console.log(process.env.HOME);');
+    });
+
+    it('should keep uses of names destructured from third-party values', () => {
+      const code = `
+const handler = (req, res) => {
+  const { status } = res;
+  return status;
+};
+      `.trim();
+      const result = scopedTranslator.translate(code, 'en', 'ja');
+
+      expect(result.code).toContain('const { status } = res;\n  return status;');
+    });
+
+    it('should rename members of project-declared classes', () => {
+      const code = `
+class Calculator { add(a: number) { return a; } }
+const calc = new Calculator();
+calc.add(1);
+      `.trim();
+      const result = scopedTranslator.translate(code, 'en', 'ja');
+
+      expect(result.code).toContain('calc.足す(1)');
+      expect(result.code).toContain('new 計算機()');
+    });
+
+    it('should resolve relative imports from disk when given an absolute path', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-scope-'));
+      try {
+        fs.writeFileSync(path.join(dir, 'calculator.ts'), 'export class Calculator { add(a: number) { return a; } }');
+        const code = `import { Calculator } from './calculator';\nnew Calculator().add(1);`;
+
+        const withoutPath = scopedTranslator.translate(code, 'en', 'ja');
+        expect(withoutPath.code).toContain('.add(1)');
+
+        const withPath = scopedTranslator.translate(code, 'en', 'ja', undefined, path.join(dir, 'main.ts'));
+        expect(withPath.code).toContain('new 計算機().足す(1)');
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should translate unresolved foreign members back to English', () => {
+      const code = 'import { Calculator } from "./calculator";\nnew 計算機().足す(1);';
+      const result = scopedTranslator.translate(code, 'ja', 'en');
+
+      expect(result.code).toContain('new Calculator().add(1)');
+    });
+  });
+});
+
+describe('RoundTripVerifier', () => {
+  let translator: UnifiedTranslator;
+  let verifier: RoundTripVerifier;
+
+  beforeEach(() => {
+    translator = new UnifiedTranslator(new MultiLangDictionary(createDictionary({
+      'value': '値',
+      'total': '合計',
+    })));
+    verifier = new RoundTripVerifier(translator);
+  });
+
+  it('should accept a faithful JA→EN translation', () => {
+    const japanese = 'const 合計 = 値 + 1; // 合計を計算';
+    const english = translator.translate(japanese, 'ja', 'en').code;
+
+    const report = verifier.verify(japanese, english, 'ja', 'en');
+
+    expect(report.ok).toBe(true);
+    expect(report.identical).toBe(true);
+    expect(report.diagnostic).toBeUndefined();
+  });
+
+  it('should list identifiers that do not translate back', () => {
+    const japanese = 'const 値 = 1;\nconst 数値 = 2;';
+    const english = 'const value = 1;\nconst value = 2;';
+
+    const report = verifier.verify(japanese, english, 'ja', 'en');
+
+    expect(report.ok).toBe(false);
+    expect(report.offendingIdentifiers).toEqual([
+      { original: '数値', translated: 'value', roundTripped: '値', line: 2 },
+    ]);
+    expect(report.diagnostic).toContain('数値 → value → 値');
+  });
+
+  it('should reject translations that change the code structure', () => {
+    const japanese = 'const 値 = 1;';
+    const english = 'const class = 1;';
+
+    const report = verifier.verify(japanese, english, 'ja', 'en');
+
+    expect(report.ok).toBe(false);
+    expect(report.structuralErrors.length).toBeGreaterThan(0);
+    expect(report.offendingIdentifiers.map(id => id.original)).toEqual(['値']);
+  });
 });
@@ -0,0 +1,204 @@
+/**
+ * Tests for Vue single-file component support
+ *
+ * Covers the SFC scanner (blocks, nested templates, attributes), translation of
+ * script setup declarations together with their template bindings, template
+ * text, and the round trip back to the original component.
+ */
+
+import crypto from 'crypto';
+import { SfcParser } from '../core/sfcParser';
+import { IdentifierExtractor } from '../core/identifierExtractor';
+import { CommentExtractor } from '../core/commentExtractor';
+import { UnifiedTranslator } from '../core/unifiedTranslator';
+import { RoundTripVerifier } from '../core/roundTrip';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+import { Dictionary, TranslationScope } from '../core/types';
+
+const createDictionary = (
+  terms: Record<string, string>,
+  comments: Record<string, { en: string; [key: string]: string }> = {}
+): Dictionary => ({
+  origin: 'github.com:test/repo',
+  language: 'ja',
+  terms,
+  comments,
+  metadata: {
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: '1.0.0',
+  },
+});
+
+const hash = (text: string) => crypto.createHash('md5').update(text.trim()).digest('hex');
+
+const SCOPE: TranslationScope = {
+  comments: true,
+  stringLiterals: true,
+  identifiers: true,
+  keywords: false,
+  punctuation: false,
+  markdownFiles: false,
+};
+
+const SOURCE = `<template>
+  <!-- Shopping list -->
+  <div class="list">
+    <h1>Things to buy</h1>
+    <TodoItem v-for="(todo, index) in todos" :key="index" :todo="todo" @remove="removeTodo(index)" />
+    <p v-if="todos.length === 0">Nothing to buy</p>
+    <button :class="{ active: isOpen }" @click="addTodo">Add item</button>
+    <Summary #footer="{ total }">{{ total }} / {{ count }}</Summary>
+  </div>
+</template>
+
+<script setup lang="ts">
+import { ref } from 'vue';
+import TodoItem from './TodoItem.vue';
+import Summary from './Summary.vue';
+
+// Items still to buy
+const todos = ref<string[]>([]);
+const count = 3;
+const isOpen = true;
+
+function addTodo() {
+  todos.value.push('Milk');
+}
+
+function removeTodo(index: number) {
+  todos.value.splice(index, 1);
+}
+</script>
+
+<style scoped>
+.list { color: red; }
+</style>
+`;
+
+describe('SfcParser', () => {
+  const parser = new SfcParser();
+
+  it('should find top-level blocks around nested templates', () => {
+    const source = '<!-- <script> -->\n<template><template v-if="a"><p/></template></template>\n<script setup>let a = 1;</script>\n';
+    const blocks = parser.parse(source);
+
+    expect(blocks.map(block => block.type)).toEqual(['template', 'script']);
+    expect(source.slice(blocks[0].contentStart, blocks[0].contentEnd)).toBe('<template v-if="a"><p/></template>');
+    expect(blocks[1].attrs).toBe(' setup');
+    expect(source.slice(blocks[1].contentStart, blocks[1].contentEnd)).toBe('let a = 1;');
+  });
+
+  it('should scan tags, attributes, text and interpolations', () => {
+    const source = '<button :title="label > 0 ? \'a\' : \'b\'" disabled @click="go">Go {{ count }}</button>';
+    const nodes = parser.parseTemplate(source, 0, source.length);
+
+    expect(nodes.map(node => node.kind)).toEqual(['tag', 'text', 'interpolation', 'tag']);
+    const button = nodes[0];
+    expect(button.kind === 'tag' && button.attributes.map(a => [a.name, a.value])).toEqual([
+      [':title', 'label > 0 ? \'a\' : \'b\''],
+      ['disabled', undefined],
+      ['@click', 'go'],
+    ]);
+    const interpolation = nodes[2];
+    expect(interpolation.kind === 'interpolation' &&
+      source.slice(interpolation.expressionStart, interpolation.expressionEnd)).toBe(' count ');
+  });
+});
+
+describe('Vue extraction', () => {
+  it('should extract script and template declarations with their lines', () => {
+    const identifiers = new IdentifierExtractor().extract(SOURCE, 'List.vue');
+    const line = (name: string) => identifiers.find(identifier => identifier.name === name)?.line;
+
+    expect(identifiers.map(identifier => identifier.name)).toEqual(
+      ['addTodo', 'count', 'index', 'isOpen', 'removeTodo', 'todo', 'todos']
+    );
+    expect(line('todo')).toBe(5);
+    expect(line('todos')).toBe(18);
+  });
+
+  it('should extract script and HTML comments but not CSS', () => {
+    const comments = new CommentExtractor().extract(SOURCE, 'List.vue');
+
+    expect(comments).toEqual(['Shopping list', 'Items still to buy']);
+  });
+});
+
+describe('Vue translation', () => {
+  const dictionary = new MultiLangDictionary(createDictionary(
+    {
+      'todos': 'やること一覧',
+      'todo': 'やること',
+      'index': '番号',
+      'count': '件数',
+      'isOpen': '開いている',
+      'addTodo': 'やることを追加',
+      'removeTodo': 'やることを削除',
+      'TodoItem': 'やること項目',
+      'active': '有効',
+      'total': '合計',
+    },
+    {
+      [hash('Shopping list')]: { en: 'Shopping list', ja: '買い物リスト' },
+      [hash('Things to buy')]: { en: 'Things to buy', ja: '買うもの' },
+      [hash('Nothing to buy')]: { en: 'Nothing to buy', ja: '買うものはありません' },
+      [hash('Add item')]: { en: 'Add item', ja: '項目を追加' },
+      [hash('Items still to buy')]: { en: 'Items still to buy', ja: 'まだ買うもの' },
+    }
+  ));
+  const translator = new UnifiedTranslator(dictionary);
+
+  it('should rename script setup declarations and their template bindings together', () => {
+    const result = translator.translate(SOURCE, 'en', 'ja', SCOPE, 'List.vue');
+
+    expect(result.code).toContain('<TodoItem v-for="(やること, 番号) in やること一覧" :key="番号" :todo="やること" @remove="やることを削除(番号)" />');
+    expect(result.code).toContain('<p v-if="やること一覧.length === 0">');
+    expect(result.code).toContain('function やることを追加() {\n  やること一覧.value.push(\'Milk\');');
+    expect(result.code).toContain('const 件数 = 3;');
+  });
+
+  it('should keep markup, component names, class keys and slot props', () => {
+    const result = translator.translate(SOURCE, 'en', 'ja', SCOPE, 'List.vue');
+
+    expect(result.code).toContain('import TodoItem from \'./TodoItem.vue\';');
+    expect(result.code).toContain('<div class="list">');
+    expect(result.code).toContain(':class="{ active: 開いている }"');
+    expect(result.code).toContain('<Summary #footer="{ total }">{{ total }} / {{ 件数 }}</Summary>');
+    expect(result.code).toContain('<style scoped>\n.list { color: red; }\n</style>');
+  });
+
+  it('should translate template text and HTML comments', () => {
+    const result = translator.translate(SOURCE, 'en', 'ja', SCOPE, 'List.vue');
+
+    expect(result.code).toContain('<!-- 買い物リスト -->');
+    expect(result.code).toContain('<h1>買うもの</h1>');
+    expect(result.code).toContain('@click="やることを追加">項目を追加</button>');
+    expect(result.code).toContain('// まだ買うもの');
+  });
+
+  it('should translate user-facing attributes but not other static attributes', () => {
+    const source = '<template>\n  <input class="Add item" placeholder="Add item" :title="count">\n</template>\n';
+    const result = translator.translate(source, 'en', 'ja', SCOPE, 'Input.vue');
+
+    expect(result.code).toContain('<input class="Add item" placeholder="項目を追加" :title="件数">');
+    expect(new RoundTripVerifier(translator).verify(source, result.code, 'en', 'ja', SCOPE, 'Input.vue').ok).toBe(true);
+  });
+
+  it('should round-trip EN→JA→EN to the same component', () => {
+    const japanese = translator.translate(SOURCE, 'en', 'ja', SCOPE, 'List.vue');
+    const report = new RoundTripVerifier(translator).verify(SOURCE, japanese.code, 'en', 'ja', SCOPE, 'List.vue');
+
+    expect(report.ok).toBe(true);
+    expect(report.roundTripCode).toBe(SOURCE);
+  });
+
+  it('should report a template binding that breaks the markup', () => {
+    const japanese = translator.translate(SOURCE, 'en', 'ja', SCOPE, 'List.vue').code;
+    const broken = japanese.replace('<div class="list">', '<div class="リスト">');
+    const report = new RoundTripVerifier(translator).verify(SOURCE, broken, 'en', 'ja', SCOPE, 'List.vue');
+
+    expect(report.ok).toBe(false);
+    expect(report.structuralErrors[0]).toContain('line 3');
+  });
+});
@@ -367,6 +367,26 @@ export async function callClaudeWithRetry(
   workingDir?: string,
   options?: RetryOptions
 ): Promise<string> {
+  return withRetry(() => callClaude(prompt, workingDir), 'Claude CLI', options);
+}
+
+/**
+ * Run an LLM call with retry and exponential backoff.
+ *
+ * Shared by the Claude CLI and HTTP providers: errors are classified
+ * by isRetryableError, so providers should include the HTTP status in
+ * their error messages.
+ *
+ * @param call - The call to attempt
+ * @param label - Provider name used in log messages
+ * @param options - Retry configuration
+ * @returns The result of the first successful attempt
+ */
+export async function withRetry<T>(
+  call: () => Promise<T>,
+  label: string,
+  options?: RetryOptions
+): Promise<T> {
   const maxRetries = options?.maxRetries ?? 3;
   const baseDelayMs = options?.baseDelayMs ?? 2000;
   const maxDelayMs = options?.maxDelayMs ?? 15000;
@@ -375,7 +395,7 @@ export async function callClaudeWithRetry(
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
-      return await callClaude(prompt, workingDir);
+      return await call();
     } catch (error: any) {
       lastError = error;
 
@@ -392,8 +412,8 @@ export async function callClaudeWithRetry(
       // Calculate delay with exponential backoff: baseDelay * 2^attempt
       const delayMs = Math.min(baseDelayMs * Math.pow(2, attempt), maxDelayMs);
 
-      log(`[Claude CLI] Retryable error on attempt ${attempt + 1}/${maxRetries + 1}: ${error.message}`);
-      log(`[Claude CLI] Retrying in ${delayMs}ms...`);
+      log(`[${label}] Retryable error on attempt ${attempt + 1}/${maxRetries + 1}: ${error.message}`);
+      log(`[${label}] Retrying in ${delayMs}ms...`);
 
       if (options?.onRetry) {
         options.onRetry(attempt + 1, maxRetries, error, delayMs);
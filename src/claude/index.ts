@@ -7,6 +7,7 @@
 
 export {
   translateIdentifiers,
+  translateIdentifiersInContext,
   translateComments,
   translateText,
   translateProject,
@@ -14,11 +15,12 @@ export {
   isClaudeCliAvailable,
 } from './translator';
 
-export type { TranslationProgressCallback } from './translator';
+export type { TranslationProgressCallback, PromptCaller } from './translator';
 
 export {
   callClaude,
   callClaudeWithRetry,
+  withRetry,
   extractJsonFromResponse,
 } from './cli';
 
@@ -27,5 +29,6 @@ export {
   buildCommentTranslationPrompt,
   buildTextTranslationPrompt,
   parseNumberedListResponse,
+  parseIdentifierResponse,
   parseCommentTranslationResponse,
 } from './prompts';
@@ -8,37 +8,30 @@
  * 3. Natural language text translation (intent titles/descriptions)
  */
 
-import { LanguageCode } from '../core/types';
-
-/** Language display names for prompts */
-const LANGUAGE_NAMES: Record<string, string> = {
-  en: 'English',
-  ja: 'Japanese',
-  zh: 'Chinese',
-  ko: 'Korean',
-  es: 'Spanish',
-  fr: 'French',
-  de: 'German',
-  it: 'Italian',
-  pt: 'Portuguese',
-  ru: 'Russian',
-  ar: 'Arabic',
-  hi: 'Hindi',
-  vi: 'Vietnamese',
-  th: 'Thai',
-  nl: 'Dutch',
-  pl: 'Polish',
-  tr: 'Turkish',
-  uk: 'Ukrainian',
-  cs: 'Czech',
-  sv: 'Swedish',
-};
+import { IdentifierContext, LanguageCode, TranslationReference } from '../core/types';
+import { getLanguage, getLanguageName } from '../languages';
+import { hasTermRules, TermRules } from '../core/termRules';
 
 /**
- * Get language display name for prompts
+ * Language-specific guidelines for the identifier prompt
  */
-function getLanguageName(code: string): string {
-  return LANGUAGE_NAMES[code] || code.toUpperCase();
+function getIdentifierGuidelines(targetLang: LanguageCode): string[] {
+  const language = getLanguage(targetLang);
+  if (!language) {
+    return [];
+  }
+
+  const guidelines = (language.identifiers.guidance ?? []).map(line => `- ${line}`);
+  if (!language.identifiers.caseless && language.code !== 'en') {
+    guidelines.unshift('- Keep the casing style of the original identifier (camelCase, PascalCase, snake_case)');
+  }
+  if (language.direction === 'rtl') {
+    guidelines.push(
+      '- Write words in logical order and NEVER add direction marks',
+      '  or other invisible bidi control characters (U+200E, U+200F, U+202A-U+202E, U+2066-U+2069)'
+    );
+  }
+  return guidelines;
 }
 
 /**
@@ -51,33 +44,61 @@ function getLanguageName(code: string): string {
  * - Unicode characters are allowed (for native language scripts)
  * - Preserves underscore prefixes for private variables
  *
+ * With contexts, each term is listed with its declaration kind, file and
+ * declaration line, and the response gives the chosen sense after each
+ * translation (see parseIdentifierResponse).
+ *
  * @param terms - Array of identifier names to translate
  * @param sourceLang - Source language code
  * @param targetLang - Target language code
+ * @param rules - Project glossary rules relevant to the terms
+ * @param contexts - Where the terms are declared { term: context }
  * @returns The prompt string for Claude
  */
 export function buildIdentifierTranslationPrompt(
   terms: string[],
   sourceLang: LanguageCode,
-  targetLang: LanguageCode
+  targetLang: LanguageCode,
+  rules?: TermRules,
+  contexts?: Record<string, IdentifierContext>
 ): string {
   const sourceLanguage = getLanguageName(sourceLang);
   const targetLanguage = getLanguageName(targetLang);
+  const withContext = !!contexts && terms.some(term => contexts[term]);
 
   // Number the terms for response parsing
-  const numberedTerms = terms.map((term, i) => `${i + 1}. ${term}`).join('\n');
-
-  return `You are a specialized translator for programming identifiers.
-
-Translate the following ${sourceLanguage} programming identifiers to ${targetLanguage}.
-These are variable names, function names, or other code identifiers.
+  const numberedTerms = terms
+    .map((term, i) => `${i + 1}. ${term}${withContext ? formatIdentifierContext(contexts[term]) : ''}`)
+    .join('\n');
+  const guidelines = getIdentifierGuidelines(targetLang).map(line => `${line}\n`).join('');
+
+  const outputFormat = withContext
+    ? `IMPORTANT - OUTPUT FORMAT:
+Return ONLY a numbered list matching the input order. After each translation,
+write " | " and the meaning you chose, in a few ${sourceLanguage} words:
+1. [translation for item 1] | [meaning of item 1]
+2. [translation for item 2] | [meaning of item 2]
+...
 
-IMPORTANT - OUTPUT FORMAT:
+IMPORTANT - CONTEXT:
+Each term is followed by its kind, its file and the line that declares it.
+Use them to choose the meaning the code intends: "order" declared as
+"sortBy(items, order: 'asc' | 'desc')" is a sort order, while "order" in
+"placeOrder(order: PurchaseOrder)" is a purchase order.
+`
+    : `IMPORTANT - OUTPUT FORMAT:
 Return ONLY a numbered list matching the input order:
 1. [translation for item 1]
 2. [translation for item 2]
 ...
+`;
 
+  return `You are a specialized translator for programming identifiers.
+
+Translate the following ${sourceLanguage} programming identifiers to ${targetLanguage}.
+These are variable names, function names, or other code identifiers.
+
+${outputFormat}
 CRITICAL VALIDATION RULES - MUST FOLLOW:
 1. All translations MUST be valid JavaScript identifiers
 2. MUST NOT start with a digit (0-9)
@@ -100,8 +121,7 @@ When translating terms containing numbers:
 
 LANGUAGE-SPECIFIC GUIDELINES:
 - Use natural ${targetLanguage} terms with Unicode support
-- For Japanese: Prefer kanji over katakana where natural
-- Preserve technical abbreviations (id, url, api, http, etc.)
+${guidelines}- Preserve technical abbreviations (id, url, api, http, etc.)
 - Compound terms should be semantic compounds in target language
 - Maintain consistency with similar terms
 - Preserve underscore prefixes for private variables (_privateVar → _プライベート変数)
@@ -131,11 +151,46 @@ INVALID EXAMPLES (DO NOT produce these):
 - deleteOne → 1つ削除 (INVALID: starts with digit)
 - post16 → ポスト-16 (INVALID: contains hyphen)
 - objIdA → オブジェクトID A (INVALID: contains space before A)
-
+${hasTermRules(rules) ? `\n${buildGlossarySection(rules)}\n` : ''}
 Terms to translate:
 ${numberedTerms}`;
 }
 
+/**
+ * Context of a term in the identifier list: "  (method in src/cart.ts) `placeOrder(order) {`"
+ */
+function formatIdentifierContext(context: IdentifierContext | undefined): string {
+  if (!context) {
+    return '';
+  }
+
+  const where = context.file ? `${context.kind} in ${context.file}` : context.kind;
+  return context.snippet ? `  (${where}) \`${context.snippet}\`` : `  (${where})`;
+}
+
+/**
+ * Project glossary section of the identifier prompt
+ */
+function buildGlossarySection(rules: TermRules): string {
+  const lines = ['PROJECT GLOSSARY - MUST FOLLOW:'];
+
+  if (rules.keep.length > 0) {
+    lines.push(`- NEVER translate these terms, keep them exactly as written (also inside compound identifiers): ${rules.keep.join(', ')}`);
+  }
+
+  const translations = Object.entries(rules.translations);
+  if (translations.length > 0) {
+    lines.push('- ALWAYS translate these terms as given (also inside compound identifiers):');
+    lines.push(...translations.map(([source, target]) => `    ${source} → ${target}`));
+  }
+
+  if (rules.forbidden.length > 0) {
+    lines.push(`- NEVER use these words in a translation: ${rules.forbidden.join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Build prompt for translating code comments.
  *
@@ -144,16 +199,19 @@ ${numberedTerms}`;
  * - Keeps JSDoc annotations intact (@param, @returns, etc.)
  * - Preserves code examples exactly as-is
  * - Keeps TODO/FIXME/NOTE markers unchanged
+ * - Gives earlier translations of near-identical comments as references
  *
  * @param comments - Array of comment strings to translate
  * @param sourceLang - Source language code
  * @param targetLang - Target language code
+ * @param references - Translation memory matches { comment: references }
  * @returns The prompt string for Claude
  */
 export function buildCommentTranslationPrompt(
   comments: string[],
   sourceLang: LanguageCode,
-  targetLang: LanguageCode
+  targetLang: LanguageCode,
+  references: Record<string, TranslationReference[]> = {}
 ): string {
   const sourceLanguage = getLanguageName(sourceLang);
   const targetLanguage = getLanguageName(targetLang);
@@ -164,6 +222,8 @@ export function buildCommentTranslationPrompt(
     return `${i + 1}. ${encoded}`;
   }).join('\n');
 
+  const referenceSection = buildReferenceSection(comments, references);
+
   return `You are a specialized translator for code comments.
 
 Translate the following ${sourceLanguage} code comments to ${targetLanguage}.
@@ -188,17 +248,40 @@ STRUCTURE PRESERVATION RULES:
 4. Keep TODO, FIXME, NOTE, HACK, XXX markers unchanged
 5. Keep blank lines where they exist
 6. Each line of original maps to exactly one line in translation
+7. Keep placeholders such as {0} and {1} exactly once each, in the same order
+8. Keep inline code in backticks, {@link ...} tags, markdown link targets (the "(url)" of "[text](url)"), HTML tags and URLs exactly as written; keep markdown emphasis around the translated words
 
 TRANSLATION GUIDELINES:
 - Keep technical terms and API names unchanged (ObjectId, MongoDB, $ne, $gt)
 - Preserve tone and style (formal/informal)
 - Translate naturally as a native ${targetLanguage} speaker would write
 - Do NOT add explanations or notes, only the translation
-
+${referenceSection ? `\n${referenceSection}\n` : ''}
 Comments to translate (base64-encoded):
 ${encodedComments}`;
 }
 
+/**
+ * Reference section of the comment prompt (empty when no comment has references)
+ */
+function buildReferenceSection(comments: string[], references: Record<string, TranslationReference[]>): string {
+  const encode = (text: string) => Buffer.from(text).toString('base64');
+  const items = comments.flatMap((comment, i) => (references[comment] ?? []).map(reference =>
+    `Item ${i + 1} (${Math.round(reference.similarity * 100)}% similar):\n` +
+    `  earlier comment: ${encode(reference.source)}\n` +
+    `  earlier translation: ${encode(reference.translation)}`
+  ));
+  if (items.length === 0) {
+    return '';
+  }
+
+  return `REFERENCE TRANSLATIONS (base64-encoded):
+Some comments are edits of comments translated before. For those, keep the
+wording of the earlier translation and only change what the edit changed,
+so the project's documentation reads consistently.
+${items.join('\n')}`;
+}
+
 /**
  * Build prompt for translating natural language text.
  *
@@ -276,6 +359,31 @@ export function parseNumberedListResponse(response: string, expectedCount: numbe
   return results;
 }
 
+/**
+ * Parse an identifier response given with contexts ("1. 注文 | purchase order")
+ * Items without a sense are returned as they are.
+ *
+ * @param response - The response text from Claude
+ * @param expectedCount - Expected number of items
+ * @returns Translations and senses in input order
+ */
+export function parseIdentifierResponse(
+  response: string,
+  expectedCount: number
+): Array<{ translation: string; sense?: string }> {
+  return parseNumberedListResponse(response, expectedCount).map(item => {
+    // Identifiers cannot contain a pipe, so the first one starts the sense
+    const separator = item.indexOf('|');
+    if (separator < 0) {
+      return { translation: item };
+    }
+    return {
+      translation: item.slice(0, separator).trim(),
+      sense: item.slice(separator + 1).trim() || undefined,
+    };
+  });
+}
+
 /**
  * Parse comment translations that may contain \\n for line breaks.
  *
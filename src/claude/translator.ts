@@ -11,15 +11,19 @@
  * - Error handling with fallback to original
  */
 
-import { callClaudeWithRetry, isClaudeCliAvailable } from './cli';
+import { callClaudeWithRetry, isClaudeCliAvailable, RetryOptions } from './cli';
 import {
   buildIdentifierTranslationPrompt,
   buildCommentTranslationPrompt,
   buildTextTranslationPrompt,
   parseNumberedListResponse,
+  parseIdentifierResponse,
   parseCommentTranslationResponse,
 } from './prompts';
-import { LanguageCode } from '../core/types';
+import { IdentifierContext, LanguageCode, TranslationReference } from '../core/types';
+import { hasSamePlaceholders } from '../core/messageFormat';
+import { keepsProtectedSpans } from '../core/segmenter';
+import { findRuleViolation, getFixedTranslation, selectTermRules, TermRules } from '../core/termRules';
 import { log } from '../ipc/protocol';
 
 /** Progress callback for translation batching */
@@ -33,6 +37,15 @@ export type TranslationProgressCallback = (info: {
   maxRetries?: number;
 }) => void;
 
+/**
+ * Sends a prompt to an LLM and returns the response text.
+ * Defaults to the Claude CLI; other providers (e.g. an OpenAI-compatible
+ * server) reuse the batching and validation below with their own caller.
+ */
+export type PromptCaller = (prompt: string, options?: RetryOptions) => Promise<string>;
+
+const callClaudeCli: PromptCaller = (prompt, options) => callClaudeWithRetry(prompt, undefined, options);
+
 /** Batch sizes for different content types */
 const IDENTIFIER_BATCH_SIZE = 100;
 const COMMENT_BATCH_SIZE = 30;
@@ -50,6 +63,7 @@ const TEXT_BATCH_DELAY_MS = 200;
  * Rules:
  * - Cannot start with a digit
  * - Cannot contain spaces, hyphens, or special punctuation
+ * - Cannot contain bidi control characters (models sometimes add them around Hebrew or Arabic)
  * - Unicode characters are allowed
  */
 function isValidIdentifier(str: string): boolean {
@@ -66,6 +80,11 @@ function isValidIdentifier(str: string): boolean {
     return false;
   }
 
+  // Invisible direction marks would make two identical-looking names differ
+  if (/[\u200E\u200F\u061C\u202A-\u202E\u2066-\u2069]/.test(str)) {
+    return false;
+  }
+
   return true;
 }
 
@@ -82,25 +101,68 @@ function sleep(ms: number): Promise<void> {
  * @param terms - Array of identifier names to translate
  * @param sourceLang - Source language code
  * @param targetLang - Target language code
+ * @param rules - Project glossary rules: given to the prompt and enforced on the response
+ * @param callLLM - Sends each batch prompt (defaults to the Claude CLI)
  * @returns Map of { originalTerm: translatedTerm }
  */
 export async function translateIdentifiers(
   terms: string[],
   sourceLang: LanguageCode,
   targetLang: LanguageCode,
-  onProgress?: TranslationProgressCallback
+  onProgress?: TranslationProgressCallback,
+  rules?: TermRules,
+  callLLM: PromptCaller = callClaudeCli
 ): Promise<Record<string, string>> {
+  const { translations } = await translateIdentifiersInContext(terms, {}, sourceLang, targetLang, onProgress, rules, callLLM);
+  return translations;
+}
+
+/**
+ * Translate code identifiers with the context they are declared in.
+ *
+ * Terms with a context are listed with their kind, file and declaration
+ * line, so the LLM can tell order (sorting) from order (purchase), and it
+ * names the meaning it chose for each of them.
+ *
+ * @param terms - Array of identifier names to translate
+ * @param contexts - Where the terms are declared { term: context }
+ * @param sourceLang - Source language code
+ * @param targetLang - Target language code
+ * @param rules - Project glossary rules: given to the prompt and enforced on the response
+ * @param callLLM - Sends each batch prompt (defaults to the Claude CLI)
+ * @returns Translations { originalTerm: translatedTerm } and the senses of accepted ones { originalTerm: meaning }
+ */
+export async function translateIdentifiersInContext(
+  terms: string[],
+  contexts: Record<string, IdentifierContext>,
+  sourceLang: LanguageCode,
+  targetLang: LanguageCode,
+  onProgress?: TranslationProgressCallback,
+  rules?: TermRules,
+  callLLM: PromptCaller = callClaudeCli
+): Promise<{ translations: Record<string, string>; senses: Record<string, string> }> {
+  const senses: Record<string, string> = {};
   if (terms.length === 0) {
-    return {};
+    return { translations: {}, senses };
   }
 
   // Same language - no translation needed
   if (sourceLang === targetLang) {
-    return Object.fromEntries(terms.map(t => [t, t]));
+    return { translations: Object.fromEntries(terms.map(t => [t, t])), senses };
   }
 
   const results: Record<string, string> = {};
-  const uniqueTerms = [...new Set(terms)]; // Deduplicate
+  const uniqueTerms: string[] = [];
+
+  // Deduplicate; terms fixed by the project glossary are not sent to the LLM
+  for (const term of new Set(terms)) {
+    const fixed = getFixedTranslation(term, rules);
+    if (fixed !== undefined) {
+      results[term] = fixed;
+    } else {
+      uniqueTerms.push(term);
+    }
+  }
 
   log(`[LocalTranslator] Translating ${uniqueTerms.length} identifiers ${sourceLang} → ${targetLang}`);
 
@@ -114,21 +176,31 @@ export async function translateIdentifiers(
     onProgress?.({ type: 'identifiers', batchNum, totalBatches, batchSize: batch.length, status: 'processing' });
 
     try {
-      const prompt = buildIdentifierTranslationPrompt(batch, sourceLang, targetLang);
-      const response = await callClaudeWithRetry(prompt, undefined, {
+      const withContext = batch.some(term => contexts[term]);
+      const prompt = buildIdentifierTranslationPrompt(
+        batch, sourceLang, targetLang, rules && selectTermRules(rules, batch), withContext ? contexts : undefined
+      );
+      const response = await callLLM(prompt, {
         onRetry: (attempt, maxRetries) => {
           onProgress?.({ type: 'identifiers', batchNum, totalBatches, batchSize: batch.length, status: 'retrying', retryAttempt: attempt, maxRetries });
         },
       });
-      const translations = parseNumberedListResponse(response, batch.length);
+      const translations = withContext
+        ? parseIdentifierResponse(response, batch.length)
+        : parseNumberedListResponse(response, batch.length).map(translation => ({ translation, sense: undefined }));
 
       // Validate and store translations
       for (let j = 0; j < batch.length; j++) {
         const original = batch[j];
-        const translated = translations[j];
+        const { translation: translated, sense } = translations[j];
+        const violation = translated && rules ? findRuleViolation(original, translated, rules) : undefined;
 
-        if (translated && isValidIdentifier(translated)) {
+        if (translated && violation) {
+          log(`[LocalTranslator] Translation rejected by project glossary: "${translated}" (from "${original}") ${violation}`);
+          results[original] = original;
+        } else if (translated && isValidIdentifier(translated)) {
           results[original] = translated;
+          if (sense) senses[original] = sense;
         } else if (translated) {
           // Log invalid translation and fallback to original
           log(`[LocalTranslator] Invalid identifier rejected: "${translated}" (from "${original}")`);
@@ -154,7 +226,7 @@ export async function translateIdentifiers(
   }
 
   log(`[LocalTranslator] Completed: ${Object.keys(results).length} identifier translations`);
-  return results;
+  return { translations: results, senses };
 }
 
 /**
@@ -163,13 +235,17 @@ export async function translateIdentifiers(
  * @param comments - Array of comment strings to translate
  * @param sourceLang - Source language code
  * @param targetLang - Target language code
+ * @param references - Earlier translations of similar comments { comment: references }
+ * @param callLLM - Sends each batch prompt (defaults to the Claude CLI)
  * @returns Map of { originalComment: translatedComment }
  */
 export async function translateComments(
   comments: string[],
   sourceLang: LanguageCode,
   targetLang: LanguageCode,
-  onProgress?: TranslationProgressCallback
+  onProgress?: TranslationProgressCallback,
+  references: Record<string, TranslationReference[]> = {},
+  callLLM: PromptCaller = callClaudeCli
 ): Promise<Record<string, string>> {
   if (comments.length === 0) {
     return {};
@@ -191,10 +267,16 @@ export async function translateComments(
   let currentBatchChars = 0;
 
   for (const comment of uniqueComments) {
+    // References are sent along with their comment
+    const chars = (references[comment] ?? []).reduce(
+      (sum, reference) => sum + reference.source.length + reference.translation.length,
+      comment.length
+    );
+
     // Start new batch if current would exceed limits
     if (
       currentBatch.length >= COMMENT_BATCH_SIZE ||
-      currentBatchChars + comment.length > COMMENT_MAX_CHARS
+      currentBatchChars + chars > COMMENT_MAX_CHARS
     ) {
       if (currentBatch.length > 0) {
         batches.push(currentBatch);
@@ -204,7 +286,7 @@ export async function translateComments(
     }
 
     currentBatch.push(comment);
-    currentBatchChars += comment.length;
+    currentBatchChars += chars;
   }
 
   // Don't forget the last batch
@@ -220,19 +302,21 @@ export async function translateComments(
     onProgress?.({ type: 'comments', batchNum, totalBatches: batches.length, batchSize: batch.length, status: 'processing' });
 
     try {
-      const prompt = buildCommentTranslationPrompt(batch, sourceLang, targetLang);
-      const response = await callClaudeWithRetry(prompt, undefined, {
+      const prompt = buildCommentTranslationPrompt(batch, sourceLang, targetLang, references);
+      const response = await callLLM(prompt, {
         onRetry: (attempt, maxRetries) => {
           onProgress?.({ type: 'comments', batchNum, totalBatches: batches.length, batchSize: batch.length, status: 'retrying', retryAttempt: attempt, maxRetries });
         },
       });
       const translations = parseCommentTranslationResponse(response, batch.length);
 
-      // Store translations
+      // Store translations (messages that lost or reordered placeholders, or
+      // changed inline code, {@link} tags, link targets or URLs, are kept untranslated)
       for (let j = 0; j < batch.length; j++) {
         const original = batch[j];
         const translated = translations[j];
-        results[original] = translated || original;
+        const valid = translated && hasSamePlaceholders(original, translated) && keepsProtectedSpans(original, translated);
+        results[original] = valid ? translated : original;
       }
     } catch (error: any) {
       log(`[LocalTranslator] Comment batch ${batchNum} failed: ${error.message}`);
@@ -259,13 +343,15 @@ export async function translateComments(
  * @param texts - Array of text strings to translate
  * @param sourceLang - Source language code
  * @param targetLang - Target language code
+ * @param callLLM - Sends each batch prompt (defaults to the Claude CLI)
  * @returns Map of { originalText: translatedText }
  */
 export async function translateText(
   texts: string[],
   sourceLang: LanguageCode,
   targetLang: LanguageCode,
-  onProgress?: TranslationProgressCallback
+  onProgress?: TranslationProgressCallback,
+  callLLM: PromptCaller = callClaudeCli
 ): Promise<Record<string, string>> {
   if (texts.length === 0) {
     return {};
@@ -292,7 +378,7 @@ export async function translateText(
 
     try {
       const prompt = buildTextTranslationPrompt(batch, sourceLang, targetLang);
-      const response = await callClaudeWithRetry(prompt, undefined, {
+      const response = await callLLM(prompt, {
         onRetry: (attempt, maxRetries) => {
           onProgress?.({ type: 'text', batchNum, totalBatches, batchSize: batch.length, status: 'retrying', retryAttempt: attempt, maxRetries });
         },
@@ -333,16 +419,25 @@ export async function translateText(
  * @param comments - All unique comments from the project
  * @param sourceLang - Source language (usually 'en')
  * @param targetLang - Target language (e.g., 'ja')
- * @returns Object with translated terms and comments
+ * @param rules - Project glossary rules for the identifiers
+ * @param contexts - Where the identifiers are declared { identifier: context }
+ * @param references - Earlier translations of similar comments { comment: references }
+ * @param callLLM - Sends each batch prompt (defaults to the Claude CLI)
+ * @returns Object with translated terms, the senses chosen for them, and comments
  */
 export async function translateProject(
   identifiers: string[],
   comments: string[],
   sourceLang: LanguageCode,
   targetLang: LanguageCode,
-  onProgress?: TranslationProgressCallback
+  onProgress?: TranslationProgressCallback,
+  rules?: TermRules,
+  contexts: Record<string, IdentifierContext> = {},
+  references: Record<string, TranslationReference[]> = {},
+  callLLM: PromptCaller = callClaudeCli
 ): Promise<{
   terms: Record<string, string>;
+  senses: Record<string, string>;
   comments: Record<string, string>;
   totalTerms: number;
   totalComments: number;
@@ -350,13 +445,14 @@ export async function translateProject(
   log(`[LocalTranslator] Starting project translation: ${identifiers.length} identifiers, ${comments.length} comments`);
 
   // Translate both in parallel (they use separate batches anyway)
-  const [terms, translatedComments] = await Promise.all([
-    translateIdentifiers(identifiers, sourceLang, targetLang, onProgress),
-    translateComments(comments, sourceLang, targetLang, onProgress),
+  const [{ translations: terms, senses }, translatedComments] = await Promise.all([
+    translateIdentifiersInContext(identifiers, contexts, sourceLang, targetLang, onProgress, rules, callLLM),
+    translateComments(comments, sourceLang, targetLang, onProgress, references, callLLM),
   ]);
 
   return {
     terms,
+    senses,
     comments: translatedComments,
     totalTerms: Object.keys(terms).length,
     totalComments: Object.keys(translatedComments).length,
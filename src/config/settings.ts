@@ -11,6 +11,7 @@ import * as path from 'path';
 import * as os from 'os';
 import { log } from '../ipc/protocol';
 import { TranslationScope } from '../core/types';
+import type { LanguageConfig } from '../languages/types';
 
 // Re-export for convenience
 export { TranslationScope };
@@ -37,6 +38,20 @@ export interface I18nSettings {
    * When true, all code is processed (useful for detecting foreign terms in English codebases)
    */
   translateEnglishOnSave: boolean;
+
+  /**
+   * Whether newly translated terms and comments are written back to the
+   * project dictionary (.kawa/i18n/<lang>.json) when the repository has one
+   * When false (default), the project dictionary is only read
+   */
+  writeProjectDictionary: boolean;
+
+  /**
+   * Languages to enable or define, applied on top of the built-in ones
+   * A code enables a known language ("vi"); an object defines or overrides
+   * one ({ "code": "fi", "name": "Finnish" })
+   */
+  languages: LanguageConfig[];
 }
 
 /**
@@ -51,6 +66,8 @@ export interface Config {
  */
 const DEFAULT_SETTINGS: I18nSettings = {
   translateEnglishOnSave: false,
+  writeProjectDictionary: false,
+  languages: [],
 };
 
 /**
@@ -107,6 +124,8 @@ export function getI18nSettings(): I18nSettings {
 
   return {
     translateEnglishOnSave: config.i18n?.translateEnglishOnSave ?? DEFAULT_SETTINGS.translateEnglishOnSave,
+    writeProjectDictionary: config.i18n?.writeProjectDictionary ?? DEFAULT_SETTINGS.writeProjectDictionary,
+    languages: Array.isArray(config.i18n?.languages) ? config.i18n!.languages : DEFAULT_SETTINGS.languages,
   };
 }
 
@@ -132,11 +151,35 @@ export function reloadConfig(): void {
 const I18N_SETTINGS_DIR = path.join(os.homedir(), '.kawa-code', 'i18n');
 const I18N_SETTINGS_PATH = path.join(I18N_SETTINGS_DIR, 'settings.json');
 
-export type TranslationMode = 'local' | 'api';
+export type TranslationMode = 'local' | 'api' | 'openai-compatible' | 'glossary';
+
+/**
+ * Connection settings for an OpenAI-compatible chat completions server
+ * (Ollama, llama.cpp server, vLLM, LM Studio, ...)
+ */
+export interface OpenAICompatibleSettings {
+  /** Base URL including the API version, e.g. http://localhost:11434/v1 */
+  endpoint: string;
+  /** Model name as known to the server */
+  model: string;
+  /** Bearer token, if the server requires one */
+  apiKey?: string;
+}
+
+/**
+ * Default OpenAI-compatible settings (a local Ollama server)
+ */
+export const DEFAULT_OPENAI_COMPATIBLE_SETTINGS: OpenAICompatibleSettings = {
+  endpoint: 'http://localhost:11434/v1',
+  model: 'llama3.1',
+};
 
 interface I18nUserSettings {
   translationScope?: TranslationScope;
   translationMode?: TranslationMode;
+  openaiCompatible?: Partial<OpenAICompatibleSettings>;
+  /** Backend for whatever the glossary backend can't translate (default: none) */
+  glossaryFallback?: Exclude<TranslationMode, 'glossary'>;
 }
 
 /**
@@ -195,7 +238,7 @@ export function setTranslationScope(scope: TranslationScope): void {
 }
 
 /**
- * Get current translation mode ('local' or 'api')
+ * Get current translation mode ('local', 'api', 'openai-compatible' or 'glossary')
  * Default: 'local' (uses Claude CLI on user's machine)
  */
 export function getTranslationMode(): TranslationMode {
@@ -211,3 +254,35 @@ export function setTranslationMode(mode: TranslationMode): void {
   settings.translationMode = mode;
   saveI18nUserSettings(settings);
 }
+
+/**
+ * Get OpenAI-compatible backend settings with defaults
+ */
+export function getOpenAICompatibleSettings(): OpenAICompatibleSettings {
+  const settings = loadI18nUserSettings();
+  return { ...DEFAULT_OPENAI_COMPATIBLE_SETTINGS, ...settings.openaiCompatible };
+}
+
+/**
+ * Update OpenAI-compatible backend settings (only the given fields change)
+ */
+export function setOpenAICompatibleSettings(update: Partial<OpenAICompatibleSettings>): void {
+  const settings = loadI18nUserSettings();
+  const defined = Object.entries(update).filter(([, value]) => value !== undefined);
+  settings.openaiCompatible = { ...settings.openaiCompatible, ...Object.fromEntries(defined) };
+  saveI18nUserSettings(settings);
+}
+
+/**
+ * Get the backend the glossary backend falls back to, if any
+ * Values other than the LLM backends (including 'glossary' itself) are ignored.
+ */
+export function getGlossaryFallback(): Exclude<TranslationMode, 'glossary'> | undefined {
+  const fallback = loadI18nUserSettings().glossaryFallback;
+  const modes: string[] = ['local', 'api', 'openai-compatible'];
+  if (fallback === undefined || modes.includes(fallback)) {
+    return fallback;
+  }
+  log(`[Config] Ignoring glossaryFallback "${fallback}": must be one of ${modes.join(', ')}`);
+  return undefined;
+}
@@ -3,6 +3,9 @@ import crypto from 'crypto';
 import { TokenMapper } from './tokenMapper';
 import { TranslatorOptions, TranslationResult, CommentTranslations } from './types';
 import { CommentExtractor } from './commentExtractor';
+import { parseCommentLayout, renderComment } from './commentLayout';
+import { ScopeAnalyzer } from './scopeAnalyzer';
+import { isBuiltInIdentifier } from './builtIns';
 
 /**
  * AST Transformer that replaces tokens in TypeScript source code
@@ -12,6 +15,7 @@ export class ASTTransformer {
   private options: TranslatorOptions;
   private translatedTokens: Set<string>;
   private unmappedTokens: Set<string>;
+  private ambiguousTokens: Set<string>;
   private commentExtractor: CommentExtractor;
   private commentTranslations?: Record<string, CommentTranslations>;
 
@@ -24,6 +28,7 @@ export class ASTTransformer {
     };
     this.translatedTokens = new Set();
     this.unmappedTokens = new Set();
+    this.ambiguousTokens = new Set();
     this.commentExtractor = new CommentExtractor();
   }
 
@@ -41,13 +46,16 @@ export class ASTTransformer {
    * Uses TWO-PASS strategy to avoid position conflicts:
    *   Pass 1: Translate identifiers
    *   Pass 2: Translate comments (in the already-translated code)
+   *
+   * @param filePath - Optional absolute path used to resolve the file's relative imports
    */
-  translateToCustom(sourceCode: string, targetLanguage?: string): TranslationResult {
+  translateToCustom(sourceCode: string, targetLanguage?: string, filePath?: string): TranslationResult {
     this.translatedTokens.clear();
     this.unmappedTokens.clear();
+    this.ambiguousTokens.clear();
 
     // Pass 1: Translate identifiers only
-    let code = this.translateIdentifiersOnly(sourceCode);
+    let code = this.translateIdentifiersOnly(sourceCode, filePath);
 
     // Pass 2: Translate comments only (if we have translations)
     if (this.commentTranslations && targetLanguage) {
@@ -58,20 +66,19 @@ export class ASTTransformer {
       code,
       translatedTokens: Array.from(this.translatedTokens),
       unmappedTokens: Array.from(this.unmappedTokens),
+      ambiguousTokens: Array.from(this.ambiguousTokens),
     };
   }
 
   /**
    * Pass 1: Translate only identifiers (no comments)
    * This prevents comment replacements from interfering with identifier positions
+   * Identifiers declared outside the project (packages, ambient declarations,
+   * members of untyped values) are left untouched.
    */
-  private translateIdentifiersOnly(sourceCode: string): string {
-    const sourceFile = ts.createSourceFile(
-      'source.ts',
-      sourceCode,
-      ts.ScriptTarget.Latest,
-      true
-    );
+  private translateIdentifiersOnly(sourceCode: string, filePath?: string): string {
+    const scopeAnalyzer = new ScopeAnalyzer(sourceCode, { filePath });
+    const sourceFile = scopeAnalyzer.sourceFile;
 
     interface Replacement {
       start: number;
@@ -81,12 +88,20 @@ export class ASTTransformer {
     }
     const replacements: Replacement[] = [];
 
+    // Non-ASCII identifiers never belong to third-party APIs, so they stay
+    // translatable even when their owner can't be resolved (reverse mappings)
+    const isTranslatable = (node: ts.Identifier) =>
+      /[^\x00-\x7F]/.test(node.text) || scopeAnalyzer.classify(node) !== 'external';
+
     const collectReplacements = (node: ts.Node) => {
-      if (ts.isIdentifier(node)) {
+      if (ts.isIdentifier(node) && isTranslatable(node)) {
         const originalText = node.text;
         const customToken = this.mapper.toCustom(originalText);
 
         if (customToken) {
+          if (this.mapper.isAmbiguous(customToken)) {
+            this.ambiguousTokens.add(originalText);
+          }
           this.translatedTokens.add(originalText);
           replacements.push({
             start: node.getStart(sourceFile),
@@ -96,7 +111,7 @@ export class ASTTransformer {
           });
         } else {
           // Only track as unmapped if it's not a built-in
-          if (!this.isBuiltInIdentifier(originalText)) {
+          if (!isBuiltInIdentifier(originalText)) {
             this.unmappedTokens.add(originalText);
           }
 
@@ -148,31 +163,8 @@ export class ASTTransformer {
       if (translations && translations[targetLanguage]) {
         const translatedText = translations[targetLanguage];
 
-        // Reconstruct the comment preserving the ORIGINAL format
-        let newComment: string;
-        if (comment.kind === 'SingleLine') {
-          newComment = `// ${translatedText}`;
-        } else {
-          // Multi-line comment - ALWAYS preserve multi-line format
-          const isJSDoc = comment.fullText.trimStart().startsWith('/**');
-          const lines = translatedText.split('\n');
-
-          if (isJSDoc) {
-            // JSDoc format: /**\n * ...\n */
-            if (lines.length === 1) {
-              newComment = `/**\n * ${translatedText}\n */`;
-            } else {
-              newComment = `/**\n${lines.map(line => ` * ${line}`).join('\n')}\n */`;
-            }
-          } else {
-            // Block comment format: /*\n * ...\n */
-            if (lines.length === 1) {
-              newComment = `/*\n * ${translatedText}\n */`;
-            } else {
-              newComment = `/*\n${lines.map(line => ` * ${line}`).join('\n')}\n */`;
-            }
-          }
-        }
+        // Reconstruct the comment in the layout of the original
+        const newComment = renderComment(translatedText, parseCommentLayout(comment, sourceCode));
 
         replacements.push({
           start: comment.pos,
@@ -206,6 +198,7 @@ export class ASTTransformer {
   translateToEnglish(sourceCode: string): TranslationResult {
     this.translatedTokens.clear();
     this.unmappedTokens.clear();
+    this.ambiguousTokens.clear();
 
     const sourceFile = ts.createSourceFile(
       'source.ts',
@@ -236,9 +229,16 @@ export class ASTTransformer {
             newText: englishToken,
             oldText: customText,
           });
+        } else if (this.mapper.isAmbiguous(customText)) {
+          // Several English tokens share this custom token - refuse to guess
+          this.ambiguousTokens.add(customText);
+
+          if (this.options.strictMode) {
+            throw new Error(`Ambiguous custom token: ${customText}`);
+          }
         } else {
           // Only track as unmapped if it looks like a custom token
-          if (!this.isBuiltInIdentifier(customText)) {
+          if (!isBuiltInIdentifier(customText)) {
             this.unmappedTokens.add(customText);
           }
 
@@ -274,19 +274,8 @@ export class ASTTransformer {
 
         if (englishText) {
 
-          // Reconstruct the comment with the same format
-          let newComment: string;
-          if (comment.kind === 'SingleLine') {
-            newComment = `// ${englishText}`;
-          } else {
-            // Multi-line comment
-            const lines = englishText.split('\n');
-            if (lines.length === 1) {
-              newComment = `/* ${englishText} */`;
-            } else {
-              newComment = `/*\n${lines.map(line => `   * ${line}`).join('\n')}\n   */`;
-            }
-          }
+          // Reconstruct the comment in the layout of the original
+          const newComment = renderComment(englishText, parseCommentLayout(comment, sourceCode));
 
           replacements.push({
             start: comment.pos,
@@ -314,34 +303,10 @@ export class ASTTransformer {
       code,
       translatedTokens: Array.from(this.translatedTokens),
       unmappedTokens: Array.from(this.unmappedTokens),
+      ambiguousTokens: Array.from(this.ambiguousTokens),
     };
   }
 
-  /**
-   * Checks if an identifier is a built-in TypeScript/JavaScript identifier
-   * These are typically not translated and shouldn't be marked as unmapped
-   */
-  private isBuiltInIdentifier(text: string): boolean {
-    const builtIns = new Set([
-      // Common built-ins
-      'Object', 'Array', 'String', 'Number', 'Boolean', 'Function',
-      'Date', 'RegExp', 'Error', 'Map', 'Set', 'Promise',
-      'console', 'window', 'document', 'Math', 'JSON',
-      // Common methods
-      'prototype', 'constructor', 'toString', 'valueOf', 'length',
-      'push', 'pop', 'shift', 'unshift', 'slice', 'splice',
-      'forEach', 'map', 'filter', 'reduce', 'find', 'findIndex',
-      'indexOf', 'includes', 'join', 'split',
-      // TypeScript types
-      'any', 'unknown', 'never', 'void',
-      // Common single letters (often used as parameters)
-      'a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k',
-      'l', 'm', 'n', 'o', 'p', 'q', 'r', 's', 't', 'u', 'v', 'w', 'x', 'y', 'z',
-    ]);
-
-    return builtIns.has(text);
-  }
-
   /**
    * Hash a comment to create a unique identifier (same as backend)
    */
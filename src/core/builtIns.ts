@@ -0,0 +1,36 @@
+/**
+ * Built-in identifiers
+ *
+ * Names from the language runtimes and common libraries that are never
+ * extracted for translation and never reported as unmapped. Projects add
+ * their own with "doNotTranslate" in .kawa/i18n/glossary.json.
+ */
+export const BUILT_IN_IDENTIFIERS: ReadonlySet<string> = new Set([
+  // Common built-ins
+  'Object', 'Array', 'String', 'Number', 'Boolean', 'Function',
+  'Date', 'RegExp', 'Error', 'Map', 'Set', 'Promise',
+  'console', 'window', 'document', 'Math', 'JSON',
+  // Common methods
+  'prototype', 'constructor', 'toString', 'valueOf', 'length',
+  'push', 'pop', 'shift', 'unshift', 'slice', 'splice',
+  'forEach', 'map', 'filter', 'reduce', 'find', 'findIndex',
+  'indexOf', 'includes', 'join', 'split',
+  // TypeScript types
+  'any', 'unknown', 'never', 'void',
+  // Common single letters (often used as parameters)
+  'a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k',
+  'l', 'm', 'n', 'o', 'p', 'q', 'r', 's', 't', 'u', 'v', 'w', 'x', 'y', 'z',
+  // Node.js
+  'require', 'module', 'exports', 'process', 'Buffer',
+  // Common imports
+  'default', 'React', 'Component', 'useState', 'useEffect',
+  // MongoDB reserved fields (to avoid conflicts with ObjectId fields)
+  '_id',
+]);
+
+/**
+ * Check if an identifier is a built-in
+ */
+export function isBuiltInIdentifier(name: string): boolean {
+  return BUILT_IN_IDENTIFIERS.has(name);
+}
@@ -0,0 +1,400 @@
+/**
+ * Comment layout
+ *
+ * Translated comments are written back in the layout of the original, so a
+ * translated file differs from its source only in the comment text. The
+ * layout records:
+ *
+ *   marker and gap          '// ', '/// ', '# ', '/** ', '/*'
+ *   line prefix             '   * ' before each line of a block comment, '   *' before blank ones
+ *   opener and closer lines whether text starts on the opener line and ends on the closer line
+ *   line width              the width paragraphs were wrapped at, when the original wraps them
+ *   tag structure           the extra indentation of lines continuing a JSDoc tag
+ *
+ * A one-line block comment stays on one line while its translation does,
+ * and trailing comments aligned in a column stay aligned when the code in
+ * front of them changes width (see alignTrailingComments). Translating
+ * back can't tell where the original broke its lines, so a comment that
+ * comes back with the words of the original is written as the original
+ * wrote it (see restoreOriginalComments).
+ */
+
+import type { ExtractedComment } from './commentExtractor';
+import type { TextReplacement } from '../frontends/types';
+
+/**
+ * Layout of a comment, read from the original by parseCommentLayout
+ */
+export interface CommentLayout {
+  /** Comment marker: //, ///, //!, #, /*, /** or /*! */
+  marker: string;
+  /** Closed by a closer (block comment) or ended by the line (line comment) */
+  block: boolean;
+  /** Whitespace between the marker and the text */
+  gap: string;
+  /** Whitespace before the marker; following lines of a line comment start with it */
+  indent: string;
+  /** Block comments: start of each following line with text, e.g. '   * ' */
+  prefix: string;
+  /** Block comments: blank lines, e.g. '   *' */
+  emptyPrefix: string;
+  /** Block comments: the comment fits on one line */
+  singleLine: boolean;
+  /** Block comments: the text starts on the opener line */
+  inlineOpen: boolean;
+  /** Block comments: the closer follows the last line of text */
+  inlineClose: boolean;
+  /** Whitespace before a closer that follows the text */
+  closeGap: string;
+  /** Start of the closer's own line, e.g. '   ' (or '   *' for a closing '**' line) */
+  closeIndent: string;
+  /** Display width paragraphs were wrapped at, when the original wraps them */
+  width?: number;
+  /** Indentation of lines continuing a JSDoc tag description */
+  tagIndent: string;
+}
+
+/** Narrowest line width translated paragraphs are wrapped at */
+const MIN_WRAP_WIDTH = 20;
+
+/** Start of a block comment line: indentation and an optional '*' with one space */
+const LINE_PREFIX_PATTERN = /^[ \t]*(\*[ \t]?)?/;
+
+/** Lines that start a new paragraph rather than continue one */
+const PARAGRAPH_START_PATTERN = /^\s*(@|[-*+]\s|\d+[.)]\s|```|~~~)/;
+
+/** Characters two columns wide: CJK, Hangul, full-width forms */
+const WIDE_CHAR_PATTERN = /[\u1100-\u115F\u2E80-\u303E\u3041-\u33FF\u3400-\u4DBF\u4E00-\u9FFF\uA000-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6\u{20000}-\u{3FFFD}]/u;
+
+/** Units a line is wrapped between: inline code and tags, spaces, CJK characters, words */
+const WRAP_TOKEN_PATTERN = /`[^`]*`|\{@[^}]*\}|[ \t]+|[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー][、。，．！？）」』ー]*|[^\s\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー、。，．！？）」』]+[、。，．！？）」』]*|[、。，．！？）」』]+/gu;
+
+/** CJK text at the end or the start of a wrap unit */
+const CJK_END_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー、。，．！？）」』]$/u;
+const CJK_START_PATTERN = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー、。，．！？）」』]/u;
+
+/**
+ * Read the layout of a comment
+ *
+ * @param sourceCode - The code the comment is in, for its indentation
+ */
+export function parseCommentLayout(comment: Pick<ExtractedComment, 'fullText' | 'pos'>, sourceCode: string): CommentLayout {
+  const { fullText } = comment;
+  const lineStart = sourceCode.lastIndexOf('\n', comment.pos - 1) + 1;
+  const before = sourceCode.slice(lineStart, comment.pos);
+  const leading = before.match(/^\s*/)![0];
+  const indent = leading + ' '.repeat(displayWidth(before.slice(leading.length)));
+
+  const block = fullText.startsWith('/*');
+  const marker = block ? fullText.match(/^\/\*[*!]?/)![0] : fullText.match(/^(\/\/[\/!]?|#)/)?.[0] ?? '';
+
+  const layout: CommentLayout = {
+    marker,
+    block,
+    gap: ' ',
+    indent,
+    prefix: `${indent} * `,
+    emptyPrefix: `${indent} *`,
+    singleLine: !fullText.includes('\n'),
+    inlineOpen: true,
+    inlineClose: true,
+    closeGap: ' ',
+    closeIndent: `${indent} `,
+    tagIndent: '',
+  };
+
+  if (!block) {
+    const text = fullText.slice(marker.length);
+    if (text.trim()) {
+      layout.gap = text.match(/^[ \t]*/)![0];
+    }
+    return layout;
+  }
+
+  const lines = fullText.slice(marker.length, Math.max(marker.length, fullText.length - 2)).split('\n');
+  const first = lines[0];
+  const last = lines[lines.length - 1];
+
+  layout.inlineOpen = first.trim().length > 0;
+  if (layout.inlineOpen) {
+    layout.gap = first.match(/^[ \t]*/)![0];
+  }
+
+  // The closer is on a line of its own unless text comes before it
+  if (lines.length > 1 && /^[ \t]*\**[ \t]*$/.test(last)) {
+    layout.inlineClose = false;
+    layout.closeIndent = last;
+  } else if (last.trim()) {
+    layout.closeGap = last.match(/[ \t]*$/)![0];
+  }
+
+  const following = lines.slice(1, layout.inlineClose ? undefined : -1);
+  const textLine = following.find(line => line.slice(line.match(LINE_PREFIX_PATTERN)![0].length).trim());
+  const blankLine = following.find(line => !line.slice(line.match(LINE_PREFIX_PATTERN)![0].length).trim());
+  if (textLine !== undefined) {
+    layout.prefix = textLine.match(LINE_PREFIX_PATTERN)![0];
+  }
+  layout.emptyPrefix = blankLine !== undefined ? blankLine.trimEnd() : layout.prefix.trimEnd();
+
+  // Text of each line without its prefix, with the width of the whole line
+  const content = [
+    ...(layout.inlineOpen ? [{ text: first.trim(), width: displayWidth(indent + marker + first.trimEnd()) }] : []),
+    ...following.map(line => ({
+      text: line.slice(line.match(LINE_PREFIX_PATTERN)![0].length).trimEnd(),
+      width: displayWidth(line.trimEnd()),
+    })),
+  ];
+
+  let wrapped = false;
+  let inCode = false;
+  content.forEach(({ text }, i) => {
+    const next = content[i + 1]?.text;
+    if (/^\s*(```|~~~)/.test(text)) inCode = !inCode;
+    if (/^\s*@/.test(text)) inCode = /^\s*@example/.test(text);
+    if (inCode || !text.trim() || !next?.trim()) return;
+
+    if (/^\s*@/.test(text) && /^\s+\S/.test(next) && !/^\s*@/.test(next)) {
+      layout.tagIndent = next.match(/^\s*/)![0];
+    }
+    if (!PARAGRAPH_START_PATTERN.test(next)) {
+      wrapped = true;
+    }
+  });
+
+  if (wrapped) {
+    layout.width = Math.max(MIN_WRAP_WIDTH, ...content.map(line => line.width));
+  }
+  return layout;
+}
+
+/**
+ * Write a translated comment in the layout of the original
+ */
+export function renderComment(text: string, layout: CommentLayout): string {
+  if (!layout.block) {
+    return text
+      .split('\n')
+      .map(line => (line.trim() ? `${layout.marker}${layout.gap}${line.trimStart()}` : layout.marker))
+      .join(`\n${layout.indent}`);
+  }
+
+  const closer = '*/';
+  const lines = wrapLines(text.split('\n'), layout);
+
+  if (lines.length === 1 && layout.singleLine) {
+    return `${layout.marker}${layout.gap}${lines[0].trim()}${layout.closeGap}${closer}`;
+  }
+
+  // A one-line comment that no longer fits on one line takes the usual block form
+  const inlineOpen = layout.inlineOpen && !layout.singleLine;
+  const inlineClose = layout.inlineClose && !layout.singleLine;
+
+  let result = layout.marker;
+  let rest = lines;
+  if (inlineOpen) {
+    result += layout.gap + lines[0].trim();
+    rest = lines.slice(1);
+  }
+  for (const line of rest) {
+    result += `\n${line.trim() ? layout.prefix + line.trimEnd() : layout.emptyPrefix}`;
+  }
+  return inlineClose ? `${result}${layout.closeGap}${closer}` : `${result}\n${layout.closeIndent}${closer}`;
+}
+
+/**
+ * Whitespace replacements that keep aligned trailing comments aligned
+ *
+ * Trailing comments on consecutive lines that start in the same column are
+ * moved back into one column after the code in front of them was
+ * translated: the column after the widest line, with the gap the widest
+ * line had in the original. Translating back restores the original column.
+ *
+ *   const total = 0;   // Sum         const 合計 = 0;   // 合計
+ *   const n = 0;       // Items   →   const 数 = 0;     // 件数
+ *
+ * @param replacements - Replacements that translate the code
+ * @param comments - Comments of the code
+ */
+export function alignTrailingComments(
+  sourceCode: string,
+  replacements: TextReplacement[],
+  comments: ExtractedComment[]
+): TextReplacement[] {
+  interface TrailingComment {
+    line: number;
+    column: number;
+    gapStart: number;
+    pos: number;
+    /** Width of the code in front of the comment, before and after translation */
+    originalWidth: number;
+    codeWidth: number;
+  }
+
+  const lineStarts = [0];
+  for (let i = sourceCode.indexOf('\n'); i !== -1; i = sourceCode.indexOf('\n', i + 1)) {
+    lineStarts.push(i + 1);
+  }
+
+  const trailing: TrailingComment[] = [];
+  for (const comment of comments) {
+    const lineStart = sourceCode.lastIndexOf('\n', comment.pos - 1) + 1;
+    const before = sourceCode.slice(lineStart, comment.pos);
+    const gap = before.match(/[ \t]*$/)![0];
+    const gapStart = comment.pos - gap.length;
+    if (!before.trim() || gap.includes('\t')) continue;
+
+    // Translated code in front of the comment; skipped when a replacement crosses its ends
+    const inside = replacements.filter(r => r.end > lineStart && r.start < comment.pos);
+    if (inside.some(r => r.start < lineStart || r.end > gapStart)) continue;
+
+    let code = sourceCode.slice(lineStart, gapStart);
+    for (const r of [...inside].sort((a, b) => b.start - a.start)) {
+      code = code.slice(0, r.start - lineStart) + r.newText + code.slice(r.end - lineStart);
+    }
+
+    trailing.push({
+      line: lineStarts.lastIndexOf(lineStart),
+      column: displayWidth(before),
+      gapStart,
+      pos: comment.pos,
+      originalWidth: displayWidth(sourceCode.slice(lineStart, gapStart)),
+      codeWidth: displayWidth(code.slice(code.lastIndexOf('\n') + 1)),
+    });
+  }
+  trailing.sort((a, b) => a.line - b.line);
+
+  // Comments on consecutive lines in the same column form a group
+  const groups: TrailingComment[][] = [];
+  for (const comment of trailing) {
+    const group = groups[groups.length - 1];
+    const previous = group?.[group.length - 1];
+    if (previous && previous.line === comment.line - 1 && previous.column === comment.column) {
+      group.push(comment);
+    } else {
+      groups.push([comment]);
+    }
+  }
+
+  const result: TextReplacement[] = [];
+  for (const group of groups.filter(group => group.length > 1)) {
+    const gap = Math.max(1, group[0].column - Math.max(...group.map(comment => comment.originalWidth)));
+    const column = Math.max(...group.map(comment => comment.codeWidth)) + gap;
+
+    for (const comment of group) {
+      const oldText = sourceCode.slice(comment.gapStart, comment.pos);
+      const newText = ' '.repeat(column - comment.codeWidth);
+      if (newText !== oldText) {
+        result.push({ start: comment.gapStart, end: comment.pos, newText, oldText });
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Replacements that write comments back the way the original wrote them
+ *
+ * A comment translated back is wrapped at the width of its translation,
+ * not where the original broke its lines. Comments with the words of a
+ * comment of the original, with the same marker and indentation, are
+ * written as the original wrote them.
+ *
+ * @param comments - Comments of the translated code
+ * @param originalComments - Comments of the original code
+ */
+export function restoreOriginalComments(
+  sourceCode: string,
+  comments: ExtractedComment[],
+  originalCode: string,
+  originalComments: ExtractedComment[]
+): TextReplacement[] {
+  const keyOf = (code: string, comment: ExtractedComment) => {
+    const { indent, marker } = parseCommentLayout(comment, code);
+    return [indent, marker, comment.text.trim().split(/\s+/).join(' ')].join('\n');
+  };
+
+  const originals = new Map<string, string[]>();
+  for (const comment of originalComments) {
+    const key = keyOf(originalCode, comment);
+    originals.set(key, [...(originals.get(key) ?? []), comment.fullText]);
+  }
+
+  const result: TextReplacement[] = [];
+  for (const comment of comments) {
+    const original = originals.get(keyOf(sourceCode, comment))?.shift();
+    if (original !== undefined && original !== comment.fullText) {
+      result.push({ start: comment.pos, end: comment.end, newText: original, oldText: comment.fullText });
+    }
+  }
+  return result;
+}
+
+/**
+ * Width of a text in monospace columns (CJK and full-width characters take two)
+ */
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += WIDE_CHAR_PATTERN.test(char) ? 2 : 1;
+  }
+  return width;
+}
+
+/**
+ * Wrap lines wider than the original comment's width
+ * Code, @example bodies and lines that fit are kept as they are; lines
+ * continuing a JSDoc tag get the tag indentation of the original.
+ */
+function wrapLines(lines: string[], layout: CommentLayout): string[] {
+  if (layout.width === undefined) {
+    return lines;
+  }
+
+  const wrapped: string[] = [];
+  let inCode = false;
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) inCode = !inCode;
+    if (/^\s*@/.test(line)) inCode = /^\s*@example/.test(line);
+
+    const lineStart = wrapped.length === 0 && layout.inlineOpen && !layout.singleLine
+      ? layout.indent + layout.marker + layout.gap
+      : layout.prefix;
+    const budget = Math.max(MIN_WRAP_WIDTH, layout.width - displayWidth(lineStart));
+    if (inCode || displayWidth(line) <= budget) {
+      wrapped.push(line);
+      continue;
+    }
+
+    const leading = line.match(/^\s*/)![0];
+    const continuation = leading + (/^\s*@/.test(line) ? layout.tagIndent : '');
+
+    // A word written against CJK text stays with it: joining the lines again would put a space between them
+    const units: { space: string; text: string }[] = [];
+    let space = '';
+    for (const token of line.slice(leading.length).match(WRAP_TOKEN_PATTERN) ?? []) {
+      if (!token.trim()) {
+        space = token;
+        continue;
+      }
+      const previous = units[units.length - 1];
+      if (previous && !space && CJK_END_PATTERN.test(previous.text) !== CJK_START_PATTERN.test(token)) {
+        previous.text += token;
+      } else {
+        units.push({ space, text: token });
+      }
+      space = '';
+    }
+
+    let current = leading;
+    for (const unit of units) {
+      if (current.trim() && displayWidth(current + unit.space + unit.text) > budget) {
+        wrapped.push(current);
+        current = continuation + unit.text;
+      } else {
+        current += unit.space + unit.text;
+      }
+    }
+    wrapped.push(current);
+  }
+  return wrapped;
+}
@@ -0,0 +1,231 @@
+/**
+ * Compound identifier composition
+ *
+ * Identifiers built from a known affix and known words are composed from
+ * the target language's patterns (src/languages) instead of being
+ * translated as opaque terms, so every compound of a word reads the same:
+ *
+ *   user → ユーザー, name → 名前 (known)
+ *   getUserName      → ユーザー名前を取得     get: '{}を取得'
+ *   getUserById      → IDでユーザーを取得     by: '{by}で{}', id: '{}ID'
+ *   MAX_RETRY_COUNT  → 最大_再試行_数         count: '{}数' (constant style kept)
+ *
+ * The rest of an identifier is looked up as a whole first (userName), then
+ * word by word. Identifiers without an affix, or with a word nobody has
+ * translated yet, are left to the translation backend.
+ */
+
+import { LanguageCode } from './types';
+import { getLocaleFallbacks } from './locale';
+import { isAcronym, joinIdentifier, splitIdentifier } from './naming';
+import { EMPTY_TERM_RULES, findRuleViolation, getFixedTranslation, TermRules } from './termRules';
+import { getLanguage } from '../languages';
+import type { CompoundAffix, CompoundPatterns } from '../languages';
+
+/** Affixes that start an identifier (getUser, isValid, onClick) */
+const PREFIX_AFFIXES: CompoundAffix[] = ['get', 'set', 'is', 'has', 'on', 'handle'];
+
+/** Affixes that end an identifier (userId, retryCount) */
+const SUFFIX_AFFIXES: CompoundAffix[] = ['id', 'count'];
+
+/**
+ * Composes English compound identifiers in a target language
+ */
+export class CompoundComposer {
+  private readonly patterns: CompoundPatterns;
+  private readonly caseless: boolean;
+  private readonly keptWords: Map<string, string>;
+
+  /**
+   * @param targetLang - Language to compose in
+   * @param lookup - Known translation of an English term (the dictionary)
+   * @param rules - Project glossary rules (fixed terms are not composed, kept words stay as written)
+   */
+  constructor(
+    private readonly targetLang: LanguageCode,
+    private readonly lookup: (term: string) => string | undefined,
+    private readonly rules: TermRules = EMPTY_TERM_RULES
+  ) {
+    this.patterns = getCompoundPatterns(targetLang) ?? {};
+    this.caseless = getLanguage(targetLang)?.identifiers.caseless ?? false;
+    this.keptWords = new Map(rules.keep.map(term => [term.toLowerCase(), term]));
+  }
+
+  /**
+   * Compose one identifier
+   *
+   * @returns The translation, or undefined when the identifier has no affix
+   *          pattern or a word without a known translation
+   */
+  compose(term: string): string | undefined {
+    if (getFixedTranslation(term, this.rules) !== undefined) {
+      return undefined;
+    }
+
+    const { words, style, prefix, suffix } = splitIdentifier(term);
+    if (words.length < 2) {
+      return undefined;
+    }
+
+    const composed = this.composeWords(words);
+    if (!composed) {
+      return undefined;
+    }
+
+    const translated = joinIdentifier(composed, style, prefix, suffix);
+    return findRuleViolation(term, translated, this.rules) ? undefined : translated;
+  }
+
+  /**
+   * Compose every identifier that can be composed
+   *
+   * @returns The composed translations and the identifiers still to translate
+   */
+  composeAll(terms: string[]): { composed: Record<string, string>; remaining: string[] } {
+    const composed: Record<string, string> = {};
+    const remaining: string[] = [];
+
+    for (const term of new Set(terms)) {
+      const translated = this.compose(term);
+      if (translated !== undefined) {
+        composed[term] = translated;
+      } else {
+        remaining.push(term);
+      }
+    }
+    return { composed, remaining };
+  }
+
+  /**
+   * Bring backend translations in line with the patterns
+   * Compounds are recomposed from the known words and the words in the same
+   * batch; cased translations get the naming style of the original back
+   * (MAX_RETRY_COUNT stays CONSTANT_CASE).
+   */
+  conform(translations: Record<string, string>): Record<string, string> {
+    const batch = new CompoundComposer(
+      this.targetLang,
+      term => this.lookup(term) ?? (translations[term] !== term ? translations[term] : undefined),
+      this.rules
+    );
+    const conformed: Record<string, string> = {};
+
+    for (const [original, translated] of Object.entries(translations)) {
+      conformed[original] = original === translated
+        ? translated
+        : batch.compose(original) ?? this.restyle(original, translated);
+    }
+    return conformed;
+  }
+
+  /**
+   * Give a translation the naming style of the original
+   * Caseless languages are left alone: their words cannot be told apart
+   */
+  private restyle(original: string, translated: string): string {
+    if (this.caseless) {
+      return translated;
+    }
+
+    const source = splitIdentifier(original);
+    const target = splitIdentifier(translated);
+    if (source.style === target.style || target.words.length === 0) {
+      return translated;
+    }
+    return joinIdentifier(target.words, source.style, target.prefix, target.suffix);
+  }
+
+  /**
+   * Target language words of an identifier's words, split at By
+   */
+  private composeWords(words: string[]): string[] | undefined {
+    const by = words.findIndex((word, i) => i > 0 && i < words.length - 1 && word.toLowerCase() === 'by');
+    if (by < 0 || !this.patterns.by) {
+      return this.composePhrase(words);
+    }
+
+    const head = this.composePhrase(words.slice(0, by)) ?? this.translateWords(words.slice(0, by));
+    const criterion = this.composePhrase(words.slice(by + 1)) ?? this.translateWords(words.slice(by + 1));
+    return head && criterion ? fillPattern(this.patterns.by, head, criterion) : undefined;
+  }
+
+  /**
+   * Words with a prefix and/or suffix affix; undefined when neither applies
+   */
+  private composePhrase(words: string[]): string[] | undefined {
+    const first = words[0].toLowerCase() as CompoundAffix;
+    const prefixPattern = words.length > 1 && PREFIX_AFFIXES.includes(first) ? this.patterns[first] : undefined;
+    const rest = prefixPattern ? words.slice(1) : words;
+
+    const last = rest[rest.length - 1].toLowerCase() as CompoundAffix;
+    const suffixPattern = SUFFIX_AFFIXES.includes(last) ? this.patterns[last] : undefined;
+
+    if (!prefixPattern && !suffixPattern) {
+      return undefined;
+    }
+
+    const core = suffixPattern ? rest.slice(0, -1) : rest;
+    let phrase = core.length > 0 ? this.translateWords(core) : [];
+    if (!phrase) {
+      return undefined;
+    }
+    if (suffixPattern) phrase = fillPattern(suffixPattern, phrase);
+    if (prefixPattern) phrase = fillPattern(prefixPattern, phrase);
+    return phrase;
+  }
+
+  /**
+   * Known translation of words: as one term (userName), else word by word
+   */
+  private translateWords(words: string[]): string[] | undefined {
+    if (words.length > 1) {
+      const whole = this.lookup(joinIdentifier(words, 'camel')) ?? this.lookup(joinIdentifier(words, 'pascal'));
+      if (whole !== undefined) {
+        return splitIdentifier(whole).words;
+      }
+    }
+
+    const result: string[] = [];
+    for (const word of words) {
+      if (isAcronym(word) || /^\d+$/.test(word)) {
+        result.push(word);
+        continue;
+      }
+
+      const kept = this.keptWords.get(word.toLowerCase());
+      if (kept !== undefined) {
+        result.push(kept);
+        continue;
+      }
+
+      const translated = this.lookup(word) ?? this.lookup(word.charAt(0).toUpperCase() + word.slice(1));
+      if (translated === undefined || translated === word) {
+        return undefined;
+      }
+      result.push(...splitIdentifier(translated).words);
+    }
+    return result;
+  }
+}
+
+/**
+ * Compound patterns of a language, or of its base language (es-MX → es)
+ */
+export function getCompoundPatterns(language: LanguageCode): CompoundPatterns | undefined {
+  for (const tag of getLocaleFallbacks(language)) {
+    const patterns = getLanguage(tag)?.identifiers.compounds;
+    if (patterns) return patterns;
+  }
+  return undefined;
+}
+
+/**
+ * Words of a pattern with {} and {by} replaced ('{} por {by}', [obtener, usuario], [id])
+ */
+function fillPattern(pattern: string, words: string[], by: string[] = []): string[] {
+  return pattern.split(/(\{\}|\{by\})/).flatMap(part => {
+    if (part === '{}') return words;
+    if (part === '{by}') return by;
+    return part.split(/\s+/).filter(Boolean);
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * BCP-47 locale tags
+ *
+ * Languages are identified by a base language optionally followed by a
+ * script and a region:
+ *
+ *   ja          → Japanese
+ *   zh-Hant     → Chinese, Traditional script
+ *   pt-BR       → Portuguese, Brazil
+ *   zh-Hant-TW  → Chinese, Traditional script, Taiwan
+ *
+ * Tags are compared in canonical case (language lowercase, script title
+ * case, region uppercase). Regional tags fall back to less specific ones,
+ * so a pt-BR lookup without a Brazilian term uses the Portuguese one.
+ */
+
+export interface ParsedLocale {
+  /** ISO 639 language, e.g. 'zh' */
+  language: string;
+  /** ISO 15924 script, e.g. 'Hant' */
+  script?: string;
+  /** ISO 3166 region or UN M.49 area, e.g. 'TW', '419' */
+  region?: string;
+}
+
+/** language[-Script][-REGION]; underscores are accepted (pt_BR) */
+const LOCALE_TAG_REGEX = /^([a-z]{2,3})(?:[-_]([a-z]{4}))?(?:[-_]([a-z]{2}|\d{3}))?$/i;
+
+/** Script implied by a Chinese region when the tag has none (CLDR likely subtags) */
+const IMPLIED_SCRIPTS: Record<string, string> = {
+  'zh-TW': 'Hant',
+  'zh-HK': 'Hant',
+  'zh-MO': 'Hant',
+  'zh-CN': 'Hans',
+  'zh-SG': 'Hans',
+};
+
+/**
+ * Split a locale tag into its subtags
+ * Returns undefined for strings that are not language[-Script][-REGION] tags
+ */
+export function parseLocale(tag: string): ParsedLocale | undefined {
+  const match = tag.match(LOCALE_TAG_REGEX);
+  if (!match) return undefined;
+
+  const [, language, script, region] = match;
+  return {
+    language: language.toLowerCase(),
+    script: script ? script.charAt(0).toUpperCase() + script.slice(1).toLowerCase() : undefined,
+    region: region?.toUpperCase(),
+  };
+}
+
+/**
+ * Check whether a string is a locale tag this extension understands
+ */
+export function isLocaleTag(tag: string): boolean {
+  return parseLocale(tag) !== undefined;
+}
+
+/**
+ * Canonical form of a locale tag ('PT_br' → 'pt-BR', 'zh-hant' → 'zh-Hant')
+ * Strings that are not locale tags are returned unchanged
+ */
+export function normalizeLocale(tag: string): string {
+  const parsed = parseLocale(tag);
+  return parsed ? formatLocale(parsed) : tag;
+}
+
+/**
+ * Base language of a locale tag ('pt-BR' → 'pt')
+ */
+export function getBaseLanguage(tag: string): string {
+  return parseLocale(tag)?.language ?? tag;
+}
+
+/**
+ * Tags to try for a locale, most specific first
+ *
+ *   zh-Hant-TW → ['zh-Hant-TW', 'zh-Hant', 'zh']
+ *   zh-TW      → ['zh-TW', 'zh-Hant', 'zh']
+ *   pt-BR      → ['pt-BR', 'pt']
+ */
+export function getLocaleFallbacks(tag: string): string[] {
+  const parsed = parseLocale(tag);
+  if (!parsed) return [tag];
+
+  const { language, region } = parsed;
+  const script = parsed.script ?? (region ? IMPLIED_SCRIPTS[`${language}-${region}`] : undefined);
+
+  const chain = [formatLocale(parsed)];
+  if (script && region) chain.push(formatLocale({ language, script }));
+  if (script || region) chain.push(language);
+  return Array.from(new Set(chain));
+}
+
+function formatLocale({ language, script, region }: ParsedLocale): string {
+  return [language, script, region].filter(Boolean).join('-');
+}
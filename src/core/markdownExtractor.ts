@@ -2,33 +2,40 @@
  * Markdown Content Extractor
  *
  * Extracts translatable text blocks from markdown files.
- * Used during project scan when markdownFiles option is enabled.
+ * Used during project scan and to show markdown files translated, when
+ * the markdownFiles option is enabled.
  *
  * Extracts:
  * - Headings (# Heading)
- * - Paragraphs
+ * - Paragraphs (all their lines)
  * - List items (- item, * item, 1. item)
  * - Blockquotes (> quote)
  * - Table cells
  *
  * Skips:
  * - Code blocks (``` and indented code)
- * - Inline code (`code`)
- * - URLs and image paths
- * - HTML tags
+ * - YAML front matter and HTML comments
+ * - Blocks without text once inline code, URLs, images and HTML tags are
+ *   removed (inline markup is kept in the blocks that are extracted)
  */
 
 /**
  * Extracted markdown block information
  */
 export interface MarkdownBlock {
-  text: string;      // The translatable text content
+  text: string;      // The translatable text, inline markup kept, whitespace collapsed
   type: 'heading' | 'paragraph' | 'listItem' | 'blockquote' | 'tableCell';
   line: number;      // Line number in source (1-indexed)
+  pos: number;       // Start of the text in the source (after #, >, - or |)
+  end: number;       // End of the text in the source
 }
 
 /**
  * Extract translatable text blocks from markdown content
+ *
+ * Blocks keep their inline markup (links, inline code, emphasis), so a
+ * translation can be written back in place of the block (see
+ * src/frontends/markdown.ts). The lines of a paragraph form one block.
  */
 export class MarkdownExtractor {
   /**
@@ -42,16 +49,22 @@ export class MarkdownExtractor {
     const uniqueTexts = new Set<string>();
 
     for (const block of blocks) {
-      const trimmed = block.text.trim();
-      // Only add non-empty blocks with actual content
-      if (trimmed.length > 0 && this.isTranslatableText(trimmed)) {
-        uniqueTexts.add(trimmed);
+      if (this.isTranslatableBlock(block)) {
+        uniqueTexts.add(block.text);
       }
     }
 
     return Array.from(uniqueTexts);
   }
 
+  /**
+   * Check if a block is worth translating (judged on its text without inline markup)
+   */
+  isTranslatableBlock(block: MarkdownBlock): boolean {
+    const cleaned = this.cleanInlineElements(block.text);
+    return cleaned.length > 0 && this.isTranslatableText(cleaned);
+  }
+
   /**
    * Extract text blocks with position information
    */
@@ -62,10 +75,23 @@ export class MarkdownExtractor {
     let inCodeBlock = false;
     let inFrontMatter = false;
     let lineNumber = 0;
+    let offset = 0;
+    let paragraph: MarkdownBlock | undefined;  // Paragraph the next plain line continues
+
+    const addBlock = (type: MarkdownBlock['type'], start: number, text: string) => {
+      const trimmed = text.trimEnd();
+      if (this.cleanInlineElements(trimmed)) {
+        blocks.push({ text: trimmed.replace(/\s+/g, ' '), type, line: lineNumber, pos: start, end: start + trimmed.length });
+      }
+    };
 
     for (const line of lines) {
       lineNumber++;
+      const lineStart = offset;
+      offset += line.length + 1;
       const trimmedLine = line.trim();
+      const continuesParagraph = paragraph;
+      paragraph = undefined;
 
       // Handle YAML front matter (--- at start of file)
       if (lineNumber === 1 && trimmedLine === '---') {
@@ -108,79 +134,55 @@ export class MarkdownExtractor {
         continue;
       }
 
-      // Extract headings (# Heading)
-      const headingMatch = trimmedLine.match(/^(#{1,6})\s+(.+)$/);
+      // Extract headings (# Heading), without a closing sequence (## Heading ##)
+      const headingMatch = line.match(/^(\s*#{1,6}\s+)(.*?)(\s+#+)?\s*$/);
       if (headingMatch) {
-        const headingText = this.cleanInlineElements(headingMatch[2]);
-        if (headingText) {
-          blocks.push({
-            text: headingText,
-            type: 'heading',
-            line: lineNumber,
-          });
-        }
+        addBlock('heading', lineStart + headingMatch[1].length, headingMatch[2]);
         continue;
       }
 
       // Extract blockquotes (> quote)
-      if (trimmedLine.startsWith('>')) {
-        const quoteText = this.cleanInlineElements(trimmedLine.replace(/^>+\s*/, ''));
-        if (quoteText) {
-          blocks.push({
-            text: quoteText,
-            type: 'blockquote',
-            line: lineNumber,
-          });
-        }
+      const quoteMatch = line.match(/^(\s*(?:>\s?)+)(.*)$/);
+      if (quoteMatch) {
+        addBlock('blockquote', lineStart + quoteMatch[1].length, quoteMatch[2]);
         continue;
       }
 
-      // Extract list items (-, *, +, or numbered)
-      const listMatch = trimmedLine.match(/^[-*+]|\d+\.\s+(.*)$/);
-      if (trimmedLine.match(/^[-*+]\s+/) || trimmedLine.match(/^\d+\.\s+/)) {
-        const itemText = this.cleanInlineElements(
-          trimmedLine.replace(/^[-*+]\s+/, '').replace(/^\d+\.\s+/, '')
-        );
-        if (itemText) {
-          blocks.push({
-            text: itemText,
-            type: 'listItem',
-            line: lineNumber,
-          });
-        }
+      // Extract list items (-, *, +, or numbered), after a task checkbox
+      const listMatch = line.match(/^(\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?)(.*)$/);
+      if (listMatch) {
+        addBlock('listItem', lineStart + listMatch[1].length, listMatch[2]);
         continue;
       }
 
       // Extract table cells (| cell | cell |)
       if (trimmedLine.startsWith('|') && trimmedLine.endsWith('|')) {
         // Skip separator rows (|---|---|)
-        if (/^\|[\s\-:]+\|$/.test(trimmedLine)) {
+        if (/^\|[\s\-:|]+\|$/.test(trimmedLine)) {
           continue;
         }
-        const cells = trimmedLine
-          .split('|')
-          .slice(1, -1) // Remove first and last empty elements
-          .map(cell => this.cleanInlineElements(cell.trim()))
-          .filter(cell => cell.length > 0);
-
+        let cellStart = lineStart + line.indexOf('|') + 1;
+        const cells = trimmedLine.slice(1, -1).split('|');
         for (const cell of cells) {
-          blocks.push({
-            text: cell,
-            type: 'tableCell',
-            line: lineNumber,
-          });
+          const indent = cell.length - cell.trimStart().length;
+          addBlock('tableCell', cellStart + indent, cell.trim());
+          cellStart += cell.length + 1;
         }
         continue;
       }
 
-      // Regular paragraph text
-      const paragraphText = this.cleanInlineElements(trimmedLine);
-      if (paragraphText) {
-        blocks.push({
-          text: paragraphText,
-          type: 'paragraph',
-          line: lineNumber,
-        });
+      // Regular paragraph text; following lines extend the same block
+      const indent = line.length - line.trimStart().length;
+      if (continuesParagraph) {
+        continuesParagraph.end = lineStart + line.trimEnd().length;
+        continuesParagraph.text += ' ' + trimmedLine.replace(/\s+/g, ' ');
+        paragraph = continuesParagraph;
+        continue;
+      }
+      const count = blocks.length;
+      addBlock('paragraph', lineStart + indent, line.slice(indent));
+      if (blocks.length > count) {
+        paragraph = blocks[blocks.length - 1];
       }
     }
 
@@ -0,0 +1,53 @@
+/**
+ * Message format for strings with interpolations
+ *
+ * A template literal is translated as one message in which every `${...}`
+ * is replaced by a numbered placeholder:
+ *
+ *   `Deleted ${count} files from ${folder}`  →  'Deleted {0} files from {1}'
+ *
+ * A translation is only usable if it keeps every placeholder exactly once,
+ * in the original order; otherwise interpolations would be dropped or end
+ * up in the wrong place when the template is rebuilt.
+ */
+
+const PLACEHOLDER_REGEX = /\{(\d+)\}/g;
+
+/**
+ * Placeholder numbers in order of appearance
+ */
+export function getPlaceholders(text: string): number[] {
+  return Array.from(text.matchAll(PLACEHOLDER_REGEX), match => Number(match[1]));
+}
+
+/**
+ * Check whether a translation keeps the placeholders of the original, in order
+ */
+export function hasSamePlaceholders(original: string, translated: string): boolean {
+  const before = getPlaceholders(original);
+  const after = getPlaceholders(translated);
+  return before.length === after.length && before.every((placeholder, i) => placeholder === after[i]);
+}
+
+/**
+ * Join the literal parts of a template into a message: ['a ', ' b'] → 'a {0} b'
+ * Returns undefined when a part already contains something that looks like a placeholder
+ */
+export function toMessage(parts: string[]): string | undefined {
+  if (parts.some(part => getPlaceholders(part).length > 0)) {
+    return undefined;
+  }
+  return parts.reduce((message, part, i) => (i === 0 ? part : `${message}{${i - 1}}${part}`), '');
+}
+
+/**
+ * Split a message back into `count + 1` literal parts
+ * Returns undefined unless the message contains exactly {0}..{count - 1} in order
+ */
+export function splitMessage(message: string, count: number): string[] | undefined {
+  const placeholders = getPlaceholders(message);
+  if (placeholders.length !== count || placeholders.some((placeholder, i) => placeholder !== i)) {
+    return undefined;
+  }
+  return message.split(PLACEHOLDER_REGEX).filter((_, i) => i % 2 === 0);
+}
@@ -0,0 +1,86 @@
+/**
+ * Identifier naming conventions
+ *
+ * Splits identifiers into words and joins words back in the same style:
+ *
+ *   getUserName     → camel     ['get', 'user', 'name']
+ *   UserProfile     → pascal    ['user', 'profile']
+ *   max_retry_count → snake     ['max', 'retry', 'count']
+ *   MAX_RETRY_COUNT → constant  ['max', 'retry', 'count']
+ *
+ * Leading and trailing underscores or dollar signs (_private, $el, value_)
+ * are kept as a prefix and suffix. Acronyms and numbers are separate words
+ * (parseHTTPResponse → parse, HTTP, response).
+ */
+
+export type NamingStyle = 'camel' | 'pascal' | 'snake' | 'constant';
+
+export interface SplitIdentifier {
+  /** Words in order; lowercase except acronyms */
+  words: string[];
+  style: NamingStyle;
+  /** Leading underscores / dollar signs */
+  prefix: string;
+  /** Trailing underscores / dollar signs */
+  suffix: string;
+}
+
+/** Acronym, capitalized or lowercase word, number, or run of caseless letters (日本語) */
+const WORD_REGEX = /\p{Lu}+(?!\p{Ll})|\p{Lu}?\p{Ll}+|\d+|[\p{Lo}\p{Lm}\p{M}]+/gu;
+
+/**
+ * Split an identifier into words and detect its naming style
+ */
+export function splitIdentifier(name: string): SplitIdentifier {
+  const [, prefix, body, suffix] = name.match(/^([_$]*)(.*?)([_$]*)$/s)!;
+
+  let style: NamingStyle;
+  if (body.includes('_')) {
+    style = body === body.toUpperCase() && /\p{Lu}/u.test(body) ? 'constant' : 'snake';
+  } else {
+    style = /^\p{Lu}/u.test(body) ? 'pascal' : 'camel';
+  }
+
+  const words: string[] = [];
+  for (const part of body.split('_').filter(Boolean)) {
+    for (const word of part.match(WORD_REGEX) ?? []) {
+      words.push(isAcronym(word) && style !== 'constant' ? word : word.toLowerCase());
+    }
+  }
+
+  return { words, style, prefix, suffix };
+}
+
+/**
+ * Join words in a naming style
+ * Words without letter case (Japanese, Chinese, ...) are concatenated as they are
+ */
+export function joinIdentifier(words: string[], style: NamingStyle, prefix = '', suffix = ''): string {
+  let body: string;
+  switch (style) {
+    case 'snake':
+      body = words.map(word => isAcronym(word) ? word : word.toLowerCase()).join('_');
+      break;
+    case 'constant':
+      body = words.map(word => word.toUpperCase()).join('_');
+      break;
+    case 'pascal':
+      body = words.map(capitalize).join('');
+      break;
+    case 'camel':
+      body = words.map((word, i) => (i === 0 && !isAcronym(word) ? word.toLowerCase() : capitalize(word))).join('');
+      break;
+  }
+  return prefix + body + suffix;
+}
+
+/**
+ * Check whether a word is an acronym such as HTTP or ID
+ */
+export function isAcronym(word: string): boolean {
+  return word.length > 1 && /^[\p{Lu}\d]+$/u.test(word) && /\p{Lu}/u.test(word);
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
@@ -0,0 +1,640 @@
+/**
+ * Python Tokenizer
+ *
+ * A small tokenizer for Python source, used to extract and translate
+ * identifiers, comments, docstrings and strings without a Python runtime.
+ *
+ * Understands:
+ * - Names (including non-ASCII identifiers) and keywords
+ * - # comments
+ * - String literals with prefixes (r, b, u, f and combinations), single and
+ *   triple quoted, and the replacement fields of f-strings
+ * - Logical lines (newlines inside brackets and after \ are ignored)
+ *
+ * On top of the token stream, analyze() classifies names by role
+ * (class, function, parameter, ...) and marks names that belong to
+ * imported modules or Python built-ins as external, along with attributes
+ * of the values they return.
+ */
+
+import type { ExtractedComment } from './commentExtractor';
+
+export type PythonTokenKind = 'name' | 'keyword' | 'number' | 'string' | 'comment' | 'op' | 'newline';
+
+/**
+ * A token in Python source
+ */
+export interface PythonToken {
+  kind: PythonTokenKind;
+  text: string;
+  start: number;       // Start position in source
+  end: number;         // End position in source
+  line: number;        // Line number (1-indexed)
+  prefix?: string;     // String prefix, e.g. 'f', 'rb'
+  quote?: string;      // String quote, e.g. '"', "'''"
+  fields?: PythonToken[];  // Tokens of f-string replacement fields
+}
+
+/**
+ * A name occurrence with its role in the code
+ */
+export interface PythonName {
+  text: string;
+  start: number;
+  end: number;
+  line: number;
+  role: 'class' | 'function' | 'method' | 'parameter' | 'variable' | 'property' | 'module' | 'attribute' | 'keywordArgument' | 'reference';
+  /** Declared by an imported package or Python itself - never renamed */
+  external: boolean;
+}
+
+/**
+ * Names known while analyzing a file, to tell external values apart
+ */
+interface NameScope {
+  /** Names imported from packages */
+  externals: Set<string>;
+  /** Variables holding a value returned by external code (`r = requests.get(url)`) */
+  externalValues: Set<string>;
+  /** Classes and functions declared in the file or imported from the project */
+  callables: Set<string>;
+}
+
+/**
+ * Result of analyzing a Python file
+ */
+export interface PythonAnalysis {
+  tokens: PythonToken[];
+  names: PythonName[];
+  /** # comments (SingleLine) and docstrings (MultiLine), in source order */
+  comments: ExtractedComment[];
+  /** Plain string literals (no f-strings, bytes or docstrings) */
+  strings: PythonToken[];
+}
+
+const KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await',
+  'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+  'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is',
+  'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try',
+  'while', 'with', 'yield',
+]);
+
+const BUILTINS = new Set([
+  'self', 'cls', 'super', 'object', 'type',
+  'print', 'len', 'range', 'enumerate', 'zip', 'map', 'filter', 'sorted', 'reversed',
+  'min', 'max', 'sum', 'abs', 'round', 'pow', 'divmod', 'all', 'any',
+  'int', 'float', 'complex', 'str', 'bytes', 'bytearray', 'bool',
+  'list', 'dict', 'set', 'frozenset', 'tuple',
+  'isinstance', 'issubclass', 'hasattr', 'getattr', 'setattr', 'delattr',
+  'id', 'hash', 'iter', 'next', 'open', 'input', 'repr', 'format', 'vars', 'dir',
+  'callable', 'chr', 'ord', 'hex', 'oct', 'bin', 'slice', 'property',
+  'staticmethod', 'classmethod', 'Exception', 'BaseException', 'ValueError',
+  'TypeError', 'KeyError', 'IndexError', 'AttributeError', 'RuntimeError',
+  'NotImplementedError', 'StopIteration', 'OSError', 'ImportError',
+]);
+
+// Longest operators first so that e.g. '**=' wins over '**'
+const OPERATORS = [
+  '**=', '//=', '>>=', '<<=', '...', '->', ':=', '**', '//', '==', '!=', '<=', '>=',
+  '<<', '>>', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '@=',
+];
+
+const NAME_REGEX = /[\p{L}\p{Nl}_][\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}]*/uy;
+const NUMBER_REGEX = /0[xXoObB][\da-fA-F_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?[jJ]?/y;
+const STRING_START_REGEX = /([rRbBuUfF]{0,2})('''|"""|'|")/y;
+
+/** Comments that are tooling directives rather than prose */
+const DIRECTIVE_COMMENT_REGEX = /^#(!|.*-\*-|\s*(type|noqa|pylint|pragma|fmt|isort|mypy):)/;
+
+/**
+ * Check whether a file path refers to Python source
+ */
+export function isPythonFile(filePath?: string): boolean {
+  return !!filePath && /\.pyi?$/i.test(filePath);
+}
+
+/**
+ * Tokenize and analyze Python source code
+ */
+export class PythonTokenizer {
+  /**
+   * Split source into tokens
+   * Whitespace is skipped; logical line ends produce 'newline' tokens
+   *
+   * @param offset - Added to every position (used for f-string fields)
+   * @param startLine - Line number of the first character
+   */
+  tokenize(source: string, offset = 0, startLine = 1): PythonToken[] {
+    const tokens: PythonToken[] = [];
+    let line = startLine;
+    let depth = 0;
+    let lineHasCode = false;
+    let i = 0;
+
+    const push = (kind: PythonTokenKind, start: number, end: number) => {
+      tokens.push({ kind, text: source.slice(start, end), start: start + offset, end: end + offset, line });
+      lineHasCode = lineHasCode || kind !== 'comment';
+    };
+
+    while (i < source.length) {
+      const ch = source[i];
+
+      if (ch === '\n') {
+        if (depth === 0 && lineHasCode) {
+          push('newline', i, i + 1);
+          lineHasCode = false;
+        }
+        line++;
+        i++;
+        continue;
+      }
+
+      // Explicit line continuation
+      if (ch === '\\' && (source[i + 1] === '\n' || (source[i + 1] === '\r' && source[i + 2] === '\n'))) {
+        i += source[i + 1] === '\r' ? 3 : 2;
+        line++;
+        continue;
+      }
+
+      if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\f') {
+        i++;
+        continue;
+      }
+
+      if (ch === '#') {
+        const newline = source.indexOf('\n', i);
+        const end = newline === -1 ? source.length : newline;
+        push('comment', i, end);
+        i = end;
+        continue;
+      }
+
+      STRING_START_REGEX.lastIndex = i;
+      const stringStart = STRING_START_REGEX.exec(source);
+      if (stringStart) {
+        const end = this.scanString(source, i, stringStart[1], stringStart[2], offset, line, tokens);
+        lineHasCode = true;
+        line += this.countNewlines(source, i, end);
+        i = end;
+        continue;
+      }
+
+      NAME_REGEX.lastIndex = i;
+      const name = NAME_REGEX.exec(source);
+      if (name) {
+        push(KEYWORDS.has(name[0]) ? 'keyword' : 'name', i, i + name[0].length);
+        i += name[0].length;
+        continue;
+      }
+
+      NUMBER_REGEX.lastIndex = i;
+      const number = NUMBER_REGEX.exec(source);
+      if (number && number[0].length > 0 && number[0] !== '.') {
+        push('number', i, i + number[0].length);
+        i += number[0].length;
+        continue;
+      }
+
+      const op = OPERATORS.find(candidate => source.startsWith(candidate, i)) || ch;
+      if ('([{'.includes(op)) depth++;
+      if (')]}'.includes(op)) depth = Math.max(0, depth - 1);
+      push('op', i, i + op.length);
+      i += op.length;
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Analyze Python source: classify names, collect comments, docstrings and strings
+   */
+  analyze(source: string): PythonAnalysis {
+    const tokens = this.tokenize(source);
+    const names: PythonName[] = [];
+    const comments: ExtractedComment[] = [];
+    const strings: PythonToken[] = [];
+    const scope: NameScope = { externals: new Set(), externalValues: new Set(), callables: new Set() };
+    const blocks: Array<{ indent: number; kind: 'class' | 'def' }> = [];
+    let expectDocstring = true;
+
+    // Group significant tokens into logical lines
+    const lines: PythonToken[][] = [];
+    let current: PythonToken[] = [];
+    for (const [i, token] of tokens.entries()) {
+      if (token.kind === 'keyword' && (token.text === 'def' || token.text === 'class') && tokens[i + 1]?.kind === 'name') {
+        scope.callables.add(tokens[i + 1].text);
+      }
+
+      if (token.kind === 'comment') {
+        if (!DIRECTIVE_COMMENT_REGEX.test(token.text)) {
+          comments.push({
+            text: token.text.replace(/^#\s?/, ''),
+            fullText: token.text,
+            pos: token.start,
+            end: token.end,
+            kind: 'SingleLine',
+          });
+        }
+      } else if (token.kind === 'newline') {
+        if (current.length > 0) lines.push(current);
+        current = [];
+      } else {
+        current.push(token);
+      }
+    }
+    if (current.length > 0) lines.push(current);
+
+    for (const lineTokens of lines) {
+      const indent = this.indentationOf(source, lineTokens[0].start);
+      while (blocks.length > 0 && blocks[blocks.length - 1].indent >= indent) {
+        blocks.pop();
+      }
+
+      // A lone string right after a def/class header (or at module start) is a docstring
+      const first = lineTokens[0];
+      const isDocstring = expectDocstring && lineTokens.length === 1 &&
+        first.kind === 'string' && !/[fb]/i.test(first.prefix || '');
+      expectDocstring = false;
+
+      if (isDocstring) {
+        comments.push({
+          text: this.docstringText(first),
+          fullText: first.text,
+          pos: first.start,
+          end: first.end,
+          kind: 'MultiLine',
+        });
+        continue;
+      }
+
+      if (first.kind === 'keyword' && (first.text === 'import' || first.text === 'from')) {
+        this.analyzeImport(lineTokens, names, scope);
+        continue;
+      }
+
+      const headerKind = this.analyzeStatement(lineTokens, names, strings, scope, blocks);
+      if (headerKind) {
+        blocks.push({ indent, kind: headerKind });
+        // Docstrings only follow a header whose body starts on the next line
+        expectDocstring = lineTokens[lineTokens.length - 1].text === ':';
+      }
+    }
+
+    comments.sort((a, b) => a.pos - b.pos);
+    names.sort((a, b) => a.start - b.start);
+
+    return { tokens, names, comments, strings };
+  }
+
+  /**
+   * Scan a string literal starting at `start`
+   * Pushes the string token and returns the position after it
+   */
+  private scanString(
+    source: string,
+    start: number,
+    prefix: string,
+    quote: string,
+    offset: number,
+    line: number,
+    tokens: PythonToken[]
+  ): number {
+    const isFString = /f/i.test(prefix);
+    const fields: PythonToken[] = [];
+    let j = start + prefix.length + quote.length;
+
+    while (j < source.length) {
+      const c = source[j];
+
+      if (c === '\\') {
+        j += 2;
+        continue;
+      }
+      if (source.startsWith(quote, j)) {
+        j += quote.length;
+        break;
+      }
+      if (quote.length === 1 && c === '\n') {
+        // Unterminated single-quoted string
+        break;
+      }
+
+      if (isFString && c === '{') {
+        if (source[j + 1] === '{') {
+          j += 2;
+          continue;
+        }
+        j = this.scanField(source, j, quote, offset, line + this.countNewlines(source, start, j), fields);
+        continue;
+      }
+
+      j++;
+    }
+
+    const end = Math.min(j, source.length);
+    tokens.push({
+      kind: 'string',
+      text: source.slice(start, end),
+      start: start + offset,
+      end: end + offset,
+      line,
+      prefix,
+      quote,
+      fields: isFString ? fields : undefined,
+    });
+
+    return end;
+  }
+
+  /**
+   * Scan an f-string replacement field starting at its '{'
+   * The expression part is tokenized into `fields`; conversion and format spec are skipped
+   */
+  private scanField(
+    source: string,
+    open: number,
+    quote: string,
+    offset: number,
+    line: number,
+    fields: PythonToken[]
+  ): number {
+    const exprStart = open + 1;
+    let depth = 0;
+    let k = exprStart;
+
+    while (k < source.length && !source.startsWith(quote, k)) {
+      const ch = source[k];
+      if (ch === '\'' || ch === '"') {
+        // Nested string with the other quote type
+        const close = source.indexOf(ch, k + 1);
+        k = close === -1 ? source.length : close + 1;
+        continue;
+      }
+      if ('([{'.includes(ch)) depth++;
+      if (')]}'.includes(ch)) {
+        if (depth === 0) break;
+        depth--;
+      }
+      if (depth === 0 && (ch === ':' || (ch === '!' && source[k + 1] !== '='))) break;
+      k++;
+    }
+
+    fields.push(...this.tokenize(source.slice(exprStart, k), offset + exprStart, line)
+      .filter(token => token.kind !== 'newline'));
+
+    // Skip conversion / format spec (which may contain nested fields) up to the closing '}'
+    let nested = 0;
+    while (k < source.length && !source.startsWith(quote, k)) {
+      if (source[k] === '{') nested++;
+      if (source[k] === '}') {
+        if (nested === 0) return k + 1;
+        nested--;
+      }
+      k++;
+    }
+    return k;
+  }
+
+  /**
+   * Record names of an import statement
+   * Names imported from packages are external; module paths are never renamed
+   */
+  private analyzeImport(lineTokens: PythonToken[], names: PythonName[], scope: NameScope): void {
+    const isFrom = lineTokens[0].text === 'from';
+    const isRelative = isFrom && lineTokens[1]?.kind === 'op' && lineTokens[1].text.startsWith('.');
+    let afterImport = !isFrom;
+
+    for (const token of lineTokens) {
+      if (token.kind === 'keyword' && token.text === 'import') {
+        afterImport = true;
+        continue;
+      }
+      if (token.kind !== 'name') continue;
+
+      // `from pkg.mod import ...`: module paths match files on disk
+      if (!afterImport) {
+        names.push(this.name(token, 'module', true));
+        continue;
+      }
+
+      // Imported names and aliases: project names only for relative imports
+      const external = !isRelative;
+      names.push(this.name(token, isFrom ? 'reference' : 'module', external));
+      (external ? scope.externals : scope.callables).add(token.text);
+    }
+  }
+
+  /**
+   * Classify the names of a regular statement (and f-string fields inside it)
+   * Returns the block kind when the statement is a def/class header
+   */
+  private analyzeStatement(
+    lineTokens: PythonToken[],
+    names: PythonName[],
+    strings: PythonToken[],
+    scope: NameScope,
+    blocks: Array<{ indent: number; kind: 'class' | 'def' }>
+  ): 'class' | 'def' | undefined {
+    let headerKind: 'class' | 'def' | undefined;
+    let paramDepth = -1;        // Bracket depth of the def's parameter list
+    let depth = 0;
+    const calls: boolean[] = [];  // Whether each open call targets an external callee
+    let inForTargets = false;
+    let inLambda = false;
+
+    const statementStart = lineTokens[0].text === 'async' ? 1 : 0;
+
+    for (let i = 0; i < lineTokens.length; i++) {
+      const token = lineTokens[i];
+      const prev = lineTokens[i - 1];
+      const next = lineTokens[i + 1];
+
+      if (token.kind === 'string') {
+        if (token.fields) {
+          this.analyzeExpression(token.fields, names, scope);
+        } else if (!/b/i.test(token.prefix || '')) {
+          strings.push(token);
+        }
+        continue;
+      }
+
+      if (token.kind === 'keyword') {
+        if (token.text === 'for') inForTargets = true;
+        if (token.text === 'in') inForTargets = false;
+        if (token.text === 'lambda') inLambda = true;
+        continue;
+      }
+
+      if (token.kind === 'op') {
+        if ('([{'.includes(token.text)) {
+          depth++;
+          if (token.text === '(') {
+            const callee = prev?.kind === 'name' ? names[names.length - 1] : undefined;
+            calls.push(!!callee && callee.start === prev.start && callee.external);
+          }
+        } else if (')]}'.includes(token.text)) {
+          if (token.text === ')') calls.pop();
+          depth--;
+          if (depth === paramDepth - 1) paramDepth = -1;
+        } else if (token.text === ':' && inLambda) {
+          inLambda = false;
+        }
+        continue;
+      }
+
+      if (token.kind !== 'name') continue;
+
+      const prevIsKeyword = (text: string) => prev?.kind === 'keyword' && prev.text === text;
+      const isBuiltIn = BUILTINS.has(token.text) || /^__\w+__$/.test(token.text);
+
+      if (prevIsKeyword('class') && i === statementStart + 1) {
+        names.push(this.name(token, 'class', isBuiltIn));
+        headerKind = 'class';
+      } else if (prevIsKeyword('def') && i === statementStart + 1) {
+        const inClass = blocks.length > 0 && blocks[blocks.length - 1].kind === 'class';
+        names.push(this.name(token, inClass ? 'method' : 'function', isBuiltIn));
+        headerKind = 'def';
+        paramDepth = depth + 1;
+      } else if (headerKind === 'def' && depth === paramDepth && prev &&
+                 ['(', ',', '*', '**', '/'].includes(prev.text)) {
+        names.push(this.name(token, 'parameter', isBuiltIn));
+      } else if (inLambda && prev && (prevIsKeyword('lambda') || prev.text === ',' || prev.text === '*' || prev.text === '**')) {
+        names.push(this.name(token, 'parameter', isBuiltIn));
+      } else if (prev?.kind === 'op' && prev.text === '.') {
+        // Attribute: external when the object it is accessed on is external
+        const external = isBuiltIn || this.isExternalReceiver(lineTokens, i - 1, names, scope);
+        const isAssignedProperty = lineTokens[i - 2]?.text === 'self' && i === statementStart + 2 &&
+          next?.kind === 'op' && (next.text === '=' || next.text === ':');
+        names.push(this.name(token, isAssignedProperty ? 'property' : 'attribute', external));
+      } else if (depth > 0 && next?.kind === 'op' && next.text === '=' && prev && (prev.text === '(' || prev.text === ',')) {
+        // Keyword argument: belongs to the callee
+        names.push(this.name(token, 'keywordArgument', isBuiltIn || calls[calls.length - 1] === true));
+      } else if ((i === statementStart && next?.kind === 'op' && (next.text === '=' || next.text === ':')) ||
+                 inForTargets || prevIsKeyword('as')) {
+        names.push(this.name(token, 'variable', isBuiltIn));
+      } else {
+        names.push(this.name(token, 'reference', isBuiltIn || scope.externals.has(token.text)));
+      }
+    }
+
+    // `r = requests.get(url)`: attributes of r belong to the package
+    const target = lineTokens[statementStart];
+    if (target.kind === 'name' && lineTokens[statementStart + 1]?.text === '=' && !headerKind) {
+      if (this.isExternalValue(lineTokens, statementStart + 2, names, scope)) {
+        scope.externalValues.add(target.text);
+      } else {
+        scope.externalValues.delete(target.text);
+      }
+    }
+
+    return headerKind;
+  }
+
+  /**
+   * Classify names inside an f-string replacement field
+   */
+  private analyzeExpression(fieldTokens: PythonToken[], names: PythonName[], scope: NameScope): void {
+    for (let i = 0; i < fieldTokens.length; i++) {
+      const token = fieldTokens[i];
+      if (token.kind === 'string' && token.fields) {
+        this.analyzeExpression(token.fields, names, scope);
+        continue;
+      }
+      if (token.kind !== 'name') continue;
+
+      const isBuiltIn = BUILTINS.has(token.text) || /^__\w+__$/.test(token.text);
+      const prev = fieldTokens[i - 1];
+      if (prev?.kind === 'op' && prev.text === '.') {
+        const external = isBuiltIn || this.isExternalReceiver(fieldTokens, i - 1, names, scope);
+        names.push(this.name(token, 'attribute', external));
+      } else {
+        names.push(this.name(token, 'reference', isBuiltIn || scope.externals.has(token.text)));
+      }
+    }
+  }
+
+  /**
+   * Whether the object in front of the '.' at `dot` comes from external code:
+   * an imported or built-in name, a variable holding an external value, or the
+   * result of calling something the project doesn't declare (`rq.get(url).json`)
+   */
+  private isExternalReceiver(tokens: PythonToken[], dot: number, names: PythonName[], scope: NameScope): boolean {
+    const receiver = tokens[dot - 1];
+    if (receiver?.kind === 'name') {
+      const owner = names[names.length - 1];
+      if (!owner || owner.end !== receiver.end || owner.text === 'self' || owner.text === 'cls') return false;
+      return owner.external || (owner.role === 'reference' && scope.externalValues.has(owner.text));
+    }
+
+    if (receiver?.kind !== 'op' || receiver.text !== ')') return false;
+    const open = this.findOpeningBracket(tokens, dot - 1);
+    const callee = tokens[open - 1];
+    if (callee?.kind !== 'name' || callee.text === 'super') return false;
+
+    const calleeName = names.find(name => name.start === callee.start);
+    return !!calleeName && (calleeName.external || !scope.callables.has(callee.text));
+  }
+
+  /**
+   * Whether the expression starting at `start` evaluates to an external value
+   * Judged by the name it starts with: `requests.get(url)`, `open(path)`, `helper()`
+   * with helper declared nowhere in the project
+   */
+  private isExternalValue(tokens: PythonToken[], start: number, names: PythonName[], scope: NameScope): boolean {
+    const first = tokens[start];
+    if (first?.kind !== 'name' || first.text === 'self' || first.text === 'cls') return false;
+
+    const name = names.find(n => n.start === first.start);
+    if (!name) return false;
+    if (name.external || scope.externalValues.has(name.text)) return true;
+    return tokens[start + 1]?.text === '(' && !scope.callables.has(name.text);
+  }
+
+  /**
+   * Index of the bracket opening the one that closes at `close`
+   */
+  private findOpeningBracket(tokens: PythonToken[], close: number): number {
+    let depth = 0;
+    for (let i = close; i >= 0; i--) {
+      if (tokens[i].kind !== 'op') continue;
+      if (')]}'.includes(tokens[i].text)) depth++;
+      if ('([{'.includes(tokens[i].text) && --depth === 0) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Docstring body without quotes, with common indentation removed
+   */
+  private docstringText(token: PythonToken): string {
+    const open = (token.prefix || '').length + (token.quote || '').length;
+    const body = token.text.slice(open, token.text.length - (token.quote || '').length);
+    const lines = body.split('\n');
+    const indents = lines.slice(1)
+      .filter(line => line.trim().length > 0)
+      .map(line => line.length - line.trimStart().length);
+    const common = indents.length > 0 ? Math.min(...indents) : 0;
+
+    return [lines[0].trim(), ...lines.slice(1).map(line => line.slice(common).trimEnd())]
+      .join('\n')
+      .trim();
+  }
+
+  private name(token: PythonToken, role: PythonName['role'], external: boolean): PythonName {
+    return { text: token.text, start: token.start, end: token.end, line: token.line, role, external };
+  }
+
+  private indentationOf(source: string, pos: number): number {
+    const lineStart = source.lastIndexOf('\n', pos - 1) + 1;
+    return pos - lineStart;
+  }
+
+  private countNewlines(source: string, start: number, end: number): number {
+    let count = 0;
+    for (let i = start; i < end; i++) {
+      if (source[i] === '\n') count++;
+    }
+    return count;
+  }
+}
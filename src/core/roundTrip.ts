@@ -0,0 +1,195 @@
+import * as ts from 'typescript';
+import { LanguageCode, TranslationScope } from './types';
+import { UnifiedTranslator } from './unifiedTranslator';
+import { resolveFrontend, SyntaxToken } from '../frontends';
+
+/**
+ * An identifier that does not survive the round trip unchanged
+ */
+export interface OffendingIdentifier {
+  /** Identifier in the original code */
+  original: string;
+  /** What it was translated to */
+  translated: string;
+  /** What translating it back produced */
+  roundTripped: string;
+  /** 1-based line in the original code */
+  line: number;
+}
+
+/**
+ * Result of a round-trip verification
+ */
+export interface RoundTripReport {
+  /** True when the translation is structurally equivalent and reversible */
+  ok: boolean;
+  /** True when translating back reproduces the original text exactly */
+  identical: boolean;
+  /** The translated code translated back to the original language */
+  roundTripCode: string;
+  offendingIdentifiers: OffendingIdentifier[];
+  /** Token differences outside identifiers and string content */
+  structuralErrors: string[];
+  /** Human-readable summary, set when verification failed */
+  diagnostic?: string;
+}
+
+/**
+ * Token kinds whose text may legitimately change during translation
+ */
+const TRANSLATABLE_TOKENS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.Identifier,
+  ts.SyntaxKind.PrivateIdentifier,
+  ts.SyntaxKind.StringLiteral,
+  ts.SyntaxKind.NoSubstitutionTemplateLiteral,
+  ts.SyntaxKind.TemplateHead,
+  ts.SyntaxKind.TemplateMiddle,
+  ts.SyntaxKind.TemplateTail,
+  ts.SyntaxKind.JsxText,
+]);
+
+/** Maximum number of structural differences reported */
+const MAX_STRUCTURAL_ERRORS = 10;
+
+/**
+ * Round-trip verifier
+ *
+ * Checks that translated code is equivalent to the code it came from before
+ * it is accepted (e.g. written to disk on save):
+ *   1. The token streams of both versions must match, ignoring comments,
+ *      whitespace, identifier text and string content.
+ *   2. Translating the result back must reproduce every original identifier.
+ *
+ * The translator is used to translate back, so it must carry the term rules
+ * of the reverse direction (en → ja rules to verify a ja → en save).
+ *
+ * Example:
+ *   const verifier = new RoundTripVerifier(enToJaTranslator);
+ *   const report = verifier.verify(jaCode, enCode, 'ja', 'en');
+ *   if (!report.ok) console.error(report.diagnostic);
+ */
+export class RoundTripVerifier {
+  private translator: UnifiedTranslator;
+
+  constructor(translator: UnifiedTranslator) {
+    this.translator = translator;
+  }
+
+  /**
+   * Verify that `translated` is a faithful translation of `original`
+   *
+   * @param original - Code before translation
+   * @param translated - Code after translation
+   * @param originalLang - Language of the original code
+   * @param translatedLang - Language of the translated code
+   * @param scope - Scope used for the forward translation (reused for the reverse)
+   * @param filePath - Optional path of the file, used for scope analysis and JSX detection
+   */
+  verify(
+    original: string,
+    translated: string,
+    originalLang: LanguageCode,
+    translatedLang: LanguageCode,
+    scope?: TranslationScope,
+    filePath?: string
+  ): RoundTripReport {
+    const roundTripCode = this.translator.translate(
+      translated,
+      translatedLang,
+      originalLang,
+      scope,
+      filePath
+    ).code;
+
+    // Each language splits its files into tokens (see LanguageFrontend.tokenize)
+    const frontend = resolveFrontend(filePath);
+    const originalTokens = frontend.tokenize(original, filePath);
+    const translatedTokens = frontend.tokenize(translated, filePath);
+    const roundTripTokens = frontend.tokenize(roundTripCode, filePath);
+
+    const structuralErrors: string[] = [];
+    const offending = new Map<string, OffendingIdentifier>();
+
+    const addOffending = (token: SyntaxToken, translatedText: string, roundTripped: string) => {
+      if (!offending.has(token.text)) {
+        offending.set(token.text, {
+          original: token.text,
+          translated: translatedText,
+          roundTripped,
+          line: token.line,
+        });
+      }
+    };
+
+    // Step 1: translation must only change identifier and string text
+    const count = Math.min(originalTokens.length, translatedTokens.length);
+    for (let i = 0; i < count && structuralErrors.length < MAX_STRUCTURAL_ERRORS; i++) {
+      const before = originalTokens[i];
+      const after = translatedTokens[i];
+
+      if (before.kind === after.kind && (TRANSLATABLE_TOKENS.has(before.kind) || before.text === after.text)) {
+        continue;
+      }
+
+      // An identifier that turned into a keyword (or vice versa) is the identifier's fault
+      if (this.isIdentifier(before.kind)) {
+        addOffending(before, after.text, roundTripTokens[i]?.text ?? '');
+      }
+      structuralErrors.push(`line ${before.line}: expected \`${before.text}\`, got \`${after.text}\``);
+    }
+
+    if (originalTokens.length !== translatedTokens.length) {
+      structuralErrors.push(
+        `token count changed from ${originalTokens.length} to ${translatedTokens.length}`
+      );
+    }
+
+    // Step 2: every identifier must come back unchanged
+    if (structuralErrors.length === 0) {
+      for (let i = 0; i < originalTokens.length; i++) {
+        const before = originalTokens[i];
+        const back = roundTripTokens[i];
+
+        if (this.isIdentifier(before.kind) && back?.text !== before.text) {
+          addOffending(before, translatedTokens[i].text, back?.text ?? '');
+        }
+      }
+    }
+
+    const offendingIdentifiers = Array.from(offending.values());
+    const ok = structuralErrors.length === 0 && offendingIdentifiers.length === 0;
+
+    return {
+      ok,
+      identical: roundTripCode === original,
+      roundTripCode,
+      offendingIdentifiers,
+      structuralErrors,
+      diagnostic: ok ? undefined : this.formatDiagnostic(offendingIdentifiers, structuralErrors),
+    };
+  }
+
+  private isIdentifier(kind: ts.SyntaxKind): boolean {
+    return kind === ts.SyntaxKind.Identifier || kind === ts.SyntaxKind.PrivateIdentifier;
+  }
+
+  /**
+   * Build a summary listing the identifiers that broke the round trip
+   */
+  private formatDiagnostic(offending: OffendingIdentifier[], structuralErrors: string[]): string {
+    const parts: string[] = [];
+
+    if (offending.length > 0) {
+      const list = offending
+        .map(id => `${id.original} → ${id.translated} → ${id.roundTripped || '(missing)'} (line ${id.line})`)
+        .join(', ');
+      parts.push(`${offending.length} identifier(s) do not round-trip: ${list}`);
+    }
+
+    if (structuralErrors.length > 0) {
+      parts.push(`Code structure changed: ${structuralErrors.join('; ')}`);
+    }
+
+    return parts.join('. ');
+  }
+}
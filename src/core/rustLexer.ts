@@ -0,0 +1,1213 @@
+/**
+ * Rust Lexer
+ *
+ * A lexer and lightweight parser for Rust source, used to extract and
+ * translate identifiers, comments and strings without a Rust toolchain.
+ *
+ * Understands:
+ * - Identifiers (including raw r#names and non-ASCII identifiers), keywords
+ *   and lifetimes
+ * - Line, doc (/// and //!) and nested block comments
+ * - String, raw string, byte string and char literals, and the named
+ *   arguments of format strings inside macro invocations ("{count}")
+ *
+ * On top of the token stream, analyze() classifies names by role (struct,
+ * field, parameter, pattern binding, generic parameter, ...) and marks names
+ * that belong to other crates, the standard library or the prelude as
+ * external, as well as members of receivers not known to have a project
+ * type. Module names are never renamed since they match files on disk.
+ */
+
+import type { ExtractedComment } from './commentExtractor';
+
+export type RustTokenKind = 'name' | 'keyword' | 'lifetime' | 'number' | 'string' | 'char' | 'comment' | 'op';
+
+/**
+ * A token in Rust source
+ */
+export interface RustToken {
+  kind: RustTokenKind;
+  text: string;
+  start: number;       // Start position in source
+  end: number;         // End position in source
+  line: number;        // Line number (1-indexed)
+  open?: string;       // String opening delimiter, e.g. '"', 'r#"', 'b"'
+  close?: string;      // String closing delimiter, e.g. '"', '"#'
+  fields?: RustToken[];  // Named arguments of a format string (set by analyze())
+}
+
+/**
+ * A name occurrence with its role in the code
+ */
+export interface RustName {
+  text: string;
+  start: number;
+  end: number;
+  line: number;
+  role: 'function' | 'method' | 'struct' | 'enum' | 'variant' | 'trait' | 'type' | 'generic' | 'constant' |
+    'field' | 'parameter' | 'variable' | 'module' | 'macro' | 'member' | 'reference';
+  /** Declared by another crate, the standard library or the prelude - never renamed */
+  external: boolean;
+}
+
+/**
+ * Result of analyzing a Rust file
+ */
+export interface RustAnalysis {
+  tokens: RustToken[];
+  names: RustName[];
+  /** Line, block and doc comments, in source order */
+  comments: ExtractedComment[];
+  /** Plain string literals (no byte strings, attribute arguments or format strings with named arguments) */
+  strings: RustToken[];
+}
+
+const KEYWORDS = new Set([
+  'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum',
+  'extern', 'false', 'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod',
+  'move', 'mut', 'pub', 'ref', 'return', 'self', 'Self', 'static', 'struct', 'super',
+  'trait', 'true', 'type', 'unsafe', 'use', 'where', 'while',
+]);
+
+const BUILTINS = new Set([
+  // Primitive types
+  'i8', 'i16', 'i32', 'i64', 'i128', 'isize',
+  'u8', 'u16', 'u32', 'u64', 'u128', 'usize',
+  'f32', 'f64', 'bool', 'char', 'str',
+  // Prelude and common std types
+  'Option', 'Some', 'None', 'Result', 'Ok', 'Err', 'Vec', 'String', 'Box', 'Rc', 'Arc',
+  'HashMap', 'HashSet', 'BTreeMap', 'BTreeSet', 'VecDeque', 'Cell', 'RefCell', 'Mutex', 'RwLock',
+  // Prelude traits and their associated items
+  'Clone', 'Copy', 'Debug', 'Default', 'Eq', 'PartialEq', 'Ord', 'PartialOrd',
+  'Hash', 'Send', 'Sync', 'Sized', 'Unpin', 'Drop', 'Fn', 'FnMut', 'FnOnce',
+  'Iterator', 'IntoIterator', 'DoubleEndedIterator', 'ExactSizeIterator', 'Extend',
+  'From', 'Into', 'TryFrom', 'TryInto', 'AsRef', 'AsMut', 'ToOwned', 'ToString',
+  'Display', 'Item', 'Output', 'Target',
+  'Serialize', 'Deserialize',
+  // Prelude functions and the entry point
+  'drop', 'main',
+]);
+
+/** Crates that are always available without a `use` */
+const CRATE_ROOTS = new Set(['std', 'core', 'alloc']);
+
+// Longest operators first so that e.g. '>>=' wins over '>>'
+const OPERATORS = [
+  '>>=', '<<=', '...', '..=', '::', '->', '=>', '==', '!=', '<=', '>=', '&&', '||',
+  '+=', '-=', '*=', '/=', '%=', '^=', '&=', '|=', '<<', '>>', '..',
+];
+
+const NAME_REGEX = /(?:r#)?[\p{L}\p{Nl}_][\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}]*/uy;
+const NUMBER_REGEX = /0[xob][\da-fA-F_]+(?:[iu](?:8|16|32|64|128|size))?|\d[\d_]*(?:\.(?![.\p{L}_])[\d_]*)?(?:[eE][+-]?[\d_]+)?(?:[iuf](?:8|16|32|64|128|size))?/uy;
+const STRING_START_REGEX = /[bc]?(?:r(#*))?"/y;
+const CHAR_REGEX = /b?'(?:\\(?:x[\da-fA-F]{2}|u\{[\da-fA-F_]*\}|.)|[^\\'\n])'/uy;
+const LIFETIME_REGEX = /'(?:r#)?[\p{L}_][\p{L}\p{Nd}_]*/uy;
+
+/** Named argument of a format string: {name}, {name:?}, {name:>8} */
+const FORMAT_FIELD_REGEX = /\{\{|\{((?:r#)?[\p{L}_][\p{L}\p{Nd}_]*)(?=[:}])/gu;
+
+/**
+ * Check whether a file path refers to Rust source
+ */
+export function isRustFile(filePath?: string): boolean {
+  return !!filePath && /\.rs$/i.test(filePath);
+}
+
+/**
+ * Tokenize and analyze Rust source code
+ */
+export class RustLexer {
+  /**
+   * Split source into tokens
+   * Whitespace is skipped; comments are kept as 'comment' tokens
+   */
+  tokenize(source: string): RustToken[] {
+    const tokens: RustToken[] = [];
+    let line = 1;
+    let i = 0;
+
+    const push = (kind: RustTokenKind, end: number, extra: Partial<RustToken> = {}) => {
+      tokens.push({ kind, text: source.slice(i, end), start: i, end, line, ...extra });
+      line += this.countNewlines(source, i, end);
+      i = end;
+    };
+
+    while (i < source.length) {
+      const ch = source[i];
+
+      if (ch === '\n') {
+        line++;
+        i++;
+        continue;
+      }
+
+      if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\f') {
+        i++;
+        continue;
+      }
+
+      if (source.startsWith('//', i)) {
+        const newline = source.indexOf('\n', i);
+        push('comment', newline === -1 ? source.length : newline);
+        continue;
+      }
+
+      if (source.startsWith('/*', i)) {
+        push('comment', this.scanBlockComment(source, i));
+        continue;
+      }
+
+      STRING_START_REGEX.lastIndex = i;
+      const stringStart = STRING_START_REGEX.exec(source);
+      if (stringStart) {
+        const open = stringStart[0];
+        const close = '"' + (stringStart[1] || '');
+        const raw = stringStart[1] !== undefined;
+        push('string', this.scanString(source, i + open.length, close, raw), { open, close });
+        continue;
+      }
+
+      if (ch === '\'' || (ch === 'b' && source[i + 1] === '\'')) {
+        CHAR_REGEX.lastIndex = i;
+        const char = CHAR_REGEX.exec(source);
+        if (char) {
+          push('char', i + char[0].length);
+          continue;
+        }
+        LIFETIME_REGEX.lastIndex = i;
+        const lifetime = LIFETIME_REGEX.exec(source);
+        if (lifetime) {
+          push('lifetime', i + lifetime[0].length);
+          continue;
+        }
+      }
+
+      NAME_REGEX.lastIndex = i;
+      const name = NAME_REGEX.exec(source);
+      if (name) {
+        push(KEYWORDS.has(name[0]) ? 'keyword' : 'name', i + name[0].length);
+        continue;
+      }
+
+      NUMBER_REGEX.lastIndex = i;
+      const number = NUMBER_REGEX.exec(source);
+      if (number && number[0].length > 0) {
+        push('number', i + number[0].length);
+        continue;
+      }
+
+      const op = OPERATORS.find(candidate => source.startsWith(candidate, i)) || ch;
+      push('op', i + op.length);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Analyze Rust source: classify names, collect comments and strings
+   */
+  analyze(source: string): RustAnalysis {
+    const tokens = this.tokenize(source);
+    const comments: ExtractedComment[] = [];
+
+    for (const token of tokens) {
+      if (token.kind !== 'comment') continue;
+
+      const text = this.commentText(token.text);
+      if (text.length > 0) {
+        comments.push({
+          text,
+          fullText: token.text,
+          pos: token.start,
+          end: token.end,
+          kind: token.text.startsWith('//') ? 'SingleLine' : 'MultiLine',
+        });
+      }
+    }
+
+    const parser = new RustParser(tokens.filter(token => token.kind !== 'comment'));
+    parser.parse();
+
+    return {
+      tokens,
+      names: parser.names.sort((a, b) => a.start - b.start),
+      comments,
+      strings: parser.strings,
+    };
+  }
+
+  /**
+   * Scan a (possibly nested) block comment starting at its '/*'
+   */
+  private scanBlockComment(source: string, start: number): number {
+    let depth = 0;
+    let j = start;
+
+    while (j < source.length) {
+      if (source.startsWith('/*', j)) {
+        depth++;
+        j += 2;
+      } else if (source.startsWith('*/', j)) {
+        depth--;
+        j += 2;
+        if (depth === 0) break;
+      } else {
+        j++;
+      }
+    }
+
+    return Math.min(j, source.length);
+  }
+
+  /**
+   * Scan a string body up to and including its closing delimiter
+   */
+  private scanString(source: string, bodyStart: number, close: string, raw: boolean): number {
+    let j = bodyStart;
+
+    while (j < source.length) {
+      if (!raw && source[j] === '\\') {
+        j += 2;
+        continue;
+      }
+      if (source.startsWith(close, j)) {
+        return j + close.length;
+      }
+      j++;
+    }
+
+    return source.length;
+  }
+
+  /**
+   * Comment text without its markers (//, ///, //!, /*, /**, /*!)
+   */
+  private commentText(fullText: string): string {
+    if (fullText.startsWith('//')) {
+      return fullText.replace(/^\/\/[\/!]?\s?/, '').trim();
+    }
+
+    return fullText
+      .replace(/^\/\*[*!]?/, '')
+      .replace(/\*\/$/, '')
+      .split('\n')
+      .map(line => line.replace(/^\s*\*\s?/, '').trim())
+      .filter(line => line.length > 0)
+      .join('\n')
+      .trim();
+  }
+
+  private countNewlines(source: string, start: number, end: number): number {
+    let count = 0;
+    for (let i = start; i < end; i++) {
+      if (source[i] === '\n') count++;
+    }
+    return count;
+  }
+}
+
+/**
+ * An open delimiter while parsing
+ */
+interface Group {
+  text: '(' | '[' | '{';
+  kind: 'group' | 'block' | 'impl' | 'trait' | 'extern' | 'match' | 'structLiteral' | 'macro';
+  /** impl of an external trait, extern block, or literal of an external struct */
+  external: boolean;
+  /** match blocks: which part of the current arm is being read */
+  arm?: 'pattern' | 'guard' | 'body';
+}
+
+const CLOSERS: Record<string, Group['text']> = { ')': '(', ']': '[', '}': '{' };
+
+/**
+ * Classifies the names of a token stream (comments removed)
+ *
+ * Declarations with a fixed shape (fn signatures, generics, struct and enum
+ * bodies, use trees, patterns) are read by dedicated methods; everything else
+ * is read statement by statement in parse().
+ */
+class RustParser {
+  readonly names: RustName[] = [];
+  readonly strings: RustToken[] = [];
+
+  private stack: Group[] = [];
+  /** Kind given to the next '{' at the current depth (block after if/fn/impl/...) */
+  private pending?: { kind: Group['kind']; external: boolean; depth: number };
+  /** The next opening delimiter starts macro arguments */
+  private pendingMacro = false;
+  /** Whether the path being read belongs to another crate */
+  private pathExternal = false;
+
+  private modules = new Set<string>();
+  private externals = new Set<string>();
+  /** Item names declared in this file: shadow prelude names like `Item` or `Error` */
+  private declared = new Set<string>();
+  /** Item names imported from the project (`use crate::cart::Cart`) */
+  private imported = new Set<string>();
+  /** Type names of struct fields, parameters and let bindings, to resolve member receivers */
+  private fieldTypes = new Map<string, string | undefined>();
+  private bindingTypes = new Map<string, string | undefined>();
+
+  constructor(private tokens: RustToken[]) {
+    // Module and item names are known up front so earlier uses resolve to them
+    tokens.forEach((token, i) => {
+      const next = tokens[i + 1];
+      if (token.kind !== 'keyword' || next?.kind !== 'name') return;
+
+      if (token.text === 'mod') {
+        this.modules.add(next.text);
+      } else if (['struct', 'enum', 'trait', 'type'].includes(token.text)) {
+        this.declared.add(next.text);
+      }
+    });
+
+    // Field types, known up front so that `self.cart.total` resolves in impls written before the struct
+    tokens.forEach((token, i) => {
+      if (token.kind !== 'keyword' || token.text !== 'struct') return;
+
+      const open = this.findEnd(i + 1, ['{', ';', '(']);
+      if (tokens[open]?.text !== '{') return;
+      const close = this.findClose(open);
+      for (let k = open + 1; k < close; k++) {
+        if ('([{'.includes(tokens[k].text)) {
+          k = this.findClose(k);
+        } else if (tokens[k].kind === 'name' && tokens[k + 1]?.text === ':') {
+          this.fieldTypes.set(tokens[k].text, this.typeNameAt(k + 2));
+        }
+      }
+    });
+  }
+
+  parse(): void {
+    let i = 0;
+    while (i < this.tokens.length) {
+      i = this.step(i);
+    }
+  }
+
+  /**
+   * Read the construct starting at token i and return the index after it
+   */
+  private step(i: number): number {
+    const t = this.tokens;
+    const token = t[i];
+    const prev = t[i - 1];
+    const next = t[i + 1];
+    const top = this.stack[this.stack.length - 1];
+
+    // Start of a match arm: read its pattern up to '=>' or the guard's 'if'
+    if (top?.kind === 'match' && top.arm === 'pattern' && token.text !== '}' && token.text !== ',') {
+      const end = this.findPatternEnd(i);
+      this.pattern(i, end, 'variable');
+      top.arm = t[end]?.text === 'if' ? 'guard' : 'body';
+      return t[end]?.text === 'if' ? end + 1 : end;
+    }
+
+    switch (token.kind) {
+      case 'op':
+        return this.operator(i);
+
+      case 'string':
+        this.string(token);
+        return i + 1;
+
+      case 'keyword':
+        return this.keyword(i);
+
+      case 'name':
+        break;
+
+      default:
+        return i + 1;
+    }
+
+    // Macros: macro_rules! definitions are opaque, invocations are external
+    if (token.text === 'macro_rules' && next?.text === '!') {
+      const name = t[i + 2]?.kind === 'name' ? i + 2 : i + 1;
+      this.push(t[name], 'macro', true);
+      const open = name + 1;
+      const close = t[open] && '([{'.includes(t[open].text) ? this.findClose(open) : open;
+      this.externalRange(open, close);
+      return close + 1;
+    }
+    if (next?.text === '!' && t[i + 2] && '([{'.includes(t[i + 2].text)) {
+      this.push(token, 'macro', true);
+      this.pendingMacro = true;
+      return i + 2;
+    }
+
+    // Member access: only members of project types are renamed; any other
+    // receiver (`items.iter().count()`) may be a type from another crate
+    if (prev?.text === '.') {
+      this.push(token, 'member', !this.hasProjectReceiver(i - 1));
+      return i + 1;
+    }
+
+    // Field of a struct literal: `User { name: value }`
+    if (top?.kind === 'structLiteral' && next?.text === ':' && (prev?.text === '{' || prev?.text === ',')) {
+      this.push(token, 'member', top.external);
+      return i + 1;
+    }
+
+    this.reference(i);
+    return i + 1;
+  }
+
+  private operator(i: number): number {
+    const t = this.tokens;
+    const token = t[i];
+    const prev = t[i - 1];
+    const top = this.stack[this.stack.length - 1];
+
+    // Attributes: #[derive(Debug)], #![allow(dead_code)]
+    if (token.text === '#' && (t[i + 1]?.text === '[' || (t[i + 1]?.text === '!' && t[i + 2]?.text === '['))) {
+      const open = t[i + 1].text === '[' ? i + 1 : i + 2;
+      const close = this.findClose(open);
+      this.externalRange(open, close);
+      return close + 1;
+    }
+
+    // Closure parameters: |a, b: u32|
+    if (token.text === '|' && this.startsClosure(prev)) {
+      const close = this.findClosureEnd(i);
+      this.parameters(i + 1, close);
+      return close + 1;
+    }
+
+    if (token.text === '(' || token.text === '[' || token.text === '{') {
+      this.open(i);
+      return i + 1;
+    }
+
+    if (token.text in CLOSERS) {
+      const closed = this.stack.pop();
+      const parent = this.stack[this.stack.length - 1];
+      if (closed?.text === '{' && parent?.kind === 'match' && parent.arm === 'body' && this.endsArm(t[i + 1])) {
+        parent.arm = 'pattern';
+      }
+      if (this.pending && this.pending.depth > this.stack.length) {
+        this.pending = undefined;
+      }
+      return i + 1;
+    }
+
+    if (top?.kind === 'match') {
+      if (token.text === '=>') top.arm = 'body';
+      if (token.text === ',' && top.arm === 'body') top.arm = 'pattern';
+    }
+
+    if (token.text === ';' && this.pending?.depth === this.stack.length) {
+      this.pending = undefined;
+    }
+
+    return i + 1;
+  }
+
+  /**
+   * Push an opening delimiter, deciding what kind of group it starts
+   */
+  private open(i: number): void {
+    const t = this.tokens;
+    const token = t[i];
+    const prev = t[i - 1];
+    const text = token.text as Group['text'];
+
+    if (this.pendingMacro) {
+      this.pendingMacro = false;
+      this.stack.push({ text, kind: 'macro', external: false });
+      return;
+    }
+
+    if (text !== '{') {
+      this.stack.push({ text, kind: 'group', external: false });
+      return;
+    }
+
+    if (this.pending && this.pending.depth === this.stack.length) {
+      const { kind, external } = this.pending;
+      this.pending = undefined;
+      this.stack.push({ text, kind, external, arm: kind === 'match' ? 'pattern' : undefined });
+      return;
+    }
+
+    // `Name {` in expression position is a struct literal
+    if (prev && (prev.text === 'Self' || (prev.kind === 'name' && /^(r#)?[A-Z]/.test(prev.text)))) {
+      const owner = this.names[this.names.length - 1];
+      const external = !!owner && owner.start === prev.start && owner.external;
+      this.stack.push({ text, kind: 'structLiteral', external });
+      return;
+    }
+
+    this.stack.push({ text, kind: 'block', external: false });
+  }
+
+  private keyword(i: number): number {
+    const t = this.tokens;
+    const token = t[i];
+    const next = t[i + 1];
+    const top = this.stack[this.stack.length - 1];
+    const inImpl = top?.kind === 'impl' || top?.kind === 'trait' || top?.kind === 'extern';
+    const implExternal = inImpl && top.external;
+
+    switch (token.text) {
+      case 'use':
+        return this.useDeclaration(i + 1);
+
+      case 'mod':
+        if (next?.kind === 'name') {
+          this.push(next, 'module', false);
+          this.expectBlock('block');
+          return i + 2;
+        }
+        return i + 1;
+
+      case 'extern':
+        // extern crate name [as alias];
+        if (next?.text === 'crate') {
+          let j = i + 2;
+          while (t[j] && t[j].text !== ';') {
+            if (t[j].kind === 'name') {
+              this.push(t[j], 'module', true);
+              this.externals.add(t[j].text);
+            }
+            j++;
+          }
+          return j;
+        }
+        // extern "C" { ... }: foreign declarations keep their names
+        if (next?.kind === 'string' && t[i + 2]?.text === '{') {
+          this.expectBlock('extern', true);
+          return i + 2;
+        }
+        return i + 1;
+
+      case 'fn':
+        return this.functionDeclaration(i, inImpl ? 'method' : 'function', implExternal);
+
+      case 'struct':
+        return this.structDeclaration(i);
+
+      case 'enum':
+        return this.enumDeclaration(i);
+
+      case 'trait':
+        if (next?.kind === 'name') {
+          this.push(next, 'trait', false);
+          const j = this.generics(i + 2);
+          this.expectBlock('trait');
+          return j;
+        }
+        return i + 1;
+
+      case 'impl':
+        return this.implHeader(i);
+
+      case 'type':
+        if (next?.kind === 'name') {
+          this.push(next, 'type', implExternal);
+          return this.generics(i + 2);
+        }
+        return i + 1;
+
+      case 'const':
+      case 'static': {
+        const nameIndex = t[i + 1]?.text === 'mut' ? i + 2 : i + 1;
+        if (t[nameIndex]?.kind === 'name' && t[nameIndex + 1]?.text === ':') {
+          if (t[nameIndex].text !== '_') {
+            this.push(t[nameIndex], 'constant', implExternal);
+          }
+          return nameIndex + 1;
+        }
+        if (next?.text === '{') this.expectBlock('block');
+        return i + 1;
+      }
+
+      case 'let': {
+        const end = this.findEnd(i + 1, ['=', ':', ';', 'else']);
+        this.pattern(i + 1, end, 'variable');
+
+        // let cart: Cart = ... | let cart = Cart::new() | let cart = Cart { ... }
+        const binding = t[i + 1]?.text === 'mut' ? i + 2 : i + 1;
+        if (t[binding]?.kind === 'name' && end === binding + 1) {
+          const value = t[end + 1];
+          const type = t[end]?.text === ':'
+            ? this.typeNameAt(end + 1)
+            : t[end]?.text === '=' && value && this.isProjectType(value.text) ? value.text : undefined;
+          this.bindingTypes.set(t[binding].text, type);
+        }
+        return end;
+      }
+
+      case 'for': {
+        // Higher-ranked bounds: for<'a>
+        if (next?.text === '<') return i + 1;
+        const end = this.findEnd(i + 1, ['in']);
+        this.pattern(i + 1, end, 'variable');
+        this.expectBlock('block');
+        return end + 1;
+      }
+
+      case 'match':
+        this.expectBlock('match');
+        return i + 1;
+
+      case 'if':
+      case 'while':
+      case 'loop':
+      case 'else':
+      case 'unsafe':
+      case 'async':
+        this.expectBlock('block');
+        return i + 1;
+
+      case 'crate':
+      case 'self':
+      case 'super':
+      case 'Self':
+        if (next?.text === '::') {
+          this.pathExternal = implExternal && token.text === 'Self';
+        }
+        return i + 1;
+
+      default:
+        return i + 1;
+    }
+  }
+
+  /**
+   * use a::b::{c, d as e};
+   * Paths rooted outside the project make the imported names external
+   */
+  private useDeclaration(start: number): number {
+    const t = this.tokens;
+    const end = this.findEnd(start, [';']);
+    const root = t[start]?.text === '::' ? t[start + 1] : t[start];
+    const external = !!root && root.kind === 'name' && !this.modules.has(root.text);
+
+    for (let k = start; k < end; k++) {
+      const token = t[k];
+      if (token.kind !== 'name') continue;
+
+      if (t[k + 1]?.text === '::') {
+        this.push(token, 'module', external);
+        continue;
+      }
+
+      this.push(token, 'reference', external);
+      (external ? this.externals : this.imported).add(token.text);
+    }
+
+    return end + 1;
+  }
+
+  /**
+   * fn name<G>(params) -> Ret where ... { body }
+   */
+  private functionDeclaration(i: number, role: 'function' | 'method', external: boolean): number {
+    const t = this.tokens;
+    const name = t[i + 1];
+
+    // Function pointer type: fn(u32) -> u32
+    if (name?.kind !== 'name') return i + 1;
+
+    this.push(name, role, external || BUILTINS.has(name.text));
+    let j = this.generics(i + 2);
+    if (t[j]?.text === '(') {
+      const close = this.findClose(j);
+      this.parameters(j + 1, close);
+      j = close + 1;
+    }
+    this.expectBlock('block');
+    return j;
+  }
+
+  /**
+   * struct Name<G> { field: T } | struct Name<G>(T); | struct Name;
+   */
+  private structDeclaration(i: number): number {
+    const t = this.tokens;
+    const name = t[i + 1];
+    if (name?.kind !== 'name') return i + 1;
+
+    this.push(name, 'struct', false);
+    let j = this.generics(i + 2);
+
+    // Where clause
+    if (t[j]?.text === 'where') {
+      const end = this.findEnd(j + 1, ['{', ';']);
+      this.typeRange(j + 1, end);
+      j = end;
+    }
+
+    if (t[j]?.text === '{') {
+      const close = this.findClose(j);
+      this.fields(j + 1, close);
+      return close + 1;
+    }
+
+    if (t[j]?.text === '(') {
+      const close = this.findClose(j);
+      this.typeRange(j + 1, close);
+      return close + 1;
+    }
+
+    return j;
+  }
+
+  /**
+   * enum Name<G> { Variant, Variant(T), Variant { field: T }, Variant = 1 }
+   */
+  private enumDeclaration(i: number): number {
+    const t = this.tokens;
+    const name = t[i + 1];
+    if (name?.kind !== 'name') return i + 1;
+
+    this.push(name, 'enum', false);
+    let j = this.generics(i + 2);
+    if (t[j]?.text === 'where') {
+      const end = this.findEnd(j + 1, ['{']);
+      this.typeRange(j + 1, end);
+      j = end;
+    }
+    if (t[j]?.text !== '{') return j;
+
+    const close = this.findClose(j);
+    let expectVariant = true;
+
+    for (let k = j + 1; k < close; k++) {
+      const token = t[k];
+
+      if (token.text === '#' && t[k + 1]?.text === '[') {
+        const attributeClose = this.findClose(k + 1);
+        this.externalRange(k + 1, attributeClose);
+        k = attributeClose;
+        continue;
+      }
+      if (token.text === ',') {
+        expectVariant = true;
+        continue;
+      }
+      if (token.kind === 'name' && expectVariant) {
+        this.push(token, 'variant', false);
+        expectVariant = false;
+        continue;
+      }
+      if (token.text === '{') {
+        const fieldsClose = this.findClose(k);
+        this.fields(k + 1, fieldsClose);
+        k = fieldsClose;
+        continue;
+      }
+      if (token.text === '(') {
+        const typesClose = this.findClose(k);
+        this.typeRange(k + 1, typesClose);
+        k = typesClose;
+        continue;
+      }
+      if (token.kind === 'name') {
+        this.reference(k);
+      }
+    }
+
+    return close + 1;
+  }
+
+  /**
+   * impl<G> [Trait for] Type [where ...] {
+   * Items of an impl for an external trait keep their names
+   */
+  private implHeader(i: number): number {
+    const t = this.tokens;
+    const j = this.generics(i + 1);
+    const end = this.findEnd(j, ['{', ';']);
+
+    let external = false;
+    for (let k = j; k < end; k++) {
+      if (t[k].text === 'for' && t[k + 1]?.text !== '<') {
+        const traitStart = t[j]?.text === '!' ? j + 1 : j;
+        external = this.isExternalPath(traitStart);
+        break;
+      }
+    }
+
+    this.typeRange(j, end);
+    this.expectBlock('impl', external);
+    return end;
+  }
+
+  /**
+   * Generic parameters starting at '<' (returns `start` unchanged when there are none)
+   */
+  private generics(start: number): number {
+    const t = this.tokens;
+    if (t[start]?.text !== '<') return start;
+
+    let depth = 0;
+    let k = start;
+    for (; k < t.length; k++) {
+      const token = t[k];
+      if (token.kind === 'op') {
+        if (token.text === '<') depth++;
+        else if (/^>+$/.test(token.text)) depth -= token.text.length;
+        if (depth <= 0) break;
+        continue;
+      }
+      if (token.kind !== 'name') continue;
+
+      const prev = t[k - 1];
+      const isParameter = depth === 1 &&
+        (prev.text === '<' || prev.text === ',' || (prev.text === 'const' && ['<', ','].includes(t[k - 2]?.text)));
+      if (isParameter) {
+        this.push(token, 'generic', false);
+      } else {
+        this.reference(k);
+      }
+    }
+
+    return k + 1;
+  }
+
+  /**
+   * Parameters of a fn or closure: `pattern: Type` separated by commas
+   */
+  private parameters(start: number, end: number): void {
+    const t = this.tokens;
+    let segmentStart = start;
+
+    for (let k = start; k <= end; k++) {
+      if (k < end && t[k].text !== ',') {
+        if ('([{'.includes(t[k].text)) k = this.findClose(k);
+        else if (t[k].text === '<') k = this.findAngleClose(k);
+        continue;
+      }
+
+      // Skip parameter attributes
+      let from = segmentStart;
+      while (t[from]?.text === '#' && t[from + 1]?.text === '[') {
+        const close = this.findClose(from + 1);
+        this.externalRange(from + 1, close);
+        from = close + 1;
+      }
+
+      const colon = this.findEnd(from, [':']);
+      if (colon < k) {
+        this.pattern(from, colon, 'parameter');
+        this.typeRange(colon + 1, k);
+
+        const binding = t[from]?.text === 'mut' ? from + 1 : from;
+        if (t[binding]?.kind === 'name' && colon === binding + 1) {
+          this.bindingTypes.set(t[binding].text, this.typeNameAt(colon + 1));
+        }
+      } else {
+        this.pattern(from, k, 'parameter');
+      }
+      segmentStart = k + 1;
+    }
+  }
+
+  /**
+   * Named fields of a struct or struct variant
+   */
+  private fields(start: number, end: number): void {
+    const t = this.tokens;
+
+    for (let k = start; k < end; k++) {
+      const token = t[k];
+
+      if (token.text === '#' && t[k + 1]?.text === '[') {
+        const close = this.findClose(k + 1);
+        this.externalRange(k + 1, close);
+        k = close;
+        continue;
+      }
+
+      if (token.kind !== 'name') continue;
+
+      if (t[k + 1]?.text === ':') {
+        this.push(token, 'field', false);
+      } else {
+        this.reference(k);
+      }
+    }
+  }
+
+  /**
+   * A pattern (let, for, match arm, parameter): lowercase names are bindings
+   */
+  private pattern(start: number, end: number, role: 'variable' | 'parameter'): void {
+    const t = this.tokens;
+    const groups: Array<{ struct: boolean; external: boolean }> = [];
+
+    for (let k = start; k < end; k++) {
+      const token = t[k];
+      const prev = t[k - 1];
+      const next = t[k + 1];
+      const group = groups[groups.length - 1];
+
+      if (token.kind === 'op') {
+        if ('([{'.includes(token.text)) {
+          const owner = this.names[this.names.length - 1];
+          const isStruct = token.text === '{' && prev?.kind === 'name' && owner?.start === prev.start;
+          groups.push({ struct: isStruct, external: isStruct && owner.external });
+        } else if (token.text in CLOSERS) {
+          groups.pop();
+        }
+        continue;
+      }
+
+      if (token.kind !== 'name') continue;
+
+      if (prev?.text === '::' || next?.text === '::' || next?.text === '(' || next?.text === '{') {
+        this.reference(k);
+      } else if (group?.struct && next?.text === ':') {
+        this.push(token, 'member', group.external);
+      } else if (/^(r#)?[A-Z]/.test(token.text)) {
+        // Constants, unit variants and unit structs
+        this.reference(k);
+      } else if (token.text !== '_') {
+        this.push(token, role, false);
+      }
+    }
+  }
+
+  /**
+   * Names in type position (bounds, field types, impl headers)
+   */
+  private typeRange(start: number, end: number): void {
+    for (let k = start; k < end; k++) {
+      if (this.tokens[k].kind === 'name') {
+        this.reference(k);
+      }
+    }
+  }
+
+  /**
+   * Names that must never be renamed (attributes, macro_rules! bodies)
+   */
+  private externalRange(start: number, end: number): void {
+    for (let k = start; k < end; k++) {
+      if (this.tokens[k].kind === 'name') {
+        this.push(this.tokens[k], 'reference', true);
+      }
+    }
+  }
+
+  /**
+   * A name used as a value or type, possibly part of a path (a::b::C)
+   */
+  private reference(k: number): void {
+    const t = this.tokens;
+    const token = t[k];
+
+    // Path continuation: inherits the external flag of the path root
+    if (t[k - 1]?.text === '::') {
+      const role = t[k + 1]?.text === '::' && this.modules.has(token.text) ? 'module' : 'reference';
+      this.push(token, role, this.pathExternal);
+      return;
+    }
+
+    // Path root
+    if (t[k + 1]?.text === '::') {
+      this.pathExternal = this.isExternalRoot(token.text);
+      this.push(token, this.modules.has(token.text) ? 'module' : 'reference', this.pathExternal);
+      return;
+    }
+
+    this.push(token, 'reference', this.isExternal(token.text));
+  }
+
+  /**
+   * String literal: format strings inside macros expose their named arguments
+   */
+  private string(token: RustToken): void {
+    const inMacro = this.stack.some(group => group.kind === 'macro');
+    const open = token.open || '"';
+    const isByte = open.startsWith('b');
+
+    if (inMacro && !isByte) {
+      const body = token.text.slice(open.length, token.text.length - (token.close || '"').length);
+      const fields: RustToken[] = [];
+      for (const match of body.matchAll(FORMAT_FIELD_REGEX)) {
+        if (!match[1]) continue;
+        const start = token.start + open.length + match.index! + 1;
+        const newlines = body.slice(0, match.index).split('\n').length - 1;
+        fields.push({ kind: 'name', text: match[1], start, end: start + match[1].length, line: token.line + newlines });
+      }
+
+      if (fields.length > 0) {
+        token.fields = fields;
+        for (const field of fields) {
+          this.push(field, 'reference', this.isExternal(field.text));
+        }
+        return;
+      }
+    }
+
+    if (!isByte) {
+      this.strings.push(token);
+    }
+  }
+
+  /**
+   * Give the next '{' at the current depth a kind
+   */
+  private expectBlock(kind: Group['kind'], external = false): void {
+    this.pending = { kind, external, depth: this.stack.length };
+  }
+
+  /**
+   * Whether the receiver ending before the '.' at `dot` has a project type:
+   * `self`, or a field, parameter or let binding declared with one
+   * Call results and untyped bindings are unknown.
+   */
+  private hasProjectReceiver(dot: number): boolean {
+    const receiver = this.tokens[dot - 1];
+    if (receiver?.kind === 'keyword' && receiver.text === 'self') return true;
+    if (receiver?.kind !== 'name') return false;
+
+    const owner = this.names[this.names.length - 1];
+    if (!owner || owner.end !== receiver.end || owner.external) return false;
+
+    const types = owner.role === 'member' ? this.fieldTypes : this.bindingTypes;
+    return this.isProjectType(types.get(owner.text));
+  }
+
+  private isProjectType(text: string | undefined): boolean {
+    return text === 'Self' || (!!text && (this.declared.has(text) || this.imported.has(text)));
+  }
+
+  /**
+   * Name of the type starting at k: `&mut cart::Cart<T>` → Cart
+   */
+  private typeNameAt(k: number): string | undefined {
+    const t = this.tokens;
+    while (t[k] && (t[k].kind === 'lifetime' || ['&', '&&', '*', 'mut', 'dyn', 'impl', 'const'].includes(t[k].text))) {
+      k++;
+    }
+
+    let name: string | undefined;
+    while (t[k] && (t[k].kind === 'name' || ['crate', 'self', 'super', 'Self'].includes(t[k].text))) {
+      name = t[k].text;
+      if (t[k + 1]?.text !== '::') break;
+      k += 2;
+    }
+    return name;
+  }
+
+  private isExternal(text: string): boolean {
+    if (this.declared.has(text)) return false;
+    return BUILTINS.has(text) || this.externals.has(text);
+  }
+
+  /**
+   * Lowercase path roots that aren't project modules are crates
+   */
+  private isExternalRoot(text: string): boolean {
+    if (this.modules.has(text)) return false;
+    return this.isExternal(text) || CRATE_ROOTS.has(text) || /^[a-z_]/.test(text);
+  }
+
+  /**
+   * Whether the path starting at k (e.g. a trait name) belongs to another crate
+   */
+  private isExternalPath(k: number): boolean {
+    const t = this.tokens;
+    if (t[k]?.text === '::') return true;
+    if (t[k]?.kind === 'keyword') return false;
+    if (t[k + 1]?.text === '::') return this.isExternalRoot(t[k].text);
+    return this.isExternal(t[k]?.text);
+  }
+
+  private startsClosure(prev: RustToken | undefined): boolean {
+    if (!prev) return true;
+    if (prev.kind === 'keyword') return ['move', 'return', 'in', 'else', 'async'].includes(prev.text);
+    return prev.kind === 'op' && !')]}?'.includes(prev.text);
+  }
+
+  /**
+   * Index of the '>' closing the '<' at `open` (generic arguments in a type)
+   */
+  private findAngleClose(open: number): number {
+    const t = this.tokens;
+    let depth = 0;
+
+    for (let k = open; k < t.length; k++) {
+      if (t[k].text === '<') depth++;
+      else if (/^>+$/.test(t[k].text)) depth -= t[k].text.length;
+      if (depth <= 0 || t[k].text === ';' || t[k].text === '{') return k;
+    }
+    return t.length - 1;
+  }
+
+  /**
+   * Whether the token after a block closed inside a match arm body starts the next arm
+   * (`Some(x) => { ... } None => ...`) rather than continuing the body (`} else {`)
+   */
+  private endsArm(next: RustToken | undefined): boolean {
+    if (!next) return true;
+    if (next.text === 'else') return false;
+    if (next.kind !== 'op') return true;
+    return ['(', '[', '&', '-', '|', '..', '::', ',', '}', '#'].includes(next.text);
+  }
+
+  /**
+   * Index of the '|' closing closure parameters opened at `start`
+   */
+  private findClosureEnd(start: number): number {
+    const t = this.tokens;
+    for (let k = start + 1; k < t.length; k++) {
+      if ('([{'.includes(t[k].text)) k = this.findClose(k);
+      else if (t[k].text === '|') return k;
+    }
+    return t.length - 1;
+  }
+
+  /**
+   * Index of the end of a match arm pattern ('=>' or a guard's 'if')
+   */
+  private findPatternEnd(start: number): number {
+    return this.findEnd(start, ['=>', 'if']);
+  }
+
+  /**
+   * Index of the first token in `stops` at bracket depth 0, or of an unmatched closer
+   */
+  private findEnd(start: number, stops: string[]): number {
+    const t = this.tokens;
+    let depth = 0;
+
+    for (let k = start; k < t.length; k++) {
+      const text = t[k].text;
+      if (depth === 0 && stops.includes(text) && t[k].kind !== 'string') return k;
+      if ('([{'.includes(text)) depth++;
+      else if (text in CLOSERS) {
+        if (depth === 0) return k;
+        depth--;
+      }
+    }
+    return t.length;
+  }
+
+  /**
+   * Index of the delimiter closing the one at `open`
+   */
+  private findClose(open: number): number {
+    const t = this.tokens;
+    let depth = 0;
+
+    for (let k = open; k < t.length; k++) {
+      const text = t[k].text;
+      if ('([{'.includes(text) && t[k].kind === 'op') depth++;
+      else if (text in CLOSERS && t[k].kind === 'op') {
+        depth--;
+        if (depth === 0) return k;
+      }
+    }
+    return t.length - 1;
+  }
+
+  private push(token: RustToken, role: RustName['role'], external: boolean): void {
+    this.names.push({ text: token.text, start: token.start, end: token.end, line: token.line, role, external });
+  }
+}
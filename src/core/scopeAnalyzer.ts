@@ -0,0 +1,443 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * Where the symbol behind an identifier is declared
+ *
+ * - project: declared in this file or in another project source file
+ * - external: declared by a third-party module, an ambient declaration, a
+ *   global API (`fetch`, `setTimeout`, `process`), or a member of a value
+ *   whose type we cannot see (e.g. `res.status`)
+ * - unresolved: a free identifier with no declaration (names defined outside
+ *   the analyzed file)
+ */
+export type IdentifierOrigin = 'project' | 'external' | 'unresolved';
+
+/**
+ * Options for building a ScopeAnalyzer
+ */
+export interface ScopeAnalyzerOptions {
+  /** Virtual file name used for parsing (controls script kind). Defaults to source.ts */
+  fileName?: string;
+  /**
+   * Absolute path of the file on disk. When provided, relative imports of the
+   * file are loaded from disk so that cross-file project symbols resolve.
+   */
+  filePath?: string;
+}
+
+/** Extensions tried, in order, when resolving a relative import from disk */
+const RESOLVE_EXTENSIONS: Array<{ suffix: string; extension: ts.Extension }> = [
+  { suffix: '.ts', extension: ts.Extension.Ts },
+  { suffix: '.tsx', extension: ts.Extension.Tsx },
+  { suffix: '.d.ts', extension: ts.Extension.Dts },
+  { suffix: '.js', extension: ts.Extension.Js },
+  { suffix: '.jsx', extension: ts.Extension.Jsx },
+  { suffix: '/index.ts', extension: ts.Extension.Ts },
+  { suffix: '/index.tsx', extension: ts.Extension.Tsx },
+  { suffix: '/index.js', extension: ts.Extension.Js },
+];
+
+/** ES lib declarations, shared by all analyzers: they are parsed once */
+const LIB_DIRECTORY = path.dirname(ts.getDefaultLibFilePath({ target: ts.ScriptTarget.Latest }));
+const libFiles = new Map<string, ts.SourceFile | undefined>();
+
+/**
+ * Browser and Node.js globals
+ * The DOM lib is not loaded: it declares window properties (`name`, `status`,
+ * `length`) that would lock project variables of the same name.
+ */
+const HOST_GLOBALS_PATH = path.join(LIB_DIRECTORY, 'host-globals.d.ts');
+const HOST_GLOBALS = [
+  'console', 'fetch', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask',
+  'structuredClone', 'atob', 'btoa', 'crypto', 'performance', 'URL', 'URLSearchParams', 'TextEncoder',
+  'TextDecoder', 'AbortController', 'AbortSignal', 'Blob', 'FormData', 'Headers', 'Request', 'Response',
+  'Event', 'EventTarget', 'WebSocket', 'Worker', 'XMLHttpRequest',
+  'window', 'document', 'navigator', 'location', 'localStorage', 'sessionStorage', 'alert',
+  'confirm', 'prompt', 'requestAnimationFrame', 'cancelAnimationFrame', 'HTMLElement',
+  'process', 'Buffer', 'global', '__dirname', '__filename', 'setImmediate', 'clearImmediate',
+].map(name => `declare var ${name}: any;`).join('\n');
+
+/**
+ * Parsed lib file, or undefined when it isn't a lib file
+ */
+function getLibFile(fileName: string): ts.SourceFile | undefined {
+  if (path.dirname(fileName) !== LIB_DIRECTORY) return undefined;
+  if (!libFiles.has(fileName)) {
+    const text = fileName === HOST_GLOBALS_PATH ? HOST_GLOBALS : ts.sys.readFile(fileName);
+    libFiles.set(fileName, text === undefined ? undefined : ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true));
+  }
+  return libFiles.get(fileName);
+}
+
+/**
+ * Scope analyzer backed by the TypeScript checker
+ *
+ * Builds a small in-memory Program around a single source file and uses the
+ * symbol table to tell project-declared identifiers apart from third-party
+ * and ambient ones. Only the file's own relative imports are loaded from disk;
+ * package imports are deliberately left unresolved, so anything reached through
+ * them is treated as external. The ES lib and the common browser and Node.js
+ * globals are loaded so that global APIs resolve to external declarations.
+ *
+ * @example
+ * ```typescript
+ * const analyzer = new ScopeAnalyzer("import fs from 'fs'; const data = fs.readFileSync('x');");
+ * // data → 'project', fs → 'external', readFileSync → 'external'
+ * // fetch, setTimeout, console → 'external' (global APIs)
+ * ```
+ */
+export class ScopeAnalyzer {
+  readonly sourceFile: ts.SourceFile;
+  private checker: ts.TypeChecker;
+  private fileName: string;
+  private baseDir: string | null;
+  private cache = new Map<ts.Identifier, IdentifierOrigin>();
+
+  constructor(sourceCode: string, options: ScopeAnalyzerOptions = {}) {
+    this.baseDir = options.filePath && path.isAbsolute(options.filePath)
+      ? path.dirname(options.filePath)
+      : null;
+    // Place the virtual file next to the real one so relative imports resolve
+    this.fileName = path.join(this.baseDir || path.sep, path.basename(options.fileName || 'source.ts'));
+
+    this.sourceFile = ts.createSourceFile(
+      this.fileName,
+      sourceCode,
+      ts.ScriptTarget.Latest,
+      true
+    );
+
+    const program = ts.createProgram({
+      rootNames: [this.fileName, HOST_GLOBALS_PATH],
+      options: {
+        lib: ['lib.esnext.d.ts'],
+        allowJs: true,
+        checkJs: false,
+        noEmit: true,
+        types: [],
+        jsx: ts.JsxEmit.Preserve,
+        target: ts.ScriptTarget.Latest,
+      },
+      host: this.createCompilerHost(),
+    });
+
+    this.checker = program.getTypeChecker();
+  }
+
+  /**
+   * Classify an identifier node from this analyzer's source file
+   */
+  classify(node: ts.Identifier): IdentifierOrigin {
+    const cached = this.cache.get(node);
+    if (cached) return cached;
+
+    const origin = this.computeOrigin(node);
+    this.cache.set(node, origin);
+    return origin;
+  }
+
+  /**
+   * Convenience check: is this identifier declared inside the project?
+   */
+  isProjectIdentifier(node: ts.Identifier): boolean {
+    return this.classify(node) === 'project';
+  }
+
+  private computeOrigin(node: ts.Identifier): IdentifierOrigin {
+    const symbol = this.getSymbol(node);
+
+    if (!symbol) {
+      // Member of a value whose type we can't see (untyped parameter, package import,
+      // unloaded module). Renaming it would break the member access.
+      return this.isMemberName(node) ? 'external' : 'unresolved';
+    }
+
+    const origin = this.getSymbolOrigin(symbol);
+    if (origin !== 'project') return origin;
+
+    // Uses of `const { status } = res` keep the spelling of their declaration
+    const binding = symbol.declarations?.find(ts.isBindingElement);
+    if (binding && binding.name !== node && ts.isIdentifier(binding.name) &&
+        binding.name.getSourceFile() === this.sourceFile && this.classify(binding.name) === 'external') {
+      return 'external';
+    }
+
+    return this.isContextuallyExternal(node) ? 'external' : 'project';
+  }
+
+  /**
+   * Resolve the symbol for an identifier, following shorthand assignments
+   */
+  private getSymbol(node: ts.Identifier): ts.Symbol | undefined {
+    const parent = node.parent;
+    if (parent && ts.isShorthandPropertyAssignment(parent) && parent.name === node) {
+      return this.checker.getShorthandAssignmentValueSymbol(parent) ||
+        this.checker.getSymbolAtLocation(node);
+    }
+    return this.checker.getSymbolAtLocation(node);
+  }
+
+  /**
+   * Determine the origin of a symbol from its declarations
+   */
+  private getSymbolOrigin(symbol: ts.Symbol): IdentifierOrigin {
+    const declarations = symbol.declarations || [];
+    if (declarations.length === 0) {
+      // Intrinsic symbols (undefined, arguments, globalThis)
+      return 'external';
+    }
+
+    for (const declaration of declarations) {
+      const importDeclaration = this.getImportDeclaration(declaration);
+      if (importDeclaration) {
+        if (!this.isRelativeSpecifier(importDeclaration)) return 'external';
+        continue;
+      }
+
+      const sourceFile = declaration.getSourceFile();
+      if (!this.isProjectFile(sourceFile)) return 'external';
+      if (ts.getCombinedModifierFlags(declaration as ts.Declaration) & ts.ModifierFlags.Ambient) {
+        return 'external';
+      }
+      if (this.isExternalRequireBinding(declaration)) return 'external';
+    }
+
+    return 'project';
+  }
+
+  /**
+   * Project-declared names whose spelling is dictated by something external:
+   * object literal keys passed to third-party calls, shorthand destructuring of
+   * untyped values, and members overriding a third-party base class.
+   */
+  private isContextuallyExternal(node: ts.Identifier): boolean {
+    const parent = node.parent;
+
+    // { port: 3000 } passed to app.listen(...)
+    if (
+      (ts.isPropertyAssignment(parent) || ts.isShorthandPropertyAssignment(parent) || ts.isMethodDeclaration(parent)) &&
+      parent.name === node &&
+      ts.isObjectLiteralExpression(parent.parent)
+    ) {
+      return this.isExternalObjectLiteral(parent.parent, node.text);
+    }
+
+    // const { status } = res
+    if (ts.isBindingElement(parent) && parent.name === node && !parent.propertyName &&
+        ts.isObjectBindingPattern(parent.parent)) {
+      const property = this.checker.getTypeAtLocation(parent.parent).getProperty(node.text);
+      return property ? this.getSymbolOrigin(property) === 'external' : true;
+    }
+
+    // { status } = res — property name of a renamed binding
+    if (ts.isBindingElement(parent) && parent.propertyName === node) {
+      const property = this.checker.getTypeAtLocation(parent.parent).getProperty(node.text);
+      return property ? this.getSymbolOrigin(property) === 'external' : true;
+    }
+
+    // class Widget extends Component { render() {} }
+    if (
+      (ts.isMethodDeclaration(parent) || ts.isPropertyDeclaration(parent) || ts.isGetAccessor(parent) || ts.isSetAccessor(parent)) &&
+      parent.name === node &&
+      ts.isClassLike(parent.parent)
+    ) {
+      return this.overridesExternalMember(parent.parent, node.text);
+    }
+
+    return false;
+  }
+
+  /**
+   * Check whether an object literal key is owned by an external contract
+   */
+  private isExternalObjectLiteral(literal: ts.ObjectLiteralExpression, key: string): boolean {
+    const contextualType = this.checker.getContextualType(literal);
+    const contextualProperty = contextualType?.getProperty(key);
+    if (contextualProperty) {
+      return this.getSymbolOrigin(contextualProperty) === 'external';
+    }
+
+    // Walk out through nested literals to the call that receives them
+    let current: ts.Node = literal;
+    while (
+      ts.isObjectLiteralExpression(current.parent) ||
+      ts.isArrayLiteralExpression(current.parent) ||
+      ts.isPropertyAssignment(current.parent) ||
+      ts.isParenthesizedExpression(current.parent)
+    ) {
+      current = current.parent;
+    }
+
+    const call = current.parent;
+    if (call && (ts.isCallExpression(call) || ts.isNewExpression(call)) && call.expression !== current) {
+      return this.isExternalExpression(call.expression);
+    }
+
+    return false;
+  }
+
+  /**
+   * Check whether a class member overrides a member of a third-party base class
+   */
+  private overridesExternalMember(classNode: ts.ClassLikeDeclaration, name: string): boolean {
+    const heritage = classNode.heritageClauses?.find(h => h.token === ts.SyntaxKind.ExtendsKeyword);
+    const base = heritage?.types[0];
+    if (!base || !this.isExternalExpression(base.expression)) return false;
+
+    // If the base type is visible, only members it actually declares are locked
+    const baseType = this.checker.getTypeAtLocation(base);
+    const property = baseType.getProperty(name);
+    return property ? this.getSymbolOrigin(property) === 'external' : false;
+  }
+
+  /**
+   * Classify an arbitrary expression by its root identifier
+   */
+  private isExternalExpression(expression: ts.Expression): boolean {
+    let current: ts.Expression = expression;
+    while (
+      ts.isPropertyAccessExpression(current) ||
+      ts.isCallExpression(current) ||
+      ts.isElementAccessExpression(current) ||
+      ts.isParenthesizedExpression(current) ||
+      ts.isNonNullExpression(current)
+    ) {
+      if (ts.isPropertyAccessExpression(current) && ts.isIdentifier(current.name) &&
+          this.classify(current.name) === 'external') {
+        return true;
+      }
+      current = current.expression;
+    }
+
+    return ts.isIdentifier(current) && this.classify(current) === 'external';
+  }
+
+  /**
+   * Is this identifier the member part of an access whose owner we don't control?
+   */
+  private isMemberName(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    if (!parent) return false;
+    if (ts.isPropertyAccessExpression(parent) && parent.name === node) return true;
+    if (ts.isQualifiedName(parent) && parent.right === node) return true;
+    if (ts.isPropertyAssignment(parent) && parent.name === node) return true;
+    if (ts.isBindingElement(parent) && (parent.propertyName === node || !parent.propertyName)) return true;
+    if (ts.isJsxAttribute(parent) && parent.name === node) return true;
+    if (ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent)) return true;
+    return false;
+  }
+
+  /**
+   * Find the import declaration an alias declaration belongs to
+   */
+  private getImportDeclaration(declaration: ts.Node): ts.ImportDeclaration | ts.ImportEqualsDeclaration | null {
+    if (ts.isImportEqualsDeclaration(declaration)) return declaration;
+
+    let clause: ts.Node | undefined;
+    if (ts.isImportClause(declaration)) clause = declaration;
+    else if (ts.isNamespaceImport(declaration)) clause = declaration.parent;
+    else if (ts.isImportSpecifier(declaration)) clause = declaration.parent.parent;
+
+    // JSDoc @import tags also own import clauses; they have no runtime effect
+    return clause && ts.isImportDeclaration(clause.parent) ? clause.parent : null;
+  }
+
+  /**
+   * Check whether an import refers to a project-relative module
+   */
+  private isRelativeSpecifier(declaration: ts.ImportDeclaration | ts.ImportEqualsDeclaration): boolean {
+    let specifier: ts.Expression | undefined;
+    if (ts.isImportDeclaration(declaration)) {
+      specifier = declaration.moduleSpecifier;
+    } else if (ts.isExternalModuleReference(declaration.moduleReference)) {
+      specifier = declaration.moduleReference.expression;
+    } else {
+      // import x = Namespace.Member — follows the namespace
+      return true;
+    }
+    return !!specifier && ts.isStringLiteral(specifier) && /^\.{1,2}(\/|$)/.test(specifier.text);
+  }
+
+  /**
+   * Check whether a variable binding comes from require('package') or import('package')
+   */
+  private isExternalRequireBinding(declaration: ts.Node): boolean {
+    let current: ts.Node = declaration;
+    while (ts.isBindingElement(current) || ts.isObjectBindingPattern(current) || ts.isArrayBindingPattern(current)) {
+      current = current.parent;
+    }
+    if (!ts.isVariableDeclaration(current) || !current.initializer) return false;
+
+    let initializer: ts.Expression = current.initializer;
+    while (ts.isAwaitExpression(initializer) || ts.isParenthesizedExpression(initializer)) {
+      initializer = initializer.expression;
+    }
+    if (!ts.isCallExpression(initializer)) return false;
+
+    const isRequire = ts.isIdentifier(initializer.expression) && initializer.expression.text === 'require';
+    const isDynamicImport = initializer.expression.kind === ts.SyntaxKind.ImportKeyword;
+    const [specifier] = initializer.arguments;
+
+    return (isRequire || isDynamicImport) &&
+      !!specifier && ts.isStringLiteral(specifier) &&
+      !/^\.{1,2}(\/|$)/.test(specifier.text);
+  }
+
+  /**
+   * Project files are non-declaration sources outside node_modules
+   */
+  private isProjectFile(sourceFile: ts.SourceFile): boolean {
+    return !sourceFile.isDeclarationFile && !/[\\/]node_modules[\\/]/.test(sourceFile.fileName);
+  }
+
+  /**
+   * Compiler host serving the in-memory file, plus its relative imports from disk
+   */
+  private createCompilerHost(): ts.CompilerHost {
+    const readFromDisk = (fileName: string): string | undefined => {
+      if (!this.baseDir) return undefined;
+      try {
+        return fs.readFileSync(fileName, 'utf-8');
+      } catch {
+        return undefined;
+      }
+    };
+
+    const resolveRelative = (specifier: string): ts.ResolvedModuleFull | undefined => {
+      if (!this.baseDir || !/^\.{1,2}(\/|$)/.test(specifier)) return undefined;
+      const base = path.resolve(this.baseDir, specifier);
+      for (const { suffix, extension } of RESOLVE_EXTENSIONS) {
+        const candidate = base + suffix;
+        if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+          return { resolvedFileName: candidate, extension, isExternalLibraryImport: false };
+        }
+      }
+      return undefined;
+    };
+
+    return {
+      getSourceFile: (fileName, languageVersion) => {
+        if (fileName === this.fileName) return this.sourceFile;
+        const libFile = getLibFile(fileName);
+        if (libFile) return libFile;
+        const text = readFromDisk(fileName);
+        return text === undefined ? undefined : ts.createSourceFile(fileName, text, languageVersion, true);
+      },
+      getDefaultLibFileName: options => path.join(LIB_DIRECTORY, ts.getDefaultLibFileName(options)),
+      writeFile: () => {},
+      getCurrentDirectory: () => this.baseDir || '/',
+      getCanonicalFileName: fileName => fileName,
+      useCaseSensitiveFileNames: () => true,
+      getNewLine: () => '\n',
+      fileExists: fileName => fileName === this.fileName || !!getLibFile(fileName) || readFromDisk(fileName) !== undefined,
+      readFile: fileName => (fileName === this.fileName ? this.sourceFile.text : getLibFile(fileName)?.text ?? readFromDisk(fileName)),
+      // Only the analyzed file's own imports are followed, and never into packages
+      resolveModuleNameLiterals: (moduleLiterals, containingFile) =>
+        moduleLiterals.map(literal => ({
+          resolvedModule: containingFile === this.fileName ? resolveRelative(literal.text) : undefined,
+        })),
+    };
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Sentence segmentation for comments and markdown
+ *
+ * Long comments are translated and cached sentence by sentence, so editing
+ * one sentence of a JSDoc block only needs that sentence translated again.
+ * JSDoc tag names and parameter names, @example bodies and fenced code stay
+ * as they are; only descriptions are split into sentences:
+ *
+ *   Load the user profile. Falls back to the API.     → 2 sentences
+ *   @param userId - The user to load                  → '@param userId - ' + 1 sentence
+ *   @example                                          → kept
+ *   loadProfile('42')                                 → kept
+ *
+ * Inline code, {@link} tags, markdown link targets, HTML tags and URLs
+ * must come back from the translation exactly as written (see
+ * keepsProtectedSpans).
+ */
+
+import { LanguageCode } from './types';
+import { getLocaleFallbacks } from './locale';
+import { getLanguage } from '../languages';
+
+/**
+ * Part of a segmented text
+ * - sentence: translated on its own
+ * - fixed: kept as written (tag names, code, line breaks)
+ * - break: space between two sentences on one line, written the way the target language separates sentences
+ */
+export interface TextSegment {
+  kind: 'sentence' | 'fixed' | 'break';
+  text: string;
+}
+
+/** Tags followed by a name, then the description: @param {string} name - The name */
+const NAMED_TAGS = new Set(['param', 'arg', 'argument', 'property', 'prop', 'template', 'typeparam']);
+
+/** Tags followed directly by the description: @returns {User} The user */
+const DESCRIPTION_TAGS = new Set(['returns', 'return', 'throws', 'exception', 'deprecated', 'remarks', 'summary', 'description']);
+
+/** Inline code, inline tags ({@link Foo}), markdown link targets, HTML tags and URLs */
+const PROTECTED_SPAN_PATTERN = /`[^`\n]+`|\{@\w+[^}\n]*\}|\]\([^)\s]*\)|<\/?[a-zA-Z][^>\n]*>|https?:\/\/[^\s)>\]]*[^\s)>\].,;:!?]/g;
+
+/** Words whose trailing period doesn't end a sentence */
+const ABBREVIATIONS = new Set(['e.g', 'i.e', 'etc', 'vs', 'cf', 'approx', 'mr', 'mrs', 'ms', 'dr', 'no']);
+
+/** Sentence end: punctuation, closing quotes/brackets, then whitespace (or nothing after CJK punctuation) */
+const SENTENCE_END_PATTERN = /([.!?]+["'”’)\]]*|[。！？]+[」』）]*)(\s*)/g;
+
+/** Scripts that write sentences without a space between them */
+const UNSPACED_SCRIPTS = new Set(['han', 'japanese']);
+
+/**
+ * Split a comment or markdown block into sentences and fixed parts
+ * Joining the texts of the segments gives back the original text, except
+ * that line breaks inside a sentence are joined (with a space, or without
+ * one between CJK characters).
+ */
+export function segmentText(text: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let paragraph: string[] = [];
+  let inFence = false;
+  let inExample = false;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      segments.push(...splitSentences(paragraph.join('\n')));
+      paragraph = [];
+    }
+  };
+  const fixed = (part: string) => {
+    if (part) segments.push({ kind: 'fixed', text: part });
+  };
+
+  text.split('\n').forEach((line, i) => {
+    const trimmed = line.trim();
+    const fence = /^(```|~~~)/.test(trimmed);
+    const tag = trimmed.match(/^@(\w+)/)?.[1].toLowerCase();
+    const bullet = trimmed.match(/^([-*+]|\d+[.)])\s+/)?.[0] ?? '';
+    const plain = !fence && !inFence && !tag && !inExample && trimmed.length > 0;
+
+    // Lines of a paragraph are split into sentences together; list items start a new one
+    if (plain && !bullet && paragraph.length > 0) {
+      paragraph.push(line);
+      return;
+    }
+
+    flush();
+    if (i > 0) fixed('\n');
+
+    if (fence || inFence) {
+      if (fence) inFence = !inFence;
+      fixed(line);
+    } else if (tag) {
+      inExample = tag === 'example';
+      const head = matchTagHead(line, tag);
+      fixed(head);
+      if (line.slice(head.length).trim()) {
+        paragraph = [line.slice(head.length)];
+      }
+    } else if (inExample || trimmed.length === 0) {
+      fixed(line);
+    } else {
+      const indent = line.length - line.trimStart().length + bullet.length;
+      fixed(line.slice(0, indent));
+      paragraph = [line.slice(indent)];
+    }
+  });
+
+  flush();
+  return segments;
+}
+
+/**
+ * Sentences of a text, in the form they are translated and cached in
+ */
+export function getSentences(text: string): string[] {
+  return segmentText(text).filter(segment => segment.kind === 'sentence').map(segment => segment.text);
+}
+
+/**
+ * Translate a text sentence by sentence and put it back together
+ *
+ * @param translateSentence - Translation of one sentence (e.g. a dictionary lookup)
+ * @returns The translated text, or undefined when a sentence has no translation
+ */
+export function translateSegments(
+  text: string,
+  targetLang: LanguageCode,
+  translateSentence: (sentence: string) => string | undefined
+): string | undefined {
+  const segments = segmentText(text);
+  if (!segments.some(segment => segment.kind === 'sentence')) {
+    return undefined;
+  }
+
+  const separator = writesUnspacedSentences(targetLang) ? '' : ' ';
+  let result = '';
+  for (const segment of segments) {
+    if (segment.kind === 'sentence') {
+      const translated = translateSentence(segment.text);
+      if (translated === undefined) return undefined;
+      result += translated;
+    } else {
+      result += segment.kind === 'break' ? separator : segment.text;
+    }
+  }
+  return result;
+}
+
+/**
+ * Check that a translation keeps the inline code, {@link} tags, link targets,
+ * HTML tags and URLs of the original
+ */
+export function keepsProtectedSpans(original: string, translated: string): boolean {
+  const spans = original.match(PROTECTED_SPAN_PATTERN) ?? [];
+  return spans.every(span => countOccurrences(translated, span) >= countOccurrences(original, span));
+}
+
+/**
+ * Tag name with its type and parameter name, up to where the description starts
+ */
+function matchTagHead(line: string, tag: string): string {
+  if (NAMED_TAGS.has(tag)) {
+    return line.match(/^\s*@\w+(\s+\{[^}]*\})?\s+(\[[^\]]*\]|[\w$.]+)(\s+-)?\s*/)?.[0] ?? line;
+  }
+  if (DESCRIPTION_TAGS.has(tag)) {
+    return line.match(/^\s*@\w+(\s+\{[^}]*\})?(\s+-)?\s*/)?.[0] ?? line;
+  }
+  return line;
+}
+
+/**
+ * Split a paragraph at sentence ends outside of protected spans
+ */
+function splitSentences(paragraph: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+  const protectedRanges = Array.from(paragraph.matchAll(PROTECTED_SPAN_PATTERN), match => [match.index!, match.index! + match[0].length]);
+  const isProtected = (pos: number) => protectedRanges.some(([start, end]) => pos >= start && pos < end);
+
+  let start = 0;
+  for (const match of paragraph.matchAll(SENTENCE_END_PATTERN)) {
+    const end = match.index! + match[1].length;
+    const next = end + match[2].length;
+    const unspaced = /[。！？]/.test(match[1]);
+
+    if (isProtected(match.index!) || next >= paragraph.length || (!unspaced && !match[2])) continue;
+    if (!unspaced && (/^\p{Ll}/u.test(paragraph.slice(next)) || isAbbreviation(paragraph.slice(start, match.index!)))) continue;
+
+    pushSentence(segments, paragraph.slice(start, end));
+    segments.push({ kind: match[2].includes('\n') ? 'fixed' : 'break', text: match[2] });
+    start = next;
+  }
+
+  pushSentence(segments, paragraph.slice(start));
+  return segments;
+}
+
+/**
+ * Add a sentence with its line breaks joined, keeping trailing whitespace as it is
+ */
+function pushSentence(segments: TextSegment[], text: string): void {
+  const sentence = text.trimEnd();
+  if (sentence) {
+    segments.push({ kind: 'sentence', text: sentence.replace(/(\S)?\s*\n\s*(\S)/g, joinLines) });
+  }
+  if (sentence.length < text.length) {
+    segments.push({ kind: 'fixed', text: text.slice(sentence.length) });
+  }
+}
+
+/**
+ * Join two lines of a sentence: with a space, or without one between CJK characters
+ */
+function joinLines(_match: string, before: string | undefined, after: string): string {
+  const cjk = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー、。，．！？「」『』（）]/u;
+  return (before ?? '') + (before && cjk.test(before) && cjk.test(after) ? '' : ' ') + after;
+}
+
+function isAbbreviation(sentence: string): boolean {
+  const lastWord = sentence.match(/([\p{L}.]+)$/u)?.[1];
+  return !!lastWord && (ABBREVIATIONS.has(lastWord.toLowerCase()) || /^\p{L}$/u.test(lastWord));
+}
+
+function writesUnspacedSentences(language: LanguageCode): boolean {
+  for (const tag of getLocaleFallbacks(language)) {
+    const definition = getLanguage(tag);
+    if (definition) return UNSPACED_SCRIPTS.has(definition.script);
+  }
+  return false;
+}
+
+function countOccurrences(text: string, part: string): number {
+  return text.split(part).length - 1;
+}
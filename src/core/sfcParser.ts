@@ -0,0 +1,268 @@
+/**
+ * Vue SFC Parser
+ *
+ * Splits a Vue single-file component into its top-level blocks (<template>,
+ * <script>, <script setup>, <style>, custom blocks) and scans the template
+ * into tags, attributes, text, {{ interpolations }} and comments, keeping
+ * source positions so translations can be written back in place.
+ *
+ * This is a scanner, not a full HTML parser: elements are not nested into a
+ * tree and HTML entities are left as they are.
+ */
+
+/**
+ * A top-level block of a single-file component
+ */
+export interface SfcBlock {
+  type: string;          // 'template', 'script', 'style', or a custom block name
+  attrs: string;         // Raw attribute text of the opening tag
+  start: number;         // Start of the opening tag
+  end: number;           // End of the closing tag
+  contentStart: number;
+  contentEnd: number;
+}
+
+/**
+ * An attribute of a template tag
+ */
+export interface TemplateAttribute {
+  name: string;
+  start: number;         // Start of the attribute name
+  value?: string;        // Attribute value without quotes
+  valueStart?: number;
+  valueEnd?: number;
+}
+
+/**
+ * A node of the template, in source order
+ */
+export type TemplateNode =
+  | { kind: 'tag'; name: string; closing: boolean; selfClosing: boolean; start: number; end: number; attributes: TemplateAttribute[] }
+  | { kind: 'text'; text: string; start: number; end: number }
+  | { kind: 'interpolation'; start: number; end: number; expressionStart: number; expressionEnd: number }
+  | { kind: 'comment'; text: string; start: number; end: number };
+
+/** Elements that never have a closing tag */
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+const BLOCK_TAG_REGEX = /<([a-zA-Z][\w-]*)([^>]*?)(\/?)>/y;
+const TAG_NAME_REGEX = /<\/?([a-zA-Z][\w\-.:]*)/y;
+const ATTRIBUTE_NAME_REGEX = /[^\s=>\/"']+/y;
+
+/**
+ * Check whether a file path refers to a Vue single-file component
+ */
+export function isVueFile(filePath?: string): boolean {
+  return !!filePath && /\.vue$/i.test(filePath);
+}
+
+/**
+ * Check whether a template attribute is a directive (its value is an expression)
+ */
+export function isDirective(name: string): boolean {
+  return name.startsWith('v-') || name.startsWith(':') || name.startsWith('@') || name.startsWith('#');
+}
+
+/**
+ * Check whether a tag has no closing tag (<br>, <input>, ...)
+ */
+export function isVoidElement(name: string): boolean {
+  return VOID_ELEMENTS.has(name.toLowerCase());
+}
+
+export class SfcParser {
+  /**
+   * Find the top-level blocks of a single-file component
+   */
+  parse(source: string): SfcBlock[] {
+    const blocks: SfcBlock[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+      if (source.startsWith('<!--', i)) {
+        const close = source.indexOf('-->', i + 4);
+        i = close === -1 ? source.length : close + 3;
+        continue;
+      }
+
+      BLOCK_TAG_REGEX.lastIndex = i;
+      const match = source[i] === '<' ? BLOCK_TAG_REGEX.exec(source) : null;
+      if (!match) {
+        i++;
+        continue;
+      }
+
+      const type = match[1].toLowerCase();
+      const contentStart = i + match[0].length;
+
+      if (match[3] === '/') {
+        blocks.push({ type, attrs: match[2], start: i, end: contentStart, contentStart, contentEnd: contentStart });
+        i = contentStart;
+        continue;
+      }
+
+      const contentEnd = type === 'template'
+        ? this.findTemplateEnd(source, contentStart)
+        : this.findClosingTag(source, type, contentStart);
+      const closeEnd = source.indexOf('>', contentEnd);
+      const end = closeEnd === -1 ? source.length : closeEnd + 1;
+
+      blocks.push({ type, attrs: match[2], start: i, end, contentStart, contentEnd });
+      i = end;
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Scan template content into tags, text, interpolations and comments
+   */
+  parseTemplate(source: string, start: number, end: number): TemplateNode[] {
+    const nodes: TemplateNode[] = [];
+    let i = start;
+
+    while (i < end) {
+      if (source.startsWith('<!--', i)) {
+        const close = source.indexOf('-->', i + 4);
+        const commentEnd = close === -1 || close + 3 > end ? end : close + 3;
+        nodes.push({ kind: 'comment', text: source.slice(i + 4, commentEnd - 3), start: i, end: commentEnd });
+        i = commentEnd;
+        continue;
+      }
+
+      if (this.startsTag(source, i)) {
+        i = this.scanTag(source, i, end, nodes);
+        continue;
+      }
+
+      i = this.scanText(source, i, end, nodes);
+    }
+
+    return nodes;
+  }
+
+  /**
+   * Scan a tag and its attributes starting at '<'
+   */
+  private scanTag(source: string, start: number, end: number, nodes: TemplateNode[]): number {
+    TAG_NAME_REGEX.lastIndex = start;
+    const name = TAG_NAME_REGEX.exec(source)!;
+    const attributes: TemplateAttribute[] = [];
+    let selfClosing = false;
+    let i = start + name[0].length;
+
+    while (i < end) {
+      while (i < end && /\s/.test(source[i])) i++;
+      if (source[i] === '>') {
+        i++;
+        break;
+      }
+      if (source.startsWith('/>', i)) {
+        selfClosing = true;
+        i += 2;
+        break;
+      }
+
+      ATTRIBUTE_NAME_REGEX.lastIndex = i;
+      const attributeName = ATTRIBUTE_NAME_REGEX.exec(source);
+      if (!attributeName) {
+        i++;
+        continue;
+      }
+
+      const attribute: TemplateAttribute = { name: attributeName[0], start: i };
+      i += attributeName[0].length;
+
+      let j = i;
+      while (j < end && /\s/.test(source[j])) j++;
+      if (source[j] === '=') {
+        j++;
+        while (j < end && /\s/.test(source[j])) j++;
+        const quote = source[j];
+        if (quote === '"' || quote === '\'') {
+          const close = source.indexOf(quote, j + 1);
+          const valueEnd = close === -1 || close > end ? end : close;
+          attribute.valueStart = j + 1;
+          attribute.valueEnd = valueEnd;
+          i = Math.min(valueEnd + 1, end);
+        } else {
+          let valueEnd = j;
+          while (valueEnd < end && !/[\s>]/.test(source[valueEnd])) valueEnd++;
+          attribute.valueStart = j;
+          attribute.valueEnd = valueEnd;
+          i = valueEnd;
+        }
+        attribute.value = source.slice(attribute.valueStart, attribute.valueEnd);
+      }
+
+      attributes.push(attribute);
+    }
+
+    nodes.push({ kind: 'tag', name: name[1], closing: source[start + 1] === '/', selfClosing, start, end: i, attributes });
+    return i;
+  }
+
+  /**
+   * Scan text up to the next tag or comment, splitting out {{ interpolations }}
+   */
+  private scanText(source: string, start: number, end: number, nodes: TemplateNode[]): number {
+    let textStart = start;
+    let i = start;
+
+    const pushText = (until: number) => {
+      if (until > textStart) {
+        nodes.push({ kind: 'text', text: source.slice(textStart, until), start: textStart, end: until });
+      }
+    };
+
+    while (i < end) {
+      if (source.startsWith('{{', i)) {
+        pushText(i);
+        const close = source.indexOf('}}', i + 2);
+        const expressionEnd = close === -1 || close > end ? end : close;
+        const interpolationEnd = Math.min(expressionEnd + 2, end);
+        nodes.push({ kind: 'interpolation', start: i, end: interpolationEnd, expressionStart: i + 2, expressionEnd });
+        i = interpolationEnd;
+        textStart = i;
+        continue;
+      }
+
+      if (source.startsWith('<!--', i) || this.startsTag(source, i)) break;
+      i++;
+    }
+
+    pushText(i);
+    return i;
+  }
+
+  private startsTag(source: string, i: number): boolean {
+    return source[i] === '<' && /[a-zA-Z\/]/.test(source[i + 1] || '');
+  }
+
+  /**
+   * Position of the </template> closing the root template, skipping nested <template> tags
+   */
+  private findTemplateEnd(source: string, start: number): number {
+    const tagRegex = /<!--[\s\S]*?-->|<(\/?)template\b[^>]*?(\/?)>/gi;
+    tagRegex.lastIndex = start;
+    let depth = 1;
+    let match;
+
+    while ((match = tagRegex.exec(source)) !== null) {
+      if (match[0].startsWith('<!--') || match[2] === '/') continue;
+      depth += match[1] === '/' ? -1 : 1;
+      if (depth === 0) return match.index;
+    }
+
+    return source.length;
+  }
+
+  private findClosingTag(source: string, type: string, start: number): number {
+    const closeRegex = new RegExp(`</${type}\\s*>`, 'gi');
+    closeRegex.lastIndex = start;
+    const match = closeRegex.exec(source);
+    return match ? match.index : source.length;
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Source maps between original and translated code
+ *
+ * Built from the replacements that translate a file: each replacement is a
+ * segment mapping a range of the original to the range of the translated
+ * code it became. Text between segments keeps its length (it is unchanged,
+ * or has characters swapped one for one like punctuation), so a position
+ * there moves by the line and column shift of the segment before it.
+ *
+ *   original    const total = 0; // Sum
+ *   translated  const 合計 = 0; // 合計
+ *   segments    1:6-1:11 → 1:6-1:8,  1:17-1:23 → 1:14-1:19
+ *
+ * Positions are 1-based lines and 0-based columns in UTF-16 code units, the
+ * way editors and the code viewer count them. Positions inside a replaced
+ * range map to the same line of the replacement (or its last line), at the
+ * start of the replacement on its first line.
+ */
+
+import { SourceMapSegment, TextPosition, TranslatedSpan } from './types';
+import type { TextReplacement } from '../frontends/types';
+
+/**
+ * Apply replacements and record where each one landed
+ * Replacements overlapping an earlier one are skipped. Those with a kind
+ * that change the text are also returned as spans.
+ *
+ * @param transform - Applied to the replacement texts and the unchanged text
+ *                    between them (e.g. punctuation); unchanged text that
+ *                    changes length becomes a segment of its own
+ */
+export function applyReplacementsWithSourceMap(
+  sourceCode: string,
+  replacements: TextReplacement[],
+  transform: (text: string) => string = text => text
+): { code: string; sourceMap: SourceMapSegment[]; spans: TranslatedSpan[] } {
+  const sorted = [...replacements].sort((a, b) => a.start - b.start || a.end - b.end);
+  const parts: string[] = [];
+  const sourceMap: SourceMapSegment[] = [];
+  const spans: TranslatedSpan[] = [];
+
+  let original: TextPosition = { line: 1, column: 0 };
+  let translated: TextPosition = { line: 1, column: 0 };
+  let cursor = 0;
+
+  const append = (from: string, to: string, replaced: boolean) => {
+    const originalEnd = advance(original, from);
+    const translatedEnd = advance(translated, to);
+    if (replaced ? from !== to : from.length !== to.length) {
+      sourceMap.push({
+        original: { start: original, end: originalEnd },
+        translated: { start: translated, end: translatedEnd },
+      });
+    }
+    parts.push(to);
+    original = originalEnd;
+    translated = translatedEnd;
+  };
+
+  for (const replacement of sorted) {
+    if (replacement.start < cursor) continue;
+
+    const unchanged = sourceCode.slice(cursor, replacement.start);
+    append(unchanged, transform(unchanged), false);
+
+    const start = { original, translated };
+    const originalText = sourceCode.slice(replacement.start, replacement.end);
+    const translatedText = transform(replacement.newText);
+    append(originalText, translatedText, true);
+    if (replacement.kind && originalText !== translatedText) {
+      spans.push({
+        kind: replacement.kind,
+        original: { start: start.original, end: original },
+        translated: { start: start.translated, end: translated },
+        originalText,
+        translatedText,
+      });
+    }
+    cursor = replacement.end;
+  }
+
+  const rest = sourceCode.slice(cursor);
+  append(rest, transform(rest), false);
+
+  return { code: parts.join(''), sourceMap, spans };
+}
+
+/**
+ * Position lookups in both directions through a source map
+ */
+export class SourceMap {
+  private segments: SourceMapSegment[];
+
+  constructor(segments: SourceMapSegment[]) {
+    this.segments = segments;
+  }
+
+  /**
+   * Position in the translated code of a position in the original
+   */
+  toTranslated(position: TextPosition): TextPosition {
+    return mapPosition(position, this.segments, 'original', 'translated');
+  }
+
+  /**
+   * Position in the original code of a position in the translated code
+   */
+  toOriginal(position: TextPosition): TextPosition {
+    return mapPosition(position, this.segments, 'translated', 'original');
+  }
+
+  /**
+   * Line of the translated code showing a line of the original
+   */
+  toTranslatedLine(line: number): number {
+    return this.toTranslated({ line, column: 0 }).line;
+  }
+
+  /**
+   * Line of the original code shown on a line of the translated code
+   */
+  toOriginalLine(line: number): number {
+    return this.toOriginal({ line, column: 0 }).line;
+  }
+}
+
+function mapPosition(
+  position: TextPosition,
+  segments: SourceMapSegment[],
+  from: 'original' | 'translated',
+  to: 'original' | 'translated'
+): TextPosition {
+  // Last segment starting at or before the position
+  let low = 0;
+  let high = segments.length - 1;
+  let index = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (comparePositions(segments[middle][from].start, position) <= 0) {
+      index = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  if (index === -1) {
+    return { ...position };
+  }
+
+  const range = segments[index][from];
+  const target = segments[index][to];
+
+  // Inside the replaced range: the same line of the replacement
+  if (comparePositions(position, range.end) < 0) {
+    const line = Math.min(target.start.line + position.line - range.start.line, target.end.line);
+    return { line, column: line === target.start.line ? target.start.column : 0 };
+  }
+
+  // Unchanged text after the segment
+  return {
+    line: position.line + target.end.line - range.end.line,
+    column: position.line === range.end.line ? position.column + target.end.column - range.end.column : position.column,
+  };
+}
+
+function comparePositions(a: TextPosition, b: TextPosition): number {
+  return a.line - b.line || a.column - b.column;
+}
+
+/**
+ * Position after a text that starts at a position
+ */
+function advance(position: TextPosition, text: string): TextPosition {
+  const lastBreak = text.lastIndexOf('\n');
+  if (lastBreak === -1) {
+    return { line: position.line, column: position.column + text.length };
+  }
+
+  let breaks = 0;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+    breaks++;
+  }
+  return { line: position.line + breaks, column: text.length - lastBreak - 1 };
+}
@@ -0,0 +1,135 @@
+/**
+ * Term rules from a project glossary
+ *
+ * Rules for one translation direction (e.g. en → ja):
+ *
+ *   keep          Kawa, userId      never translated, also inside compounds
+ *   translations  invoice → 請求書   always translated this way
+ *   forbidden     ユーザ             must not appear in a translation
+ *
+ * Rules are given to the identifier prompt and enforced on the response:
+ * a translation that breaks them is rejected and the identifier is kept,
+ * like an invalid identifier.
+ */
+
+import { splitIdentifier } from './naming';
+
+export interface TermRules {
+  /** Terms kept exactly as written (brand names, protocol fields, API contract keys) */
+  keep: string[];
+  /** Fixed translations { source term: translation } */
+  translations: Record<string, string>;
+  /** Words that must not appear in a translation */
+  forbidden: string[];
+}
+
+export const EMPTY_TERM_RULES: TermRules = { keep: [], translations: {}, forbidden: [] };
+
+/**
+ * Check whether a set of rules has any entry
+ */
+export function hasTermRules(rules: TermRules | undefined): rules is TermRules {
+  return !!rules && (rules.keep.length > 0 || Object.keys(rules.translations).length > 0 || rules.forbidden.length > 0);
+}
+
+/**
+ * Rules relevant to a batch of identifiers
+ * Keep and translation entries are included when a term contains them
+ * (Kawa in KawaClient); forbidden words always apply.
+ */
+export function selectTermRules(rules: TermRules, terms: string[]): TermRules {
+  const used = (entry: string) => terms.some(term => containsTerm(term, entry));
+  return {
+    keep: rules.keep.filter(used),
+    translations: Object.fromEntries(Object.entries(rules.translations).filter(([source]) => used(source))),
+    forbidden: rules.forbidden,
+  };
+}
+
+/**
+ * Translation fixed by the rules, if any (kept terms map to themselves)
+ */
+export function getFixedTranslation(term: string, rules: TermRules | undefined): string | undefined {
+  if (!rules) return undefined;
+  if (rules.keep.includes(term)) return term;
+  return rules.translations[term];
+}
+
+/**
+ * Find why a translation breaks the rules
+ *
+ * @returns A reason for the log, or undefined when the translation is allowed
+ */
+export function findRuleViolation(original: string, translated: string, rules: TermRules): string | undefined {
+  const fixed = getFixedTranslation(original, rules);
+  if (fixed !== undefined) {
+    return fixed === translated ? undefined : `must be "${fixed}"`;
+  }
+
+  for (const term of rules.keep) {
+    if (containsTerm(original, term) && !containsTerm(translated, term)) {
+      return `must keep "${term}"`;
+    }
+  }
+
+  for (const [source, target] of Object.entries(rules.translations)) {
+    if (containsTerm(original, source) && !containsTerm(translated, target)) {
+      return `must translate "${source}" as "${target}"`;
+    }
+  }
+
+  const forbidden = rules.forbidden.find(word => translated.toLowerCase().includes(word.toLowerCase()));
+  return forbidden ? `contains forbidden word "${forbidden}"` : undefined;
+}
+
+/**
+ * Apply the rules to translations { original: translated }
+ * Fixed translations replace the response; violations keep the original
+ *
+ * @returns The enforced translations and the originals whose translation was rejected
+ */
+export function enforceTermRules(
+  translations: Record<string, string>,
+  rules: TermRules
+): { translations: Record<string, string>; rejected: Array<{ term: string; translation: string; reason: string }> } {
+  const enforced: Record<string, string> = {};
+  const rejected: Array<{ term: string; translation: string; reason: string }> = [];
+
+  for (const [original, translated] of Object.entries(translations)) {
+    const fixed = getFixedTranslation(original, rules);
+    if (fixed !== undefined) {
+      enforced[original] = fixed;
+      continue;
+    }
+
+    const reason = original === translated ? undefined : findRuleViolation(original, translated, rules);
+    if (reason) {
+      rejected.push({ term: original, translation: translated, reason });
+      enforced[original] = original;
+    } else {
+      enforced[original] = translated;
+    }
+  }
+
+  return { translations: enforced, rejected };
+}
+
+/**
+ * Check whether an identifier contains a term
+ * Cased terms match whole words in any naming style (Kawa in kawa_client,
+ * userId in getUserIdList); caseless terms (請求書) match as substrings.
+ */
+export function containsTerm(identifier: string, term: string): boolean {
+  if (!/[\p{Lu}\p{Ll}]/u.test(term)) {
+    return identifier.includes(term);
+  }
+
+  const words = splitIdentifier(identifier).words.map(word => word.toLowerCase());
+  const termWords = splitIdentifier(term).words.map(word => word.toLowerCase());
+  if (termWords.length === 0) return false;
+
+  for (let i = 0; i + termWords.length <= words.length; i++) {
+    if (termWords.every((word, j) => words[i + j] === word)) return true;
+  }
+  return false;
+}
@@ -6,12 +6,23 @@ import { TokenMapping } from './types';
 export class TokenMapper {
   private forwardMap: Map<string, string>;
   private reverseMap: Map<string, string>;
+  private collisions: Map<string, string[]>;
 
   constructor(mapping: TokenMapping) {
     this.forwardMap = new Map(Object.entries(mapping));
-    this.reverseMap = new Map(
-      Object.entries(mapping).map(([key, value]) => [value, key])
-    );
+    this.reverseMap = new Map();
+    this.collisions = new Map();
+
+    for (const [key, value] of Object.entries(mapping)) {
+      const owner = this.reverseMap.get(value);
+      if (owner === undefined) {
+        this.reverseMap.set(value, key);
+      } else {
+        const shared = this.collisions.get(value) || [owner];
+        shared.push(key);
+        this.collisions.set(value, shared);
+      }
+    }
   }
 
   /**
@@ -23,9 +34,27 @@ export class TokenMapper {
 
   /**
    * Translates a custom token back to English
+   * Returns undefined when several English tokens share the custom token
    */
   toEnglish(token: string): string | undefined {
-    return this.reverseMap.get(token);
+    return this.collisions.has(token) ? undefined : this.reverseMap.get(token);
+  }
+
+  /**
+   * Checks if a custom token maps back to more than one English token
+   */
+  isAmbiguous(token: string): boolean {
+    return this.collisions.has(token);
+  }
+
+  /**
+   * Gets custom tokens shared by several English tokens
+   */
+  getCollisions(): Array<{ translation: string; terms: string[] }> {
+    return Array.from(this.collisions.entries()).map(([translation, terms]) => ({
+      translation,
+      terms: [...terms],
+    }));
   }
 
   /**
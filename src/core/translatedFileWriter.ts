@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LanguageCode, TranslationScope } from './types';
+import { UnifiedTranslator } from './unifiedTranslator';
+import { OffendingIdentifier, RoundTripVerifier } from './roundTrip';
+import { EMPTY_TERM_RULES, TermRules } from './termRules';
+import { restoreOriginalComments } from './commentLayout';
+import { applyReplacements, resolveFrontend } from '../frontends';
+import { MultiLangDictionary } from '../dictionary/multiLang';
+
+/**
+ * Translated code edited in the code viewer, to be saved in English
+ */
+export interface TranslatedSaveRequest {
+  /** The edited code, in sourceLang */
+  code: string;
+  /** The English file contents the edit started from */
+  baseCode: string;
+  /** Path of the file, relative to projectRoot */
+  filePath: string;
+  projectRoot: string;
+  sourceLang: LanguageCode;
+  /** Scope the code was rendered with */
+  scope: TranslationScope;
+  /** Overwrite the file even if it no longer matches baseCode */
+  force?: boolean;
+}
+
+/**
+ * Outcome of a save: the file is only written when `saved` is true
+ */
+export interface TranslatedSaveResult {
+  success: boolean;
+  saved: boolean;
+  /** The English code (written to disk when saved) */
+  code?: string;
+  /** The file changed on disk since the edit started */
+  conflict?: boolean;
+  /** Contents of the file on disk, on conflict */
+  diskCode?: string;
+  unmappedTokens?: string[];
+  untranslatedTexts?: string[];
+  ambiguousTokens?: string[];
+  offendingIdentifiers?: OffendingIdentifier[];
+  structuralErrors?: string[];
+  error?: string;
+}
+
+/**
+ * Term rules of a project glossary in both directions
+ */
+export interface SaveTermRules {
+  /** Rules for translating the edit back to English */
+  toEnglish: TermRules;
+  /** Rules for translating English to the edit's language (round-trip check) */
+  fromEnglish: TermRules;
+}
+
+/**
+ * Writes translated code edited in the code viewer back to disk in English
+ *
+ * The edit is translated back with the scope it was rendered with, and the
+ * file is only written when the result is English and faithful:
+ *   1. The file on disk must still match the code the edit started from.
+ *   2. No identifier may map back to several English terms (ambiguous), and
+ *      none written in another script may lack an English translation
+ *      (unmapped). Package names and names left in English are kept.
+ *   3. No comment, string or text may stay non-English, unless the English
+ *      file already had it.
+ *   4. Translating the result again must reproduce the edit (round trip).
+ *
+ * Comments that come back with the words they had in the English file are
+ * written as that file wrapped them.
+ *
+ * Keywords and punctuation are only translated for display and can't be
+ * translated back, so the edit must be rendered without them.
+ *
+ * Example:
+ *   const writer = new TranslatedFileWriter(dictionary, rules);
+ *   const result = writer.save({ code, baseCode, filePath, projectRoot, sourceLang: 'ja', scope });
+ *   if (result.conflict) showReload(result.diskCode);
+ */
+export class TranslatedFileWriter {
+  private dictionary: MultiLangDictionary | null;
+  private rules: SaveTermRules;
+
+  /**
+   * @param dictionary - Dictionary between the edit's language and English
+   *                     (not needed for edits in English)
+   */
+  constructor(
+    dictionary: MultiLangDictionary | null,
+    rules: SaveTermRules = { toEnglish: EMPTY_TERM_RULES, fromEnglish: EMPTY_TERM_RULES }
+  ) {
+    this.dictionary = dictionary;
+    this.rules = rules;
+  }
+
+  /**
+   * Translate the edit back to English and write it to the file
+   * Throws when the path leads outside the project.
+   */
+  save(request: TranslatedSaveRequest): TranslatedSaveResult {
+    const absolutePath = this.resolvePath(request.projectRoot, request.filePath);
+
+    const diskCode = fs.existsSync(absolutePath) ? fs.readFileSync(absolutePath, 'utf-8') : '';
+    if (diskCode !== request.baseCode && !request.force) {
+      return {
+        success: false,
+        saved: false,
+        conflict: true,
+        diskCode,
+        error: 'The file changed on disk since it was opened.',
+      };
+    }
+
+    const result = request.sourceLang === 'en'
+      ? { success: true, saved: false, code: request.code }
+      : this.translateToEnglish(request, absolutePath);
+    if (!result.success) {
+      return result;
+    }
+
+    fs.writeFileSync(absolutePath, result.code!, 'utf-8');
+    return { ...result, saved: true };
+  }
+
+  /**
+   * Absolute path of a file of the project
+   */
+  resolvePath(projectRoot: string, filePath: string): string {
+    const absolutePath = path.resolve(projectRoot, filePath);
+    const relativePath = path.relative(path.resolve(projectRoot), absolutePath);
+    if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      throw new Error(`Refusing to write outside the project: ${filePath}`);
+    }
+    return absolutePath;
+  }
+
+  /**
+   * Translate the edit back to English and check the result
+   */
+  private translateToEnglish(request: TranslatedSaveRequest, absolutePath: string): TranslatedSaveResult {
+    if (!this.dictionary) {
+      throw new Error(`A dictionary is needed to save code written in ${request.sourceLang}`);
+    }
+
+    const { code, baseCode, sourceLang } = request;
+    const scope: TranslationScope = { ...request.scope, keywords: false, punctuation: false };
+    const result = new UnifiedTranslator(this.dictionary, this.rules.toEnglish)
+      .translate(code, sourceLang, 'en', scope, absolutePath);
+
+    const ambiguousTokens = result.ambiguousTokens || [];
+    if (ambiguousTokens.length > 0) {
+      return {
+        success: false,
+        saved: false,
+        ambiguousTokens,
+        error: `Ambiguous terms: ${ambiguousTokens.join(', ')}. Resolve the dictionary collision before saving.`,
+      };
+    }
+
+    const unmappedTokens = result.unmappedTokens.filter(name => /[^\x00-\x7F]/.test(name));
+    if (unmappedTokens.length > 0) {
+      return {
+        success: false,
+        saved: false,
+        unmappedTokens,
+        error: `No English translation for: ${unmappedTokens.join(', ')}`,
+      };
+    }
+
+    const untranslatedTexts = (result.untranslatedTexts || []).filter(text => !baseCode.includes(text));
+    if (untranslatedTexts.length > 0) {
+      return {
+        success: false,
+        saved: false,
+        untranslatedTexts,
+        error: `No English translation for: ${untranslatedTexts.map(text => `"${text}"`).join(', ')}`,
+      };
+    }
+
+    const frontend = resolveFrontend(absolutePath);
+    const english = applyReplacements(result.code, restoreOriginalComments(
+      result.code,
+      frontend.extractComments(result.code, absolutePath),
+      baseCode,
+      frontend.extractComments(baseCode, absolutePath)
+    ));
+
+    const verification = new RoundTripVerifier(new UnifiedTranslator(this.dictionary, this.rules.fromEnglish))
+      .verify(code, english, sourceLang, 'en', scope, absolutePath);
+    if (!verification.ok) {
+      return {
+        success: false,
+        saved: false,
+        offendingIdentifiers: verification.offendingIdentifiers,
+        structuralErrors: verification.structuralErrors,
+        error: verification.diagnostic,
+      };
+    }
+
+    return {
+      success: true,
+      saved: false,
+      code: english,
+    };
+  }
+}
@@ -62,10 +62,11 @@ export class Translator {
   /**
    * Translates English TypeScript code to use custom tokens
    * @param sourceCode - The TypeScript source code to translate
+   * @param filePath - Optional absolute path, used to resolve the file's relative imports
    * @returns Translation result with code and metadata
    */
-  toCustom(sourceCode: string): TranslationResult {
-    return this.transformer.translateToCustom(sourceCode, this.targetLanguage);
+  toCustom(sourceCode: string, filePath?: string): TranslationResult {
+    return this.transformer.translateToCustom(sourceCode, this.targetLanguage, filePath);
   }
 
   /**
@@ -25,21 +25,89 @@ export interface TranslationResult {
   translatedTokens: string[];
   /** Tokens that were not found in the mapping */
   unmappedTokens: string[];
+  /**
+   * Tokens whose translation is shared by several English terms.
+   * Code containing them cannot be translated back to English losslessly.
+   */
+  ambiguousTokens?: string[];
+  /**
+   * Strings whose dictionary translation drops or reorders {0}-style
+   * placeholders. They are left untranslated.
+   */
+  rejectedStrings?: string[];
+  /**
+   * Comments, strings and texts in another script or with accents that have
+   * no English translation. Only set when translating to English.
+   */
+  untranslatedTexts?: string[];
+  /**
+   * Ranges of the original code and what replaced them in the translation
+   * (see src/core/sourceMap.ts). Set by UnifiedTranslator.
+   */
+  sourceMap?: SourceMapSegment[];
+  /**
+   * Each translated identifier, string, text, comment and keyword with its
+   * range in both versions. Set by UnifiedTranslator.
+   */
+  spans?: TranslatedSpan[];
+}
+
+/**
+ * Position in a text: 1-based line, 0-based column in UTF-16 code units
+ */
+export interface TextPosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Range of the original code and the range of the translated code that replaced it
+ * Text between two segments has the same length in both versions.
+ */
+export interface SourceMapSegment {
+  original: { start: TextPosition; end: TextPosition };
+  translated: { start: TextPosition; end: TextPosition };
+}
+
+/**
+ * What a translated span is: text shown to users in markup (JSX, Vue
+ * templates, markdown blocks) is 'text'
+ */
+export type TranslatedSpanKind = 'identifier' | 'string' | 'text' | 'comment' | 'keyword';
+
+/**
+ * A replacement made by the translation, as the side-by-side view highlights it
+ * The texts are the full source ranges (quotes and comment markers included).
+ */
+export interface TranslatedSpan extends SourceMapSegment {
+  kind: TranslatedSpanKind;
+  originalText: string;
+  translatedText: string;
 }
 
 /**
  * Language codes supported by the i18n extension
+ * BCP-47 tags: a base language with an optional script and region
+ * (zh-Hant, pt-BR). The built-in codes are listed for completion; any code
+ * registered in the language registry (src/languages) or enabled in config
+ * is accepted.
  */
-export type LanguageCode = 'en' | 'ja' | 'es' | 'fr' | 'de' | 'zh' | 'ko' | 'ru' | 'pt' | 'it' | 'ar';
+export type LanguageCode =
+  | 'en' | 'ja' | 'es' | 'fr' | 'de' | 'zh' | 'ko' | 'ru' | 'pt' | 'it' | 'ar' | 'he'
+  | 'zh-Hans' | 'zh-Hant' | 'pt-BR' | 'pt-PT' | 'es-MX'
+  | (string & {});
 
 /**
  * Dictionary structure for storing translations
  */
 export interface Dictionary {
   origin: string;
+  /** Canonical locale tag (pt-BR, not pt_br) */
   language: LanguageCode;
   terms: Record<string, string>;
   comments?: Record<string, CommentTranslations>;
+  /** Meaning chosen for English terms, in a few English words { order: 'purchase order' } */
+  senses?: Record<string, string>;
   metadata: {
     createdAt: string;
     updatedAt: string;
@@ -48,6 +116,19 @@ export interface Dictionary {
   };
 }
 
+/**
+ * Where an identifier is declared, given to the LLM so it can tell
+ * order (sorting) from order (purchase)
+ */
+export interface IdentifierContext {
+  /** Declaration kind (class, function, method, property…) */
+  kind: string;
+  /** File or module path relative to the project root */
+  file?: string;
+  /** Source line of the declaration */
+  snippet?: string;
+}
+
 /**
  * Comment translations for different languages
  * Key is the MD5 hash of the English comment, value is object with language codes
@@ -57,6 +138,16 @@ export interface CommentTranslations {
   [languageCode: string]: string;
 }
 
+/**
+ * Earlier translation of a similar text, given to the LLM as a reference
+ */
+export interface TranslationReference {
+  source: string;
+  translation: string;
+  /** 0-1, from the word-level edit distance */
+  similarity: number;
+}
+
 /**
  * Translation scope controlling what gets translated
  */
@@ -67,6 +158,6 @@ export interface TranslationScope {
   keywords: boolean;
   /** When enabled, ASCII punctuation is replaced with full-width CJK equivalents (display-only) */
   punctuation: boolean;
-  /** When enabled, markdown files (.md) in the project are translated during project scan */
+  /** When enabled, markdown files (.md) are translated during project scan and shown translated */
   markdownFiles: boolean;
 }
@@ -1,8 +1,13 @@
-import * as ts from 'typescript';
 import crypto from 'crypto';
 import { TranslationResult, LanguageCode, TranslationScope } from './types';
 import { MultiLangDictionary } from '../dictionary/multiLang';
-import { CommentExtractor } from './commentExtractor';
+import { hasSamePlaceholders } from './messageFormat';
+import { isBuiltInIdentifier } from './builtIns';
+import { EMPTY_TERM_RULES, getFixedTranslation, TermRules } from './termRules';
+import { alignTrailingComments } from './commentLayout';
+import { resolveFrontend, TextReplacement, TranslationContext } from '../frontends';
+import { applyReplacementsWithSourceMap } from './sourceMap';
+import { getLanguage } from '../languages';
 
 /**
  * Unified Translator for bidirectional TypeScript code translation
@@ -12,14 +17,20 @@ import { CommentExtractor } from './commentExtractor';
  * that works uniformly for any language pair.
  *
  * Uses MultiLangDictionary which handles the English hub model internally.
+ * Parsing is delegated to the language frontend registered for the file's
+ * extension (see src/frontends); this class owns the dictionary lookups.
  */
 export class UnifiedTranslator {
   private dictionary: MultiLangDictionary;
-  private commentExtractor: CommentExtractor;
+  private rules: TermRules;
 
-  constructor(dictionary: MultiLangDictionary) {
+  /**
+   * @param rules - Project glossary rules for the direction being translated.
+   *                Kept terms stay as written and fixed translations win over the dictionary.
+   */
+  constructor(dictionary: MultiLangDictionary, rules: TermRules = EMPTY_TERM_RULES) {
     this.dictionary = dictionary;
-    this.commentExtractor = new CommentExtractor();
+    this.rules = rules;
   }
 
   /** Default scope: translate identifiers and comments (original behavior) */
@@ -29,7 +40,7 @@ export class UnifiedTranslator {
     identifiers: true,
     keywords: false,
     punctuation: false,
-    markdownFiles: false, // Only applies to project scan, not per-file translation
+    markdownFiles: false, // Markdown files are shown untranslated
   };
 
   /**
@@ -38,175 +49,135 @@ export class UnifiedTranslator {
    *
    * @param scope - Optional translation scope controlling what gets translated.
    *                Defaults to identifiers + comments (original behavior).
+   * @param filePath - Optional path of the file being translated. Its extension
+   *                   selects the language frontend (TypeScript by default). When absolute,
+   *                   its relative imports are resolved so cross-file symbols are
+   *                   recognised as project-declared.
    */
   translate(
     sourceCode: string,
     sourceLang: LanguageCode,
     targetLang: LanguageCode,
-    scope?: TranslationScope
+    scope?: TranslationScope,
+    filePath?: string
   ): TranslationResult {
     if (sourceLang === targetLang) {
       return {
         code: sourceCode,
         translatedTokens: [],
         unmappedTokens: [],
+        ambiguousTokens: [],
+        rejectedStrings: [],
+        untranslatedTexts: [],
+        sourceMap: [],
+        spans: [],
       };
     }
 
     const effectiveScope = scope || UnifiedTranslator.DEFAULT_SCOPE;
+    const frontend = resolveFrontend(filePath);
+
     const translatedTokens = new Set<string>();
     const unmappedTokens = new Set<string>();
+    const ambiguousTokens = new Set<string>();
+    const rejectedStrings = new Set<string>();
+    const untranslatedTexts = new Set<string>();
+
+    // Text that stays non-English in a file translated to English
+    const reportUntranslated = (text: string) => {
+      if (targetLang === 'en' && /[^\x00-\x7F]/.test(text)) {
+        untranslatedTexts.add(text);
+      }
+    };
 
-    // Parse source code
-    const sourceFile = ts.createSourceFile(
-      'source.ts',
-      sourceCode,
-      ts.ScriptTarget.Latest,
-      true
-    );
-
-    // Collect replacements
-    interface Replacement {
-      start: number;
-      end: number;
-      newText: string;
-      oldText: string;
-    }
-    const replacements: Replacement[] = [];
-
-    // Collect identifier replacements
-    if (effectiveScope.identifiers) {
-      const collectIdentifierReplacements = (node: ts.Node) => {
-        if (ts.isIdentifier(node)) {
-          const originalText = node.text;
-          const translated = this.dictionary.getTranslation(originalText, sourceLang, targetLang);
-
-          if (translated && translated !== originalText) {
-            translatedTokens.add(originalText);
-            replacements.push({
-              start: node.getStart(sourceFile),
-              end: node.getEnd(),
-              newText: translated,
-              oldText: originalText,
-            });
-          } else if (!this.isBuiltInIdentifier(originalText)) {
-            unmappedTokens.add(originalText);
-          }
+    // Dictionary access for the frontend; every lookup is recorded for the result
+    const context: TranslationContext = {
+      sourceLang,
+      targetLang,
+      scope: effectiveScope,
+      translateIdentifier: (name, options = {}) => {
+        const fixed = getFixedTranslation(name, this.rules);
+        if (fixed !== undefined) {
+          if (fixed === name) return undefined;
+          translatedTokens.add(name);
+          return fixed;
         }
 
-        ts.forEachChild(node, collectIdentifierReplacements);
-      };
+        const translated = this.dictionary.getTranslation(name, sourceLang, targetLang);
 
-      collectIdentifierReplacements(sourceFile);
-    }
-
-    // Collect string literal replacements
-    if (effectiveScope.stringLiterals) {
-      const collectStringLiteralReplacements = (node: ts.Node) => {
-        if (ts.isStringLiteral(node)) {
-          const originalText = node.text;
-          if (this.shouldTranslateString(originalText)) {
-            const translated = this.dictionary.getCommentTranslation(originalText, targetLang);
-            if (translated && translated !== originalText) {
-              translatedTokens.add(originalText);
-              // Preserve the original quote style
-              const fullText = node.getText(sourceFile);
-              const quote = fullText.charAt(0);
-              replacements.push({
-                start: node.getStart(sourceFile),
-                end: node.getEnd(),
-                newText: `${quote}${translated}${quote}`,
-                oldText: fullText,
-              });
-            }
-          }
+        // Shared translations can't be mapped back, so the file is not round-trippable
+        const ambiguous = this.dictionary.isAmbiguous(name, sourceLang);
+        if (ambiguous) {
+          ambiguousTokens.add(name);
         }
 
-        ts.forEachChild(node, collectStringLiteralReplacements);
-      };
-
-      collectStringLiteralReplacements(sourceFile);
-    }
-
-    // Collect comment replacements
-    if (effectiveScope.comments) {
-      const comments = this.commentExtractor.extractWithPositions(sourceCode);
-
-      for (const comment of comments) {
-        const translated = this.dictionary.getCommentTranslation(comment.text, targetLang);
+        if (translated && translated !== name) {
+          translatedTokens.add(name);
+          return translated;
+        }
+        if (!ambiguous && !options.external && !isBuiltInIdentifier(name)) {
+          unmappedTokens.add(name);
+        }
+        return undefined;
+      },
+      translateString: (text) => {
+        if (!this.shouldTranslateString(text)) return undefined;
+
+        const translated = this.dictionary.getCommentTranslation(text, targetLang);
+        if (!translated || translated === text) {
+          reportUntranslated(text);
+          return undefined;
+        }
 
-        if (translated && translated !== comment.text) {
-          const newComment = this.formatComment(translated, comment.kind, comment.fullText);
-          replacements.push({
-            start: comment.pos,
-            end: comment.end,
-            newText: newComment,
-            oldText: comment.fullText,
-          });
+        // Interpolations must survive: 'Deleted {0} files' can't lose or swap {0}
+        if (!hasSamePlaceholders(text, translated)) {
+          rejectedStrings.add(text);
+          return undefined;
         }
-      }
-    }
 
-    // Sort replacements by position (reverse order to preserve positions)
-    replacements.sort((a, b) => b.start - a.start);
+        translatedTokens.add(text);
+        return translated;
+      },
+      translateComment: (text) => {
+        const translated = this.dictionary.getCommentTranslation(text, targetLang);
+        if (translated && translated !== text) return translated;
+        reportUntranslated(text);
+        return undefined;
+      },
+    };
 
-    // Apply replacements from end to beginning
-    let code = sourceCode;
-    for (const replacement of replacements) {
-      code =
-        code.substring(0, replacement.start) +
-        replacement.newText +
-        code.substring(replacement.end);
-    }
+    const replacements = frontend.collectReplacements(sourceCode, context, filePath);
 
-    // Keyword translation (text-based post-processing after AST replacements)
-    if (effectiveScope.keywords) {
-      code = this.translateKeywords(code, targetLang);
+    // Trailing comments aligned in a column stay aligned when the code in front of them changes width
+    if (replacements.length > 0 && (effectiveScope.identifiers || effectiveScope.stringLiterals)) {
+      replacements.push(...alignTrailingComments(sourceCode, replacements, frontend.extractComments(sourceCode, filePath)));
     }
 
-    // Punctuation translation (character-level, global — last step for full immersion)
-    if (effectiveScope.punctuation) {
-      code = this.translatePunctuation(code, targetLang);
+    // Keyword translation (text-based, outside comments, strings and the replacements above)
+    // Keyword dictionaries describe TS/JS keywords, so other languages skip it
+    if (effectiveScope.keywords && frontend.translatesKeywords) {
+      replacements.push(...this.collectKeywordReplacements(sourceCode, targetLang, replacements));
     }
 
+    // Punctuation translation (character-level, everywhere — for full immersion)
+    const { code, sourceMap, spans } = applyReplacementsWithSourceMap(
+      sourceCode,
+      replacements,
+      effectiveScope.punctuation ? text => this.translatePunctuation(text, targetLang) : undefined
+    );
+
     return {
       code,
       translatedTokens: Array.from(translatedTokens),
       unmappedTokens: Array.from(unmappedTokens),
+      ambiguousTokens: Array.from(ambiguousTokens),
+      rejectedStrings: Array.from(rejectedStrings),
+      untranslatedTexts: Array.from(untranslatedTexts),
+      sourceMap,
+      spans,
     };
   }
 
-  /**
-   * Format a translated comment preserving the original format
-   */
-  private formatComment(
-    text: string,
-    kind: 'SingleLine' | 'MultiLine',
-    originalFullText: string
-  ): string {
-    if (kind === 'SingleLine') {
-      return `// ${text}`;
-    }
-
-    // Multi-line comment
-    const isJSDoc = originalFullText.trimStart().startsWith('/**');
-    const lines = text.split('\n');
-
-    if (isJSDoc) {
-      if (lines.length === 1) {
-        return `/**\n * ${text}\n */`;
-      } else {
-        return `/**\n${lines.map(line => ` * ${line}`).join('\n')}\n */`;
-      }
-    } else {
-      if (lines.length === 1) {
-        return `/* ${text} */`;
-      } else {
-        return `/*\n${lines.map(line => ` * ${line}`).join('\n')}\n */`;
-      }
-    }
-  }
-
   /**
    * Heuristic: should we attempt to translate this string literal?
    * Skips URLs, file paths, CSS classes, config keys, etc.
@@ -221,99 +192,55 @@ export class UnifiedTranslator {
     if (/^[.#][\w-]+/.test(text)) return false;
     // Looks like a config key (dot-separated, no spaces)
     if (/^[\w-]+(\.[\w-]+)+$/.test(text)) return false;
-    // Template literal placeholders
+    // Unexpanded ${VAR} placeholders in plain strings (template literals arrive as '{0}' messages)
     if (/^\$\{/.test(text)) return false;
     // Pure numbers / hex / color codes
     if (/^[#]?[0-9a-fA-F]+$/.test(text)) return false;
     // MIME types
     if (/^(application|text|image|audio|video)\//.test(text)) return false;
-    // Contains at least one alphabetic word to be worth translating
-    return /[a-zA-Z]{2,}/.test(text);
+    // Contains at least one word (Latin or another script) to be worth translating
+    return /[a-zA-Z]{2,}|[^\x00-\x7F]/.test(text);
   }
 
   /**
-   * Keyword dictionaries for translating reserved words
-   * Only languages with non-Latin scripts benefit from keyword translation
+   * Replacements translating reserved keywords
+   * Keywords are matched by text in the code between comments and string
+   * literals (see splitCodeSegments), except where another replacement
+   * already changes the code.
    */
-  private static readonly KEYWORD_DICTIONARIES: Partial<Record<LanguageCode, Record<string, string>>> = {
-    ja: {
-      'const': '定数',
-      'let': '変数',
-      'var': '変数宣言',
-      'function': '関数',
-      'return': '返す',
-      'if': 'もし',
-      'else': 'それ以外',
-      'for': '繰り返し',
-      'while': 'の間',
-      'do': '実行',
-      'switch': '分岐',
-      'case': '場合',
-      'break': '中断',
-      'continue': '続行',
-      'class': 'クラス',
-      'extends': '継承',
-      'implements': '実装',
-      'interface': 'インターフェース',
-      'type': '型',
-      'enum': '列挙',
-      'import': '取込',
-      'export': '公開',
-      'default': '既定',
-      'from': 'から',
-      'as': 'として',
-      'new': '新規',
-      'this': 'これ',
-      'super': '親',
-      'true': '真',
-      'false': '偽',
-      'null': 'ヌル',
-      'undefined': '未定義',
-      'async': '非同期',
-      'await': '待機',
-      'try': '試行',
-      'catch': '捕捉',
-      'finally': '最終',
-      'throw': '投げる',
-      'typeof': '型判定',
-      'instanceof': 'インスタンス判定',
-      'in': '含む',
-      'of': 'の',
-      'void': '無',
-      'delete': '削除',
-      'yield': '譲渡',
-    },
-  };
-
-  /**
-   * Translate reserved keywords using text-based replacement
-   * Applied as post-processing after AST-based replacements.
-   * Splits code into protected (comments/strings) and unprotected segments
-   * so keywords inside comments and string literals are left untouched.
-   */
-  private translateKeywords(code: string, targetLang: LanguageCode): string {
-    const dict = UnifiedTranslator.KEYWORD_DICTIONARIES[targetLang];
-    if (!dict) return code;
-
-    // Split code into segments, protecting comments and string literals
-    const segments = this.splitCodeSegments(code);
-
-    return segments.map(segment => {
-      if (segment.isProtected) {
-        return segment.text;
-      }
-      let text = segment.text;
-      for (const [keyword, translation] of Object.entries(dict)) {
-        const regex = new RegExp(`\\b${keyword}\\b`, 'g');
-        text = text.replace(regex, translation);
+  private collectKeywordReplacements(
+    code: string,
+    targetLang: LanguageCode,
+    replacements: TextReplacement[]
+  ): TextReplacement[] {
+    const dict = getLanguage(targetLang)?.keywords;
+    if (!dict || Object.keys(dict).length === 0) return [];
+
+    const keywordRegex = new RegExp(`\\b(${Object.keys(dict).join('|')})\\b`, 'g');
+    const taken = [...replacements].sort((a, b) => a.start - b.start);
+    const result: TextReplacement[] = [];
+
+    let offset = 0;
+    let next = 0; // First replacement that may still overlap a match
+    for (const segment of this.splitCodeSegments(code)) {
+      if (!segment.isProtected) {
+        for (const match of segment.text.matchAll(keywordRegex)) {
+          const start = offset + match.index!;
+          const end = start + match[0].length;
+          while (next < taken.length && taken[next].end <= start) next++;
+          if (next < taken.length && taken[next].start < end) continue;
+
+          result.push({ start, end, newText: dict[match[0]], oldText: match[0], kind: 'keyword' });
+        }
       }
-      return text;
-    }).join('');
+      offset += segment.text.length;
+    }
+    return result;
   }
 
   /**
    * Split code into protected (comments, string literals) and unprotected (code) segments.
-   * Protected segments are returned verbatim during keyword translation.
+   * Keywords are only translated in unprotected segments.
    */
   private splitCodeSegments(code: string): Array<{ text: string; isProtected: boolean }> {
     const segments: Array<{ text: string; isProtected: boolean }> = [];
@@ -338,25 +265,12 @@ export class UnifiedTranslator {
   }
 
   /**
-   * Punctuation dictionaries mapping ASCII characters to full-width CJK equivalents.
-   * Characters in the Unicode FF00–FF5E range (Fullwidth Forms).
-   */
-  private static readonly PUNCTUATION_DICTIONARIES: Partial<Record<LanguageCode, Record<string, string>>> = {
-    ja: {
-      '.': '．', ',': '，', ':': '：', ';': '；', "'": '＇', '"': '＂', '`': '｀',
-      '(': '（', ')': '）', '{': '｛', '}': '｝', '[': '［', ']': '］', '<': '＜', '>': '＞',
-      '=': '＝', '+': '＋', '-': '－', '*': '＊', '/': '／', '\\': '＼', '|': '｜',
-      '&': '＆', '^': '＾', '~': '～', '!': '！', '?': '？', '@': '＠', '#': '＃',
-      '$': '＄', '%': '％', '_': '＿',
-    },
-  };
-
-  /**
-   * Replace ASCII punctuation with full-width equivalents for visual immersion.
-   * Applied globally (all characters, everywhere) as the last translation step.
+   * Replace ASCII punctuation with the language's equivalents (full-width for
+   * Japanese) for visual immersion.
+   * Applied to all of the code, translated or not, as the last translation step.
    */
   private translatePunctuation(code: string, targetLang: LanguageCode): string {
-    const dict = UnifiedTranslator.PUNCTUATION_DICTIONARIES[targetLang];
+    const dict = getLanguage(targetLang)?.punctuation;
     if (!dict) return code;
 
     let result = '';
@@ -365,32 +279,4 @@ export class UnifiedTranslator {
     }
     return result;
   }
-
-  /**
-   * Check if an identifier is a built-in TypeScript/JavaScript identifier
-   */
-  private isBuiltInIdentifier(text: string): boolean {
-    const builtIns = new Set([
-      // Common built-ins
-      'Object', 'Array', 'String', 'Number', 'Boolean', 'Function',
-      'Date', 'RegExp', 'Error', 'Map', 'Set', 'Promise',
-      'console', 'window', 'document', 'Math', 'JSON',
-      // Common methods
-      'prototype', 'constructor', 'toString', 'valueOf', 'length',
-      'push', 'pop', 'shift', 'unshift', 'slice', 'splice',
-      'forEach', 'map', 'filter', 'reduce', 'find', 'findIndex',
-      'indexOf', 'includes', 'join', 'split',
-      // TypeScript types
-      'any', 'unknown', 'never', 'void',
-      // Common single letters (often used as parameters)
-      'a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k',
-      'l', 'm', 'n', 'o', 'p', 'q', 'r', 's', 't', 'u', 'v', 'w', 'x', 'y', 'z',
-      // Node.js
-      'require', 'module', 'exports', 'process', 'Buffer',
-      // Common imports
-      'default', 'React', 'Component', 'useState', 'useEffect',
-    ]);
-
-    return builtIns.has(text);
-  }
 }
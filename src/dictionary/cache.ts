@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { Dictionary, LanguageCode } from '../core/types';
+import { normalizeLocale } from '../core/locale';
 
 /**
  * Simple file-based dictionary cache with in-memory layer
@@ -23,7 +24,7 @@ export class DictionaryCache {
    * Generate cache key for memory cache
    */
   private getCacheKey(origin: string, language: LanguageCode): string {
-    return `${origin}::${language}`;
+    return `${origin}::${normalizeLocale(language)}`;
   }
 
   /**
@@ -37,6 +38,7 @@ export class DictionaryCache {
 
   /**
    * Get cache file path for a dictionary
+   * Locale tags are written in canonical case (github_com_org_repo_pt-BR.json)
    */
   private getCacheFilePath(origin: string, language: LanguageCode): string {
     // Sanitize origin to create a valid filename
@@ -44,7 +46,7 @@ export class DictionaryCache {
       .replace(/[^a-zA-Z0-9]/g, '_')
       .replace(/_+/g, '_')
       .toLowerCase();
-    return path.join(this.cacheDir, `${sanitized}_${language}.json`);
+    return path.join(this.cacheDir, `${sanitized}_${normalizeLocale(language)}.json`);
   }
 
   /**
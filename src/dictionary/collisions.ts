@@ -0,0 +1,137 @@
+/**
+ * Term collision detection
+ *
+ * Dictionaries store { englishTerm: foreignTerm } and rely on the reverse map
+ * to translate foreign code back to English. When two English terms share the
+ * same foreign word (e.g. user → ユーザー, account → ユーザー), the reverse
+ * lookup is ambiguous and a JA→EN round trip would silently rename one of them.
+ *
+ * These helpers detect such collisions and disambiguate new terms with a
+ * numeric suffix (ユーザー, ユーザー2, ...) before they are stored.
+ */
+
+/**
+ * A foreign word claimed by more than one English term
+ */
+export interface TermCollision {
+  /** The shared foreign word */
+  translation: string;
+  /** English terms that all translate to it */
+  terms: string[];
+}
+
+/**
+ * A term whose translation was changed to keep the reverse map unambiguous
+ */
+export interface RenamedTerm {
+  term: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Find foreign words that more than one English term maps to
+ */
+export function findCollisions(terms: Record<string, string>): TermCollision[] {
+  const owners = new Map<string, string[]>();
+
+  for (const [english, foreign] of Object.entries(terms)) {
+    const list = owners.get(foreign);
+    if (list) {
+      list.push(english);
+    } else {
+      owners.set(foreign, [english]);
+    }
+  }
+
+  return Array.from(owners.entries())
+    .filter(([, english]) => english.length > 1)
+    .map(([translation, english]) => ({ translation, terms: english }));
+}
+
+/**
+ * Disambiguate incoming { english: foreign } terms against an existing dictionary
+ *
+ * Existing mappings keep their translation. An incoming term whose translation
+ * is already owned by a different English term gets the lowest free numeric
+ * suffix. Incoming terms that overwrite an existing English key release that
+ * key's old translation first.
+ *
+ * @returns The terms to store and the list of translations that were changed
+ */
+export function disambiguateTerms(
+  existing: Record<string, string>,
+  incoming: Record<string, string>
+): { terms: Record<string, string>; renamed: RenamedTerm[] } {
+  // foreign → english owner, excluding keys that are about to be overwritten
+  const owners = new Map<string, string>();
+  for (const [english, foreign] of Object.entries(existing)) {
+    if (english in incoming || owners.has(foreign)) continue;
+    owners.set(foreign, english);
+  }
+
+  const terms: Record<string, string> = {};
+  const renamed: RenamedTerm[] = [];
+
+  for (const [english, foreign] of Object.entries(incoming)) {
+    const owner = owners.get(foreign);
+    let translation = foreign;
+
+    if (owner !== undefined && owner !== english) {
+      let suffix = 2;
+      while (owners.has(`${foreign}${suffix}`)) suffix++;
+      translation = `${foreign}${suffix}`;
+      renamed.push({ term: english, from: foreign, to: translation });
+    }
+
+    owners.set(translation, english);
+    terms[english] = translation;
+  }
+
+  return { terms, renamed };
+}
+
+/**
+ * Rewrite a dictionary's own collisions so every foreign word has one owner
+ *
+ * The first English term (in insertion order) keeps the plain translation.
+ */
+export function resolveCollisions(
+  terms: Record<string, string>
+): { terms: Record<string, string>; renamed: RenamedTerm[] } {
+  return disambiguateTerms({}, terms);
+}
+
+/**
+ * Flip { foreign: english } translations into dictionary format
+ *
+ * Used when the source code is non-English. If two foreign terms come back
+ * as the same English word, or the English word is already mapped to another
+ * foreign term, the English side gets a numeric suffix so no foreign term is
+ * dropped.
+ */
+export function invertTranslations(
+  translations: Record<string, string>,
+  existing: Record<string, string> = {}
+): { terms: Record<string, string>; renamed: RenamedTerm[] } {
+  const terms: Record<string, string> = {};
+  const renamed: RenamedTerm[] = [];
+  const isTaken = (english: string, foreign: string) =>
+    (english in terms && terms[english] !== foreign) ||
+    (english in existing && existing[english] !== foreign);
+
+  for (const [foreign, english] of Object.entries(translations)) {
+    let key = english;
+
+    if (isTaken(english, foreign)) {
+      let suffix = 2;
+      while (isTaken(`${english}${suffix}`, foreign)) suffix++;
+      key = `${english}${suffix}`;
+      renamed.push({ term: foreign, from: english, to: key });
+    }
+
+    terms[key] = foreign;
+  }
+
+  return { terms, renamed };
+}
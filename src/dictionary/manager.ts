@@ -3,13 +3,31 @@ import { DictionaryCache } from './cache';
 import { downloadDictionary, apiToLocalDictionary } from '../api/client';
 import { log } from '../ipc/protocol';
 import { MultiLangDictionary } from './multiLang';
+import { disambiguateTerms, findCollisions, resolveCollisions, RenamedTerm, TermCollision } from './collisions';
+import { ProjectDictionary } from './project';
+import { ProjectGlossary } from './projectGlossary';
+import { EMPTY_TERM_RULES, TermRules } from '../core/termRules';
+import { getI18nSettings } from '../config/settings';
+import { getLocaleFallbacks, normalizeLocale } from '../core/locale';
 
 /**
  * Dictionary Manager
  * Provides high-level CRUD operations for dictionaries
+ *
+ * Dictionaries come from the user cache (synced with the API) and, when the
+ * repository contains one, from a project dictionary in .kawa/i18n/<lang>.json.
+ * Project entries take precedence; the cache file itself never contains them.
+ *
+ * Languages are BCP-47 tags in canonical case. A regional dictionary (pt-BR)
+ * falls back to the cached and project dictionaries of its base language
+ * (pt) for terms it does not define itself.
  */
 export class DictionaryManager {
   private cache: DictionaryCache;
+  /** Workspace root per origin, used to discover project dictionaries */
+  private workspaceRoots: Map<string, string> = new Map();
+  private projectDictionaries: Map<string, ProjectDictionary> = new Map();
+  private projectGlossaries: Map<string, ProjectGlossary> = new Map();
 
   constructor() {
     this.cache = new DictionaryCache();
@@ -27,7 +45,7 @@ export class DictionaryManager {
     const now = new Date().toISOString();
     const dictionary: Dictionary = {
       origin,
-      language,
+      language: normalizeLocale(language),
       terms: initialTerms,
       metadata: {
         createdAt: now,
@@ -154,33 +172,194 @@ export class DictionaryManager {
    * @param origin - Repository origin
    * @param sourceLang - Source language of the code
    * @param targetLang - Target language for translation
+   * @param workspaceRoot - Project directory to look for .kawa/i18n in (remembered per origin)
    * @returns MultiLangDictionary wrapper for unified translation
    */
   async loadMultiLang(
     origin: string,
     sourceLang: LanguageCode,
-    targetLang: LanguageCode
+    targetLang: LanguageCode,
+    workspaceRoot?: string
   ): Promise<{ dictionary: MultiLangDictionary; existsOnAPI: boolean }> {
     // Determine which language dictionary to load
     // Dictionary is stored under the non-English language
-    const dictLang = sourceLang === 'en' ? targetLang : sourceLang;
+    const dictLang = normalizeLocale(sourceLang === 'en' ? targetLang : sourceLang);
+
+    if (workspaceRoot) {
+      this.workspaceRoots.set(origin, workspaceRoot);
+    }
 
     const { dictionary: rawDict, existsOnAPI } = await this.loadOrCreate(origin, dictLang);
-    const multiLang = new MultiLangDictionary(rawDict);
+    const project = this.getProjectDictionary(origin, dictLang);
+    const fallbacks = this.loadFallbacks(origin, dictLang);
+    if (fallbacks.length > 0) {
+      log(`[DictionaryManager] ${dictLang} falls back to ${fallbacks.map(f => f.language).join(', ')}`);
+    }
+    const multiLang = new MultiLangDictionary(project ? this.withProject(rawDict, project) : rawDict, fallbacks);
+
+    // A project dictionary or base language terms count as an existing dictionary: no automatic scan
+    const hasFallbackTerms = fallbacks.some(fallback => Object.keys(fallback.terms).length > 0);
+    return { dictionary: multiLang, existsOnAPI: existsOnAPI || project !== null || hasFallbackTerms };
+  }
+
+  /**
+   * Base language dictionaries of a regional language, most specific first
+   * (zh-Hant-TW → zh-Hant, zh). Only already cached or project dictionaries
+   * are used; nothing is downloaded or created for the base languages.
+   */
+  private loadFallbacks(origin: string, language: LanguageCode): Dictionary[] {
+    const fallbacks: Dictionary[] = [];
+
+    for (const tag of getLocaleFallbacks(language).slice(1)) {
+      const cached = this.cache.load(origin, tag);
+      const project = this.getProjectDictionary(origin, tag);
+      if (!cached && !project) continue;
+
+      const dictionary = cached ?? this.emptyDictionary(origin, tag);
+      fallbacks.push(project ? this.withProject(dictionary, project) : dictionary);
+    }
+    return fallbacks;
+  }
+
+  /**
+   * In-memory dictionary without terms (never saved)
+   */
+  private emptyDictionary(origin: string, language: LanguageCode): Dictionary {
+    const now = new Date().toISOString();
+    return { origin, language, terms: {}, metadata: { createdAt: now, updatedAt: now, version: '1.0.0' } };
+  }
+
+  /**
+   * Project dictionary for an origin, if its workspace root is known and contains one
+   */
+  getProjectDictionary(origin: string, language: LanguageCode): ProjectDictionary | null {
+    const workspaceRoot = this.workspaceRoots.get(origin);
+    if (!workspaceRoot) return null;
+
+    const tag = normalizeLocale(language);
+    const key = `${workspaceRoot}::${tag}`;
+    const known = this.projectDictionaries.get(key);
+    if (known) return known;
+
+    const found = ProjectDictionary.find(workspaceRoot, tag);
+    if (found) {
+      log(`[DictionaryManager] Using project dictionary ${found.filePath}`);
+      this.projectDictionaries.set(key, found);
+    }
+    return found;
+  }
+
+  /**
+   * Project glossary for an origin, if its workspace root is known and contains one
+   */
+  getProjectGlossary(origin: string): ProjectGlossary | null {
+    const workspaceRoot = this.workspaceRoots.get(origin);
+    if (!workspaceRoot) return null;
+
+    const known = this.projectGlossaries.get(workspaceRoot);
+    if (known) return known;
+
+    const found = ProjectGlossary.find(workspaceRoot);
+    if (found) {
+      log(`[DictionaryManager] Using project glossary ${found.filePath}`);
+      this.projectGlossaries.set(workspaceRoot, found);
+    }
+    return found;
+  }
+
+  /**
+   * Glossary rules for a translation direction (no rules without a project glossary)
+   */
+  getTermRules(origin: string, sourceLang: LanguageCode, targetLang: LanguageCode): TermRules {
+    const glossary = this.getProjectGlossary(origin);
+    if (!glossary) return EMPTY_TERM_RULES;
+
+    try {
+      return glossary.getRules(sourceLang, targetLang);
+    } catch (error: any) {
+      log(`[DictionaryManager] Ignoring unreadable project glossary ${glossary.filePath}: ${error.message}`);
+      return EMPTY_TERM_RULES;
+    }
+  }
+
+  /**
+   * Overlay a project dictionary on a cached dictionary
+   * Project terms and comments win; cached terms that would share a
+   * translation with a project term are disambiguated
+   */
+  private withProject(dictionary: Dictionary, project: ProjectDictionary): Dictionary {
+    let projectTerms: Record<string, string>;
+    let projectComments: Dictionary['comments'];
+    let projectSenses: Record<string, string>;
+    try {
+      projectTerms = project.getTerms();
+      projectComments = project.getComments();
+      projectSenses = project.getSenses();
+    } catch (error: any) {
+      log(`[DictionaryManager] Ignoring unreadable project dictionary ${project.filePath}: ${error.message}`);
+      return dictionary;
+    }
+
+    const collisions = findCollisions(projectTerms);
+    if (collisions.length > 0) {
+      const summary = collisions.map(c => `${c.translation} (${c.terms.join(', ')})`).join(', ');
+      log(`[DictionaryManager] Project dictionary ${project.filePath} has ambiguous translations: ${summary}`);
+    }
 
-    return { dictionary: multiLang, existsOnAPI };
+    const cachedTerms: Record<string, string> = {};
+    for (const [english, foreign] of Object.entries(dictionary.terms)) {
+      if (!(english in projectTerms)) cachedTerms[english] = foreign;
+    }
+    const { terms } = disambiguateTerms(projectTerms, cachedTerms);
+
+    return {
+      ...dictionary,
+      terms: { ...terms, ...projectTerms },
+      comments: { ...dictionary.comments, ...projectComments },
+      senses: { ...dictionary.senses, ...projectSenses },
+    };
+  }
+
+  /**
+   * Write new terms, comments and senses back to the project dictionary
+   * Only when enabled with i18n.writeProjectDictionary in ~/.kawa-code/config
+   */
+  private writeBack(
+    origin: string,
+    language: LanguageCode,
+    terms: Record<string, string>,
+    comments?: Dictionary['comments'],
+    senses?: Dictionary['senses']
+  ): void {
+    if (!getI18nSettings().writeProjectDictionary) return;
+
+    const project = this.getProjectDictionary(origin, language);
+    if (!project) return;
+
+    try {
+      const added = project.add(terms, comments, senses);
+      if (added > 0) {
+        log(`[DictionaryManager] Wrote ${added} entries to ${project.filePath}`);
+      }
+    } catch (error: any) {
+      log(`[DictionaryManager] Failed to write project dictionary ${project.filePath}: ${error.message}`);
+    }
   }
 
   /**
    * Add terms to existing dictionary
+   * New terms whose translation is already used by another English term
+   * are stored with a numeric suffix so the reverse lookup stays unambiguous
    */
   addTerms(origin: string, language: LanguageCode, newTerms: Record<string, string>): Dictionary {
     const dictionary = this.load(origin, language);
+    const { terms, renamed } = disambiguateTerms(this.getTerms(origin, language), newTerms);
+    this.logRenamed(origin, language, renamed);
 
     // Merge new terms
     dictionary.terms = {
       ...dictionary.terms,
-      ...newTerms,
+      ...terms,
     };
 
     // Update metadata
@@ -188,6 +367,7 @@ export class DictionaryManager {
     this.incrementVersion(dictionary);
 
     this.cache.save(dictionary);
+    this.writeBack(origin, language, terms);
     return dictionary;
   }
 
@@ -253,11 +433,14 @@ export class DictionaryManager {
   }
 
   /**
-   * Get all terms in dictionary
+   * Get all terms in dictionary, including the project dictionary's and,
+   * for a regional language, the base language terms it does not override
    */
   getTerms(origin: string, language: LanguageCode): Record<string, string> {
     const dictionary = this.load(origin, language);
-    return { ...dictionary.terms };
+    const project = this.getProjectDictionary(origin, language);
+    const base = this.loadFallbacks(origin, language).reverse().map(fallback => fallback.terms);
+    return Object.assign({}, ...base, (project ? this.withProject(dictionary, project) : dictionary).terms);
   }
 
   /**
@@ -278,6 +461,44 @@ export class DictionaryManager {
     };
   }
 
+  /**
+   * Get foreign words shared by several English terms
+   */
+  getCollisions(origin: string, language: LanguageCode): TermCollision[] {
+    const dictionary = this.load(origin, language);
+    return findCollisions(dictionary.terms);
+  }
+
+  /**
+   * Disambiguate all existing collisions in a dictionary
+   * The first English term keeps the plain translation, the others get a suffix
+   *
+   * @returns Terms whose translation was changed
+   */
+  resolveCollisions(origin: string, language: LanguageCode): RenamedTerm[] {
+    const dictionary = this.load(origin, language);
+    const { terms, renamed } = resolveCollisions(dictionary.terms);
+
+    if (renamed.length > 0) {
+      dictionary.terms = terms;
+      dictionary.metadata.updatedAt = new Date().toISOString();
+      this.incrementVersion(dictionary);
+      this.cache.save(dictionary);
+      this.logRenamed(origin, language, renamed);
+    }
+
+    return renamed;
+  }
+
+  /**
+   * Log translations changed by collision disambiguation
+   */
+  private logRenamed(origin: string, language: LanguageCode, renamed: RenamedTerm[]): void {
+    if (renamed.length === 0) return;
+    const summary = renamed.map(r => `${r.term}: ${r.from} → ${r.to}`).join(', ');
+    log(`[DictionaryManager] Disambiguated ${renamed.length} colliding terms in ${origin} (${language}): ${summary}`);
+  }
+
   /**
    * Increment version number (semver patch)
    */
@@ -306,6 +527,11 @@ export class DictionaryManager {
       throw new Error('Invalid dictionary format');
     }
 
+    // Imported terms must not share translations
+    const { terms, renamed } = resolveCollisions(dictionary.terms);
+    dictionary.terms = terms;
+    this.logRenamed(dictionary.origin, dictionary.language, renamed);
+
     // Ensure metadata exists
     if (!dictionary.metadata) {
       const now = new Date().toISOString();
@@ -316,7 +542,14 @@ export class DictionaryManager {
       };
     }
 
+    // Senses chosen by earlier scans are kept unless this one chose again
+    const previous = this.cache.load(dictionary.origin, dictionary.language);
+    if (previous?.senses || dictionary.senses) {
+      dictionary.senses = { ...previous?.senses, ...dictionary.senses };
+    }
+
     this.cache.save(dictionary);
+    this.writeBack(dictionary.origin, dictionary.language, dictionary.terms, dictionary.comments, dictionary.senses);
     return dictionary;
   }
 
@@ -358,8 +591,11 @@ export class DictionaryManager {
         return 0;
       }
 
-      // Merge new terms into dictionary (last-write-wins)
-      Object.assign(dictionary.terms, newTerms);
+      // Merge new terms into dictionary (last-write-wins per English term,
+      // colliding translations are disambiguated)
+      const { terms, renamed } = disambiguateTerms(dictionary.terms, newTerms);
+      Object.assign(dictionary.terms, terms);
+      this.logRenamed(origin, language, renamed);
 
       // Merge new comments into dictionary (last-write-wins)
       if (newComments) {
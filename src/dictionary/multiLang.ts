@@ -1,5 +1,9 @@
 import crypto from 'crypto';
 import { Dictionary, LanguageCode, CommentTranslations } from '../core/types';
+import { getLocaleFallbacks } from '../core/locale';
+import { translateSegments } from '../core/segmenter';
+import { TermCollision } from './collisions';
+import { TranslationMemory } from './translationMemory';
 
 /**
  * Multi-language dictionary abstraction
@@ -12,10 +16,15 @@ import { Dictionary, LanguageCode, CommentTranslations } from '../core/types';
  *   const dict = new MultiLangDictionary(rawDictionary);
  *   dict.getTranslation('database', 'en', 'ja');  // → 'データベース'
  *   dict.getTranslation('データベース', 'ja', 'en');  // → 'database'
+ *
+ * A regional dictionary (pt-BR) can be given the dictionaries of its base
+ * languages (pt). Their terms and comments are used where the regional
+ * dictionary has none.
  */
 export class MultiLangDictionary {
   private terms: Map<string, string>;  // EN → Target
   private reverseTerms: Map<string, string>;  // Target → EN
+  private collisions: Map<string, string[]>;  // Target → all EN terms sharing it
   private language: LanguageCode;  // The non-English language
   private origin: string;
 
@@ -23,34 +32,44 @@ export class MultiLangDictionary {
   private comments: Map<string, CommentTranslations>;
   // Reverse lookup: hash(translatedText) → englishText
   private reverseComments: Map<string, string>;
+  // Near-match lookup of English comments, built on first use per language
+  private memories = new Map<LanguageCode, TranslationMemory>();
 
-  constructor(dictionary: Dictionary) {
+  /**
+   * @param dictionary - Dictionary for the language
+   * @param fallbacks - Base language dictionaries, most specific first (zh-Hant, then zh)
+   */
+  constructor(dictionary: Dictionary, fallbacks: Dictionary[] = []) {
     this.origin = dictionary.origin;
     this.language = dictionary.language;
 
-    // Build term maps
-    this.terms = new Map(Object.entries(dictionary.terms));
-    this.reverseTerms = new Map(
-      Object.entries(dictionary.terms).map(([en, target]) => [target, en])
-    );
+    // Build term maps (regional terms override base language terms)
+    const layers = [...fallbacks].reverse().concat(dictionary);
+    this.terms = new Map(layers.flatMap(layer => Object.entries(layer.terms)));
+    this.reverseTerms = new Map();
+    this.collisions = new Map();
+    this.buildReverseTerms();
 
     // Build comment maps, normalizing flat format if needed
     // Flat format: { originalComment: translatedComment }
     // Expected format: { md5Hash: { en: originalComment, [lang]: translatedComment } }
-    const rawComments = dictionary.comments || {};
+    // Entries for the same comment are merged across base and regional layers
     const normalizedComments: Record<string, CommentTranslations> = {};
 
-    for (const [key, value] of Object.entries(rawComments)) {
-      if (typeof value === 'string') {
-        // Flat format from old cache - convert to hash-keyed multi-lang
-        const hash = this.hashComment(key);
-        normalizedComments[hash] = {
-          en: key,
-          [dictionary.language]: value,
-        };
-      } else {
-        // Already in correct format
-        normalizedComments[key] = value;
+    for (const layer of layers) {
+      for (const [key, value] of Object.entries(layer.comments || {})) {
+        if (typeof value === 'string') {
+          // Flat format from old cache - convert to hash-keyed multi-lang
+          const hash = this.hashComment(key);
+          normalizedComments[hash] = {
+            ...normalizedComments[hash],
+            en: key,
+            [layer.language]: value,
+          };
+        } else {
+          // Already in correct format
+          normalizedComments[key] = { ...normalizedComments[key], ...value };
+        }
       }
     }
 
@@ -82,12 +101,12 @@ export class MultiLangDictionary {
       // EN → Target: direct lookup
       return this.terms.get(term);
     } else if (targetLang === 'en') {
-      // Target → EN: reverse lookup
-      return this.reverseTerms.get(term);
+      // Target → EN: reverse lookup (ambiguous terms have no safe answer)
+      return this.collisions.has(term) ? undefined : this.reverseTerms.get(term);
     } else {
       // Non-EN → Non-EN: hub through English
       // First get English, then get target
-      const english = this.reverseTerms.get(term);
+      const english = this.collisions.has(term) ? undefined : this.reverseTerms.get(term);
       return english ? this.terms.get(english) : undefined;
     }
   }
@@ -95,29 +114,32 @@ export class MultiLangDictionary {
   /**
    * Get comment translation
    * Looks up by hash of the comment text (works for any language)
+   * Regional targets fall back to the base language (pt-BR → pt)
+   * Comments without an entry of their own are put together from the
+   * translations of their sentences (see src/core/segmenter.ts)
    */
   getCommentTranslation(commentText: string, targetLang: LanguageCode): string | undefined {
-    const hash = this.hashComment(commentText);
-
-    // Try direct lookup (if comment was originally in English)
-    const translations = this.comments.get(hash);
-    if (translations && translations[targetLang]) {
-      return translations[targetLang];
-    }
+    return this.lookupComment(commentText, targetLang)
+      ?? translateSegments(commentText, targetLang, sentence => this.lookupComment(sentence, targetLang));
+  }
 
-    // Try reverse lookup (if comment is in a translated language)
-    const englishText = this.reverseComments.get(hash);
-    if (englishText) {
-      if (targetLang === 'en') {
-        return englishText;
+  /**
+   * Translation memory of the English comments translated into a language
+   * Finds near matches where getCommentTranslation needs the exact text
+   */
+  getTranslationMemory(targetLang: LanguageCode): TranslationMemory {
+    let memory = this.memories.get(targetLang);
+    if (!memory) {
+      memory = new TranslationMemory();
+      for (const translations of this.comments.values()) {
+        const translated = this.pickTranslation(translations, targetLang);
+        if (translations.en && translated) {
+          memory.add(translations.en, translated);
+        }
       }
-      // For non-English target, look up the translation of the English text
-      const englishHash = this.hashComment(englishText);
-      const englishTranslations = this.comments.get(englishHash);
-      return englishTranslations?.[targetLang];
+      this.memories.set(targetLang, memory);
     }
-
-    return undefined;
+    return memory;
   }
 
   /**
@@ -138,6 +160,30 @@ export class MultiLangDictionary {
     }
   }
 
+  /**
+   * Check if a term cannot be round-tripped because of a collision
+   *
+   * For English terms: its translation is shared with another English term.
+   * For foreign terms: it maps back to more than one English term.
+   */
+  isAmbiguous(term: string, lang: LanguageCode): boolean {
+    if (lang === 'en') {
+      const foreign = this.terms.get(term);
+      return foreign !== undefined && this.collisions.has(foreign);
+    }
+    return this.collisions.has(term);
+  }
+
+  /**
+   * Get all foreign words that more than one English term maps to
+   */
+  getCollisions(): TermCollision[] {
+    return Array.from(this.collisions.entries()).map(([translation, terms]) => ({
+      translation,
+      terms: [...terms],
+    }));
+  }
+
   /**
    * Get all terms in the specified language
    */
@@ -178,8 +224,9 @@ export class MultiLangDictionary {
   addTerms(termsToAdd: Record<string, string>): void {
     for (const [english, foreign] of Object.entries(termsToAdd)) {
       this.terms.set(english, foreign);
-      this.reverseTerms.set(foreign, english);
     }
+    // Rebuild so overwritten translations and new collisions are reflected
+    this.buildReverseTerms();
   }
 
   /**
@@ -189,6 +236,66 @@ export class MultiLangDictionary {
     return Object.fromEntries(this.comments.entries());
   }
 
+  /**
+   * Rebuild the reverse term map and collision index from the forward map
+   * The first English term keeps the reverse entry; collisions are tracked separately
+   */
+  private buildReverseTerms(): void {
+    this.reverseTerms.clear();
+    this.collisions.clear();
+
+    for (const [english, foreign] of this.terms.entries()) {
+      const owner = this.reverseTerms.get(foreign);
+      if (owner === undefined) {
+        this.reverseTerms.set(foreign, english);
+        continue;
+      }
+      const shared = this.collisions.get(foreign);
+      if (shared) {
+        shared.push(english);
+      } else {
+        this.collisions.set(foreign, [owner, english]);
+      }
+    }
+  }
+
+  /**
+   * Translation stored for exactly this text
+   */
+  private lookupComment(commentText: string, targetLang: LanguageCode): string | undefined {
+    const hash = this.hashComment(commentText);
+
+    // Try direct lookup (if comment was originally in English)
+    const direct = this.pickTranslation(this.comments.get(hash), targetLang);
+    if (direct) {
+      return direct;
+    }
+
+    // Try reverse lookup (if comment is in a translated language)
+    const englishText = this.reverseComments.get(hash);
+    if (englishText) {
+      if (targetLang === 'en') {
+        return englishText;
+      }
+      // For non-English target, look up the translation of the English text
+      const englishHash = this.hashComment(englishText);
+      return this.pickTranslation(this.comments.get(englishHash), targetLang);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Translation for the most specific locale available (pt-BR, then pt)
+   */
+  private pickTranslation(translations: CommentTranslations | undefined, targetLang: LanguageCode): string | undefined {
+    if (!translations) return undefined;
+    for (const tag of getLocaleFallbacks(targetLang)) {
+      if (translations[tag]) return translations[tag];
+    }
+    return undefined;
+  }
+
   /**
    * Hash a comment for lookup
    */
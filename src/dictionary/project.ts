@@ -0,0 +1,220 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommentTranslations, LanguageCode } from '../core/types';
+
+/**
+ * Location of project dictionaries relative to the directory that holds them
+ */
+export const PROJECT_DICTIONARY_DIR = path.join('.kawa', 'i18n');
+
+/**
+ * On-disk format of a project dictionary
+ *
+ * Unlike the user cache, comments are keyed by their English text instead
+ * of a hash, so the file reads well in a pull request diff:
+ *
+ *   {
+ *     "terms": { "calculate": "計算する" },
+ *     "comments": { "Add two numbers": "2つの数値を足す" },
+ *     "senses": { "order": "purchase order" }
+ *   }
+ */
+interface ProjectDictionaryFile {
+  terms?: Record<string, string>;
+  comments?: Record<string, string>;
+  /** Meaning chosen for English terms (omitted when empty) */
+  senses?: Record<string, string>;
+}
+
+/**
+ * Project dictionary checked into the repository (.kawa/i18n/<lang>.json)
+ *
+ * Shared translations reviewed through ordinary pull requests. Entries in
+ * this file take precedence over the user cache and the API dictionary.
+ */
+export class ProjectDictionary {
+  readonly filePath: string;
+  readonly language: LanguageCode;
+  private terms: Record<string, string> = {};
+  private comments: Record<string, string> = {};
+  private senses: Record<string, string> = {};
+  private loadedMtime = -1;
+
+  constructor(filePath: string, language: LanguageCode) {
+    this.filePath = filePath;
+    this.language = language;
+  }
+
+  /**
+   * Find the project dictionary for a language by walking up from a directory
+   * Stops at the repository root (the directory containing .git)
+   * Returns null if no dictionary file exists
+   */
+  static find(startDir: string, language: LanguageCode): ProjectDictionary | null {
+    const filePath = findProjectFile(startDir, `${language}.json`);
+    return filePath ? new ProjectDictionary(filePath, language) : null;
+  }
+
+  /**
+   * Terms { english: foreign }
+   */
+  getTerms(): Record<string, string> {
+    this.reload();
+    return { ...this.terms };
+  }
+
+  /**
+   * Comments in the cache format (md5 of the English text → translations)
+   */
+  getComments(): Record<string, CommentTranslations> {
+    this.reload();
+    const comments: Record<string, CommentTranslations> = {};
+    for (const [en, translated] of Object.entries(this.comments)) {
+      comments[hashText(en)] = { en, [this.language]: translated };
+    }
+    return comments;
+  }
+
+  /**
+   * Meanings chosen for English terms { english: sense }
+   */
+  getSenses(): Record<string, string> {
+    this.reload();
+    return { ...this.senses };
+  }
+
+  /**
+   * Add terms, comments and senses that are not in the file yet and write it back
+   * Existing entries are never overwritten: the file is reviewed by the team
+   * and wins over anything translated locally. A sense is only added for a
+   * term that is in the file.
+   *
+   * @returns Number of entries added
+   */
+  add(
+    terms: Record<string, string>,
+    comments: Record<string, CommentTranslations> = {},
+    senses: Record<string, string> = {}
+  ): number {
+    this.reload();
+    let added = 0;
+
+    for (const [english, foreign] of Object.entries(terms)) {
+      if (!(english in this.terms)) {
+        this.terms[english] = foreign;
+        added++;
+      }
+    }
+
+    for (const comment of Object.values(comments)) {
+      const translated = comment[this.language];
+      if (translated && !(comment.en in this.comments)) {
+        this.comments[comment.en] = translated;
+        added++;
+      }
+    }
+
+    for (const [english, sense] of Object.entries(senses)) {
+      if (english in this.terms && !(english in this.senses)) {
+        this.senses[english] = sense;
+        added++;
+      }
+    }
+
+    if (added > 0) {
+      this.save();
+    }
+    return added;
+  }
+
+  /**
+   * Re-read the file if it changed on disk (e.g. after a git pull)
+   */
+  private reload(): void {
+    if (!fs.existsSync(this.filePath)) {
+      this.terms = {};
+      this.comments = {};
+      this.senses = {};
+      this.loadedMtime = -1;
+      return;
+    }
+
+    const mtime = fs.statSync(this.filePath).mtimeMs;
+    if (mtime === this.loadedMtime) {
+      return;
+    }
+
+    const content = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as ProjectDictionaryFile;
+    this.terms = content.terms ?? {};
+    this.comments = content.comments ?? {};
+    this.senses = content.senses ?? {};
+    this.loadedMtime = mtime;
+  }
+
+  /**
+   * Write the file with sorted keys so diffs stay small
+   */
+  private save(): void {
+    const content: ProjectDictionaryFile = {
+      terms: sortKeys(this.terms),
+      comments: sortKeys(this.comments),
+    };
+    if (Object.keys(this.senses).length > 0) {
+      content.senses = sortKeys(this.senses);
+    }
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(content, null, 2) + '\n');
+    this.loadedMtime = fs.statSync(this.filePath).mtimeMs;
+  }
+}
+
+/**
+ * Find a file in .kawa/i18n by walking up from a directory
+ * Stops at the repository root (the directory containing .git)
+ */
+export function findProjectFile(startDir: string, fileName: string): string | null {
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    const filePath = path.join(dir, PROJECT_DICTIONARY_DIR, fileName);
+    if (fs.existsSync(filePath)) {
+      return filePath;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir || fs.existsSync(path.join(dir, '.git'))) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Repository root containing a directory (or the directory itself outside a repository)
+ */
+export function findRepositoryRoot(startDir: string): string {
+  let dir = path.resolve(startDir);
+
+  while (!fs.existsSync(path.join(dir, '.git'))) {
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return path.resolve(startDir);
+    }
+    dir = parent;
+  }
+  return dir;
+}
+
+export function sortKeys(record: Record<string, string>): Record<string, string> {
+  const sorted: Record<string, string> = {};
+  for (const key of Object.keys(record).sort()) {
+    sorted[key] = record[key];
+  }
+  return sorted;
+}
+
+function hashText(text: string): string {
+  return crypto.createHash('md5').update(text.trim()).digest('hex');
+}
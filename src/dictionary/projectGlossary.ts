@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LanguageCode } from '../core/types';
+import { getLocaleFallbacks, normalizeLocale } from '../core/locale';
+import { TermRules } from '../core/termRules';
+import { findProjectFile, findRepositoryRoot, PROJECT_DICTIONARY_DIR, sortKeys } from './project';
+
+/**
+ * File name of the project glossary in .kawa/i18n
+ */
+export const PROJECT_GLOSSARY_FILE = 'glossary.json';
+
+/**
+ * On-disk format of a project glossary
+ *
+ *   {
+ *     "doNotTranslate": ["Kawa", "userId"],
+ *     "translations": { "ja": { "invoice": "請求書" } },
+ *     "forbidden": { "ja": ["ユーザ"] }
+ *   }
+ *
+ * Translations map English terms to the language's term; forbidden words
+ * must not appear in translations into that language.
+ */
+export interface ProjectGlossaryFile {
+  doNotTranslate?: string[];
+  translations?: Record<string, Record<string, string>>;
+  forbidden?: Record<string, string[]>;
+}
+
+/** Kind of glossary entry, as used by the IPC actions */
+export type GlossaryEntryKind = 'doNotTranslate' | 'translation' | 'forbidden';
+
+/**
+ * Project glossary checked into the repository (.kawa/i18n/glossary.json)
+ *
+ * Terms the whole team agreed on: names that must never be translated,
+ * fixed translations, and words translations must not use. Applies to
+ * every translation backend and wins over dictionary entries.
+ */
+export class ProjectGlossary {
+  readonly filePath: string;
+  private content: ProjectGlossaryFile = {};
+  private loadedMtime = -1;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Find the project glossary by walking up from a directory
+   * Returns null if no glossary file exists
+   */
+  static find(startDir: string): ProjectGlossary | null {
+    const filePath = findProjectFile(startDir, PROJECT_GLOSSARY_FILE);
+    return filePath ? new ProjectGlossary(filePath) : null;
+  }
+
+  /**
+   * The glossary of a project, or a new one at the repository root
+   * (the file is created by the first change)
+   */
+  static forWorkspace(workspaceRoot: string): ProjectGlossary {
+    return ProjectGlossary.find(workspaceRoot)
+      ?? new ProjectGlossary(path.join(findRepositoryRoot(workspaceRoot), PROJECT_DICTIONARY_DIR, PROJECT_GLOSSARY_FILE));
+  }
+
+  /**
+   * File content with missing sections filled in
+   */
+  getContent(): Required<ProjectGlossaryFile> {
+    this.reload();
+    return {
+      doNotTranslate: [...(this.content.doNotTranslate ?? [])],
+      translations: { ...this.content.translations },
+      forbidden: { ...this.content.forbidden },
+    };
+  }
+
+  /**
+   * Rules for one translation direction
+   * Regional languages use their base language's entries too (pt-BR, then pt).
+   * Translations only apply between English and the other language.
+   */
+  getRules(sourceLang: LanguageCode, targetLang: LanguageCode): TermRules {
+    const { doNotTranslate, translations, forbidden } = this.getContent();
+    const rules: TermRules = { keep: doNotTranslate, translations: {}, forbidden: [] };
+
+    if (sourceLang === 'en' && targetLang !== 'en') {
+      rules.translations = this.lookup(translations, targetLang);
+    } else if (targetLang === 'en' && sourceLang !== 'en') {
+      const english = this.lookup(translations, sourceLang);
+      rules.translations = Object.fromEntries(Object.entries(english).map(([en, foreign]) => [foreign, en]));
+    }
+
+    for (const tag of getLocaleFallbacks(targetLang)) {
+      rules.forbidden.push(...(forbidden[tag] ?? []));
+    }
+    return rules;
+  }
+
+  /**
+   * Add or replace an entry and write the file
+   * language is required for translation and forbidden entries, translation for translation entries
+   */
+  setEntry(kind: GlossaryEntryKind, term: string, language?: LanguageCode, translation?: string): void {
+    this.reload();
+    const content = this.content;
+
+    if (kind === 'doNotTranslate') {
+      content.doNotTranslate = Array.from(new Set([...(content.doNotTranslate ?? []), term])).sort();
+    } else if (kind === 'translation') {
+      const tag = normalizeLocale(requireValue(language, 'language'));
+      content.translations = { ...content.translations };
+      content.translations[tag] = sortKeys({ ...content.translations[tag], [term]: requireValue(translation, 'translation') });
+    } else {
+      const tag = normalizeLocale(requireValue(language, 'language'));
+      content.forbidden = { ...content.forbidden };
+      content.forbidden[tag] = Array.from(new Set([...(content.forbidden[tag] ?? []), term])).sort();
+    }
+
+    this.save();
+  }
+
+  /**
+   * Remove an entry and write the file
+   *
+   * @returns Whether the entry existed
+   */
+  removeEntry(kind: GlossaryEntryKind, term: string, language?: LanguageCode): boolean {
+    this.reload();
+    const content = this.content;
+    const tag = language ? normalizeLocale(language) : '';
+    let removed = false;
+
+    if (kind === 'doNotTranslate') {
+      removed = content.doNotTranslate?.includes(term) ?? false;
+      content.doNotTranslate = content.doNotTranslate?.filter(entry => entry !== term);
+    } else if (kind === 'translation') {
+      const entries = content.translations?.[tag];
+      removed = !!entries && term in entries;
+      if (entries) delete entries[term];
+    } else {
+      removed = content.forbidden?.[tag]?.includes(term) ?? false;
+      if (content.forbidden?.[tag]) content.forbidden[tag] = content.forbidden[tag].filter(entry => entry !== term);
+    }
+
+    if (removed) {
+      this.save();
+    }
+    return removed;
+  }
+
+  /**
+   * Entries of a language and its base languages (the most specific wins)
+   */
+  private lookup(byLanguage: Record<string, Record<string, string>>, language: LanguageCode): Record<string, string> {
+    const layers = getLocaleFallbacks(language).reverse().map(tag => byLanguage[tag]);
+    return Object.assign({}, ...layers);
+  }
+
+  /**
+   * Re-read the file if it changed on disk (e.g. after a git pull)
+   */
+  private reload(): void {
+    if (!fs.existsSync(this.filePath)) {
+      this.content = {};
+      this.loadedMtime = -1;
+      return;
+    }
+
+    const mtime = fs.statSync(this.filePath).mtimeMs;
+    if (mtime === this.loadedMtime) {
+      return;
+    }
+
+    this.content = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as ProjectGlossaryFile;
+    this.loadedMtime = mtime;
+  }
+
+  /**
+   * Write the file with sorted languages so diffs stay small
+   */
+  private save(): void {
+    const content: ProjectGlossaryFile = {
+      doNotTranslate: this.content.doNotTranslate ?? [],
+      translations: byLanguage(this.content.translations ?? {}, entries => Object.keys(entries).length > 0),
+      forbidden: byLanguage(this.content.forbidden ?? {}, words => words.length > 0),
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(content, null, 2) + '\n');
+    this.content = content;
+    this.loadedMtime = fs.statSync(this.filePath).mtimeMs;
+  }
+}
+
+/**
+ * Languages sorted by tag, without empty ones
+ */
+function byLanguage<T>(record: Record<string, T>, hasEntries: (value: T) => boolean): Record<string, T> {
+  return Object.fromEntries(Object.keys(record).sort().filter(tag => hasEntries(record[tag])).map(tag => [tag, record[tag]]));
+}
+
+function requireValue(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new Error(`Missing ${name} for glossary entry`);
+  }
+  return value;
+}
@@ -0,0 +1,266 @@
+import { TranslationReference } from '../core/types';
+
+/**
+ * Minimum similarity for a stored translation to be sent to the LLM as a reference
+ */
+export const REFERENCE_THRESHOLD = 0.6;
+
+/**
+ * Minimum similarity for a stored translation to be reused without the LLM
+ * (only when the edit renamed identifiers or changed numbers the translation keeps as they are)
+ */
+export const REUSE_THRESHOLD = 0.75;
+
+/** References given per text */
+const MAX_REFERENCES = 2;
+
+/** Entries compared word by word per text, picked by shared words */
+const MAX_CANDIDATES = 5;
+
+/** Largest word alignment computed (words × words) */
+const MAX_ALIGNMENT_CELLS = 1_000_000;
+
+/** Words, identifiers and numbers; any other non-space character is a token of its own */
+const TOKEN_PATTERN = /[\p{L}\p{N}_$@]+|[^\s\p{L}\p{N}_$@]/gu;
+
+/** Tokens a translation keeps as they are: numbers and identifiers (userId, MAX_SIZE, $ref) */
+const CODE_TOKEN_PATTERN = /\d|[_$]|\p{Ll}\p{Lu}/u;
+
+interface MemoryEntry {
+  source: string;
+  translation: string;
+  tokens: string[];
+  words: Set<string>;
+}
+
+/**
+ * Result of looking texts up in the memory
+ */
+export interface TranslationMemoryLookup {
+  /** Translations reused from near matches { text: translation } */
+  reused: Record<string, string>;
+  /** Near matches to give the LLM { text: references } */
+  references: Record<string, TranslationReference[]>;
+  /** Texts still to translate */
+  remaining: string[];
+}
+
+/**
+ * Translation memory for comments and markdown
+ *
+ * Exact matches are found by hash in the dictionary; the memory finds the
+ * near ones, so a one-word edit to a long JSDoc block doesn't cost a new,
+ * differently worded translation. Similarity is the word-level edit
+ * distance relative to the longer text; candidates are first picked by the
+ * words they share.
+ *
+ *   "Retries the request 3 times"  →  "リクエストを3回再試行します" (stored)
+ *   "Retries the request 5 times"  →  reused as "リクエストを5回再試行します"
+ *   "Retries the upload 3 times"   →  translated, with the stored pair as reference
+ */
+export class TranslationMemory {
+  private entries: MemoryEntry[] = [];
+  private index = new Map<string, number[]>();  // Lowercased word → entries containing it
+
+  /**
+   * @param pairs - Source texts and their translations
+   */
+  constructor(pairs: Iterable<[string, string]> = []) {
+    for (const [source, translation] of pairs) {
+      this.add(source, translation);
+    }
+  }
+
+  /**
+   * Number of stored translations
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Store a translation
+   * Untranslated texts (translation equal to the source) are not stored
+   */
+  add(source: string, translation: string): void {
+    if (!source.trim() || !translation.trim() || source.trim() === translation.trim()) {
+      return;
+    }
+
+    const tokens = tokenize(source);
+    const words = wordsOf(tokens);
+    const id = this.entries.push({ source, translation, tokens, words }) - 1;
+
+    for (const word of words) {
+      const ids = this.index.get(word);
+      if (ids) {
+        ids.push(id);
+      } else {
+        this.index.set(word, [id]);
+      }
+    }
+  }
+
+  /**
+   * Stored translations of texts similar to a text, most similar first
+   */
+  findSimilar(text: string, limit = MAX_REFERENCES): TranslationReference[] {
+    return this.rank(tokenize(text))
+      .slice(0, limit)
+      .map(({ entry, similarity }) => ({ source: entry.source, translation: entry.translation, similarity }));
+  }
+
+  /**
+   * Translation of a near match adapted to a text
+   * Only edits that replace identifiers or numbers found once in the
+   * translation are applied; anything else needs the LLM.
+   */
+  reuse(text: string): string | undefined {
+    const tokens = tokenize(text);
+    const best = this.rank(tokens)[0];
+    if (!best || best.similarity < REUSE_THRESHOLD) {
+      return undefined;
+    }
+
+    const alignment = align(best.entry.tokens, tokens);
+    if (!alignment || alignment.indels > 0) {
+      return undefined;
+    }
+
+    let translation = best.entry.translation;
+    for (const [from, to] of alignment.substitutions) {
+      if (!CODE_TOKEN_PATTERN.test(from) || !CODE_TOKEN_PATTERN.test(to)) {
+        return undefined;
+      }
+      // ASCII boundaries: CJK text runs straight into identifiers and numbers
+      const occurrence = new RegExp(`(?<![\\w$@])${escapeRegExp(from)}(?![\\w$@])`, 'g');
+      const matches = translation.match(occurrence);
+      if (matches?.length !== 1) {
+        return undefined;
+      }
+      translation = translation.replace(occurrence, () => to);
+    }
+    return translation;
+  }
+
+  /**
+   * Reuse what can be reused and find references for the rest
+   */
+  lookup(texts: string[]): TranslationMemoryLookup {
+    const result: TranslationMemoryLookup = { reused: {}, references: {}, remaining: [] };
+
+    for (const text of new Set(texts)) {
+      const reused = this.reuse(text);
+      if (reused !== undefined) {
+        result.reused[text] = reused;
+        continue;
+      }
+
+      result.remaining.push(text);
+      const references = this.findSimilar(text);
+      if (references.length > 0) {
+        result.references[text] = references;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Entries at least REFERENCE_THRESHOLD similar to the tokens, most similar first
+   */
+  private rank(tokens: string[]): Array<{ entry: MemoryEntry; similarity: number }> {
+    const words = wordsOf(tokens);
+    if (words.size === 0 || this.entries.length === 0) {
+      return [];
+    }
+
+    // Count shared words per entry through the index
+    const shared = new Map<number, number>();
+    for (const word of words) {
+      for (const id of this.index.get(word) ?? []) {
+        shared.set(id, (shared.get(id) ?? 0) + 1);
+      }
+    }
+
+    // Dice coefficient of the word sets picks the candidates worth aligning
+    const candidates = Array.from(shared.entries())
+      .map(([id, count]) => ({ entry: this.entries[id], dice: (2 * count) / (words.size + this.entries[id].words.size) }))
+      .filter(candidate => candidate.dice >= REFERENCE_THRESHOLD)
+      .sort((a, b) => b.dice - a.dice)
+      .slice(0, MAX_CANDIDATES);
+
+    const ranked: Array<{ entry: MemoryEntry; similarity: number }> = [];
+    for (const { entry } of candidates) {
+      const alignment = align(entry.tokens, tokens);
+      if (!alignment) continue;
+      const similarity = 1 - alignment.distance / Math.max(entry.tokens.length, tokens.length);
+      if (similarity >= REFERENCE_THRESHOLD) {
+        ranked.push({ entry, similarity: Math.round(similarity * 100) / 100 });
+      }
+    }
+    return ranked.sort((a, b) => b.similarity - a.similarity);
+  }
+}
+
+/**
+ * Word-level edit distance with the replaced words
+ * Returns undefined for texts too long to align
+ */
+function align(
+  from: string[],
+  to: string[]
+): { distance: number; indels: number; substitutions: Array<[string, string]> } | undefined {
+  const rows = from.length + 1;
+  const cols = to.length + 1;
+  if (rows * cols > MAX_ALIGNMENT_CELLS) {
+    return undefined;
+  }
+
+  const cost = new Uint32Array(rows * cols);
+  for (let i = 0; i < rows; i++) cost[i * cols] = i;
+  for (let j = 0; j < cols; j++) cost[j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const replace = cost[(i - 1) * cols + j - 1] + (from[i - 1] === to[j - 1] ? 0 : 1);
+      cost[i * cols + j] = Math.min(replace, cost[(i - 1) * cols + j] + 1, cost[i * cols + j - 1] + 1);
+    }
+  }
+
+  // Walk back through the table to collect the edits
+  const substitutions: Array<[string, string]> = [];
+  let indels = 0;
+  let i = from.length;
+  let j = to.length;
+  while (i > 0 || j > 0) {
+    const current = cost[i * cols + j];
+    if (i > 0 && j > 0 && current === cost[(i - 1) * cols + j - 1] + (from[i - 1] === to[j - 1] ? 0 : 1)) {
+      if (from[i - 1] !== to[j - 1]) substitutions.unshift([from[i - 1], to[j - 1]]);
+      i--;
+      j--;
+    } else if (i > 0 && current === cost[(i - 1) * cols + j] + 1) {
+      indels++;
+      i--;
+    } else {
+      indels++;
+      j--;
+    }
+  }
+
+  return { distance: cost[rows * cols - 1], indels, substitutions };
+}
+
+function tokenize(text: string): string[] {
+  return text.match(TOKEN_PATTERN) ?? [];
+}
+
+/**
+ * Distinct lowercased words of the tokens (punctuation and comment markers left out)
+ */
+function wordsOf(tokens: string[]): Set<string> {
+  return new Set(tokens.filter(token => /[\p{L}\p{N}]/u.test(token)).map(token => token.toLowerCase()));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
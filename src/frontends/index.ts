@@ -0,0 +1,31 @@
+/**
+ * Language frontends
+ *
+ * Each supported programming language is a LanguageFrontend registered here.
+ * Extractors, the translator, the round-trip verifier, the project scanner
+ * and the intent handlers look frontends up by file extension or language
+ * name, so adding a language only requires registering a frontend:
+ *
+ *   import { registerFrontend } from './frontends';
+ *   registerFrontend(new GoFrontend());
+ */
+
+import { registerFrontend } from './registry';
+import { TypeScriptFrontend } from './typescript';
+import { VueFrontend } from './vue';
+import { RustFrontend } from './rust';
+import { PythonFrontend } from './python';
+import { MarkdownFrontend } from './markdown';
+
+const typescript = new TypeScriptFrontend();
+
+registerFrontend(typescript);
+registerFrontend(new VueFrontend(typescript));
+registerFrontend(new RustFrontend());
+registerFrontend(new PythonFrontend());
+registerFrontend(new MarkdownFrontend());
+
+export * from './types';
+export * from './registry';
+export { applyReplacements } from './utils';
+export { TypeScriptFrontend, VueFrontend, RustFrontend, PythonFrontend, MarkdownFrontend };
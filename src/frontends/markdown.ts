@@ -0,0 +1,81 @@
+import * as ts from 'typescript';
+import { MarkdownExtractor } from '../core/markdownExtractor';
+import type { ExtractedIdentifier } from '../core/identifierExtractor';
+import type { ExtractedComment } from '../core/commentExtractor';
+import { LanguageFrontend, SyntaxToken, TextReplacement, TranslationContext } from './types';
+
+/**
+ * Markdown frontend
+ *
+ * Shows README and documentation files translated. Headings, paragraphs,
+ * list items, blockquotes and table cells (see MarkdownExtractor) are
+ * replaced by their stored translations; list and heading markers, table
+ * pipes, fenced and indented code, front matter and HTML comments stay as
+ * they are. Markdown has no identifiers or comments, and its blocks are
+ * only translated under the markdownFiles scope.
+ */
+export class MarkdownFrontend implements LanguageFrontend {
+  readonly id = 'markdown';
+  readonly extensions = ['.md', '.markdown'];
+  readonly aliases = ['md'];
+  readonly documentation = true;
+
+  private extractor = new MarkdownExtractor();
+
+  extractIdentifiers(): ExtractedIdentifier[] {
+    return [];
+  }
+
+  extractComments(): ExtractedComment[] {
+    return [];
+  }
+
+  /**
+   * Blocks are looked up like comments: the project scan stores them with the comments
+   */
+  collectReplacements(sourceCode: string, context: TranslationContext): TextReplacement[] {
+    if (!context.scope.markdownFiles) {
+      return [];
+    }
+
+    const replacements: TextReplacement[] = [];
+    for (const block of this.extractor.extractWithPositions(sourceCode)) {
+      if (!this.extractor.isTranslatableBlock(block)) continue;
+
+      const translated = context.translateComment(block.text);
+      if (translated) {
+        replacements.push({
+          start: block.pos,
+          end: block.end,
+          newText: translated,
+          oldText: sourceCode.slice(block.pos, block.end),
+          kind: 'text',
+        });
+      }
+    }
+    return replacements;
+  }
+
+  /**
+   * Blocks are compared as strings; the markup around them must not change
+   */
+  tokenize(sourceCode: string): SyntaxToken[] {
+    const tokens: SyntaxToken[] = [];
+    const lineAt = (pos: number) => sourceCode.slice(0, pos).split('\n').length;
+    const markup = (start: number, end: number) => {
+      for (const match of sourceCode.slice(start, end).matchAll(/\S+/g)) {
+        tokens.push({ kind: ts.SyntaxKind.Unknown, text: match[0], line: lineAt(start + match.index!) });
+      }
+    };
+
+    let pos = 0;
+    for (const block of this.extractor.extractWithPositions(sourceCode)) {
+      markup(pos, block.pos);
+      tokens.push({ kind: ts.SyntaxKind.StringLiteral, text: block.text, line: block.line });
+      pos = block.end;
+    }
+    markup(pos, sourceCode.length);
+
+    return tokens;
+  }
+}
@@ -0,0 +1,158 @@
+import * as ts from 'typescript';
+import { PythonToken, PythonTokenizer } from '../core/pythonTokenizer';
+import type { ExtractedIdentifier } from '../core/identifierExtractor';
+import type { ExtractedComment } from '../core/commentExtractor';
+import { parseCommentLayout, renderComment } from '../core/commentLayout';
+import { LanguageFrontend, SyntaxToken, TextReplacement, TranslationContext } from './types';
+import { addIdentifier, sortIdentifiers } from './utils';
+
+/**
+ * Python frontend
+ *
+ * Built on PythonTokenizer. Names from imported packages, module paths,
+ * built-ins and attributes of values returned by packages keep their names. Keyword dictionaries describe TS/JS keywords,
+ * so they are not applied to Python files.
+ */
+export class PythonFrontend implements LanguageFrontend {
+  readonly id = 'python';
+  readonly extensions = ['.py', '.pyi'];
+  readonly aliases = ['py'];
+
+  private tokenizer = new PythonTokenizer();
+
+  /**
+   * Collects class, def, parameter, variable and self.attribute names;
+   * names from imported packages and Python built-ins are skipped
+   */
+  extractIdentifiers(sourceCode: string): ExtractedIdentifier[] {
+    const identifiers = new Map<string, ExtractedIdentifier>();
+    const types: Partial<Record<string, ExtractedIdentifier['type']>> = {
+      class: 'class',
+      function: 'function',
+      method: 'method',
+      parameter: 'parameter',
+      variable: 'variable',
+      property: 'property',
+    };
+
+    for (const name of this.tokenizer.analyze(sourceCode).names) {
+      const type = types[name.role];
+      if (type && !name.external && name.text !== '_') {
+        addIdentifier(identifiers, name.text, type, name.line);
+      }
+    }
+
+    return sortIdentifiers(identifiers);
+  }
+
+  /**
+   * # comments and docstrings
+   */
+  extractComments(sourceCode: string): ExtractedComment[] {
+    return this.tokenizer.analyze(sourceCode).comments;
+  }
+
+  collectReplacements(sourceCode: string, context: TranslationContext): TextReplacement[] {
+    const analysis = this.tokenizer.analyze(sourceCode);
+    const replacements: TextReplacement[] = [];
+
+    if (context.scope.identifiers) {
+      for (const name of analysis.names) {
+        if (name.role === 'module' || (context.sourceLang === 'en' && name.external)) continue;
+
+        const translated = context.translateIdentifier(name.text, { external: name.external });
+        if (translated) {
+          replacements.push({ start: name.start, end: name.end, newText: translated, oldText: name.text, kind: 'identifier' });
+        }
+      }
+    }
+
+    if (context.scope.stringLiterals) {
+      for (const token of analysis.strings) {
+        const open = (token.prefix || '').length + (token.quote || '').length;
+        const body = token.text.slice(open, token.text.length - (token.quote || '').length);
+
+        const translated = context.translateString(body);
+        if (translated) {
+          replacements.push({
+            start: token.start,
+            end: token.end,
+            newText: token.text.slice(0, open) + translated + token.quote,
+            oldText: token.text,
+            kind: 'string',
+          });
+        }
+      }
+    }
+
+    if (context.scope.comments) {
+      for (const comment of analysis.comments) {
+        const translated = context.translateComment(comment.text);
+        if (translated) {
+          replacements.push({
+            start: comment.pos,
+            end: comment.end,
+            newText: this.formatComment(translated, comment, sourceCode),
+            oldText: comment.fullText,
+            kind: 'comment',
+          });
+        }
+      }
+    }
+
+    return replacements;
+  }
+
+  tokenize(sourceCode: string): SyntaxToken[] {
+    return this.toSyntaxTokens(this.tokenizer.tokenize(sourceCode));
+  }
+
+  /**
+   * Map Python tokens onto the verifier's model
+   * f-string fields follow their string so their names are checked too
+   */
+  private toSyntaxTokens(pythonTokens: PythonToken[]): SyntaxToken[] {
+    const tokens: SyntaxToken[] = [];
+
+    for (const token of pythonTokens) {
+      if (token.kind === 'comment' || token.kind === 'newline') continue;
+
+      const kind = token.kind === 'name'
+        ? ts.SyntaxKind.Identifier
+        : token.kind === 'string' ? ts.SyntaxKind.StringLiteral : ts.SyntaxKind.Unknown;
+      tokens.push({ kind, text: token.text, line: token.line });
+
+      if (token.fields) {
+        tokens.push(...this.toSyntaxTokens(token.fields));
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Format a translated comment or docstring
+   * '#' comments keep their layout (see commentLayout); docstrings keep their
+   * prefix, quotes and indentation
+   */
+  private formatComment(text: string, comment: ExtractedComment, sourceCode: string): string {
+    const layout = parseCommentLayout(comment, sourceCode);
+    if (comment.kind === 'SingleLine') {
+      return renderComment(text, layout);
+    }
+
+    const { indent } = layout;
+    const lines = text.split('\n');
+
+    // Docstring
+    const [, prefix, originalQuote] = comment.fullText.match(/^([rRuU]*)('''|"""|'|")/) || ['', '', '"""'];
+    const quote = lines.length > 1 && originalQuote.length === 1 ? originalQuote.repeat(3) : originalQuote;
+    const originalBody = comment.fullText.slice(prefix.length + originalQuote.length, -originalQuote.length);
+
+    const body = lines.map((line, i) => (i === 0 || line.length === 0 ? line : `${indent}${line}`)).join('\n');
+    const leading = /^\s*\n/.test(originalBody) ? `\n${indent}` : '';
+    const trailing = /\n\s*$/.test(originalBody) ? `\n${indent}` : '';
+
+    return `${prefix}${quote}${leading}${body}${trailing}${quote}`;
+  }
+}
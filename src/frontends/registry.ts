@@ -0,0 +1,63 @@
+import { LanguageFrontend } from './types';
+
+/**
+ * Language frontend registry
+ *
+ * Maps file extensions and language names to frontends. Later registrations
+ * take precedence, so a frontend can be replaced by registering another one
+ * for the same extension.
+ */
+const frontends: LanguageFrontend[] = [];
+
+/**
+ * Register a language frontend
+ */
+export function registerFrontend(frontend: LanguageFrontend): void {
+  const existing = frontends.findIndex(f => f.id === frontend.id);
+  if (existing !== -1) {
+    frontends.splice(existing, 1);
+  }
+  frontends.unshift(frontend);
+}
+
+/**
+ * Find the frontend for a file path by extension
+ */
+export function getFrontendForFile(filePath: string): LanguageFrontend | undefined {
+  const lower = filePath.toLowerCase();
+  return frontends.find(f => f.extensions.some(ext => lower.endsWith(ext)));
+}
+
+/**
+ * Find a frontend by id or alias (e.g. 'typescript', 'javascript', 'python')
+ */
+export function getFrontend(language: string): LanguageFrontend | undefined {
+  const lower = language.toLowerCase();
+  return frontends.find(f => f.id === lower || f.aliases?.includes(lower));
+}
+
+/**
+ * Frontend used for a file, falling back to TypeScript for unknown or missing paths
+ */
+export function resolveFrontend(filePath?: string): LanguageFrontend {
+  const frontend = (filePath && getFrontendForFile(filePath)) || getFrontend('typescript');
+  if (!frontend) {
+    throw new Error('No language frontend registered for TypeScript');
+  }
+  return frontend;
+}
+
+/**
+ * All file extensions handled by registered code frontends
+ * Documentation frontends (markdown) are left out
+ */
+export function getSupportedExtensions(): string[] {
+  return Array.from(new Set(frontends.filter(f => !f.documentation).flatMap(f => f.extensions)));
+}
+
+/**
+ * All registered frontends
+ */
+export function listFrontends(): LanguageFrontend[] {
+  return [...frontends];
+}
@@ -0,0 +1,145 @@
+import * as ts from 'typescript';
+import { RustLexer, RustToken } from '../core/rustLexer';
+import type { ExtractedIdentifier } from '../core/identifierExtractor';
+import type { ExtractedComment } from '../core/commentExtractor';
+import { parseCommentLayout, renderComment } from '../core/commentLayout';
+import { LanguageFrontend, SyntaxToken, TextReplacement, TranslationContext } from './types';
+import { addIdentifier, sortIdentifiers } from './utils';
+
+/**
+ * Declaration roles and the identifier type they are extracted as
+ */
+const DECLARATION_TYPES: Partial<Record<string, ExtractedIdentifier['type']>> = {
+  function: 'function',
+  method: 'method',
+  struct: 'struct',
+  enum: 'enum',
+  variant: 'variant',
+  trait: 'trait',
+  type: 'type',
+  generic: 'type',
+  constant: 'variable',
+  field: 'property',
+  parameter: 'parameter',
+  variable: 'variable',
+};
+
+/**
+ * Rust frontend
+ *
+ * Built on RustLexer. Names from other crates, the standard library and the
+ * prelude, trait items implemented for external traits, members of values
+ * whose type isn't a project type, macros and module names (which match
+ * files on disk) keep their names. Named arguments of
+ * format strings ("{count}") are renamed along with the variables they refer to.
+ */
+export class RustFrontend implements LanguageFrontend {
+  readonly id = 'rust';
+  readonly extensions = ['.rs'];
+  readonly aliases = ['rs'];
+
+  private lexer = new RustLexer();
+
+  /**
+   * Collects items, fields, variants, parameters, generic parameters and
+   * pattern bindings
+   */
+  extractIdentifiers(sourceCode: string): ExtractedIdentifier[] {
+    const identifiers = new Map<string, ExtractedIdentifier>();
+
+    for (const name of this.lexer.analyze(sourceCode).names) {
+      const type = DECLARATION_TYPES[name.role];
+      if (type && !name.external && name.text.length > 1) {
+        addIdentifier(identifiers, name.text, type, name.line);
+      }
+    }
+
+    return sortIdentifiers(identifiers);
+  }
+
+  /**
+   * Line, block and doc comments; text excludes the doc markers
+   */
+  extractComments(sourceCode: string): ExtractedComment[] {
+    return this.lexer.analyze(sourceCode).comments;
+  }
+
+  collectReplacements(sourceCode: string, context: TranslationContext): TextReplacement[] {
+    const analysis = this.lexer.analyze(sourceCode);
+    const replacements: TextReplacement[] = [];
+
+    if (context.scope.identifiers) {
+      for (const name of analysis.names) {
+        if (name.role === 'module' || name.role === 'macro' || (context.sourceLang === 'en' && name.external)) continue;
+
+        const translated = context.translateIdentifier(name.text, { external: name.external });
+        if (translated) {
+          replacements.push({ start: name.start, end: name.end, newText: translated, oldText: name.text, kind: 'identifier' });
+        }
+      }
+    }
+
+    if (context.scope.stringLiterals) {
+      for (const token of analysis.strings) {
+        const open = token.open || '"';
+        const close = token.close || '"';
+        const body = token.text.slice(open.length, token.text.length - close.length);
+
+        const translated = context.translateString(body);
+        if (translated) {
+          replacements.push({
+            start: token.start,
+            end: token.end,
+            newText: `${open}${translated}${close}`,
+            oldText: token.text,
+            kind: 'string',
+          });
+        }
+      }
+    }
+
+    if (context.scope.comments) {
+      for (const comment of analysis.comments) {
+        const translated = context.translateComment(comment.text);
+        if (translated) {
+          replacements.push({
+            start: comment.pos,
+            end: comment.end,
+            newText: renderComment(translated, parseCommentLayout(comment, sourceCode)),
+            oldText: comment.fullText,
+            kind: 'comment',
+          });
+        }
+      }
+    }
+
+    return replacements;
+  }
+
+  tokenize(sourceCode: string): SyntaxToken[] {
+    return this.toSyntaxTokens(this.lexer.analyze(sourceCode).tokens);
+  }
+
+  /**
+   * Map Rust tokens onto the verifier's model
+   * Named format arguments follow their string so their names are checked too
+   */
+  private toSyntaxTokens(rustTokens: RustToken[]): SyntaxToken[] {
+    const tokens: SyntaxToken[] = [];
+
+    for (const token of rustTokens) {
+      if (token.kind === 'comment') continue;
+
+      const kind = token.kind === 'name'
+        ? ts.SyntaxKind.Identifier
+        : token.kind === 'string' ? ts.SyntaxKind.StringLiteral : ts.SyntaxKind.Unknown;
+      tokens.push({ kind, text: token.text, line: token.line });
+
+      if (token.fields) {
+        tokens.push(...this.toSyntaxTokens(token.fields));
+      }
+    }
+
+    return tokens;
+  }
+}
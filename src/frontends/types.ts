@@ -0,0 +1,122 @@
+import type { ExtractedIdentifier } from '../core/identifierExtractor';
+import type { ExtractedComment } from '../core/commentExtractor';
+import type { SyntaxKind } from 'typescript';
+import type { LanguageCode, TranslatedSpanKind, TranslationScope } from '../core/types';
+
+/**
+ * A text replacement applied to the source during translation
+ */
+export interface TextReplacement {
+  start: number;
+  end: number;
+  newText: string;
+  oldText: string;
+  /** What is translated; unset for layout changes such as comment alignment */
+  kind?: TranslatedSpanKind;
+}
+
+/**
+ * User-facing text in markup: JSX text, Vue template text and attributes
+ * such as placeholder or aria-label
+ */
+export interface ExtractedText {
+  /** Text with whitespace collapsed, used for dictionary lookups */
+  text: string;
+  /** Range of the raw text in the source (quotes and surrounding whitespace excluded) */
+  pos: number;
+  end: number;
+}
+
+/**
+ * A leaf token compared by the round-trip verifier (comments and whitespace excluded)
+ *
+ * Kinds are TypeScript's: other languages map names to Identifier, string
+ * content to StringLiteral and everything else to Unknown, which must keep
+ * its text.
+ */
+export interface SyntaxToken {
+  kind: SyntaxKind;
+  text: string;
+  /** 1-based line */
+  line: number;
+}
+
+/**
+ * Dictionary access for a single translation run
+ *
+ * Provided by UnifiedTranslator. Every lookup is recorded, so the translator
+ * can report translated, unmapped and ambiguous tokens regardless of which
+ * frontend produced them.
+ */
+export interface TranslationContext {
+  readonly sourceLang: LanguageCode;
+  readonly targetLang: LanguageCode;
+  readonly scope: TranslationScope;
+
+  /**
+   * Translate an identifier
+   * @param options.external - Name belongs to a package/built-in: never reported as unmapped
+   * @returns The translation, or undefined when there is none
+   */
+  translateIdentifier(name: string, options?: { external?: boolean }): string | undefined;
+
+  /**
+   * Translate the body of a string literal (without quotes)
+   * Strings that don't look like prose (URLs, paths, keys) are skipped
+   */
+  translateString(text: string): string | undefined;
+
+  /**
+   * Translate a comment (text without delimiters)
+   */
+  translateComment(text: string): string | undefined;
+}
+
+/**
+ * A programming language supported by the extractors and the translator
+ *
+ * Frontends are looked up by file extension (project scan, translate-code,
+ * file-saved) or by language name (intent block content). Register new ones
+ * with registerFrontend().
+ */
+export interface LanguageFrontend {
+  /** Unique language id, e.g. 'typescript' */
+  readonly id: string;
+  /** File extensions including the dot, e.g. ['.ts', '.tsx'] */
+  readonly extensions: readonly string[];
+  /** Other names the language is known by, e.g. ['javascript'] */
+  readonly aliases?: readonly string[];
+  /** Whether the TS/JS keyword dictionaries apply to this language */
+  readonly translatesKeywords?: boolean;
+  /** Documentation rather than code (markdown): left out of the code files a project scan reads */
+  readonly documentation?: boolean;
+
+  /**
+   * Extract user-defined identifiers (declarations) from source code
+   */
+  extractIdentifiers(sourceCode: string, filePath?: string): ExtractedIdentifier[];
+
+  /**
+   * Extract comments with their positions in the source code
+   */
+  extractComments(sourceCode: string, filePath?: string): ExtractedComment[];
+
+  /**
+   * Extract user-facing text that is neither a comment nor a string literal
+   * Scanned and translated under the stringLiterals scope
+   */
+  extractTexts?(sourceCode: string, filePath?: string): ExtractedText[];
+
+  /**
+   * Collect the replacements that translate the file
+   * Identifiers, strings and comments are looked up through the context;
+   * the translator applies the returned replacements.
+   */
+  collectReplacements(sourceCode: string, context: TranslationContext, filePath?: string): TextReplacement[];
+
+  /**
+   * Split the file into the tokens the round-trip verifier compares
+   * A translation may only change the text of identifiers and strings.
+   */
+  tokenize(sourceCode: string, filePath?: string): SyntaxToken[];
+}
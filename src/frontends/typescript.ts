@@ -0,0 +1,455 @@
+import * as ts from 'typescript';
+import { ScopeAnalyzer } from '../core/scopeAnalyzer';
+import { splitMessage, toMessage } from '../core/messageFormat';
+import type { ExtractedIdentifier } from '../core/identifierExtractor';
+import type { ExtractedComment } from '../core/commentExtractor';
+import { parseCommentLayout, renderComment } from '../core/commentLayout';
+import { ExtractedText, LanguageFrontend, SyntaxToken, TextReplacement, TranslationContext } from './types';
+import { addIdentifier, isTranslatableAttribute, markupText, sortIdentifiers } from './utils';
+
+/** Template tags whose templates are code or markup, never translated */
+const CODE_TEMPLATE_TAGS = new Set([
+  'css', 'sql', 'gql', 'graphql', 'html', 'svg', 'md', 'markdown', 'styled', 'keyframes',
+  'createGlobalStyle', 'injectGlobal', 'String.raw',
+]);
+
+/** Extensions that select a script kind when parsing (the rest parse as .ts) */
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+
+/**
+ * Virtual file name to parse a file under, so TypeScript picks the right
+ * script kind (JSX is only recognised in .tsx, .jsx and .js files)
+ */
+export function getScriptFileName(filePath?: string): string {
+  const extension = filePath?.match(/\.[^./\\]+$/)?.[0].toLowerCase();
+  if (extension === '.mjs' || extension === '.cjs') {
+    return 'source.js';
+  }
+  return extension && SCRIPT_EXTENSIONS.includes(extension) ? `source${extension}` : 'source.ts';
+}
+
+/**
+ * TypeScript / JavaScript frontend
+ *
+ * Uses the TypeScript compiler API: declarations are read from the AST,
+ * comments from the scanner's comment ranges, and identifiers are classified
+ * by ScopeAnalyzer so only project-declared symbols are renamed.
+ */
+export class TypeScriptFrontend implements LanguageFrontend {
+  readonly id = 'typescript';
+  readonly extensions = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+  readonly aliases = ['javascript', 'ts', 'js', 'tsx', 'jsx', 'typescriptreact', 'javascriptreact'];
+  readonly translatesKeywords = true;
+
+  /**
+   * Extract declarations (classes, functions, variables, parameters, ...)
+   */
+  extractIdentifiers(sourceCode: string, filePath?: string): ExtractedIdentifier[] {
+    const sourceFile = ts.createSourceFile(
+      getScriptFileName(filePath),
+      sourceCode,
+      ts.ScriptTarget.Latest,
+      true
+    );
+
+    const identifiers = new Map<string, ExtractedIdentifier>();
+    const add = (name: string, type: ExtractedIdentifier['type'], node: ts.Node) => {
+      addIdentifier(identifiers, name, type, sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1);
+    };
+
+    const visit = (node: ts.Node) => {
+      // Class declaration
+      if (ts.isClassDeclaration(node) && node.name) {
+        add(node.name.text, 'class', node);
+      }
+      // Function declaration
+      else if (ts.isFunctionDeclaration(node) && node.name) {
+        add(node.name.text, 'function', node);
+      }
+      // Method declaration
+      else if (ts.isMethodDeclaration(node) && ts.isIdentifier(node.name)) {
+        add(node.name.text, 'method', node);
+      }
+      // Variable declaration
+      else if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+        add(node.name.text, 'variable', node);
+      }
+      // Property declaration
+      else if (ts.isPropertyDeclaration(node) && ts.isIdentifier(node.name)) {
+        add(node.name.text, 'property', node);
+      }
+      // Parameter declaration
+      else if (ts.isParameter(node) && ts.isIdentifier(node.name)) {
+        add(node.name.text, 'parameter', node);
+      }
+      // Interface declaration
+      else if (ts.isInterfaceDeclaration(node) && node.name) {
+        add(node.name.text, 'interface', node);
+      }
+      // Type alias
+      else if (ts.isTypeAliasDeclaration(node) && node.name) {
+        add(node.name.text, 'type', node);
+      }
+      // Enum declaration
+      else if (ts.isEnumDeclaration(node) && node.name) {
+        add(node.name.text, 'enum', node);
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+
+    return sortIdentifiers(identifiers);
+  }
+
+  /**
+   * Extract all comments with their positions in the source code
+   */
+  extractComments(sourceCode: string, filePath?: string): ExtractedComment[] {
+    const sourceFile = ts.createSourceFile(
+      getScriptFileName(filePath),
+      sourceCode,
+      ts.ScriptTarget.Latest,
+      true // setParentNodes
+    );
+
+    const comments: ExtractedComment[] = [];
+
+    // Get all comment ranges from the source file
+    const commentRanges = this.getCommentRanges(sourceCode, sourceFile);
+
+    for (const range of commentRanges) {
+      const fullText = sourceCode.substring(range.pos, range.end);
+      const text = this.extractCommentText(fullText, range.kind);
+
+      comments.push({
+        text,
+        fullText,
+        pos: range.pos,
+        end: range.end,
+        kind: range.kind === ts.SyntaxKind.SingleLineCommentTrivia ? 'SingleLine' : 'MultiLine',
+      });
+    }
+
+    return comments;
+  }
+
+  /**
+   * Extract JSX text children and user-facing JSX attribute strings
+   */
+  extractTexts(sourceCode: string, filePath?: string): ExtractedText[] {
+    const sourceFile = ts.createSourceFile(
+      getScriptFileName(filePath),
+      sourceCode,
+      ts.ScriptTarget.Latest,
+      true
+    );
+
+    const texts: ExtractedText[] = [];
+
+    const visit = (node: ts.Node) => {
+      // <p>Save your changes</p>
+      if (ts.isJsxText(node)) {
+        const text = markupText(sourceCode, node.pos, node.end);
+        if (text) texts.push(text);
+      }
+      // <input placeholder="Search" />
+      else if (
+        ts.isJsxAttribute(node) &&
+        node.initializer &&
+        ts.isStringLiteral(node.initializer) &&
+        isTranslatableAttribute(node.name.getText(sourceFile))
+      ) {
+        texts.push({
+          text: node.initializer.text,
+          pos: node.initializer.getStart(sourceFile) + 1,
+          end: node.initializer.getEnd() - 1,
+        });
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+
+    return texts;
+  }
+
+  /**
+   * Collect identifier, string literal, template literal, JSX text and comment replacements
+   */
+  collectReplacements(sourceCode: string, context: TranslationContext, filePath?: string): TextReplacement[] {
+    const replacements: TextReplacement[] = [];
+
+    // Parse source code
+    const sourceFile = ts.createSourceFile(
+      getScriptFileName(filePath),
+      sourceCode,
+      ts.ScriptTarget.Latest,
+      true
+    );
+
+    // Collect identifier replacements
+    // Only symbols declared inside the project are renamed; third-party members
+    // (res.status, fs.readFileSync) and ambient declarations keep their names.
+    if (context.scope.identifiers) {
+      const scopeAnalyzer = new ScopeAnalyzer(sourceCode, { filePath, fileName: getScriptFileName(filePath) });
+
+      const collectIdentifierReplacements = (node: ts.Node) => {
+        // Foreign-script identifiers can only come from the project dictionary,
+        // so external names are only locked when translating out of English
+        const external = ts.isIdentifier(node) && scopeAnalyzer.classify(node) === 'external';
+        if (ts.isIdentifier(node) && !(context.sourceLang === 'en' && external)) {
+          const originalText = node.text;
+          const translated = context.translateIdentifier(originalText, { external });
+
+          if (translated) {
+            replacements.push({
+              start: node.getStart(scopeAnalyzer.sourceFile),
+              end: node.getEnd(),
+              newText: translated,
+              oldText: originalText,
+              kind: 'identifier',
+            });
+          }
+        }
+
+        ts.forEachChild(node, collectIdentifierReplacements);
+      };
+
+      collectIdentifierReplacements(scopeAnalyzer.sourceFile);
+    }
+
+    // Collect string literal replacements
+    // JSX attribute strings are markup (className, href) unless extractTexts lists them
+    if (context.scope.stringLiterals) {
+      const collectStringLiteralReplacements = (node: ts.Node) => {
+        if (ts.isStringLiteral(node) && !ts.isJsxAttribute(node.parent)) {
+          const translated = context.translateString(node.text);
+          if (translated) {
+            // Preserve the original quote style
+            const fullText = node.getText(sourceFile);
+            const quote = fullText.charAt(0);
+            replacements.push({
+              start: node.getStart(sourceFile),
+              end: node.getEnd(),
+              newText: `${quote}${translated}${quote}`,
+              oldText: fullText,
+              kind: 'string',
+            });
+          }
+        }
+        // `Deleted ${count} files` is translated as the message 'Deleted {0} files'
+        else if (
+          (ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node)) &&
+          !(ts.isTaggedTemplateExpression(node.parent) && this.isCodeTag(node.parent.tag, sourceFile))
+        ) {
+          replacements.push(...this.collectTemplateReplacements(node, sourceFile, context));
+        }
+
+        ts.forEachChild(node, collectStringLiteralReplacements);
+      };
+
+      collectStringLiteralReplacements(sourceFile);
+
+      for (const text of this.extractTexts(sourceCode, filePath)) {
+        const translated = context.translateString(text.text);
+        // Braces and angle brackets would turn the text into JSX syntax, quotes end an attribute
+        if (translated && !/[{}<>"]/.test(translated)) {
+          replacements.push({
+            start: text.pos,
+            end: text.end,
+            newText: translated,
+            oldText: sourceCode.slice(text.pos, text.end),
+            kind: 'text',
+          });
+        }
+      }
+    }
+
+    // Collect comment replacements
+    if (context.scope.comments) {
+      for (const comment of this.extractComments(sourceCode, filePath)) {
+        const translated = context.translateComment(comment.text);
+        if (translated) {
+          replacements.push({
+            start: comment.pos,
+            end: comment.end,
+            newText: renderComment(translated, parseCommentLayout(comment, sourceCode)),
+            oldText: comment.fullText,
+            kind: 'comment',
+          });
+        }
+      }
+    }
+
+    return replacements;
+  }
+
+  /**
+   * Leaf tokens of the syntax tree, with lines numbered from `firstLine`
+   * JSDoc nodes are skipped so that comments never take part in the comparison
+   */
+  tokenize(sourceCode: string, filePath?: string, firstLine = 1): SyntaxToken[] {
+    const sourceFile = ts.createSourceFile(getScriptFileName(filePath), sourceCode, ts.ScriptTarget.Latest, true);
+    const tokens: SyntaxToken[] = [];
+
+    const visit = (node: ts.Node) => {
+      if (node.kind >= ts.SyntaxKind.FirstJSDocNode && node.kind <= ts.SyntaxKind.LastJSDocNode) {
+        return;
+      }
+
+      const children = node.getChildren(sourceFile);
+      if (children.length === 0) {
+        if (node.kind !== ts.SyntaxKind.EndOfFileToken) {
+          const start = node.getStart(sourceFile);
+          tokens.push({
+            kind: node.kind,
+            text: node.getText(sourceFile),
+            line: sourceFile.getLineAndCharacterOfPosition(start).line + firstLine,
+          });
+        }
+        return;
+      }
+
+      children.forEach(visit);
+    };
+
+    visit(sourceFile);
+    return tokens;
+  }
+
+  /**
+   * Translate the literal parts of a template as one message
+   * Expressions stay in place; a translation that drops or reorders
+   * placeholders is ignored.
+   */
+  private collectTemplateReplacements(
+    node: ts.NoSubstitutionTemplateLiteral | ts.TemplateExpression,
+    sourceFile: ts.SourceFile,
+    context: TranslationContext
+  ): TextReplacement[] {
+    // Text between the backtick / `}` and the backtick / `${` of each literal
+    const literals = ts.isNoSubstitutionTemplateLiteral(node)
+      ? [node]
+      : [node.head, ...node.templateSpans.map(span => span.literal)];
+    const ranges = literals.map(literal => ({
+      start: literal.getStart(sourceFile) + 1,
+      end: literal.getEnd() - (ts.isTemplateHead(literal) || ts.isTemplateMiddle(literal) ? 2 : 1),
+    }));
+    const parts = ranges.map(range => sourceFile.text.slice(range.start, range.end));
+
+    const message = toMessage(parts);
+    const translated = message === undefined ? undefined : context.translateString(message);
+    const translatedParts = translated === undefined ? undefined : splitMessage(translated, parts.length - 1);
+    if (!translatedParts) {
+      return [];
+    }
+
+    return ranges
+      .map((range, i): TextReplacement => ({
+        start: range.start,
+        end: range.end,
+        newText: this.escapeTemplateText(translatedParts[i]),
+        oldText: parts[i],
+        kind: 'string',
+      }))
+      .filter(replacement => replacement.newText !== replacement.oldText);
+  }
+
+  /**
+   * Tags whose templates hold code or markup rather than prose (css``, sql``, String.raw``)
+   */
+  private isCodeTag(tag: ts.Expression, sourceFile: ts.SourceFile): boolean {
+    const text = tag.getText(sourceFile);
+    const name = text.split('.')[0].replace(/\(.*$/, '');
+    return CODE_TEMPLATE_TAGS.has(name) || CODE_TEMPLATE_TAGS.has(text);
+  }
+
+  /**
+   * Escape backticks and `${` that would end the template or start an expression
+   */
+  private escapeTemplateText(text: string): string {
+    return text.replace(/(^|[^\\])(`|\$\{)/g, '$1\\$2');
+  }
+
+  /**
+   * Get all comment ranges in the source file
+   * Uses AST traversal to find all comments reliably
+   */
+  private getCommentRanges(
+    sourceCode: string,
+    sourceFile: ts.SourceFile
+  ): Array<{ pos: number; end: number; kind: ts.SyntaxKind }> {
+    const ranges: Array<{ pos: number; end: number; kind: ts.SyntaxKind }> = [];
+    const seen = new Set<string>(); // Track unique positions to avoid duplicates
+
+    // Helper to add comment if not already seen
+    const addComments = (commentRanges: ts.CommentRange[] | undefined) => {
+      if (!commentRanges) return;
+      for (const comment of commentRanges) {
+        const key = `${comment.pos}-${comment.end}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          ranges.push(comment);
+        }
+      }
+    };
+
+    // Traverse the entire AST to find all comments
+    const visit = (node: ts.Node) => {
+      const fullText = sourceCode;
+      const nodeStart = node.getFullStart();
+      const nodeEnd = node.getEnd();
+
+      // Get leading comments (comments before this node)
+      const leadingComments = ts.getLeadingCommentRanges(fullText, nodeStart);
+      addComments(leadingComments);
+
+      // Get trailing comments (comments after this node, on same line)
+      const trailingComments = ts.getTrailingCommentRanges(fullText, nodeEnd);
+      addComments(trailingComments);
+
+      // Recursively visit children
+      ts.forEachChild(node, visit);
+    };
+
+    // Start traversal from root
+    visit(sourceFile);
+
+    // Also scan the entire text to catch any comments that might be missed
+    // (e.g., comments at the end of the file with no following tokens)
+    let pos = 0;
+    while (pos < sourceCode.length) {
+      const leadingComments = ts.getLeadingCommentRanges(sourceCode, pos);
+      if (leadingComments && leadingComments.length > 0) {
+        addComments(leadingComments);
+        pos = leadingComments[leadingComments.length - 1].end;
+      } else {
+        pos++;
+      }
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Extract comment text without delimiters
+   */
+  private extractCommentText(fullText: string, kind: ts.SyntaxKind): string {
+    if (kind === ts.SyntaxKind.SingleLineCommentTrivia) {
+      // Remove '//' prefix
+      return fullText.replace(/^\/\/\s?/, '');
+    } else {
+      // Remove '/*' prefix and '*/' suffix, and clean up interior '*' markers
+      return fullText
+        .replace(/^\/\*\s?/, '')
+        .replace(/\s?\*\/$/, '')
+        .split('\n')
+        .map(line => line.replace(/^\s*\*\s?/, '').trimEnd())
+        .join('\n')
+        .trim();
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import type { ExtractedIdentifier } from '../core/identifierExtractor';
+import type { ExtractedText, TextReplacement } from './types';
+
+/**
+ * Add an identifier to the map, incrementing its count if already present
+ */
+export function addIdentifier(
+  identifiers: Map<string, ExtractedIdentifier>,
+  name: string,
+  type: ExtractedIdentifier['type'],
+  line: number
+): void {
+  const existing = identifiers.get(name);
+  if (existing) {
+    existing.count++;
+  } else {
+    identifiers.set(name, { name, type, line, count: 1 });
+  }
+}
+
+/**
+ * Identifiers sorted by name
+ */
+export function sortIdentifiers(identifiers: Map<string, ExtractedIdentifier>): ExtractedIdentifier[] {
+  return Array.from(identifiers.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Markup attributes whose values are shown to the user */
+const TRANSLATABLE_ATTRIBUTES = new Set([
+  'placeholder', 'title', 'alt', 'label',
+  'aria-label', 'aria-description', 'aria-placeholder', 'aria-roledescription', 'aria-valuetext',
+]);
+
+/**
+ * Check whether a markup attribute holds user-facing text (placeholder, title, aria-label, ...)
+ */
+export function isTranslatableAttribute(name: string): boolean {
+  return TRANSLATABLE_ATTRIBUTES.has(name);
+}
+
+/**
+ * Markup text between start and end, with whitespace collapsed and the range trimmed
+ * Returns undefined for whitespace-only text
+ */
+export function markupText(sourceCode: string, start: number, end: number): ExtractedText | undefined {
+  const raw = sourceCode.slice(start, end);
+  const text = raw.replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return undefined;
+  }
+  return {
+    text,
+    pos: start + (raw.length - raw.trimStart().length),
+    end: end - (raw.length - raw.trimEnd().length),
+  };
+}
+
+/**
+ * Apply replacements from end to beginning so earlier positions stay valid
+ */
+export function applyReplacements(sourceCode: string, replacements: TextReplacement[]): string {
+  const sorted = [...replacements].sort((a, b) => b.start - a.start);
+
+  let code = sourceCode;
+  for (const replacement of sorted) {
+    code =
+      code.substring(0, replacement.start) +
+      replacement.newText +
+      code.substring(replacement.end);
+  }
+  return code;
+}
@@ -0,0 +1,419 @@
+import * as ts from 'typescript';
+import type { ExtractedIdentifier } from '../core/identifierExtractor';
+import type { ExtractedComment } from '../core/commentExtractor';
+import { SfcParser, SfcBlock, TemplateAttribute, TemplateNode, isDirective, isVoidElement } from '../core/sfcParser';
+import { ExtractedText, LanguageFrontend, SyntaxToken, TextReplacement, TranslationContext } from './types';
+import { TypeScriptFrontend } from './typescript';
+import { isTranslatableAttribute, markupText } from './utils';
+
+/**
+ * A range of the virtual script copied verbatim from the component
+ */
+interface Segment {
+  virtualStart: number;
+  sourceStart: number;
+  length: number;
+}
+
+/**
+ * All script code of a component as one TypeScript document
+ */
+interface VirtualDocument {
+  code: string;
+  path: string;
+  segments: Segment[];
+  blocks: SfcBlock[];
+  template: TemplateNode[];
+  /** Tag names that may refer to imported components */
+  components: Set<string>;
+}
+
+/** Prefix of the names the virtual document adds around template expressions */
+const GLUE_PREFIX = '__kawa';
+
+/**
+ * Vue single-file component frontend
+ *
+ * Every <script> / <script setup> block and every template expression
+ * ({{ }}, v-if, :prop, @event, v-for, slot props) is copied into one virtual
+ * TypeScript document, so a name declared in the script and used in the
+ * template resolves to the same symbol and is renamed everywhere at once.
+ * Replacements are mapped back onto the component; anything that falls on
+ * the glue code between the copied ranges is dropped, which keeps the
+ * component's markup intact.
+ *
+ * Template text and user-facing attributes (placeholder, title, aria-label)
+ * are translated as strings and HTML comments as comments. Tag names are never renamed, and script names matching a tag
+ * (<TodoItem> for `import TodoItem`) keep their spelling.
+ */
+export class VueFrontend implements LanguageFrontend {
+  readonly id = 'vue';
+  readonly extensions = ['.vue'];
+
+  private parser = new SfcParser();
+
+  constructor(private script: TypeScriptFrontend) {}
+
+  extractIdentifiers(sourceCode: string, filePath?: string): ExtractedIdentifier[] {
+    const doc = this.buildDocument(sourceCode, filePath);
+    const lineStarts = this.lineStarts(doc.code);
+
+    return this.script.extractIdentifiers(doc.code, doc.path)
+      .filter(identifier => !identifier.name.startsWith(GLUE_PREFIX))
+      .map(identifier => {
+        const lineStart = lineStarts[identifier.line - 1];
+        const segment = doc.segments.find(s => s.virtualStart + s.length > lineStart);
+        if (!segment) return identifier;
+
+        const virtualPos = Math.max(lineStart, segment.virtualStart);
+        const sourcePos = segment.sourceStart + (virtualPos - segment.virtualStart);
+        return { ...identifier, line: sourceCode.slice(0, sourcePos).split('\n').length };
+      });
+  }
+
+  extractComments(sourceCode: string, filePath?: string): ExtractedComment[] {
+    const doc = this.buildDocument(sourceCode, filePath);
+    const comments: ExtractedComment[] = [];
+
+    for (const comment of this.script.extractComments(doc.code, doc.path)) {
+      const pos = this.toSource(doc, comment.pos, comment.end);
+      if (pos !== undefined) {
+        comments.push({ ...comment, pos, end: pos + (comment.end - comment.pos) });
+      }
+    }
+
+    // HTML comments outside <script> and <style>: <!-- comment -->
+    const htmlCommentRegex = /<!--([\s\S]*?)-->/g;
+    let match;
+    while ((match = htmlCommentRegex.exec(sourceCode)) !== null) {
+      const pos = match.index;
+      if (doc.blocks.some(block => block.type !== 'template' && pos >= block.contentStart && pos < block.contentEnd)) {
+        continue;
+      }
+      comments.push({
+        text: match[1].trim(),
+        fullText: match[0],
+        pos,
+        end: pos + match[0].length,
+        kind: 'MultiLine',
+      });
+    }
+
+    return comments.sort((a, b) => a.pos - b.pos);
+  }
+
+  /**
+   * Extract template text and user-facing static attributes (placeholder, title, ...)
+   */
+  extractTexts(sourceCode: string, filePath?: string): ExtractedText[] {
+    return this.templateTexts(sourceCode, this.buildDocument(sourceCode, filePath).template);
+  }
+
+  collectReplacements(sourceCode: string, context: TranslationContext, filePath?: string): TextReplacement[] {
+    const doc = this.buildDocument(sourceCode, filePath);
+    const replacements: TextReplacement[] = [];
+
+    // Glue names are not part of the component, tag names are fixed by the markup
+    const scriptContext: TranslationContext = {
+      ...context,
+      translateIdentifier: (name, options) =>
+        name.startsWith(GLUE_PREFIX) || doc.components.has(name)
+          ? undefined
+          : context.translateIdentifier(name, options),
+    };
+
+    for (const replacement of this.script.collectReplacements(doc.code, scriptContext, doc.path)) {
+      const start = this.toSource(doc, replacement.start, replacement.end);
+      if (start !== undefined) {
+        replacements.push({ ...replacement, start, end: start + (replacement.end - replacement.start) });
+      }
+    }
+
+    if (context.scope.stringLiterals) {
+      for (const text of this.templateTexts(sourceCode, doc.template)) {
+        const translated = context.translateString(text.text);
+        // Angle brackets and mustaches would turn the text into markup, quotes end an attribute
+        if (translated && !/[<>"]|\{\{|\}\}/.test(translated)) {
+          replacements.push({
+            start: text.pos,
+            end: text.end,
+            newText: translated,
+            oldText: sourceCode.slice(text.pos, text.end),
+            kind: 'text',
+          });
+        }
+      }
+    }
+
+    if (context.scope.comments) {
+      for (const comment of this.extractComments(sourceCode, filePath)) {
+        if (!comment.fullText.startsWith('<!--')) continue;
+
+        const translated = context.translateComment(comment.text);
+        if (translated) {
+          // Keep the whitespace around the original comment text
+          const [, leading, , trailing] = comment.fullText.match(/^<!--(\s*)([\s\S]*?)(\s*)-->$/) || [];
+          replacements.push({
+            start: comment.pos,
+            end: comment.end,
+            newText: `<!--${leading || ' '}${translated}${trailing || ' '}-->`,
+            oldText: comment.fullText,
+            kind: 'comment',
+          });
+        }
+      }
+    }
+
+    return replacements;
+  }
+
+  /**
+   * Scripts and template expressions are compared as TypeScript, text nodes and
+   * user-facing attributes as strings, and the rest of the markup must not change
+   */
+  tokenize(sourceCode: string): SyntaxToken[] {
+    const tokens: SyntaxToken[] = [];
+    const lineAt = (pos: number) => sourceCode.slice(0, pos).split('\n').length;
+    const markup = (text: string, pos: number) => {
+      tokens.push({ kind: ts.SyntaxKind.Unknown, text, line: lineAt(pos) });
+    };
+    const script = (start: number, end: number) => {
+      tokens.push(...this.script.tokenize(sourceCode.slice(start, end), undefined, lineAt(start)));
+    };
+
+    for (const block of this.parser.parse(sourceCode)) {
+      markup(sourceCode.slice(block.start, block.contentStart), block.start);
+
+      if (block.type === 'script') {
+        script(block.contentStart, block.contentEnd);
+      } else if (block.type === 'template') {
+        for (const node of this.parser.parseTemplate(sourceCode, block.contentStart, block.contentEnd)) {
+          if (node.kind === 'interpolation') {
+            script(node.expressionStart, node.expressionEnd);
+          } else if (node.kind === 'text' && node.text.trim()) {
+            tokens.push({ kind: ts.SyntaxKind.StringLiteral, text: node.text.trim(), line: lineAt(node.start) });
+          } else if (node.kind === 'tag') {
+            markup(`${node.closing ? '</' : '<'}${node.name}`, node.start);
+            for (const attribute of node.attributes) {
+              markup(attribute.name, attribute.start);
+              if (attribute.valueStart === undefined || attribute.valueEnd === undefined) continue;
+
+              if (isDirective(attribute.name)) {
+                script(attribute.valueStart, attribute.valueEnd);
+              } else if (isTranslatableAttribute(attribute.name)) {
+                tokens.push({ kind: ts.SyntaxKind.StringLiteral, text: attribute.value!, line: lineAt(attribute.valueStart) });
+              } else {
+                markup(attribute.value!, attribute.valueStart);
+              }
+            }
+          }
+        }
+      } else {
+        markup(sourceCode.slice(block.contentStart, block.contentEnd), block.contentStart);
+      }
+
+      markup(sourceCode.slice(block.contentEnd, block.end), block.contentEnd);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Copy the script blocks and template expressions into a virtual document
+   *
+   * Template expressions are wrapped so they parse as statements, and scopes
+   * opened by an element enclose the element's content:
+   *   {{ total }}, v-if="open"        → (total);
+   *   :items="list"                  → __kawaBind(list);  (object keys stay as written)
+   *   @click="add(item)"             → { add(item) }
+   *   v-for="(item, i) in items"     → (items); ((item, i) => { ...content... });
+   *   #row="{ item }"                → (({ item }) => { ...content... });
+   */
+  private buildDocument(sourceCode: string, filePath?: string): VirtualDocument {
+    const blocks = this.parser.parse(sourceCode);
+    const segments: Segment[] = [];
+    let code = '';
+    let isTypeScript = false;
+
+    const append = (text: string) => {
+      code += text;
+    };
+    const copy = (start: number, end: number) => {
+      segments.push({ virtualStart: code.length, sourceStart: start, length: end - start });
+      code += sourceCode.slice(start, end);
+    };
+
+    for (const block of blocks) {
+      if (block.type !== 'script') continue;
+      copy(block.contentStart, block.contentEnd);
+      append('\n;\n');
+      isTypeScript = isTypeScript || /\slang=["'](ts|tsx|typescript)["']/i.test(block.attrs);
+    }
+
+    // Templates in other languages (pug) are left alone
+    const templateBlock = blocks.find(block => block.type === 'template');
+    const template = templateBlock && !/\slang=["'](?!html)/i.test(templateBlock.attrs)
+      ? this.parser.parseTemplate(sourceCode, templateBlock.contentStart, templateBlock.contentEnd)
+      : [];
+    const components = new Set<string>();
+    const openElements: Array<{ name: string; scopes: number }> = [];
+    const closeScopes = (count: number) => append('});\n'.repeat(count));
+
+    append(`declare function ${GLUE_PREFIX}Bind(${GLUE_PREFIX}Value: any): void;\nfunction ${GLUE_PREFIX}Template() {\n`);
+    for (const node of template) {
+      if (node.kind === 'interpolation') {
+        append('(');
+        copy(node.expressionStart, node.expressionEnd);
+        append(');\n');
+      } else if (node.kind === 'tag' && !node.closing) {
+        // <TodoItem> and <todo-item> both refer to TodoItem; plain HTML tags don't
+        if (/^[A-Z]/.test(node.name) || node.name.includes('-')) {
+          components.add(node.name);
+          components.add(node.name.replace(/(^|-)(\w)/g, (_, _dash, char: string) => char.toUpperCase()));
+        }
+
+        // v-for aliases are visible to the element's own attributes, slot props only to its content
+        const loop = node.attributes.find(attribute => attribute.name === 'v-for');
+        const slot = node.attributes.find(attribute => this.isSlot(attribute.name));
+        let scopes = loop && this.openScope(loop, append, copy) ? 1 : 0;
+        for (const attribute of node.attributes) {
+          if (attribute !== loop && attribute !== slot) {
+            this.appendExpression(attribute, append, copy);
+          }
+        }
+        scopes += slot && this.openScope(slot, append, copy) ? 1 : 0;
+
+        if (node.selfClosing || isVoidElement(node.name)) {
+          closeScopes(scopes);
+        } else {
+          openElements.push({ name: node.name, scopes });
+        }
+      } else if (node.kind === 'tag') {
+        const index = openElements.map(element => element.name).lastIndexOf(node.name);
+        if (index !== -1) {
+          closeScopes(openElements.splice(index).reduce((sum, element) => sum + element.scopes, 0));
+        }
+      }
+    }
+    closeScopes(openElements.reduce((sum, element) => sum + element.scopes, 0));
+    append('}\n');
+
+    return {
+      code,
+      path: filePath ? `${filePath}${isTypeScript ? '.ts' : '.js'}` : 'component.vue.ts',
+      segments,
+      blocks,
+      template,
+      components,
+    };
+  }
+
+  /**
+   * Open the scope declared by a v-for or slot attribute
+   * Returns false when the attribute declares nothing
+   */
+  private openScope(
+    attribute: TemplateAttribute,
+    append: (text: string) => void,
+    copy: (start: number, end: number) => void
+  ): boolean {
+    const { value, valueStart, valueEnd } = attribute;
+    if (!value?.trim() || valueStart === undefined || valueEnd === undefined) {
+      return false;
+    }
+
+    if (!this.isSlot(attribute.name)) {
+      const match = /\s(?:in|of)\s/.exec(value);
+      if (!match) return false;
+
+      append('(');
+      copy(valueStart + match.index + match[0].length, valueEnd);
+      append(');\n');
+
+      // (item, index) in items: copy the aliases without their parentheses
+      const alias = value.slice(0, match.index);
+      const open = alias.indexOf('(');
+      const close = alias.lastIndexOf(')');
+      const wrapped = open !== -1 && close > open && !alias.slice(0, open).trim();
+      append('((');
+      copy(valueStart + (wrapped ? open + 1 : 0), valueStart + (wrapped ? close : match.index));
+      append(') => {\n');
+      return true;
+    }
+
+    append('((');
+    copy(valueStart, valueEnd);
+    append(') => {\n');
+    return true;
+  }
+
+  /**
+   * Add the expression of a directive attribute to the virtual document
+   */
+  private appendExpression(
+    attribute: TemplateAttribute,
+    append: (text: string) => void,
+    copy: (start: number, end: number) => void
+  ): void {
+    const { name, value, valueStart, valueEnd } = attribute;
+    if (!isDirective(name) || !value?.trim() || valueStart === undefined || valueEnd === undefined) {
+      return;
+    }
+
+    if (name.startsWith('@') || name.startsWith('v-on')) {
+      append('{ ');
+      copy(valueStart, valueEnd);
+      append('\n}\n');
+    } else if (name.startsWith(':') || name.startsWith('v-bind')) {
+      append(`${GLUE_PREFIX}Bind(`);
+      copy(valueStart, valueEnd);
+      append(');\n');
+    } else {
+      append('(');
+      copy(valueStart, valueEnd);
+      append(');\n');
+    }
+  }
+
+  private isSlot(name: string): boolean {
+    return name.startsWith('#') || name.startsWith('v-slot');
+  }
+
+  private templateTexts(sourceCode: string, template: TemplateNode[]): ExtractedText[] {
+    const texts: ExtractedText[] = [];
+
+    for (const node of template) {
+      // <button>Save changes</button>
+      if (node.kind === 'text') {
+        const text = markupText(sourceCode, node.start, node.end);
+        if (text) texts.push(text);
+      }
+      // <input placeholder="Search">
+      else if (node.kind === 'tag') {
+        for (const attribute of node.attributes) {
+          if (isTranslatableAttribute(attribute.name) && attribute.value?.trim()) {
+            texts.push({ text: attribute.value, pos: attribute.valueStart!, end: attribute.valueEnd! });
+          }
+        }
+      }
+    }
+
+    return texts;
+  }
+
+  /**
+   * Map a virtual range back to the component, if it lies inside one copied segment
+   */
+  private toSource(doc: VirtualDocument, start: number, end: number): number | undefined {
+    const segment = doc.segments.find(s => start >= s.virtualStart && end <= s.virtualStart + s.length);
+    return segment ? segment.sourceStart + (start - segment.virtualStart) : undefined;
+  }
+
+  private lineStarts(code: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < code.length; i++) {
+      if (code[i] === '\n') starts.push(i + 1);
+    }
+    return starts;
+  }
+}
@@ -24,14 +24,25 @@ import {
 } from './ipc/server';
 import { Translator } from './core/translator';
 import { UnifiedTranslator } from './core/unifiedTranslator';
+import { RoundTripVerifier } from './core/roundTrip';
+import { CompoundComposer } from './core/compounds';
+import { getSentences } from './core/segmenter';
 import { DictionaryManager } from './dictionary/manager';
+import type { MultiLangDictionary } from './dictionary/multiLang';
+import type { TermRules } from './core/termRules';
+import { TranslatedFileWriter } from './core/translatedFileWriter';
+import { invertTranslations } from './dictionary/collisions';
+import { ProjectGlossary, GlossaryEntryKind } from './dictionary/projectGlossary';
 import { IdentifierExtractor } from './core/identifierExtractor';
 import { CommentExtractor } from './core/commentExtractor';
 import { MarkdownExtractor } from './core/markdownExtractor';
+import { getFrontend, getFrontendForFile, getSupportedExtensions } from './frontends';
+import { getEnabledLanguages } from './languages';
 import { IPCMessage } from './ipc/protocol';
-import { LanguageCode, TranslationScope } from './core/types';
+import { IdentifierContext, LanguageCode, TranslationScope } from './core/types';
 import type { TranslationProgressCallback } from './claude';
 import { getTranslationBackend, resetTranslationBackend } from './translation';
+import type { TranslationBackend } from './translation';
 import { setAuthState, setRefreshTokenCallback } from './auth/store';
 import {
   handleGetIntentsForFile,
@@ -46,7 +57,7 @@ import {
   handleGetBlockContentTranslated,
   handleDirectGetBlockContentTranslated,
 } from './intent/handlers';
-import { getTranslationScope, setTranslationScope, getTranslationMode, setTranslationMode } from './config/settings';
+import { getTranslationScope, setTranslationScope, getTranslationMode, setTranslationMode, getOpenAICompatibleSettings, setOpenAICompatibleSettings } from './config/settings';
 import type { TranslationMode } from './config/settings';
 
 const EXTENSION_ID = 'i18n';
@@ -67,6 +78,8 @@ interface PendingTranslation {
   targetLang: LanguageCode;
   workspaceRoot: string;
   identifiers: string[];
+  /** Where the identifiers are declared, for the translation prompt */
+  contexts: Record<string, IdentifierContext>;
   comments: string[];
   stats: {
     files: number;
@@ -239,7 +252,8 @@ async function handleTranslateCode(message: IPCMessage): Promise<any> {
     const { dictionary, existsOnAPI } = await dictionaryManager.loadMultiLang(
       origin,
       sourceLang,
-      targetLang as LanguageCode
+      targetLang as LanguageCode,
+      message.data?.projectRoot
     );
     log(`[TIMING] Dictionary loaded in ${Date.now() - dictStartTime}ms, terms: ${dictionary.getTermCount()}`);
 
@@ -254,10 +268,17 @@ async function handleTranslateCode(message: IPCMessage): Promise<any> {
     // The dictionary should already contain all terms from a prior project scan.
 
     // Use the loaded dictionary directly for translation
-    const translator = new UnifiedTranslator(dictionary);
+    const translator = new UnifiedTranslator(dictionary, dictionaryManager.getTermRules(origin, sourceLang, targetLang as LanguageCode));
+
+    // Resolve the file on disk so its relative imports count as project symbols
+    const path = await import('path');
+    const projectRoot = message.data?.projectRoot;
+    const absolutePath = filePath && projectRoot && !path.isAbsolute(filePath)
+      ? path.join(projectRoot, filePath)
+      : filePath;
 
     const translateStartTime = Date.now();
-    const result = translator.translate(code, sourceLang, targetLang as LanguageCode, scope);
+    const result = translator.translate(code, sourceLang, targetLang as LanguageCode, scope, absolutePath);
     log(`[TIMING] Code translated in ${Date.now() - translateStartTime}ms, tokens: ${result.translatedTokens.length}`);
 
     // NOTE: No progress popup here - this is just applying cached dictionary translations,
@@ -267,12 +288,26 @@ async function handleTranslateCode(message: IPCMessage): Promise<any> {
     const totalTime = Date.now() - startTime;
     log(`[TIMING] Total translation time: ${totalTime}ms`);
 
+    // Files using a translation shared by several English terms can't be
+    // saved back losslessly until the collision is resolved
+    const ambiguousTokens = result.ambiguousTokens || [];
+    if (ambiguousTokens.length > 0) {
+      log(`[TranslateCode] ${filePath} is not round-trippable, ambiguous terms: ${ambiguousTokens.join(', ')}`);
+    }
+    if (result.rejectedStrings?.length) {
+      log(`[TranslateCode] ${filePath}: ignored ${result.rejectedStrings.length} string translation(s) that drop or reorder placeholders`);
+    }
+
     // Cache result (scope-aware)
     const translationResult = {
       success: true,
       code: result.code,
       translatedTokens: result.translatedTokens,
       unmappedTokens: result.unmappedTokens,
+      ambiguousTokens,
+      roundTrippable: ambiguousTokens.length === 0,
+      sourceMap: result.sourceMap,
+      spans: result.spans,
     };
     translationCache.set(code, sourceLang, targetLang, translationResult, scope);
 
@@ -371,7 +406,8 @@ async function translateNewTerms(
 
     const backend = getTranslationBackend();
     if ('origin' in backend) (backend as any).origin = origin;
-    const translations = await backend.translateIdentifiers(terms, sourceLang, targetLang);
+    const rules = dictionaryManager.getTermRules(origin, sourceLang, targetLang);
+    const translations = await backend.translateIdentifiers(terms, sourceLang, targetLang, undefined, rules);
 
     const translatedCount = Object.keys(translations).length;
     log(`Successfully translated ${translatedCount} new terms via ${backend.name} backend`);
@@ -387,12 +423,12 @@ async function translateNewTerms(
       termsToStore = translations;
     } else {
       // JA→EN: translations are { foreign: english }, need to flip for dictionary
-      termsToStore = {};
-      for (const [foreignTerm, englishTerm] of Object.entries(translations)) {
-        termsToStore[englishTerm] = foreignTerm;
-      }
+      // (English words claimed by two foreign terms get a numeric suffix)
+      const existing = dictionaryManager.getTerms(origin, dictLang);
+      termsToStore = invertTranslations(translations, existing).terms;
     }
 
+    // Colliding foreign translations are disambiguated by the manager
     dictionaryManager.addTerms(origin, dictLang, termsToStore);
     log(`Stored terms in dictionary: ${JSON.stringify(termsToStore)}`);
   } catch (error: any) {
@@ -434,7 +470,7 @@ async function translateNewComments(
 /**
  * Translate project in background using local Claude CLI (fire and forget)
  */
-async function translateProjectInBackground(taskId: string, origin: string, targetLang: LanguageCode, identifierNames: string[], comments: string[], _context: string): Promise<void> {
+async function translateProjectInBackground(taskId: string, origin: string, targetLang: LanguageCode, identifierNames: string[], comments: string[], contexts: Record<string, IdentifierContext>): Promise<void> {
   try {
     log(`Background translation started for ${origin} (${targetLang}) - using local Claude CLI`);
 
@@ -467,12 +503,14 @@ async function translateProjectInBackground(taskId: string, origin: string, targ
     };
 
     const backend = getTranslationBackend();
-    const translateResult = await backend.translateProject(
+    const translateResult = await translateProjectWithDictionary(
+      backend,
+      origin,
       identifierNames,
       comments,
-      'en', // Source is always English for project scan
       targetLang,
-      onTranslationProgress
+      onTranslationProgress,
+      contexts
     );
 
     log(`Translation complete (${backend.name}): ${translateResult.totalTerms} terms and ${translateResult.totalComments} comments`);
@@ -494,6 +532,7 @@ async function translateProjectInBackground(taskId: string, origin: string, targ
       totalComments: translateResult.totalComments,
       batchCount: 1,
     });
+    newDictionary.senses = translateResult.senses;
 
     // Save dictionary to cache (use module-level manager so memory cache stays in sync)
     dictionaryManager.import(JSON.stringify(newDictionary));
@@ -538,6 +577,64 @@ async function translateProjectInBackground(taskId: string, origin: string, targ
   }
 }
 
+/**
+ * Translate a project's identifiers and comments from English
+ *
+ * Compound identifiers whose words are already in the dictionary
+ * (getUserById with user known) are composed from the language's patterns
+ * instead of being sent to the backend, and the backend's translations are
+ * conformed to the same patterns (see src/core/compounds.ts).
+ *
+ * Comments are translated and stored sentence by sentence (see
+ * src/core/segmenter.ts), so only sentences missing from the dictionary are
+ * sent. Sentences close to one translated before reuse its translation when
+ * the edit only changed identifiers or numbers; otherwise the earlier
+ * translation goes to the backend as a reference (see
+ * src/dictionary/translationMemory.ts).
+ */
+async function translateProjectWithDictionary(
+  backend: TranslationBackend,
+  origin: string,
+  identifiers: string[],
+  comments: string[],
+  targetLang: LanguageCode,
+  onProgress: TranslationProgressCallback,
+  contexts: Record<string, IdentifierContext>
+): ReturnType<TranslationBackend['translateProject']> {
+  const rules = dictionaryManager.getTermRules(origin, 'en', targetLang);
+  const { dictionary } = await dictionaryManager.loadMultiLang(origin, 'en', targetLang);
+  const composer = new CompoundComposer(targetLang, term => dictionary.getTranslation(term, 'en', targetLang), rules);
+
+  const { composed, remaining } = composer.composeAll(identifiers);
+  if (Object.keys(composed).length > 0) {
+    log(`[Compounds] Composed ${Object.keys(composed).length} identifiers from known words, ${remaining.length} left to translate`);
+  }
+
+  const sentences = Array.from(new Set(comments.flatMap(getSentences)))
+    .filter(sentence => dictionary.getCommentTranslation(sentence, targetLang) === undefined);
+  log(`[Segmenter] ${comments.length} texts have ${sentences.length} sentences to translate`);
+
+  const memory = dictionary.getTranslationMemory(targetLang).lookup(sentences);
+  const reusedCount = Object.keys(memory.reused).length;
+  const referencedCount = Object.keys(memory.references).length;
+  if (reusedCount > 0 || referencedCount > 0) {
+    log(`[TranslationMemory] Reused ${reusedCount} near-match translations, ${referencedCount} of ${memory.remaining.length} comments left to translate have references`);
+  }
+
+  const result = await backend.translateProject(
+    remaining, memory.remaining, 'en', targetLang, onProgress, rules, contexts, memory.references
+  );
+  const terms = { ...composer.conform(result.terms), ...composed };
+  const translatedComments = { ...result.comments, ...memory.reused };
+  return {
+    ...result,
+    terms,
+    comments: translatedComments,
+    totalTerms: Object.keys(terms).length,
+    totalComments: Object.keys(translatedComments).length,
+  };
+}
+
 /**
  * Check if a string contains non-English characters
  * Used to identify identifiers that need translation to/from English
@@ -623,6 +720,107 @@ async function handleAddTerms(message: IPCMessage): Promise<any> {
   }
 }
 
+/**
+ * Handle resolve-collisions request
+ * Lists or disambiguates foreign words shared by several English terms
+ */
+async function handleResolveCollisions(message: IPCMessage): Promise<any> {
+  const { origin, language, dryRun } = message.data;
+
+  try {
+    if (dryRun) {
+      return {
+        success: true,
+        collisions: dictionaryManager.getCollisions(origin, language as LanguageCode),
+      };
+    }
+
+    const renamed = dictionaryManager.resolveCollisions(origin, language as LanguageCode);
+    if (renamed.length > 0) {
+      // Cached translations still use the ambiguous terms
+      translationCache.clear();
+    }
+
+    return {
+      success: true,
+      renamed,
+    };
+  } catch (error: any) {
+    log(`Resolve collisions error: ${error.message}`);
+    throw error;
+  }
+}
+
+/**
+ * Handle get-glossary request
+ * Returns the project glossary (empty sections when the project has none)
+ */
+async function handleGetGlossary(message: IPCMessage): Promise<any> {
+  const { projectRoot } = message.data;
+
+  try {
+    const glossary = ProjectGlossary.forWorkspace(projectRoot);
+    return {
+      success: true,
+      filePath: glossary.filePath,
+      glossary: glossary.getContent(),
+    };
+  } catch (error: any) {
+    log(`Get glossary error: ${error.message}`);
+    throw error;
+  }
+}
+
+/**
+ * Handle set-glossary-entry request
+ * Adds a do-not-translate term, a fixed translation or a forbidden word
+ */
+async function handleSetGlossaryEntry(message: IPCMessage): Promise<any> {
+  const { projectRoot, kind, term, language, translation } = message.data;
+
+  try {
+    const glossary = ProjectGlossary.forWorkspace(projectRoot);
+    glossary.setEntry(kind as GlossaryEntryKind, term, language as LanguageCode | undefined, translation);
+    log(`Glossary entry set (${kind}): ${term}${language ? ` [${language}]` : ''}`);
+
+    // Cached translations were made without the new entry
+    translationCache.clear();
+
+    return {
+      success: true,
+      filePath: glossary.filePath,
+      glossary: glossary.getContent(),
+    };
+  } catch (error: any) {
+    log(`Set glossary entry error: ${error.message}`);
+    throw error;
+  }
+}
+
+/**
+ * Handle remove-glossary-entry request
+ */
+async function handleRemoveGlossaryEntry(message: IPCMessage): Promise<any> {
+  const { projectRoot, kind, term, language } = message.data;
+
+  try {
+    const glossary = ProjectGlossary.forWorkspace(projectRoot);
+    const removed = glossary.removeEntry(kind as GlossaryEntryKind, term, language as LanguageCode | undefined);
+    if (removed) {
+      translationCache.clear();
+    }
+
+    return {
+      success: true,
+      removed,
+      glossary: glossary.getContent(),
+    };
+  } catch (error: any) {
+    log(`Remove glossary entry error: ${error.message}`);
+    throw error;
+  }
+}
+
 /**
  * Handle list-dictionaries request
  * Lists all cached dictionaries
@@ -699,8 +897,9 @@ async function handleScanProject(message: IPCMessage): Promise<any> {
     const files: string[] = [];
     const markdownFiles: string[] = [];
 
-    // Supported extensions for code files
-    const codeExtensions = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.rs'];
+    // Supported extensions for code files (one per registered language frontend)
+    const codeExtensions = getSupportedExtensions();
+    const markdownExtensions = getFrontend('markdown')?.extensions ?? [];
 
     // Recursively find files
     function walkDir(dir: string, depth: number = 0) {
@@ -716,7 +915,7 @@ async function handleScanProject(message: IPCMessage): Promise<any> {
           // Skip common directories
           if (entry.isDirectory()) {
             // Skip node_modules, .git, dist, build, etc.
-            if (['node_modules', '.git', 'dist', 'build', 'out', '.next', '.cache'].includes(entry.name)) {
+            if (['node_modules', '.git', 'dist', 'build', 'out', '.next', '.cache', '__pycache__', '.venv', 'venv', '.tox'].includes(entry.name)) {
               continue;
             }
             walkDir(fullPath, depth + 1);
@@ -724,7 +923,7 @@ async function handleScanProject(message: IPCMessage): Promise<any> {
             const ext = path.extname(entry.name).toLowerCase();
             if (codeExtensions.includes(ext)) {
               files.push(fullPath);
-            } else if (includeMarkdown && ext === '.md') {
+            } else if (includeMarkdown && markdownExtensions.includes(ext)) {
               markdownFiles.push(fullPath);
             }
           }
@@ -764,8 +963,10 @@ async function handleScanProject(message: IPCMessage): Promise<any> {
 
     // Extract identifiers and comments from all code files
     const identifierSet = new Set<string>(); // For deduplication
+    const identifierContexts: Record<string, IdentifierContext> = {}; // First declaration of each identifier
     const allComments: string[] = [];
     const allMarkdownTexts: string[] = []; // Markdown content (treated like comments)
+    const allMarkupTexts: string[] = []; // UI text in JSX and templates (stored like comments)
 
     let filesProcessed = 0;
     for (const filePath of files) {
@@ -775,11 +976,21 @@ async function handleScanProject(message: IPCMessage): Promise<any> {
         // Extract identifiers
         const identifiers = identifierExtractor.extract(fileContent, filePath);
         identifiers.forEach(id => identifierSet.add(id.name));
+        const contexts = identifierExtractor.getContexts(identifiers, fileContent, path.relative(workspaceRoot, filePath));
+        for (const [name, context] of Object.entries(contexts)) {
+          identifierContexts[name] ??= context;
+        }
 
         // Extract comments
         const comments = commentExtractor.extract(fileContent, filePath);
         allComments.push(...comments);
 
+        // Extract user-facing markup text (JSX text, placeholder/title/aria-label, Vue templates)
+        if (translationScope.stringLiterals) {
+          const texts = getFrontendForFile(filePath)?.extractTexts?.(fileContent, filePath) || [];
+          allMarkupTexts.push(...new Set(texts.map(text => text.text)));
+        }
+
         filesProcessed++;
 
         // Update progress every 5 files (or less frequently for large projects)
@@ -827,12 +1038,12 @@ async function handleScanProject(message: IPCMessage): Promise<any> {
     }
 
     const allIdentifiers = Array.from(identifierSet);
-    // Combine comments and markdown texts for translation (both are natural language)
-    const allTexts = [...allComments, ...allMarkdownTexts];
+    // Combine comments, UI text and markdown texts for translation (all natural language)
+    const allTexts = [...allComments, ...allMarkupTexts, ...allMarkdownTexts];
 
     // Filter out terms and comments already in the dictionary to avoid re-translating
     const dictLang = targetLang as LanguageCode;
-    const { dictionary: multiLangDict } = await dictionaryManager.loadMultiLang(origin, 'en' as LanguageCode, dictLang);
+    const { dictionary: multiLangDict } = await dictionaryManager.loadMultiLang(origin, 'en' as LanguageCode, dictLang, workspaceRoot);
     const uniqueIdentifiers = allIdentifiers.filter(term => !multiLangDict.hasTerm(term));
     const allTextsToTranslate = allTexts.filter(text => !multiLangDict.getCommentTranslation(text, dictLang));
 
@@ -857,9 +1068,11 @@ async function handleScanProject(message: IPCMessage): Promise<any> {
     const estimatedSeconds = Math.max(5, numBatches * 3); // Minimum 5 seconds
     const estimatedMinutes = Math.ceil(estimatedSeconds / 60);
 
-    const textCountDesc = allMarkdownTexts.length > 0
-      ? `${allComments.length} comments + ${allMarkdownTexts.length} markdown blocks`
-      : `${allComments.length} comments`;
+    const textCountDesc = [
+      `${allComments.length} comments`,
+      ...(allMarkupTexts.length > 0 ? [`${allMarkupTexts.length} UI texts`] : []),
+      ...(allMarkdownTexts.length > 0 ? [`${allMarkdownTexts.length} markdown blocks`] : []),
+    ].join(' + ');
     log(`Extracted ${uniqueIdentifiers.length} unique identifiers and ${textCountDesc}`);
     log(`Estimated: ${estimatedTotalTokens} tokens, ${estimatedSeconds}s processing time`);
 
@@ -891,6 +1104,7 @@ async function handleScanProject(message: IPCMessage): Promise<any> {
         targetLang: targetLang as LanguageCode,
         workspaceRoot,
         identifiers: uniqueIdentifiers,
+        contexts: identifierContexts,
         comments: allTextsToTranslate, // Includes both comments and markdown
         stats: {
           files: totalFilesToScan,
@@ -913,7 +1127,7 @@ async function handleScanProject(message: IPCMessage): Promise<any> {
       }
       statsLines.push(
         `Unique terms: ${uniqueIdentifiers.length}`,
-        `Text blocks: ${allTextsToTranslate.length}${allMarkdownTexts.length > 0 ? ` (${allComments.length} comments + ${allMarkdownTexts.length} markdown)` : ''}`,
+        `Text blocks: ${allTextsToTranslate.length}${allMarkupTexts.length + allMarkdownTexts.length > 0 ? ` (${textCountDesc})` : ''}`,
         ``,
         `Estimated tokens: ~${estimatedTotalTokens.toLocaleString()}`,
         `Estimated time: ${timeEstimate}`,
@@ -998,12 +1212,14 @@ async function handleScanProject(message: IPCMessage): Promise<any> {
 
     const scanBackend = getTranslationBackend();
     if ('origin' in scanBackend) (scanBackend as any).origin = origin;
-    const translateResult = await scanBackend.translateProject(
+    const translateResult = await translateProjectWithDictionary(
+      scanBackend,
+      origin,
       uniqueIdentifiers,
       allTextsToTranslate,
-      'en', // Source is always English for project scan
       targetLang as LanguageCode,
-      onScanProgress
+      onScanProgress,
+      identifierContexts
     );
 
     log(`Translation complete (${scanBackend.name}): ${translateResult.totalTerms} terms and ${translateResult.totalComments} text blocks`);
@@ -1025,6 +1241,8 @@ async function handleScanProject(message: IPCMessage): Promise<any> {
       totalComments: translateResult.totalComments,
       batchCount: 1,
     });
+    // Keep the meaning chosen for each term, so later scans and reviewers know which sense was meant
+    newDictionary.senses = translateResult.senses;
     dictionaryManager.import(JSON.stringify(newDictionary));
 
     // Clear translation cache so stale results aren't served
@@ -1129,12 +1347,14 @@ async function handleProceedTranslation(message: IPCMessage): Promise<any> {
 
     const proceedBackend = getTranslationBackend();
     if ('origin' in proceedBackend) (proceedBackend as any).origin = origin;
-    const translateResult = await proceedBackend.translateProject(
+    const translateResult = await translateProjectWithDictionary(
+      proceedBackend,
+      origin,
       pending.identifiers,
       pending.comments,
-      'en', // Source is always English for project scan
       pending.targetLang,
-      onProceedProgress
+      onProceedProgress,
+      pending.contexts
     );
 
     log(`[ProceedTranslation] Translation complete (${proceedBackend.name}): ${translateResult.totalTerms} terms and ${translateResult.totalComments} comments`);
@@ -1156,6 +1376,7 @@ async function handleProceedTranslation(message: IPCMessage): Promise<any> {
       totalComments: translateResult.totalComments,
       batchCount: 1,
     });
+    newDictionary.senses = translateResult.senses;
     dictionaryManager.import(JSON.stringify(newDictionary));
 
     // Clear translation cache so stale results aren't served
@@ -1206,6 +1427,84 @@ async function handleProceedTranslation(message: IPCMessage): Promise<any> {
   }
 }
 
+/**
+ * Translate identifiers missing from the dictionary with the translation backend
+ * The translations are stored in the user cache and added to `dictionary`.
+ * Failures are logged and reported as progress; the terms then stay unmapped.
+ */
+async function translateTermsOnSave(
+  origin: string,
+  terms: string[],
+  sourceLang: LanguageCode,
+  targetLang: LanguageCode,
+  dictionary: MultiLangDictionary,
+  termRules: TermRules,
+  taskId: string
+): Promise<void> {
+  if (terms.length === 0) return;
+
+  log(`[FileSave] Found ${terms.length} NEW terms, translating locally...`);
+
+  // Send progress notification
+  sendProgress(taskId, 'Translating New Terms', 'started', {
+    status: 'processing',
+    statusMessage: `Translating ${terms.length} new ${sourceLang.toUpperCase()} terms to ${targetLang.toUpperCase()} locally...`,
+  });
+
+  try {
+    const fileSaveBackend = getTranslationBackend();
+    if ('origin' in fileSaveBackend) (fileSaveBackend as any).origin = origin;
+    // Compounds of known English words follow the target language's patterns
+    const composer = sourceLang === 'en'
+      ? new CompoundComposer(targetLang, term => dictionary.getTranslation(term, 'en', targetLang), termRules)
+      : undefined;
+    const { composed, remaining } = composer?.composeAll(terms) ?? { composed: {}, remaining: terms };
+    const backendTranslations = await fileSaveBackend.translateIdentifiers(remaining, sourceLang, targetLang, undefined, termRules);
+    const translations = { ...(composer?.conform(backendTranslations) ?? backendTranslations), ...composed };
+
+    log(`[FileSave] Successfully translated ${Object.keys(translations).length} new terms via ${fileSaveBackend.name} backend`);
+
+    // Add translated terms to dictionary
+    // Local translation returns { sourceTerm: translatedTerm } mapping
+    // We need to store as { englishTerm: foreignTerm } in the dictionary.
+    // Two foreign terms translated to the same English word would otherwise
+    // overwrite each other, so the English side is disambiguated.
+    const { terms: termsToAdd, renamed } = invertTranslations(
+      translations,
+      dictionaryManager.getTerms(origin, sourceLang)
+    );
+    if (renamed.length > 0) {
+      log(`[FileSave] Disambiguated English terms: ${renamed.map(r => `${r.term}: ${r.from} → ${r.to}`).join(', ')}`);
+    }
+
+    if (Object.keys(termsToAdd).length > 0) {
+      // Persist to disk for durability
+      const stored = dictionaryManager.addTerms(origin, sourceLang, termsToAdd);
+      // Update in-memory MultiLangDictionary with the stored (disambiguated) values
+      const storedTerms: Record<string, string> = {};
+      for (const english of Object.keys(termsToAdd)) {
+        storedTerms[english] = stored.terms[english];
+      }
+      dictionary.addTerms(storedTerms);
+    }
+
+    sendProgress(taskId, 'Translating New Terms', 'complete', {
+      status: 'complete',
+      statusMessage: `Translated ${Object.keys(translations).length} new terms`,
+      autoClose: true,
+      autoCloseDelay: 2000,
+    });
+  } catch (error: any) {
+    log(`[FileSave] Warning: Failed to translate new terms locally: ${error.message}`);
+    sendProgress(taskId, 'Translating New Terms', 'error', {
+      status: 'error',
+      error: error.message || 'Failed to translate new terms',
+      autoClose: true,
+      autoCloseDelay: 3000,
+    });
+  }
+}
+
 /**
  * Handle file-saved request
  *
@@ -1288,71 +1587,77 @@ async function handleFileSaved(message: IPCMessage): Promise<any> {
     const { dictionary } = await dictionaryManager.loadMultiLang(
       origin,
       sourceLang,
-      targetLang
+      targetLang,
+      message.data?.projectRoot
     );
 
+    const termRules = dictionaryManager.getTermRules(origin, sourceLang, targetLang);
+
     // Step 4: Identify new terms that aren't in dictionary
     const newTermsToTranslate = termsToTranslate.filter(term => !dictionary.hasTerm(term));
 
-    if (newTermsToTranslate.length > 0) {
-      log(`[FileSave] Found ${newTermsToTranslate.length} NEW terms, translating locally...`);
-
-      // Send progress notification
-      sendProgress(taskId, 'Translating New Terms', 'started', {
-        status: 'processing',
-        statusMessage: `Translating ${newTermsToTranslate.length} new ${sourceLang.toUpperCase()} terms to ${targetLang.toUpperCase()} locally...`,
-      });
-
-      try {
-        const fileSaveBackend = getTranslationBackend();
-        if ('origin' in fileSaveBackend) (fileSaveBackend as any).origin = origin;
-        const translations = await fileSaveBackend.translateIdentifiers(newTermsToTranslate, sourceLang, targetLang);
-
-        log(`[FileSave] Successfully translated ${Object.keys(translations).length} new terms via ${fileSaveBackend.name} backend`);
-
-        // Add translated terms to dictionary
-        // Local translation returns { sourceTerm: translatedTerm } mapping
-        // We need to store as { englishTerm: foreignTerm } in the dictionary
-        const termsToAdd: Record<string, string> = {};
-        for (const [foreignTerm, englishTerm] of Object.entries(translations)) {
-          termsToAdd[englishTerm] = foreignTerm;
-        }
-
-        if (Object.keys(termsToAdd).length > 0) {
-          // Persist to disk for durability
-          dictionaryManager.addTerms(origin, sourceLang, termsToAdd);
-          // Update in-memory MultiLangDictionary to avoid reloading
-          dictionary.addTerms(termsToAdd);
-        }
-
-        sendProgress(taskId, 'Translating New Terms', 'complete', {
-          status: 'complete',
-          statusMessage: `Translated ${Object.keys(translations).length} new terms`,
-          autoClose: true,
-          autoCloseDelay: 2000,
-        });
-      } catch (error: any) {
-        log(`[FileSave] Warning: Failed to translate new terms locally: ${error.message}`);
-        sendProgress(taskId, 'Translating New Terms', 'error', {
-          status: 'error',
-          error: error.message || 'Failed to translate new terms',
-          autoClose: true,
-          autoCloseDelay: 3000,
-        });
-      }
-    }
+    await translateTermsOnSave(origin, newTermsToTranslate, sourceLang, targetLang, dictionary, termRules, taskId);
 
     // Step 5: Translate code to target language using the already-loaded dictionary
     // (No reload needed - dictionary was updated in-place above if new terms were added)
-    const translator = new UnifiedTranslator(dictionary);
+    const translator = new UnifiedTranslator(dictionary, termRules);
 
     const translateStartTime = Date.now();
-    const result = translator.translate(code, sourceLang, targetLang);
+    const result = translator.translate(code, sourceLang, targetLang, undefined, filePath);
     log(`[FileSave] Code translated in ${Date.now() - translateStartTime}ms, tokens: ${result.translatedTokens.length}`);
 
     const totalTime = Date.now() - startTime;
     log(`[FileSave] Total processing time: ${totalTime}ms`);
 
+    // Refuse to save when a term maps back to several English terms:
+    // picking one would silently rename the others in the saved file
+    const ambiguousTokens = result.ambiguousTokens || [];
+    if (ambiguousTokens.length > 0) {
+      const detail = `Ambiguous terms: ${ambiguousTokens.join(', ')}. Resolve the dictionary collision before saving.`;
+      log(`[FileSave] ${filePath} is not round-trippable. ${detail}`);
+      sendBroadcast('kawa-code', 'notification', {
+        severity: 'warn',
+        summary: 'Translation Collision',
+        detail,
+        life: 8000,
+      });
+      return {
+        success: false,
+        code: code,
+        translated: false,
+        roundTrippable: false,
+        ambiguousTokens,
+        error: detail,
+      };
+    }
+
+    // Verify the result translates back to the code the user saved before
+    // handing it over to be written to disk
+    const verifyStartTime = Date.now();
+    // Glossary rules only apply in one direction, so translating back needs the reverse ones
+    const reverseTranslator = new UnifiedTranslator(dictionary, dictionaryManager.getTermRules(origin, targetLang, sourceLang));
+    const verification = new RoundTripVerifier(reverseTranslator).verify(code, result.code, sourceLang, targetLang, undefined, filePath);
+    log(`[FileSave] Round trip verified in ${Date.now() - verifyStartTime}ms: ${verification.ok ? 'ok' : 'failed'}`);
+
+    if (!verification.ok) {
+      log(`[FileSave] Rejecting translation of ${filePath}. ${verification.diagnostic}`);
+      sendBroadcast('kawa-code', 'notification', {
+        severity: 'error',
+        summary: 'Round-Trip Verification Failed',
+        detail: verification.diagnostic,
+        life: 10000,
+      });
+      return {
+        success: false,
+        code: code,
+        translated: false,
+        roundTrippable: false,
+        offendingIdentifiers: verification.offendingIdentifiers,
+        structuralErrors: verification.structuralErrors,
+        error: verification.diagnostic,
+      };
+    }
+
     // Log any unmapped terms (terms without translation in dictionary)
     if (result.unmappedTokens.length > 0) {
       log(`[FileSave] Warning: ${result.unmappedTokens.length} terms could not be translated to ${targetLang}: ${result.unmappedTokens.slice(0, 5).join(', ')}${result.unmappedTokens.length > 5 ? '...' : ''}`);
@@ -1376,6 +1681,64 @@ async function handleFileSaved(message: IPCMessage): Promise<any> {
   }
 }
 
+/**
+ * Handle save-translated-file request from the code viewer
+ *
+ * The viewer's edit mode sends the translated code the user edited, the
+ * English code the edit started from and the scope the code was rendered
+ * with. New identifiers are translated like on an editor save, then
+ * TranslatedFileWriter translates the edit back with that scope and writes
+ * the English result, unless something would stay untranslated or the
+ * round trip fails.
+ *
+ * If the file on disk no longer matches the code the edit started from, the
+ * save is refused as a conflict and the current contents are returned, so
+ * neither change is lost silently. `force` overwrites the file anyway.
+ */
+async function handleSaveTranslatedFile(message: IPCMessage): Promise<any> {
+  const { code, baseCode, filePath, projectRoot, origin, translationScope, force } = message.data;
+  const sourceLang: LanguageCode = message.data.sourceLang || 'en';
+  const taskId = `save-translated-${Date.now()}`;
+
+  if (typeof code !== 'string' || typeof baseCode !== 'string' || !filePath || !projectRoot || !translationScope) {
+    throw new Error('save-translated-file requires code, baseCode, filePath, projectRoot and translationScope');
+  }
+
+  let writer = new TranslatedFileWriter(null);
+  if (sourceLang !== 'en') {
+    if (!origin) {
+      throw new Error('Missing origin - the translated code cannot be translated back to English');
+    }
+
+    const { dictionary } = await dictionaryManager.loadMultiLang(origin, sourceLang, 'en', projectRoot);
+    const toEnglish = dictionaryManager.getTermRules(origin, sourceLang, 'en');
+    const fromEnglish = dictionaryManager.getTermRules(origin, 'en', sourceLang);
+
+    // Identifiers the user added in the edit
+    if (translationScope.identifiers) {
+      const absolutePath = writer.resolvePath(projectRoot, filePath);
+      const newTerms = identifierExtractor.extract(code, absolutePath)
+        .map(id => id.name)
+        .filter(name => isNonEnglish(name) && !dictionary.hasTerm(name));
+      await translateTermsOnSave(origin, Array.from(new Set(newTerms)), sourceLang, 'en', dictionary, toEnglish, taskId);
+    }
+
+    writer = new TranslatedFileWriter(dictionary, { toEnglish, fromEnglish });
+  }
+
+  const result = writer.save({ code, baseCode, filePath, projectRoot, sourceLang, scope: translationScope, force });
+
+  if (result.conflict) {
+    log(`[SaveTranslated] ${filePath} changed on disk since it was opened, not saving`);
+  } else if (!result.saved) {
+    log(`[SaveTranslated] Not saving ${filePath}. ${result.error}`);
+  } else {
+    log(`[SaveTranslated] Saved ${filePath} (${sourceLang} → en, ${result.code!.length} bytes)`);
+  }
+
+  return result;
+}
+
 /**
  * Handle active-path broadcast from Gardener
  * Syncs dictionary if dictionaryVersion is newer than local lastSyncDate
@@ -1539,23 +1902,40 @@ async function handleSetSettings(message: IPCMessage): Promise<any> {
 
 /**
  * Handle get-translation-mode request
+ * Includes the OpenAI-compatible endpoint and model (never the API key)
  */
 async function handleGetTranslationMode(message: IPCMessage): Promise<any> {
-  return { translationMode: getTranslationMode() };
+  const { endpoint, model } = getOpenAICompatibleSettings();
+  return { translationMode: getTranslationMode(), openaiCompatible: { endpoint, model } };
+}
+
+/**
+ * Handle get-languages request
+ * Returns the enabled languages for the language pickers
+ */
+async function handleGetLanguages(message: IPCMessage): Promise<any> {
+  const languages = getEnabledLanguages().map(({ code, name, nativeName, direction }) => ({ code, name, nativeName, direction }));
+  return { languages };
 }
 
 /**
  * Handle set-translation-mode request
+ * Optional data.openaiCompatible updates the endpoint, model or API key
  */
 async function handleSetTranslationMode(message: IPCMessage): Promise<any> {
-  const { translationMode } = message.data;
+  const { translationMode, openaiCompatible } = message.data;
 
-  if (translationMode !== 'local' && translationMode !== 'api') {
-    return { success: false, error: 'translationMode must be "local" or "api"' };
+  const modes: TranslationMode[] = ['local', 'api', 'openai-compatible', 'glossary'];
+  if (!modes.includes(translationMode)) {
+    return { success: false, error: `translationMode must be one of: ${modes.join(', ')}` };
   }
 
   log(`[i18n] Setting translation mode: ${translationMode}`);
   setTranslationMode(translationMode as TranslationMode);
+  if (openaiCompatible) {
+    const { endpoint, model, apiKey } = openaiCompatible;
+    setOpenAICompatibleSettings({ endpoint, model, apiKey });
+  }
   resetTranslationBackend();
 
   return { success: true, translationMode };
@@ -1872,11 +2252,16 @@ async function main() {
   // Register request handlers for Kawa Code routing
   registerHandler('i18n', 'translate-code', handleTranslateCode);
   registerHandler('i18n', 'file-saved', handleFileSaved);
+  registerHandler('i18n', 'save-translated-file', handleSaveTranslatedFile);
   registerHandler('i18n', 'scan-project', handleScanProject);
   registerHandler('i18n', 'proceed-translation', handleProceedTranslation);
   registerHandler('i18n', 'load-dictionary', handleLoadDictionary);
   registerHandler('i18n', 'add-terms', handleAddTerms);
+  registerHandler('i18n', 'resolve-collisions', handleResolveCollisions);
   registerHandler('i18n', 'list-dictionaries', handleListDictionaries);
+  registerHandler('i18n', 'get-glossary', handleGetGlossary);
+  registerHandler('i18n', 'set-glossary-entry', handleSetGlossaryEntry);
+  registerHandler('i18n', 'remove-glossary-entry', handleRemoveGlossaryEntry);
   registerHandler('i18n', 'extract-identifiers', handleExtractIdentifiers);
 
   // Settings handlers
@@ -1884,6 +2269,7 @@ async function main() {
   registerHandler('i18n', 'set-settings', handleSetSettings);
   registerHandler('i18n', 'get-translation-mode', handleGetTranslationMode);
   registerHandler('i18n', 'set-translation-mode', handleSetTranslationMode);
+  registerHandler('i18n', 'get-languages', handleGetLanguages);
 
   // TEMPORARY: Register test handler
   registerHandler('i18n', 'test-progress', handleTestProgress);
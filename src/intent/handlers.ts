@@ -13,6 +13,7 @@ import {
   translateIdentifiers as localTranslateIdentifiers,
 } from '../claude';
 import { getTranslationBackend } from '../translation';
+import { getFrontend, applyReplacements } from '../frontends';
 
 /**
  * SSE translation event emitter.
@@ -47,7 +48,7 @@ import { LanguageCode } from '../core/types';
  * Simple language detection based on character analysis
  * Returns 'en' for ASCII-only text, or a likely non-English code
  */
-function detectLanguage(text: string): LanguageCode {
+export function detectLanguage(text: string): LanguageCode {
   if (!text) return 'en';
 
   // Check for non-ASCII characters
@@ -66,8 +67,11 @@ function detectLanguage(text: string): LanguageCode {
   // Check for Cyrillic (Russian)
   if (/[\u0400-\u04FF]/.test(text)) return 'ru';
 
-  // Check for Arabic
-  if (/[\u0600-\u06FF]/.test(text)) return 'ar';
+  // Check for Hebrew (letters and presentation forms)
+  if (/[\u0590-\u05FF\uFB1D-\uFB4F]/.test(text)) return 'he';
+
+  // Check for Arabic (including supplement and presentation forms)
+  if (/[\u0600-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]/.test(text)) return 'ar';
 
   // Default to English for other non-ASCII
   return 'en';
@@ -800,7 +804,9 @@ export async function handleDirectGetIntentsForLines(message: IPCMessage, caw: s
 
 /**
  * Extract comments from code content
- * Returns array of comment strings with their line ranges
+ * Returns array of comment strings with their line ranges.
+ * Languages with a registered frontend use its parser; others fall back to
+ * per-language comment markers.
  */
 function extractComments(content: string, language: string): Array<{
   text: string;
@@ -808,6 +814,19 @@ function extractComments(content: string, language: string): Array<{
   endLine: number;
   type: 'line' | 'block';
 }> {
+  const frontend = getFrontend(language);
+  if (frontend) {
+    const lineOf = (pos: number) => content.slice(0, pos).split('\n').length;
+    return frontend.extractComments(content)
+      .filter(comment => comment.text.trim().length > 0)
+      .map(comment => ({
+        text: comment.text.trim(),
+        startLine: lineOf(comment.pos),
+        endLine: lineOf(comment.end),
+        type: comment.kind === 'SingleLine' ? 'line' : 'block',
+      }));
+  }
+
   const comments: Array<{
     text: string;
     startLine: number;
@@ -939,8 +958,34 @@ function extractComments(content: string, language: string): Array<{
 function replaceComments(
   content: string,
   language: string,
-  translations: Record<string, string>
+  translations: Record<string, string>,
+  sourceLang: LanguageCode,
+  targetLang: LanguageCode
 ): string {
+  // Languages with a frontend: replace comment ranges, keeping their delimiters
+  const frontend = getFrontend(language);
+  if (frontend) {
+    const replacements = frontend.collectReplacements(content, {
+      sourceLang,
+      targetLang,
+      scope: {
+        comments: true,
+        stringLiterals: false,
+        identifiers: false,
+        keywords: false,
+        punctuation: false,
+        markdownFiles: false,
+      },
+      translateIdentifier: () => undefined,
+      translateString: () => undefined,
+      translateComment: text => {
+        const translated = translations[text.trim()];
+        return translated && translated !== text.trim() ? translated : undefined;
+      },
+    });
+    return applyReplacements(content, replacements);
+  }
+
   let result = content;
 
   // Determine comment prefix based on language
@@ -1108,7 +1153,7 @@ export async function handleGetBlockContentTranslated(
 
     // Apply translations to content
     const translatedContent = Object.keys(translations).length > 0
-      ? replaceComments(content, progLang || 'javascript', translations)
+      ? replaceComments(content, progLang || 'javascript', translations, sourceCommentLang, lang)
       : content;
 
     const wasTranslated = translatedContent !== content;
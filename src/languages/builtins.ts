@@ -0,0 +1,257 @@
+/**
+ * Built-in language definitions
+ *
+ * The first group is enabled by default, with regional variants after
+ * their base language. The second group is known to the
+ * prompts but hidden from the language pickers until enabled in config:
+ *
+ *   { "i18n": { "languages": ["vi", "pl"] } }
+ */
+
+import { CompoundPatterns, LanguageDefinition } from './types';
+
+/** TS/JS keywords in Japanese */
+const JAPANESE_KEYWORDS: Record<string, string> = {
+  'const': '定数',
+  'let': '変数',
+  'var': '変数宣言',
+  'function': '関数',
+  'return': '返す',
+  'if': 'もし',
+  'else': 'それ以外',
+  'for': '繰り返し',
+  'while': 'の間',
+  'do': '実行',
+  'switch': '分岐',
+  'case': '場合',
+  'break': '中断',
+  'continue': '続行',
+  'class': 'クラス',
+  'extends': '継承',
+  'implements': '実装',
+  'interface': 'インターフェース',
+  'type': '型',
+  'enum': '列挙',
+  'import': '取込',
+  'export': '公開',
+  'default': '既定',
+  'from': 'から',
+  'as': 'として',
+  'new': '新規',
+  'this': 'これ',
+  'super': '親',
+  'true': '真',
+  'false': '偽',
+  'null': 'ヌル',
+  'undefined': '未定義',
+  'async': '非同期',
+  'await': '待機',
+  'try': '試行',
+  'catch': '捕捉',
+  'finally': '最終',
+  'throw': '投げる',
+  'typeof': '型判定',
+  'instanceof': 'インスタンス判定',
+  'in': '含む',
+  'of': 'の',
+  'void': '無',
+  'delete': '削除',
+  'yield': '譲渡',
+};
+
+/**
+ * ASCII characters → full-width CJK equivalents
+ * Characters in the Unicode FF00–FF5E range (Fullwidth Forms).
+ */
+const FULLWIDTH_PUNCTUATION: Record<string, string> = {
+  '.': '．', ',': '，', ':': '：', ';': '；', "'": '＇', '"': '＂', '`': '｀',
+  '(': '（', ')': '）', '{': '｛', '}': '｝', '[': '［', ']': '］', '<': '＜', '>': '＞',
+  '=': '＝', '+': '＋', '-': '－', '*': '＊', '/': '／', '\\': '＼', '|': '｜',
+  '&': '＆', '^': '＾', '~': '～', '!': '！', '?': '？', '@': '＠', '#': '＃',
+  '$': '＄', '%': '％', '_': '＿',
+};
+
+/** Compound identifier patterns, so getUserById reads the same way across a codebase */
+const JAPANESE_COMPOUNDS: CompoundPatterns = {
+  get: '{}を取得', set: '{}を設定', is: '{}か', has: '{}あり', on: '{}時', handle: '{}処理',
+  id: '{}ID', count: '{}数', by: '{by}で{}',
+};
+const SIMPLIFIED_CHINESE_COMPOUNDS: CompoundPatterns = {
+  get: '获取{}', set: '设置{}', is: '是否{}', has: '有{}', on: '{}时', handle: '处理{}',
+  id: '{}ID', count: '{}数', by: '按{by}{}',
+};
+const TRADITIONAL_CHINESE_COMPOUNDS: CompoundPatterns = {
+  get: '取得{}', set: '設定{}', is: '是否{}', has: '有{}', on: '{}時', handle: '處理{}',
+  id: '{}ID', count: '{}數', by: '依{by}{}',
+};
+const KOREAN_COMPOUNDS: CompoundPatterns = {
+  get: '{}조회', set: '{}설정', is: '{}여부', has: '{}있음', on: '{}시', handle: '{}처리',
+  id: '{}ID', count: '{}수', by: '{by}별{}',
+};
+const SPANISH_COMPOUNDS: CompoundPatterns = {
+  get: 'obtener {}', set: 'establecer {}', is: 'es {}', has: 'tiene {}', on: 'al {}', handle: 'manejar {}',
+  id: 'id {}', count: 'cantidad {}', by: '{} por {by}',
+};
+const FRENCH_COMPOUNDS: CompoundPatterns = {
+  get: 'obtenir {}', set: 'définir {}', is: 'est {}', has: 'a {}', on: 'au {}', handle: 'gérer {}',
+  id: 'id {}', count: 'nombre {}', by: '{} par {by}',
+};
+const GERMAN_COMPOUNDS: CompoundPatterns = {
+  get: 'hole {}', set: 'setze {}', is: 'ist {}', has: 'hat {}', on: 'bei {}', handle: 'behandle {}',
+  id: '{} id', count: '{} anzahl', by: '{} nach {by}',
+};
+const ITALIAN_COMPOUNDS: CompoundPatterns = {
+  get: 'ottieni {}', set: 'imposta {}', is: 'è {}', has: 'ha {}', on: 'al {}', handle: 'gestisci {}',
+  id: 'id {}', count: 'numero {}', by: '{} per {by}',
+};
+const PORTUGUESE_COMPOUNDS: CompoundPatterns = {
+  get: 'obter {}', set: 'definir {}', is: 'é {}', has: 'tem {}', on: 'ao {}', handle: 'tratar {}',
+  id: 'id {}', count: 'quantidade {}', by: '{} por {by}',
+};
+
+const CASED = { caseless: false };
+const CASELESS = { caseless: true };
+
+export const BUILTIN_LANGUAGES: LanguageDefinition[] = [
+  { code: 'en', name: 'English', nativeName: 'English', script: 'latin', direction: 'ltr', identifiers: CASED, enabled: true },
+  {
+    code: 'ja',
+    name: 'Japanese',
+    nativeName: '日本語',
+    script: 'japanese',
+    direction: 'ltr',
+    keywords: JAPANESE_KEYWORDS,
+    punctuation: FULLWIDTH_PUNCTUATION,
+    identifiers: {
+      caseless: true,
+      guidance: ['Prefer kanji over katakana where natural'],
+      compounds: JAPANESE_COMPOUNDS,
+    },
+    enabled: true,
+  },
+  {
+    code: 'zh',
+    name: 'Chinese',
+    nativeName: '中文',
+    script: 'han',
+    direction: 'ltr',
+    identifiers: { caseless: true, compounds: SIMPLIFIED_CHINESE_COMPOUNDS },
+    enabled: true,
+  },
+  {
+    code: 'zh-Hans',
+    name: 'Simplified Chinese',
+    nativeName: '简体中文',
+    script: 'han',
+    direction: 'ltr',
+    identifiers: { caseless: true, guidance: ['Use Simplified Chinese characters and mainland China terminology (程序, 数据)'] },
+    enabled: true,
+  },
+  {
+    code: 'zh-Hant',
+    name: 'Traditional Chinese',
+    nativeName: '繁體中文',
+    script: 'han',
+    direction: 'ltr',
+    identifiers: {
+      caseless: true,
+      guidance: ['Use Traditional Chinese characters and Taiwan terminology (程式, 資料)'],
+      compounds: TRADITIONAL_CHINESE_COMPOUNDS,
+    },
+    enabled: true,
+  },
+  {
+    code: 'ko',
+    name: 'Korean',
+    nativeName: '한국어',
+    script: 'hangul',
+    direction: 'ltr',
+    identifiers: { caseless: true, compounds: KOREAN_COMPOUNDS },
+    enabled: true,
+  },
+  {
+    code: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    script: 'latin',
+    direction: 'ltr',
+    identifiers: { caseless: false, compounds: SPANISH_COMPOUNDS },
+    enabled: true,
+  },
+  {
+    code: 'es-MX',
+    name: 'Mexican Spanish',
+    nativeName: 'Español (México)',
+    script: 'latin',
+    direction: 'ltr',
+    identifiers: { caseless: false, guidance: ['Use Latin American vocabulary (computadora, celular)'] },
+    enabled: true,
+  },
+  {
+    code: 'fr',
+    name: 'French',
+    nativeName: 'Français',
+    script: 'latin',
+    direction: 'ltr',
+    identifiers: { caseless: false, compounds: FRENCH_COMPOUNDS },
+    enabled: true,
+  },
+  {
+    code: 'de',
+    name: 'German',
+    nativeName: 'Deutsch',
+    script: 'latin',
+    direction: 'ltr',
+    identifiers: { caseless: false, compounds: GERMAN_COMPOUNDS },
+    enabled: true,
+  },
+  {
+    code: 'it',
+    name: 'Italian',
+    nativeName: 'Italiano',
+    script: 'latin',
+    direction: 'ltr',
+    identifiers: { caseless: false, compounds: ITALIAN_COMPOUNDS },
+    enabled: true,
+  },
+  {
+    code: 'pt',
+    name: 'Portuguese',
+    nativeName: 'Português',
+    script: 'latin',
+    direction: 'ltr',
+    identifiers: { caseless: false, compounds: PORTUGUESE_COMPOUNDS },
+    enabled: true,
+  },
+  {
+    code: 'pt-BR',
+    name: 'Brazilian Portuguese',
+    nativeName: 'Português (Brasil)',
+    script: 'latin',
+    direction: 'ltr',
+    identifiers: { caseless: false, guidance: ['Use Brazilian vocabulary (arquivo, tela, usuário)'] },
+    enabled: true,
+  },
+  {
+    code: 'pt-PT',
+    name: 'European Portuguese',
+    nativeName: 'Português (Portugal)',
+    script: 'latin',
+    direction: 'ltr',
+    identifiers: { caseless: false, guidance: ['Use European Portuguese vocabulary (ficheiro, ecrã, utilizador)'] },
+    enabled: true,
+  },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский', script: 'cyrillic', direction: 'ltr', identifiers: CASED, enabled: true },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية', script: 'arabic', direction: 'rtl', identifiers: CASELESS, enabled: true },
+  { code: 'he', name: 'Hebrew', nativeName: 'עברית', script: 'hebrew', direction: 'rtl', identifiers: CASELESS, enabled: true },
+
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', script: 'devanagari', direction: 'ltr', identifiers: CASELESS, enabled: false },
+  { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt', script: 'latin', direction: 'ltr', identifiers: CASED, enabled: false },
+  { code: 'th', name: 'Thai', nativeName: 'ไทย', script: 'thai', direction: 'ltr', identifiers: CASELESS, enabled: false },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands', script: 'latin', direction: 'ltr', identifiers: CASED, enabled: false },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski', script: 'latin', direction: 'ltr', identifiers: CASED, enabled: false },
+  { code: 'tr', name: 'Turkish', nativeName: 'Türkçe', script: 'latin', direction: 'ltr', identifiers: CASED, enabled: false },
+  { code: 'uk', name: 'Ukrainian', nativeName: 'Українська', script: 'cyrillic', direction: 'ltr', identifiers: CASED, enabled: false },
+  { code: 'cs', name: 'Czech', nativeName: 'Čeština', script: 'latin', direction: 'ltr', identifiers: CASED, enabled: false },
+  { code: 'sv', name: 'Swedish', nativeName: 'Svenska', script: 'latin', direction: 'ltr', identifiers: CASED, enabled: false },
+];
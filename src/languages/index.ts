@@ -0,0 +1,25 @@
+/**
+ * Human languages
+ *
+ * Each language the extension translates into is a LanguageDefinition
+ * registered here. Prompts, the keyword and punctuation passes and the
+ * language pickers read the registry, so adding a language only requires
+ * registering a definition or describing it in ~/.kawa-code/config:
+ *
+ *   {
+ *     "i18n": {
+ *       "languages": [
+ *         "vi",
+ *         { "code": "fi", "name": "Finnish", "nativeName": "Suomi" }
+ *       ]
+ *     }
+ *   }
+ */
+
+import { registerLanguage } from './registry';
+import { BUILTIN_LANGUAGES } from './builtins';
+
+BUILTIN_LANGUAGES.forEach(registerLanguage);
+
+export * from './types';
+export * from './registry';
@@ -0,0 +1,122 @@
+import { getI18nSettings } from '../config/settings';
+import { getLocaleFallbacks, isLocaleTag, normalizeLocale, parseLocale } from '../core/locale';
+import { log } from '../ipc/protocol';
+import { LanguageConfig, LanguageDefinition } from './types';
+
+/**
+ * Human language registry
+ *
+ * Maps locale tags to definitions. Registering a tag again replaces its
+ * definition. Regional tags without a definition of their own (fr-CA)
+ * resolve to their base language. Entries under "languages" in ~/.kawa-code/config are
+ * applied on top of the registered definitions on every lookup, so config
+ * changes take effect without a restart.
+ */
+const languages = new Map<string, LanguageDefinition>();
+
+/** Invalid config entries already reported, so each is logged once */
+const reportedEntries = new Set<string>();
+
+/**
+ * Register a language
+ */
+export function registerLanguage(language: LanguageDefinition): void {
+  const code = normalizeLocale(language.code);
+  languages.set(code, { ...language, code });
+}
+
+/**
+ * Find a language by locale tag, with the user's config applied
+ * An unregistered regional tag gets its base language's definition under
+ * its own code ('fr-CA' → French (CA))
+ */
+export function getLanguage(code: string): LanguageDefinition | undefined {
+  const resolved = resolveLanguages();
+  const tag = normalizeLocale(code);
+  return resolved.get(tag) ?? deriveVariant(resolved, tag);
+}
+
+/**
+ * All known languages, with the user's config applied
+ */
+export function listLanguages(): LanguageDefinition[] {
+  return Array.from(resolveLanguages().values());
+}
+
+/**
+ * Languages offered in the language pickers
+ */
+export function getEnabledLanguages(): LanguageDefinition[] {
+  return listLanguages().filter(language => language.enabled);
+}
+
+/**
+ * English display name of a language, falling back to the upper-cased code
+ */
+export function getLanguageName(code: string): string {
+  return getLanguage(code)?.name ?? code.toUpperCase();
+}
+
+/**
+ * Registered definitions overlaid with the "languages" config entries
+ */
+function resolveLanguages(): Map<string, LanguageDefinition> {
+  const entries = getI18nSettings().languages;
+  if (entries.length === 0) {
+    return languages;
+  }
+
+  const resolved = new Map(languages);
+  for (const entry of entries) {
+    const language = applyConfig(resolved, entry);
+    if (language) {
+      resolved.set(language.code, language);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Definition of an unregistered regional tag, from the closest registered one
+ */
+function deriveVariant(resolved: Map<string, LanguageDefinition>, tag: string): LanguageDefinition | undefined {
+  for (const fallback of getLocaleFallbacks(tag).slice(1)) {
+    const base = resolved.get(fallback);
+    if (base) {
+      const { script, region } = parseLocale(tag)!;
+      const variant = [script, region].filter(Boolean).join(', ');
+      return { ...base, code: tag, name: `${base.name} (${variant})`, nativeName: `${base.nativeName} (${variant})` };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Merge one config entry into the definition it names
+ */
+function applyConfig(resolved: Map<string, LanguageDefinition>, entry: LanguageConfig): LanguageDefinition | undefined {
+  const config = typeof entry === 'string' ? { code: entry } : entry;
+  if (!config || typeof config.code !== 'string' || !isLocaleTag(config.code)) {
+    const json = JSON.stringify(entry);
+    if (!reportedEntries.has(json)) {
+      reportedEntries.add(json);
+      log(`[Languages] Ignoring invalid language config entry: ${json}`);
+    }
+    return undefined;
+  }
+
+  const code = normalizeLocale(config.code);
+  const existing = resolved.get(code) ?? deriveVariant(resolved, code);
+  const name = config.name ?? existing?.name ?? code.toUpperCase();
+  return {
+    script: 'latin',
+    direction: 'ltr',
+    ...existing,
+    ...config,
+    code,
+    name,
+    nativeName: config.nativeName ?? existing?.nativeName ?? name,
+    identifiers: { caseless: false, ...existing?.identifiers, ...config.identifiers },
+    enabled: config.enabled ?? true,
+  };
+}
@@ -0,0 +1,77 @@
+import { LanguageCode } from '../core/types';
+
+/**
+ * Writing system of a language
+ * Used for script detection and to decide how identifiers are formed
+ */
+export type Script =
+  | 'latin'
+  | 'cyrillic'
+  | 'greek'
+  | 'arabic'
+  | 'hebrew'
+  | 'han'
+  | 'japanese'
+  | 'hangul'
+  | 'devanagari'
+  | 'thai'
+  | 'other';
+
+/**
+ * English word of a compound identifier that has a fixed pattern:
+ * verb and boolean prefixes (getUser, isValid, onClick), noun suffixes
+ * (userId, retryCount) and the "By" of lookups (getUserById)
+ */
+export type CompoundAffix = 'get' | 'set' | 'is' | 'has' | 'on' | 'handle' | 'id' | 'count' | 'by';
+
+/**
+ * Patterns of compound identifiers in a language (see src/core/compounds.ts)
+ * {} stands for the rest of the identifier and {by} for the words after By:
+ *
+ *   get: '{}を取得'    getUserName → ユーザー名を取得
+ *   by:  '{} por {by}' getUserById → obtenerUsuarioPorId
+ */
+export type CompoundPatterns = Partial<Record<CompoundAffix, string>>;
+
+/**
+ * How translated identifiers are formed in a language
+ */
+export interface IdentifierRules {
+  /** The script has no letter case, so words are joined as they are (ユーザー名) */
+  caseless: boolean;
+  /** Extra guidelines for the identifier translation prompt */
+  guidance?: string[];
+  /** Patterns for compound identifiers (regional languages use their base language's) */
+  compounds?: CompoundPatterns;
+}
+
+/**
+ * A human language the extension translates code into
+ *
+ * Built-in languages are registered in builtins.ts. Users enable known
+ * languages or describe new ones under "languages" in ~/.kawa-code/config.
+ */
+export interface LanguageDefinition {
+  /** BCP-47 locale tag, e.g. 'vi' or 'pt-BR' */
+  code: LanguageCode;
+  /** English name used in prompts, e.g. 'Vietnamese' */
+  name: string;
+  /** Name in the language itself, e.g. 'Tiếng Việt' */
+  nativeName: string;
+  script: Script;
+  direction: 'ltr' | 'rtl';
+  /** TS/JS keyword → translation, applied under the keywords scope */
+  keywords?: Record<string, string>;
+  /** ASCII character → replacement, applied under the punctuation scope */
+  punctuation?: Record<string, string>;
+  identifiers: IdentifierRules;
+  /** Whether the language is offered in the language pickers */
+  enabled: boolean;
+}
+
+/**
+ * Entry of the "languages" config list: the code of a known language to
+ * enable, or a full or partial definition (fields not given keep the
+ * registered values, or defaults for a new language)
+ */
+export type LanguageConfig = string | (Partial<LanguageDefinition> & { code: string });
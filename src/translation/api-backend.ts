@@ -13,6 +13,7 @@ import { EventEmitter } from 'events';
 import { apiRequest, downloadDictionary, apiToLocalDictionary } from '../api/client';
 import { log } from '../ipc/protocol';
 import type { TranslationBackend } from './backend';
+import { enforceTermRules, getFixedTranslation, TermRules } from '../core/termRules';
 import { DictionaryManager } from '../dictionary/manager';
 
 /**
@@ -169,7 +170,8 @@ export class ApiBackend implements TranslationBackend {
     terms: string[],
     sourceLang: LanguageCode,
     targetLang: LanguageCode,
-    onProgress?: TranslationProgressCallback
+    onProgress?: TranslationProgressCallback,
+    rules?: TermRules
   ): Promise<Record<string, string>> {
     if (terms.length === 0) return {};
     if (sourceLang === targetLang) {
@@ -177,7 +179,9 @@ export class ApiBackend implements TranslationBackend {
     }
 
     const results: Record<string, string> = {};
-    const uniqueTerms = [...new Set(terms)];
+    // The server prompt does not know the project glossary: fixed terms are
+    // not sent and the rules are enforced on the results
+    const uniqueTerms = [...new Set(terms)].filter(term => getFixedTranslation(term, rules) === undefined);
 
     log(`[ApiBackend] Translating ${uniqueTerms.length} identifiers ${sourceLang} → ${targetLang}`);
 
@@ -222,10 +226,18 @@ export class ApiBackend implements TranslationBackend {
     }
 
     // Fill in any missing terms with originals
-    for (const term of uniqueTerms) {
+    for (const term of new Set(terms)) {
       if (!results[term]) results[term] = term;
     }
 
+    if (rules) {
+      const enforced = enforceTermRules(results, rules);
+      for (const { term, translation, reason } of enforced.rejected) {
+        log(`[ApiBackend] Translation rejected by project glossary: "${translation}" (from "${term}") ${reason}`);
+      }
+      Object.assign(results, enforced.translations);
+    }
+
     log(`[ApiBackend] Completed: ${Object.keys(results).length} identifier translations`);
     return results;
   }
@@ -331,7 +343,8 @@ export class ApiBackend implements TranslationBackend {
     comments: string[],
     sourceLang: LanguageCode,
     targetLang: LanguageCode,
-    onProgress?: TranslationProgressCallback
+    onProgress?: TranslationProgressCallback,
+    rules?: TermRules
   ): Promise<{
     terms: Record<string, string>;
     comments: Record<string, string>;
@@ -341,7 +354,7 @@ export class ApiBackend implements TranslationBackend {
     log(`[ApiBackend] Starting project translation: ${identifiers.length} identifiers, ${comments.length} comments`);
 
     const [terms, translatedComments] = await Promise.all([
-      this.translateIdentifiers(identifiers, sourceLang, targetLang, onProgress),
+      this.translateIdentifiers(identifiers, sourceLang, targetLang, onProgress, rules),
       this.translateComments(comments, sourceLang, targetLang, onProgress),
     ]);
 
@@ -1,13 +1,14 @@
 /**
  * Translation Backend Interface
  *
- * Abstraction over translation providers (local Claude CLI vs API).
- * Both backends implement the same interface so callers don't need
- * to know which one is active.
+ * Abstraction over translation providers (local Claude CLI, API, or an
+ * OpenAI-compatible server). All backends implement the same interface so
+ * callers don't need to know which one is active.
  */
 
-import { LanguageCode } from '../core/types';
+import { IdentifierContext, LanguageCode, TranslationReference } from '../core/types';
 import type { TranslationProgressCallback } from '../claude/translator';
+import type { TermRules } from '../core/termRules';
 
 export interface TranslationBackend {
   /** Human-readable name for logging */
@@ -16,20 +17,28 @@ export interface TranslationBackend {
   /** Check if this backend is available (e.g., CLI installed, API reachable) */
   isAvailable(): Promise<boolean>;
 
-  /** Translate code identifiers (variable/function names) */
+  /**
+   * Translate code identifiers (variable/function names)
+   * Translations breaking the project glossary rules keep the original term
+   */
   translateIdentifiers(
     terms: string[],
     sourceLang: LanguageCode,
     targetLang: LanguageCode,
-    onProgress?: TranslationProgressCallback
+    onProgress?: TranslationProgressCallback,
+    rules?: TermRules
   ): Promise<Record<string, string>>;
 
-  /** Translate code comments */
+  /**
+   * Translate code comments
+   * LLM backends give the translation memory references to the prompt
+   */
   translateComments(
     comments: string[],
     sourceLang: LanguageCode,
     targetLang: LanguageCode,
-    onProgress?: TranslationProgressCallback
+    onProgress?: TranslationProgressCallback,
+    references?: Record<string, TranslationReference[]>
   ): Promise<Record<string, string>>;
 
   /** Translate natural language text (intent titles, descriptions) */
@@ -40,15 +49,23 @@ export interface TranslationBackend {
     onProgress?: TranslationProgressCallback
   ): Promise<Record<string, string>>;
 
-  /** Translate an entire project's identifiers and comments */
+  /**
+   * Translate an entire project's identifiers and comments
+   * LLM backends give the identifier contexts and comment references to
+   * the prompts and return the sense chosen for each identifier
+   */
   translateProject(
     identifiers: string[],
     comments: string[],
     sourceLang: LanguageCode,
     targetLang: LanguageCode,
-    onProgress?: TranslationProgressCallback
+    onProgress?: TranslationProgressCallback,
+    rules?: TermRules,
+    contexts?: Record<string, IdentifierContext>,
+    references?: Record<string, TranslationReference[]>
   ): Promise<{
     terms: Record<string, string>;
+    senses?: Record<string, string>;
     comments: Record<string, string>;
     totalTerms: number;
     totalComments: number;
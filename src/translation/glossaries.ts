@@ -0,0 +1,147 @@
+/**
+ * Bundled glossaries for the rule-based backend
+ *
+ * Common programming vocabulary, English word → translation. Each translation
+ * is used by a single English word so identifiers can be translated back.
+ * Users extend or override these with ~/.kawa-code/i18n/glossaries/<lang>.json.
+ */
+
+import { LanguageCode } from '../core/types';
+
+export const BUILTIN_GLOSSARIES: Partial<Record<LanguageCode, Record<string, string>>> = {
+  ja: {
+    add: '追加',
+    all: '全',
+    build: '構築',
+    cache: 'キャッシュ',
+    calculate: '計算',
+    check: '確認',
+    config: '設定',
+    connection: '接続',
+    count: '件数',
+    create: '作成',
+    current: '現在',
+    data: 'データ',
+    default: '既定',
+    delete: '削除',
+    error: 'エラー',
+    event: 'イベント',
+    file: 'ファイル',
+    find: '検索',
+    first: '最初',
+    get: '取得',
+    handle: '処理',
+    index: '番号',
+    init: '初期化',
+    item: '項目',
+    key: 'キー',
+    last: '最後',
+    list: '一覧',
+    load: '読込',
+    max: '最大',
+    message: 'メッセージ',
+    min: '最小',
+    name: '名前',
+    new: '新規',
+    next: '次',
+    number: '数',
+    options: 'オプション',
+    order: '注文',
+    page: 'ページ',
+    parse: '解析',
+    path: 'パス',
+    previous: '前',
+    price: '価格',
+    remove: '除去',
+    request: '要求',
+    reset: 'リセット',
+    response: '応答',
+    result: '結果',
+    retry: '再試行',
+    save: '保存',
+    send: '送信',
+    set: '設定する',
+    size: 'サイズ',
+    start: '開始',
+    state: '状態',
+    status: 'ステータス',
+    stop: '停止',
+    sum: '合計',
+    text: 'テキスト',
+    time: '時間',
+    total: '総計',
+    type: '種類',
+    update: '更新',
+    user: 'ユーザー',
+    validate: '検証',
+    value: '値',
+  },
+  es: {
+    add: 'agregar',
+    all: 'todos',
+    build: 'construir',
+    cache: 'caché',
+    calculate: 'calcular',
+    check: 'comprobar',
+    config: 'configuración',
+    connection: 'conexión',
+    count: 'cuenta',
+    create: 'crear',
+    current: 'actual',
+    data: 'datos',
+    default: 'predeterminado',
+    delete: 'eliminar',
+    error: 'error',
+    event: 'evento',
+    file: 'archivo',
+    find: 'buscar',
+    first: 'primero',
+    get: 'obtener',
+    handle: 'manejar',
+    index: 'índice',
+    init: 'inicializar',
+    is: 'es',
+    item: 'elemento',
+    key: 'clave',
+    last: 'último',
+    list: 'lista',
+    load: 'cargar',
+    max: 'máximo',
+    message: 'mensaje',
+    min: 'mínimo',
+    name: 'nombre',
+    new: 'nuevo',
+    next: 'siguiente',
+    number: 'número',
+    options: 'opciones',
+    order: 'pedido',
+    page: 'página',
+    parse: 'analizar',
+    path: 'ruta',
+    previous: 'anterior',
+    price: 'precio',
+    remove: 'quitar',
+    request: 'solicitud',
+    reset: 'reiniciar',
+    response: 'respuesta',
+    result: 'resultado',
+    retry: 'reintentar',
+    save: 'guardar',
+    send: 'enviar',
+    set: 'establecer',
+    size: 'tamaño',
+    start: 'iniciar',
+    state: 'estado',
+    status: 'situación',
+    stop: 'detener',
+    sum: 'suma',
+    text: 'texto',
+    time: 'tiempo',
+    total: 'total',
+    type: 'tipo',
+    update: 'actualizar',
+    user: 'usuario',
+    validate: 'validar',
+    value: 'valor',
+  },
+};
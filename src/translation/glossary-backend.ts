@@ -0,0 +1,371 @@
+/**
+ * Rule-Based Glossary Backend
+ *
+ * Translates identifiers without an LLM: each identifier is split into words
+ * (camelCase, PascalCase, snake_case, CONSTANT_CASE), every word is looked up
+ * in a glossary, and the translations are joined back in the same naming
+ * style. Words missing from the glossary are reported, never guessed; such
+ * identifiers are passed to the fallback backend if one is configured, or
+ * kept unchanged.
+ *
+ * Glossaries map English words to translations. The bundled ones
+ * (glossaries.ts) are extended by ~/.kawa-code/i18n/glossaries/<lang>.json.
+ * Results are deterministic, which makes this backend suitable for CI,
+ * demos and machines without an LLM.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IdentifierContext, LanguageCode, TranslationReference } from '../core/types';
+import { isAcronym, joinIdentifier, splitIdentifier } from '../core/naming';
+import { getLocaleFallbacks } from '../core/locale';
+import { EMPTY_TERM_RULES, enforceTermRules, getFixedTranslation, TermRules } from '../core/termRules';
+import type { TranslationProgressCallback } from '../claude/translator';
+import { log } from '../ipc/protocol';
+import type { TranslationBackend } from './backend';
+import { BUILTIN_GLOSSARIES } from './glossaries';
+
+/** Directory of user-supplied glossaries */
+const USER_GLOSSARY_DIR = path.join(os.homedir(), '.kawa-code', 'i18n', 'glossaries');
+
+/** Valid identifier in the languages we translate (Unicode letters allowed) */
+const IDENTIFIER_REGEX = /^[\p{L}\p{Nl}$_][\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}$]*$/u;
+
+/**
+ * Outcome of a glossary translation run
+ */
+export interface GlossaryReport {
+  /** Identifiers translated from the glossary { original: translated } */
+  translations: Record<string, string>;
+  /** Identifiers that could not be translated */
+  untranslated: string[];
+  /** Words missing from the glossary, in order of first appearance */
+  unknownWords: string[];
+}
+
+export interface GlossaryBackendOptions {
+  /** Glossaries to use instead of the bundled and user ones (English word → translation) */
+  glossaries?: Partial<Record<LanguageCode, Record<string, string>>>;
+  /** Backend for identifiers with unknown words and for comments and text */
+  fallback?: TranslationBackend;
+}
+
+export class GlossaryBackend implements TranslationBackend {
+  readonly name = 'glossary';
+  private glossaries: Map<LanguageCode, Record<string, string>> = new Map();
+  private reverseGlossaries: Map<LanguageCode, Map<string, string>> = new Map();
+
+  constructor(private readonly options: GlossaryBackendOptions = {}) {}
+
+  /**
+   * Repository origin, forwarded to the fallback (the API backend needs it)
+   */
+  set origin(origin: string) {
+    const fallback = this.options.fallback;
+    if (fallback && 'origin' in fallback) (fallback as any).origin = origin;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Translate identifiers from the glossary and report unknown words
+   * Terms fixed by the project glossary rules are used as given, and words
+   * the rules keep (Kawa in KawaClient) are copied verbatim
+   */
+  translateWithReport(
+    terms: string[],
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    rules: TermRules = EMPTY_TERM_RULES
+  ): GlossaryReport {
+    const report: GlossaryReport = { translations: {}, untranslated: [], unknownWords: [] };
+    const unknown = new Set<string>();
+    const keptWords = new Set(rules.keep.map(term => term.toLowerCase()));
+
+    for (const term of new Set(terms)) {
+      if (sourceLang === targetLang) {
+        report.translations[term] = term;
+        continue;
+      }
+
+      const fixed = getFixedTranslation(term, rules);
+      if (fixed !== undefined) {
+        report.translations[term] = fixed;
+        continue;
+      }
+
+      const result = this.translateIdentifier(term, sourceLang, targetLang, keptWords);
+      result.unknown.forEach(word => unknown.add(word));
+
+      if (result.translated !== undefined && IDENTIFIER_REGEX.test(result.translated)) {
+        report.translations[term] = result.translated;
+      } else {
+        report.untranslated.push(term);
+      }
+    }
+
+    report.unknownWords = Array.from(unknown);
+    return report;
+  }
+
+  async translateIdentifiers(
+    terms: string[],
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    onProgress?: TranslationProgressCallback,
+    rules?: TermRules
+  ): Promise<Record<string, string>> {
+    if (terms.length === 0) {
+      return {};
+    }
+
+    const report = this.translateWithReport(terms, sourceLang, targetLang, rules);
+    if (rules) {
+      // Glossary words can still produce a word the project forbids
+      const { translations, rejected } = enforceTermRules(report.translations, rules);
+      for (const { term, translation, reason } of rejected) {
+        log(`[GlossaryBackend] Translation rejected by project glossary: ${term} → ${translation} (${reason})`);
+      }
+      report.translations = translations;
+    }
+    log(`[GlossaryBackend] Translated ${Object.keys(report.translations).length}/${terms.length} identifiers ${sourceLang} → ${targetLang}`);
+    if (report.unknownWords.length > 0) {
+      log(`[GlossaryBackend] Words missing from the ${sourceLang === 'en' ? targetLang : sourceLang} glossary: ${report.unknownWords.join(', ')}`);
+    }
+
+    if (report.untranslated.length === 0) {
+      return report.translations;
+    }
+
+    if (this.options.fallback) {
+      log(`[GlossaryBackend] Passing ${report.untranslated.length} identifiers to ${this.options.fallback.name} backend`);
+      const fallback = await this.options.fallback.translateIdentifiers(report.untranslated, sourceLang, targetLang, onProgress, rules);
+      return { ...fallback, ...report.translations };
+    }
+
+    // Keep identifiers with unknown words unchanged, like a failed LLM batch
+    const unchanged = Object.fromEntries(report.untranslated.map(term => [term, term]));
+    return { ...unchanged, ...report.translations };
+  }
+
+  async translateComments(
+    comments: string[],
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    onProgress?: TranslationProgressCallback,
+    references?: Record<string, TranslationReference[]>
+  ): Promise<Record<string, string>> {
+    if (this.options.fallback) {
+      return this.options.fallback.translateComments(comments, sourceLang, targetLang, onProgress, references);
+    }
+    return Object.fromEntries(comments.map(comment => [comment, comment]));
+  }
+
+  async translateText(
+    texts: string[],
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    onProgress?: TranslationProgressCallback
+  ): Promise<Record<string, string>> {
+    if (this.options.fallback) {
+      return this.options.fallback.translateText(texts, sourceLang, targetLang, onProgress);
+    }
+    return Object.fromEntries(texts.map(text => [text, text]));
+  }
+
+  async translateProject(
+    identifiers: string[],
+    comments: string[],
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    onProgress?: TranslationProgressCallback,
+    rules?: TermRules,
+    _contexts?: Record<string, IdentifierContext>,
+    references?: Record<string, TranslationReference[]>
+  ): Promise<{
+    terms: Record<string, string>;
+    comments: Record<string, string>;
+    totalTerms: number;
+    totalComments: number;
+  }> {
+    const [terms, translatedComments] = await Promise.all([
+      this.translateIdentifiers(identifiers, sourceLang, targetLang, onProgress, rules),
+      this.translateComments(comments, sourceLang, targetLang, onProgress, references),
+    ]);
+
+    return {
+      terms,
+      comments: translatedComments,
+      totalTerms: Object.keys(terms).length,
+      totalComments: Object.keys(translatedComments).length,
+    };
+  }
+
+  /**
+   * Translate one identifier, going through English when neither side is English
+   */
+  private translateIdentifier(
+    term: string,
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    keptWords: Set<string>
+  ): { translated?: string; unknown: string[] } {
+    const { words, style, prefix, suffix } = splitIdentifier(term);
+    if (words.length === 0) {
+      return { unknown: [] };
+    }
+
+    const unknown: string[] = [];
+    const english = sourceLang === 'en' ? words : this.toEnglish(words, sourceLang, unknown, keptWords);
+    const translated = targetLang === 'en' ? english : this.fromEnglish(english, targetLang, unknown, keptWords);
+
+    if (unknown.length > 0) {
+      return { unknown };
+    }
+    return { translated: joinIdentifier(translated, style, prefix, suffix), unknown };
+  }
+
+  /**
+   * English words → target language words
+   */
+  private fromEnglish(words: string[], language: LanguageCode, unknown: string[], keptWords: Set<string>): string[] {
+    const glossary = this.getGlossary(language);
+    const result: string[] = [];
+
+    for (const word of words) {
+      const translation = isVerbatim(word) || keptWords.has(word.toLowerCase()) ? word : glossary[word.toLowerCase()];
+      if (translation === undefined) {
+        unknown.push(word);
+      } else {
+        result.push(...translation.split(/\s+/).filter(Boolean));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Source language words → English words
+   * Words without letter case (e.g. ユーザー名前) are segmented by longest match
+   */
+  private toEnglish(words: string[], language: LanguageCode, unknown: string[], keptWords: Set<string>): string[] {
+    const reverse = this.getReverseGlossary(language);
+    const result: string[] = [];
+
+    for (const word of words) {
+      if (isVerbatim(word) || keptWords.has(word.toLowerCase())) {
+        result.push(word);
+        continue;
+      }
+
+      const english = reverse.get(word.toLowerCase());
+      if (english !== undefined) {
+        result.push(english);
+      } else if (/[\p{Lu}\p{Ll}]/u.test(word)) {
+        unknown.push(word);
+      } else {
+        result.push(...segment(word, reverse, unknown));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Glossary for a language: bundled words overridden by the user's file
+   * Regional glossaries (pt-BR) extend their base language's (pt)
+   */
+  private getGlossary(language: LanguageCode): Record<string, string> {
+    const known = this.glossaries.get(language);
+    if (known) {
+      return known;
+    }
+
+    const layers = getLocaleFallbacks(language).reverse().map(tag => this.options.glossaries
+      ? this.options.glossaries[tag]
+      : { ...BUILTIN_GLOSSARIES[tag], ...loadUserGlossary(tag) });
+    const glossary: Record<string, string> = Object.assign({}, ...layers);
+    this.glossaries.set(language, glossary);
+    return glossary;
+  }
+
+  /**
+   * Translation → English word (the first English word wins on duplicates)
+   */
+  private getReverseGlossary(language: LanguageCode): Map<string, string> {
+    let reverse = this.reverseGlossaries.get(language);
+    if (!reverse) {
+      reverse = new Map();
+      for (const [english, translation] of Object.entries(this.getGlossary(language))) {
+        const key = translation.replace(/\s+/g, '').toLowerCase();
+        if (!reverse.has(key)) reverse.set(key, english);
+      }
+      this.reverseGlossaries.set(language, reverse);
+    }
+    return reverse;
+  }
+}
+
+/**
+ * Read ~/.kawa-code/i18n/glossaries/<lang>.json ({ "englishWord": "translation" })
+ */
+function loadUserGlossary(language: LanguageCode): Record<string, string> {
+  const filePath = path.join(USER_GLOSSARY_DIR, `${language}.json`);
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+
+  try {
+    const entries = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Record<string, string>;
+    return Object.fromEntries(Object.entries(entries).map(([english, translation]) => [english.toLowerCase(), translation]));
+  } catch (error: any) {
+    log(`[GlossaryBackend] Failed to load glossary ${filePath}: ${error.message}`);
+    return {};
+  }
+}
+
+/**
+ * Split a caseless word into glossary entries by greedy longest match
+ * Unmatched stretches are recorded as unknown
+ */
+function segment(word: string, reverse: Map<string, string>, unknown: string[]): string[] {
+  const longest = Math.max(0, ...Array.from(reverse.keys(), key => key.length));
+  const result: string[] = [];
+  let unmatched = '';
+  let i = 0;
+
+  while (i < word.length) {
+    let match: string | undefined;
+    for (let length = Math.min(longest, word.length - i); length > 0; length--) {
+      const english = reverse.get(word.slice(i, i + length));
+      if (english !== undefined) {
+        match = english;
+        i += length;
+        break;
+      }
+    }
+
+    if (match === undefined) {
+      unmatched += word[i++];
+      continue;
+    }
+    if (unmatched) {
+      unknown.push(unmatched);
+      unmatched = '';
+    }
+    result.push(match);
+  }
+
+  if (unmatched) {
+    unknown.push(unmatched);
+  }
+  return result;
+}
+
+/**
+ * Acronyms and numbers are kept as they are (HTTP, ID, 2)
+ */
+function isVerbatim(word: string): boolean {
+  return isAcronym(word) || /^\d+$/.test(word);
+}
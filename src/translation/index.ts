@@ -5,11 +5,13 @@
  * Caches the backend instance and resets on setting change.
  */
 
-import { getTranslationMode } from '../config/settings';
+import { getGlossaryFallback, getTranslationMode, TranslationMode } from '../config/settings';
 import { log } from '../ipc/protocol';
 import type { TranslationBackend } from './backend';
 import { LocalBackend } from './local-backend';
 import { ApiBackend } from './api-backend';
+import { OpenAICompatibleBackend } from './openai-backend';
+import { GlossaryBackend } from './glossary-backend';
 
 export type { TranslationBackend } from './backend';
 
@@ -27,16 +29,29 @@ export function getTranslationBackend(): TranslationBackend {
     return cachedBackend;
   }
 
+  cachedBackend = createBackend(mode);
+  cachedMode = mode;
+  return cachedBackend;
+}
+
+/**
+ * Create the backend for a translation mode
+ */
+function createBackend(mode: TranslationMode): TranslationBackend {
   if (mode === 'api') {
     log('[Translation] Using API backend');
-    cachedBackend = new ApiBackend();
+    return new ApiBackend();
+  } else if (mode === 'openai-compatible') {
+    log('[Translation] Using OpenAI-compatible backend');
+    return new OpenAICompatibleBackend();
+  } else if (mode === 'glossary') {
+    const fallbackMode = getGlossaryFallback();
+    log(`[Translation] Using glossary backend${fallbackMode ? ` (fallback: ${fallbackMode})` : ''}`);
+    return new GlossaryBackend({ fallback: fallbackMode ? createBackend(fallbackMode) : undefined });
   } else {
     log('[Translation] Using local backend (Claude CLI)');
-    cachedBackend = new LocalBackend();
+    return new LocalBackend();
   }
-
-  cachedMode = mode;
-  return cachedBackend;
 }
 
 /**
@@ -5,7 +5,7 @@
  * All translation happens locally on the user's machine (zero-knowledge).
  */
 
-import { LanguageCode } from '../core/types';
+import { IdentifierContext, LanguageCode, TranslationReference } from '../core/types';
 import type { TranslationProgressCallback } from '../claude/translator';
 import {
   translateIdentifiers,
@@ -14,6 +14,7 @@ import {
   translateProject,
   isClaudeCliAvailable,
 } from '../claude';
+import type { TermRules } from '../core/termRules';
 import type { TranslationBackend } from './backend';
 
 export class LocalBackend implements TranslationBackend {
@@ -27,18 +28,20 @@ export class LocalBackend implements TranslationBackend {
     terms: string[],
     sourceLang: LanguageCode,
     targetLang: LanguageCode,
-    onProgress?: TranslationProgressCallback
+    onProgress?: TranslationProgressCallback,
+    rules?: TermRules
   ): Promise<Record<string, string>> {
-    return translateIdentifiers(terms, sourceLang, targetLang, onProgress);
+    return translateIdentifiers(terms, sourceLang, targetLang, onProgress, rules);
   }
 
   async translateComments(
     comments: string[],
     sourceLang: LanguageCode,
     targetLang: LanguageCode,
-    onProgress?: TranslationProgressCallback
+    onProgress?: TranslationProgressCallback,
+    references?: Record<string, TranslationReference[]>
   ): Promise<Record<string, string>> {
-    return translateComments(comments, sourceLang, targetLang, onProgress);
+    return translateComments(comments, sourceLang, targetLang, onProgress, references);
   }
 
   async translateText(
@@ -55,13 +58,17 @@ export class LocalBackend implements TranslationBackend {
     comments: string[],
     sourceLang: LanguageCode,
     targetLang: LanguageCode,
-    onProgress?: TranslationProgressCallback
+    onProgress?: TranslationProgressCallback,
+    rules?: TermRules,
+    contexts?: Record<string, IdentifierContext>,
+    references?: Record<string, TranslationReference[]>
   ): Promise<{
     terms: Record<string, string>;
+    senses?: Record<string, string>;
     comments: Record<string, string>;
     totalTerms: number;
     totalComments: number;
   }> {
-    return translateProject(identifiers, comments, sourceLang, targetLang, onProgress);
+    return translateProject(identifiers, comments, sourceLang, targetLang, onProgress, rules, contexts, references);
   }
 }
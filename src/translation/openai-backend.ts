@@ -0,0 +1,156 @@
+/**
+ * OpenAI-Compatible Translation Backend
+ *
+ * Sends the Claude CLI prompts to any server implementing the OpenAI
+ * chat completions API (Ollama, llama.cpp server, vLLM, LM Studio, ...).
+ * Batching, response parsing and validation are shared with the local
+ * backend; only the transport differs. With a server on localhost,
+ * translation works fully offline.
+ */
+
+import fetch from 'node-fetch';
+import { IdentifierContext, LanguageCode, TranslationReference } from '../core/types';
+import type { TranslationProgressCallback, PromptCaller } from '../claude/translator';
+import {
+  translateIdentifiers,
+  translateComments,
+  translateText,
+  translateProject,
+  withRetry,
+} from '../claude';
+import { getOpenAICompatibleSettings, OpenAICompatibleSettings } from '../config/settings';
+import type { TermRules } from '../core/termRules';
+import type { TranslationBackend } from './backend';
+
+/** Timeout for one chat completion (local models can be slow) */
+const REQUEST_TIMEOUT_MS = 300_000;
+
+/** Timeout for the availability check */
+const AVAILABILITY_TIMEOUT_MS = 5_000;
+
+/** Response structure of POST /chat/completions (fields we use) */
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+}
+
+export class OpenAICompatibleBackend implements TranslationBackend {
+  readonly name = 'openai-compatible';
+
+  /**
+   * @param getSettings - Read on every request so endpoint/model changes apply immediately
+   */
+  constructor(private readonly getSettings: () => OpenAICompatibleSettings = getOpenAICompatibleSettings) {}
+
+  async isAvailable(): Promise<boolean> {
+    const settings = this.getSettings();
+    try {
+      const response = await fetch(`${trimSlash(settings.endpoint)}/models`, {
+        headers: this.headers(settings),
+        timeout: AVAILABILITY_TIMEOUT_MS,
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async translateIdentifiers(
+    terms: string[],
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    onProgress?: TranslationProgressCallback,
+    rules?: TermRules
+  ): Promise<Record<string, string>> {
+    return translateIdentifiers(terms, sourceLang, targetLang, onProgress, rules, this.callLLM);
+  }
+
+  async translateComments(
+    comments: string[],
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    onProgress?: TranslationProgressCallback,
+    references?: Record<string, TranslationReference[]>
+  ): Promise<Record<string, string>> {
+    return translateComments(comments, sourceLang, targetLang, onProgress, references, this.callLLM);
+  }
+
+  async translateText(
+    texts: string[],
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    onProgress?: TranslationProgressCallback
+  ): Promise<Record<string, string>> {
+    return translateText(texts, sourceLang, targetLang, onProgress, this.callLLM);
+  }
+
+  async translateProject(
+    identifiers: string[],
+    comments: string[],
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    onProgress?: TranslationProgressCallback,
+    rules?: TermRules,
+    contexts?: Record<string, IdentifierContext>,
+    references?: Record<string, TranslationReference[]>
+  ): Promise<{
+    terms: Record<string, string>;
+    senses?: Record<string, string>;
+    comments: Record<string, string>;
+    totalTerms: number;
+    totalComments: number;
+  }> {
+    return translateProject(identifiers, comments, sourceLang, targetLang, onProgress, rules, contexts, references, this.callLLM);
+  }
+
+  /**
+   * Send one prompt as a single user message, retrying transient errors
+   */
+  private callLLM: PromptCaller = (prompt, options) =>
+    withRetry(() => this.complete(prompt), 'OpenAI-compatible', options);
+
+  /**
+   * POST /chat/completions and return the message text
+   * Error messages carry the HTTP status so 429/503 are retried
+   */
+  private async complete(prompt: string): Promise<string> {
+    const settings = this.getSettings();
+    const response = await fetch(`${trimSlash(settings.endpoint)}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers(settings) },
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0,
+        stream: false,
+      }),
+      timeout: REQUEST_TIMEOUT_MS,
+    }).catch((error: Error) => {
+      // node-fetch reports its own timeout as "network timeout at: <url>"
+      throw new Error(/timeout/i.test(error.message)
+        ? `Request to ${settings.endpoint} timed out`
+        : `Request to ${settings.endpoint} failed: ${error.message}`);
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`${settings.endpoint} returned ${response.status}: ${body.slice(0, 200)}`);
+    }
+
+    const data = await response.json() as ChatCompletionResponse;
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error(`${settings.endpoint} returned no message content`);
+    }
+
+    // Reasoning models may prepend their chain of thought
+    return content.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+  }
+
+  private headers(settings: OpenAICompatibleSettings): Record<string, string> {
+    return settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {};
+  }
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
@@ -50,6 +50,28 @@ interface IntentDecoration {
   updatedAt: string
 }
 
+// Replaced range of the original code and where its replacement is in the translated code
+// (matching backend SourceMapSegment; lines are 1-based, columns 0-based)
+interface SourceMapSegment {
+  original: { start: { line: number, column: number }, end: { line: number, column: number } }
+  translated: { start: { line: number, column: number }, end: { line: number, column: number } }
+}
+
+// A translated identifier, string, text, comment or keyword (matching backend TranslatedSpan)
+interface TranslatedSpan extends SourceMapSegment {
+  kind: 'identifier' | 'string' | 'text' | 'comment' | 'keyword'
+  originalText: string
+  translatedText: string
+}
+
+// Columns of a line covered by a translated span (end exclusive)
+interface SpanRange {
+  start: number
+  end: number
+  index: number
+  kind: TranslatedSpan['kind']
+}
+
 // Intent color map for template types
 const INTENT_COLORS: Record<string, string> = {
   feature: '#4caf50',    // Green
@@ -57,6 +79,12 @@ const INTENT_COLORS: Record<string, string> = {
   exploration: '#9c27b0', // Purple
 }
 
+// Right-to-left scripts (Hebrew, Arabic and their presentation forms)
+const RTL_LETTERS = '\\u0590-\\u08FF\\uFB1D-\\uFDFF\\uFE70-\\uFEFC'
+const RTL_CHAR = new RegExp(`[${RTL_LETTERS}]`)
+// RTL letters, then more letters, digits, underscores, or spaces followed by another RTL letter
+const RTL_RUN = new RegExp(`[${RTL_LETTERS}](?:[${RTL_LETTERS}\\d_]|[ \\t]+(?=[${RTL_LETTERS}]))*`, 'g')
+
 // Prism theme CSS (Tomorrow Night inspired, using CSS custom properties)
 const prismStyles = css`
   code[class*="language-"],
@@ -318,6 +346,133 @@ const componentStyles = css`
     white-space: nowrap;
   }
 
+  .toolbar-button {
+    padding: 4px 12px;
+    border-radius: var(--kawa-radius-md, 4px);
+    border: 1px solid var(--kawa-border, #3c3c3c);
+    background: var(--kawa-bg-primary, #1e1e1e);
+    color: var(--kawa-text-primary, #d4d4d4);
+    font-size: 12px;
+    cursor: pointer;
+  }
+
+  .toolbar-button.primary {
+    border-color: var(--kawa-accent, #0c719c);
+    background: var(--kawa-accent, #0c719c);
+    color: #fff;
+  }
+
+  .toolbar-button:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+
+  .toolbar-button.active {
+    border-color: var(--kawa-accent, #0c719c);
+  }
+
+  /* Side-by-side view */
+  .split-view {
+    display: flex;
+    height: 100%;
+  }
+
+  .split-pane {
+    flex: 1;
+    min-width: 0;
+    display: flex;
+    flex-direction: column;
+  }
+
+  .split-pane + .split-pane {
+    border-left: 1px solid var(--kawa-border, #3c3c3c);
+  }
+
+  .split-pane-header {
+    padding: 4px 12px;
+    background: var(--kawa-bg-secondary, #252526);
+    border-bottom: 1px solid var(--kawa-border, #3c3c3c);
+    font-size: 12px;
+    color: var(--kawa-text-secondary, #969696);
+  }
+
+  .split-pane-body {
+    flex: 1;
+    overflow: auto;
+  }
+
+  /* Translated spans: identifiers and keywords in one color, prose in another */
+  .code-cell mark {
+    color: inherit;
+    border-radius: 2px;
+    background: rgba(86, 156, 214, 0.15);
+  }
+
+  .code-cell mark.span-comment,
+  .code-cell mark.span-string,
+  .code-cell mark.span-text {
+    background: rgba(106, 153, 85, 0.15);
+  }
+
+  .code-cell mark.paired {
+    background: rgba(255, 204, 0, 0.3);
+  }
+
+  .span-tooltip {
+    pointer-events: none;
+  }
+
+  .span-entry-label {
+    margin-bottom: 4px;
+    color: var(--kawa-text-secondary, #969696);
+  }
+
+  .span-entry-text {
+    white-space: pre-wrap;
+    font-family: var(--kawa-code-font, 'JetBrains Mono', monospace);
+    color: var(--kawa-text-primary, #d4d4d4);
+  }
+
+  .dirty-indicator {
+    font-size: 12px;
+    color: var(--kawa-text-secondary, #969696);
+  }
+
+  /* Edit mode */
+  .code-editor {
+    display: block;
+    box-sizing: border-box;
+    width: 100%;
+    height: 100%;
+    margin: 0;
+    padding: 16px;
+    border: none;
+    outline: none;
+    resize: none;
+    background: var(--kawa-bg-primary, #1e1e1e);
+    color: var(--kawa-code-text, #ccc);
+    font-family: var(--kawa-code-font, 'JetBrains Mono', monospace);
+    font-size: var(--kawa-code-font-size, 13px);
+    line-height: var(--kawa-code-line-height, 1.5);
+    white-space: pre;
+    tab-size: 2;
+  }
+
+  .save-banner {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    padding: 8px 15px;
+    background: var(--kawa-bg-secondary, #252526);
+    border-bottom: 1px solid var(--kawa-border, #3c3c3c);
+    font-size: 12px;
+    color: var(--kawa-text-primary, #d4d4d4);
+  }
+
+  .save-banner span {
+    flex: 1;
+  }
+
   /* Code Container */
   .code-container {
     flex: 1;
@@ -368,6 +523,12 @@ const componentStyles = css`
     padding: 0 16px;
     vertical-align: top;
     white-space: pre;
+    text-align: left;
+  }
+
+  /* Hebrew/Arabic runs are isolated so they can't reorder the surrounding code */
+  .code-cell bdi {
+    unicode-bidi: isolate;
   }
 
   /* First and last row padding */
@@ -620,6 +781,9 @@ export class I18nCodeViewer extends LitElement {
   @state() private selectedFile: string | null = null
   @state() private originalCode: string = ''
   @state() private translatedCode: string = ''
+  // Maps lines of translatedCode back to originalCode (empty when nothing moved)
+  @state() private sourceMap: SourceMapSegment[] = []
+  @state() private spans: TranslatedSpan[] = []
   @state() private codeLanguage: string = 'typescript'
   @state() private targetLanguage: string = 'en'
   @state() private isLoading: boolean = false
@@ -635,6 +799,22 @@ export class I18nCodeViewer extends LitElement {
   @state() private fileIntentCounts: Map<string, number> = new Map()
   @state() private intentsLoading: boolean = false
 
+  // Edit mode: the translated code is edited, then saved back to disk in English
+  @state() private isEditing: boolean = false
+  @state() private editedCode: string = ''
+  // Translation the edit started from (rendered without display-only keywords and punctuation)
+  @state() private editableCode: string = ''
+  @state() private isSaving: boolean = false
+  @state() private saveError: string | null = null
+  // Contents of the file on disk when a save found it changed since it was opened
+  @state() private saveConflict: string | null = null
+
+  // Side-by-side view: English on the left, the translation on the right
+  @state() private splitView: boolean = false
+  @state() private hoveredSpan: { index: number, x: number, y: number } | null = null
+  // Pane scrolled to follow the other one; its next scroll event is not synced back
+  private syncingPane: HTMLElement | null = null
+
   // Translation scope (loaded from settings on init)
   @state() private translationScope: TranslationScope | null = null
   private translationScopePromise: Promise<void> | null = null
@@ -654,17 +834,25 @@ export class I18nCodeViewer extends LitElement {
   // AbortController for cancelling in-flight translation requests
   private translateAbortController: AbortController | null = null
 
-  private supportedLanguages = [
+  // Built-in list, replaced by the enabled languages from the backend on init
+  @state() private supportedLanguages = [
     { code: 'en', name: 'English' },
     { code: 'ja', name: '日本語 (Japanese)' },
     { code: 'es', name: 'Español (Spanish)' },
+    { code: 'es-MX', name: 'Español (México) (Mexican Spanish)' },
     { code: 'fr', name: 'Français (French)' },
     { code: 'de', name: 'Deutsch (German)' },
     { code: 'zh', name: '中文 (Chinese)' },
+    { code: 'zh-Hans', name: '简体中文 (Simplified Chinese)' },
+    { code: 'zh-Hant', name: '繁體中文 (Traditional Chinese)' },
     { code: 'ko', name: '한국어 (Korean)' },
     { code: 'pt', name: 'Português (Portuguese)' },
+    { code: 'pt-BR', name: 'Português (Brasil) (Brazilian Portuguese)' },
+    { code: 'pt-PT', name: 'Português (Portugal) (European Portuguese)' },
     { code: 'ru', name: 'Русский (Russian)' },
     { code: 'it', name: 'Italiano (Italian)' },
+    { code: 'he', name: 'עברית (Hebrew)' },
+    { code: 'ar', name: 'العربية (Arabic)' },
   ]
 
   connectedCallback() {
@@ -687,6 +875,7 @@ export class I18nCodeViewer extends LitElement {
       selectedFile: this.selectedFile,
       expandedPaths: Array.from(this.expandedPaths),
       targetLanguage: this.targetLanguage,
+      splitView: this.splitView,
     }
     this.dispatchEvent(new CustomEvent('kawa-state-change', {
       bubbles: true,
@@ -711,6 +900,7 @@ export class I18nCodeViewer extends LitElement {
       if (state.targetLanguage) {
         this.targetLanguage = state.targetLanguage
       }
+      this.splitView = state.splitView === true
       // selectedFile will be restored after file tree loads
       this.initialStateRestored = true
 
@@ -725,6 +915,7 @@ export class I18nCodeViewer extends LitElement {
   protected firstUpdated(_changedProperties: PropertyValues) {
     // Load translation scope settings (store promise so translateCode can await it)
     this.translationScopePromise = this.loadTranslationScope()
+    this.loadLanguages()
 
     // Restore state from initial-state property
     const selectedFileToRestore = this.restoreState()
@@ -761,6 +952,9 @@ export class I18nCodeViewer extends LitElement {
       this.selectedFile = null
       this.originalCode = ''
       this.translatedCode = ''
+      this.sourceMap = []
+      this.spans = []
+      this.stopEditing()
       this.error = null
       this.fileTreeLoaded = false
 
@@ -979,6 +1173,7 @@ export class I18nCodeViewer extends LitElement {
    */
   private async selectFile(filePath: string) {
     if (this.selectedFile === filePath) return
+    if (!this.confirmDiscardEdits()) return
 
     // Cancel any in-flight translation from the previous file
     if (this.translateAbortController) {
@@ -1050,6 +1245,8 @@ export class I18nCodeViewer extends LitElement {
         await this.translateCode()
       } else {
         this.translatedCode = this.originalCode
+        this.sourceMap = []
+        this.spans = []
       }
     } catch (err: any) {
       // Only show error if this is still the current request
@@ -1057,6 +1254,8 @@ export class I18nCodeViewer extends LitElement {
         this.error = err.message || 'Failed to load file'
         this.originalCode = ''
         this.translatedCode = ''
+        this.sourceMap = []
+        this.spans = []
         console.error(`[code-viewer] Request #${currentRequestId}: Error loading file:`, err)
       }
     } finally {
@@ -1137,18 +1336,54 @@ export class I18nCodeViewer extends LitElement {
     }
   }
 
+  /**
+   * Line of the original file shown on a line of the displayed code
+   * Intents are stored by original line; translated comments can change the line count.
+   */
+  private toOriginalLine(lineNum: number): number {
+    return this.mapLine(lineNum, 'translated', 'original')
+  }
+
+  /**
+   * Line of the displayed code showing a line of the original file
+   */
+  private toTranslatedLine(lineNum: number): number {
+    return this.mapLine(lineNum, 'original', 'translated')
+  }
+
+  /**
+   * Map a line through the source map
+   * Lines inside a replaced range map to the same line of the other range (or its last line).
+   */
+  private mapLine(lineNum: number, from: 'original' | 'translated', to: 'original' | 'translated'): number {
+    // Last segment starting on or before the line
+    let segment: SourceMapSegment | undefined
+    for (const candidate of this.sourceMap) {
+      if (candidate[from].start.line > lineNum) break
+      segment = candidate
+    }
+    if (!segment) return lineNum
+
+    const range = segment[from]
+    const target = segment[to]
+    if (lineNum <= range.end.line && (lineNum < range.end.line || range.end.column > 0)) {
+      return Math.min(target.start.line + lineNum - range.start.line, target.end.line)
+    }
+    return lineNum + target.end.line - range.end.line
+  }
+
   /**
    * Get number of intents for a line
    */
   private getLineIntentCount(lineNum: number): number {
-    return this.lineIntentMap.get(lineNum)?.length || 0
+    return this.lineIntentMap.get(this.toOriginalLine(lineNum))?.length || 0
   }
 
   /**
    * Get intents for a line
    */
   private getIntentsForLine(lineNum: number): IntentDecoration[] {
-    const intentIds = this.lineIntentMap.get(lineNum) || []
+    const intentIds = this.lineIntentMap.get(this.toOriginalLine(lineNum)) || []
     return this.fileIntents.filter(intent => intentIds.includes(intent.id))
   }
 
@@ -1163,7 +1398,7 @@ export class I18nCodeViewer extends LitElement {
    * Show intent tooltip on hover
    */
   private showIntentTooltip(lineNum: number, event: MouseEvent) {
-    const intentIds = this.lineIntentMap.get(lineNum) || []
+    const intentIds = this.lineIntentMap.get(this.toOriginalLine(lineNum)) || []
     console.log('[code-viewer] showIntentTooltip called:', lineNum,
       'lineIntentMap size:', this.lineIntentMap.size,
       'intentIds for line:', intentIds,
@@ -1211,6 +1446,23 @@ export class I18nCodeViewer extends LitElement {
     }
   }
 
+  /**
+   * Load the enabled languages (built-in plus those enabled in ~/.kawa-code/config)
+   */
+  private async loadLanguages() {
+    try {
+      const response = await sendIPCRequest(this, 'i18n', 'get-languages', {})
+      if (Array.isArray(response?.languages) && response.languages.length > 0) {
+        this.supportedLanguages = response.languages.map((lang: { code: string, name: string, nativeName: string }) => ({
+          code: lang.code,
+          name: lang.nativeName === lang.name ? lang.name : `${lang.nativeName} (${lang.name})`,
+        }))
+      }
+    } catch (err) {
+      console.error('[code-viewer] Failed to load languages:', err)
+    }
+  }
+
   /**
    * Translate the current code
    */
@@ -1253,6 +1505,8 @@ export class I18nCodeViewer extends LitElement {
       if (signal.aborted) return
 
       this.translatedCode = response?.code || this.originalCode
+      this.sourceMap = response?.code ? response.sourceMap || [] : []
+      this.spans = response?.code ? response.spans || [] : []
       console.log('[code-viewer] Translation complete')
     } catch (err: any) {
       if (err.name === 'AbortError') return
@@ -1265,17 +1519,304 @@ export class I18nCodeViewer extends LitElement {
     }
   }
 
+  /**
+   * Whether the edited code differs from the code shown before editing
+   */
+  private get isDirty(): boolean {
+    return this.isEditing && this.editedCode !== this.editableCode
+  }
+
+  /**
+   * Start editing the displayed (translated) code
+   * Translated keywords and punctuation are only for display and can't be
+   * saved back to English, so the code is rendered again without them.
+   */
+  private async startEditing() {
+    const scope = this.translationScope
+    let code = this.translatedCode || this.originalCode
+
+    if (scope && this.targetLanguage !== 'en' && (scope.keywords || scope.punctuation)) {
+      const filePath = this.selectedFile
+      this.isTranslating = true
+      try {
+        const response = await sendIPCRequest(this, 'i18n', 'translate-code', {
+          code: this.originalCode,
+          filePath,
+          targetLang: this.targetLanguage,
+          origin: this.origin,
+          projectRoot: this.loadedProjectRoot || this.projectRoot,
+          translationScope: { ...scope, keywords: false, punctuation: false },
+        })
+        if (this.selectedFile !== filePath) return
+        code = response?.code || this.originalCode
+      } catch (err: any) {
+        console.error('[code-viewer] Translation for editing failed:', err)
+        this.error = `Translation failed: ${err.message || 'Unknown error'}`
+        return
+      } finally {
+        this.isTranslating = false
+      }
+    }
+
+    this.editableCode = code
+    this.editedCode = code
+    this.saveError = null
+    this.saveConflict = null
+    this.isEditing = true
+  }
+
+  /**
+   * Leave edit mode, dropping any edits
+   */
+  private stopEditing() {
+    this.isEditing = false
+    this.editedCode = ''
+    this.editableCode = ''
+    this.saveError = null
+    this.saveConflict = null
+  }
+
+  /**
+   * Leave edit mode, asking first when there are unsaved edits
+   * @returns false when the user chose to keep editing
+   */
+  private confirmDiscardEdits(): boolean {
+    if (this.isDirty && !confirm('Discard your unsaved changes?')) {
+      return false
+    }
+    this.stopEditing()
+    return true
+  }
+
+  private onEditInput(event: Event) {
+    this.editedCode = (event.target as HTMLTextAreaElement).value
+  }
+
+  /**
+   * Save the edited code
+   * The backend translates it back to English (like an editor save) and
+   * writes it to disk, unless the file changed on disk since it was opened.
+   *
+   * @param force - Overwrite the file even if it changed on disk
+   */
+  private async saveEdits(force = false) {
+    if (!this.selectedFile || this.isSaving) return
+
+    const filePath = this.selectedFile
+    this.isSaving = true
+    this.saveError = null
+
+    try {
+      const response = await sendIPCRequest(this, 'i18n', 'save-translated-file', {
+        code: this.editedCode,
+        baseCode: this.originalCode,
+        sourceLang: this.targetLanguage,
+        filePath,
+        origin: this.origin,
+        projectRoot: this.loadedProjectRoot || this.projectRoot,
+        translationScope: this.translationScope,
+        force,
+      })
+
+      if (this.selectedFile !== filePath) return
+
+      if (response?.conflict) {
+        console.log('[code-viewer] File changed on disk, save refused:', filePath)
+        this.saveConflict = response.diskCode ?? ''
+        return
+      }
+      if (!response?.success) {
+        throw new Error(response?.error || 'Unknown error')
+      }
+
+      console.log('[code-viewer] Saved', filePath)
+      await this.showCode(response.code)
+    } catch (err: any) {
+      console.error('[code-viewer] Save failed:', err)
+      this.saveError = `Save failed: ${err.message || 'Unknown error'}`
+    } finally {
+      this.isSaving = false
+    }
+  }
+
+  /**
+   * Drop the edits and show the file as it is on disk now
+   */
+  private async reloadFromDisk() {
+    const diskCode = this.saveConflict ?? this.originalCode
+    await this.showCode(diskCode)
+  }
+
+  /**
+   * Leave edit mode and show English code, translated to the selected language
+   */
+  private async showCode(code: string) {
+    this.stopEditing()
+    this.originalCode = code
+
+    if (this.targetLanguage === 'en') {
+      this.translatedCode = code
+      this.sourceMap = []
+      this.spans = []
+    } else {
+      await this.translateCode()
+    }
+  }
+
+  /**
+   * Switch between the translated code alone and side by side with the original
+   */
+  private toggleSplitView() {
+    this.splitView = !this.splitView
+    this.hoveredSpan = null
+    this.emitStateChange()
+  }
+
+  /**
+   * Keep the other pane of the side-by-side view on the matching line
+   * The line at the top of the scrolled pane is mapped through the source map,
+   * so both panes stay aligned when translated comments change the line count.
+   */
+  private onPaneScroll(event: Event) {
+    const pane = event.currentTarget as HTMLElement
+    if (this.syncingPane === pane) {
+      this.syncingPane = null
+      return
+    }
+
+    const side = pane.dataset.side as 'original' | 'translated'
+    const otherSide = side === 'original' ? 'translated' : 'original'
+    const other = this.shadowRoot?.querySelector<HTMLElement>(`.split-pane-body[data-side="${otherSide}"]`)
+    if (!other) return
+
+    // Rows after the first one have no padding
+    const rows = pane.querySelectorAll<HTMLElement>('.code-line')
+    const lineHeight = (rows[1] || rows[0])?.offsetHeight
+    if (!lineHeight) return
+    const paddingTop = rows[0].offsetHeight - (rows[1] ? lineHeight : 0)
+
+    let scrollTop = pane.scrollTop
+    if (scrollTop > paddingTop) {
+      const position = (scrollTop - paddingTop) / lineHeight
+      const line = Math.floor(position) + 1
+      const otherLine = side === 'original' ? this.toTranslatedLine(line) : this.toOriginalLine(line)
+      scrollTop = paddingTop + (otherLine - 1 + position - Math.floor(position)) * lineHeight
+    }
+
+    const before = { top: other.scrollTop, left: other.scrollLeft }
+    other.scrollTop = scrollTop
+    other.scrollLeft = pane.scrollLeft
+    if (other.scrollTop !== before.top || other.scrollLeft !== before.left) {
+      this.syncingPane = other
+    }
+  }
+
+  /**
+   * Show the dictionary entry of the translated span under the mouse, and
+   * highlight its counterpart in the other pane
+   */
+  private onSpanHover(event: MouseEvent) {
+    const mark = (event.target as Element).closest<HTMLElement>('mark[data-span]')
+    const index = mark ? Number(mark.dataset.span) : null
+    if (index === (this.hoveredSpan?.index ?? null)) return
+
+    this.shadowRoot?.querySelectorAll('mark.paired').forEach(paired => paired.classList.remove('paired'))
+    if (index === null) {
+      this.hoveredSpan = null
+      return
+    }
+
+    this.shadowRoot?.querySelectorAll(`mark[data-span="${index}"]`).forEach(paired => paired.classList.add('paired'))
+    this.hoveredSpan = { index, x: event.clientX + 10, y: event.clientY + 10 }
+  }
+
+  private onSplitViewLeave() {
+    this.shadowRoot?.querySelectorAll('mark.paired').forEach(paired => paired.classList.remove('paired'))
+    this.hoveredSpan = null
+  }
+
+  /**
+   * Columns covered by translated spans, per line of one side
+   * Spans over several lines cover the rest of their first line, all of the
+   * lines in between and the start of their last line.
+   */
+  private getSpanRangesByLine(side: 'original' | 'translated'): Map<number, SpanRange[]> {
+    const rangesByLine = new Map<number, SpanRange[]>()
+    this.spans.forEach((span, index) => {
+      const { start, end } = span[side]
+      for (let line = start.line; line <= end.line; line++) {
+        const range = {
+          start: line === start.line ? start.column : 0,
+          end: line === end.line ? end.column : Infinity,
+          index,
+          kind: span.kind,
+        }
+        if (range.start >= range.end) continue
+
+        const ranges = rangesByLine.get(line) || []
+        ranges.push(range)
+        rangesByLine.set(line, ranges)
+      }
+    })
+    return rangesByLine
+  }
+
+  /**
+   * Wrap the columns of a highlighted line covered by translated spans in <mark> elements
+   * Columns count the characters of the text between tags (an entity is one
+   * character). A mark is closed before Prism's tags and reopened after
+   * them, so it never overlaps them.
+   */
+  private markSpans(lineHtml: string, ranges: SpanRange[] | undefined): string {
+    if (!ranges) return lineHtml
+
+    const openMark = (range: SpanRange) => `<mark class="span-${range.kind}" data-span="${range.index}">`
+    let result = ''
+    let column = 0
+    let next = 0
+    let open = false
+
+    for (const [token] of lineHtml.matchAll(/<[^>]*>|&[^;\s]*;|[\s\S]/g)) {
+      while (next < ranges.length && column >= ranges[next].end) {
+        if (open) result += '</mark>'
+        open = false
+        next++
+      }
+
+      if (token.startsWith('<') && token.length > 1) {
+        result += open ? `</mark>${token}` : token
+        open = false
+        continue
+      }
+
+      if (!open && next < ranges.length && column >= ranges[next].start) {
+        result += openMark(ranges[next])
+        open = true
+      }
+      result += token
+      column++
+    }
+
+    return open ? `${result}</mark>` : result
+  }
+
   /**
    * Handle language selection change
    */
   private async onLanguageChange(event: Event) {
     const select = event.target as HTMLSelectElement
+    if (!this.confirmDiscardEdits()) {
+      select.value = this.targetLanguage
+      return
+    }
     this.targetLanguage = select.value
     this.emitStateChange()
 
     if (this.originalCode) {
       if (this.targetLanguage === 'en') {
         this.translatedCode = this.originalCode
+        this.sourceMap = []
+        this.spans = []
       } else {
         await this.translateCode()
       }
@@ -1342,7 +1883,24 @@ export class I18nCodeViewer extends LitElement {
 
     const highlighted = this.highlightCode(code)
     // Split by newline, preserving empty lines
-    return highlighted.split('\n')
+    return highlighted.split('\n').map(line => this.isolateRtlRuns(line))
+  }
+
+  /**
+   * Wrap runs of Hebrew/Arabic text in <bdi> elements
+   *
+   * Code lines are laid out left to right. Without isolation, an RTL
+   * identifier followed by punctuation or numbers (e.g. `מונה = 1;`) is
+   * reordered by the bidi algorithm and the line reads wrongly. A run is
+   * RTL letters plus digits, underscores and the spaces between RTL words,
+   * so translated comments stay one readable phrase. Only text between
+   * tags is touched; Prism escapes '<' and '&' inside the text.
+   */
+  private isolateRtlRuns(lineHtml: string): string {
+    if (!RTL_CHAR.test(lineHtml)) return lineHtml
+    return lineHtml.replace(/(<[^>]*>)|([^<]+)/g, (match, tag: string | undefined, text: string | undefined) =>
+      tag ?? text!.replace(RTL_RUN, run => `<bdi>${run}</bdi>`)
+    )
   }
 
   /**
@@ -1398,11 +1956,100 @@ export class I18nCodeViewer extends LitElement {
     return this.fileIntentCounts.get(filePath) || 0
   }
 
+  /**
+   * Render the original and the translated code side by side
+   */
+  private renderSplitView(): TemplateResult {
+    return html`
+      <div class="split-view" @mouseover=${this.onSpanHover} @mouseleave=${this.onSplitViewLeave}>
+        ${this.renderSplitPane('original', 'English', this.originalCode)}
+        ${this.renderSplitPane('translated', this.getLanguageName(this.targetLanguage), this.translatedCode || this.originalCode)}
+      </div>
+    `
+  }
+
+  private getLanguageName(code: string): string {
+    return this.supportedLanguages.find(lang => lang.code === code)?.name || code
+  }
+
+  /**
+   * Render one pane of the side-by-side view, with its translated spans marked
+   */
+  private renderSplitPane(side: 'original' | 'translated', title: string, code: string): TemplateResult {
+    const rangesByLine = this.getSpanRangesByLine(side)
+    return html`
+      <div class="split-pane">
+        <div class="split-pane-header">${title}</div>
+        <div class="split-pane-body" data-side=${side} @scroll=${this.onPaneScroll}>
+          <div class="code-table" dir="ltr">
+            ${this.getHighlightedLines(code).map((lineHtml, i) => html`
+              <div class="code-line">
+                <div class="line-number-cell"><span class="line-num-text">${i + 1}</span></div>
+                <div class="code-cell language-${this.codeLanguage}">${unsafeHTML(this.markSpans(lineHtml, rangesByLine.get(i + 1)) || '&nbsp;')}</div>
+              </div>
+            `)}
+          </div>
+        </div>
+      </div>
+    `
+  }
+
+  /**
+   * Render the dictionary entry of the hovered translated span
+   */
+  private renderSpanTooltip(): TemplateResult | typeof nothing {
+    const span = this.hoveredSpan && this.spans[this.hoveredSpan.index]
+    if (!span) return nothing
+
+    return html`
+      <div
+        class="intent-tooltip span-tooltip"
+        style="left: ${this.hoveredSpan!.x}px; top: ${this.hoveredSpan!.y}px;"
+      >
+        <div class="tooltip-header">Dictionary: ${span.kind}</div>
+        <div class="intent-card">
+          <div class="span-entry-label">English</div>
+          <div class="span-entry-text" dir="ltr">${span.originalText}</div>
+        </div>
+        <div class="intent-card">
+          <div class="span-entry-label">${this.getLanguageName(this.targetLanguage)}</div>
+          <div class="span-entry-text" dir="auto">${span.translatedText}</div>
+        </div>
+      </div>
+    `
+  }
+
+  /**
+   * Render the editor for the translated code, with save conflicts and errors above it
+   */
+  private renderEditor(): TemplateResult {
+    return html`
+      ${this.saveConflict !== null ? html`
+        <div class="save-banner">
+          <span>This file changed on disk since you opened it.</span>
+          <button class="toolbar-button" ?disabled=${this.isSaving} @click=${this.reloadFromDisk}>Reload from disk</button>
+          <button class="toolbar-button" ?disabled=${this.isSaving} @click=${() => this.saveEdits(true)}>Overwrite</button>
+        </div>
+      ` : this.saveError ? html`
+        <div class="save-banner">
+          <span>${this.saveError}</span>
+        </div>
+      ` : nothing}
+      <textarea
+        class="code-editor"
+        dir="ltr"
+        spellcheck="false"
+        .value=${this.editedCode}
+        @input=${this.onEditInput}
+      ></textarea>
+    `
+  }
+
   /**
    * Render intent indicators for a line
    */
   private renderIntentIndicators(lineNum: number): TemplateResult | typeof nothing {
-    const intentIds = this.lineIntentMap.get(lineNum) || []
+    const intentIds = this.lineIntentMap.get(this.toOriginalLine(lineNum)) || []
     if (intentIds.length === 0) return nothing
 
     // Show up to 3 dots, then "+N"
@@ -1448,9 +2095,9 @@ export class I18nCodeViewer extends LitElement {
               </span>
               <span class="intent-author">${intent.author}</span>
             </div>
-            <div class="intent-title">${intent.title}</div>
+            <div class="intent-title" dir="auto">${intent.title}</div>
             ${intent.description ? html`
-              <div class="intent-description">${intent.description}</div>
+              <div class="intent-description" dir="auto">${intent.description}</div>
             ` : nothing}
           </div>
         `)}
@@ -1542,6 +2189,35 @@ export class I18nCodeViewer extends LitElement {
               <span>Translating...</span>
             </div>
           ` : ''}
+
+          ${this.selectedFile && !this.isLoading && !this.error ? html`
+            <div class="toolbar-section">
+              ${this.isEditing ? html`
+                ${this.isDirty ? html`<span class="dirty-indicator">● Unsaved</span>` : nothing}
+                <button
+                  class="toolbar-button primary"
+                  ?disabled=${!this.isDirty || this.isSaving}
+                  @click=${() => this.saveEdits()}
+                >${this.isSaving ? 'Saving...' : 'Save'}</button>
+                <button
+                  class="toolbar-button"
+                  ?disabled=${this.isSaving}
+                  @click=${this.confirmDiscardEdits}
+                >Cancel</button>
+              ` : html`
+                <button
+                  class="toolbar-button ${this.splitView ? 'active' : ''}"
+                  title="Show the English original next to the translation"
+                  @click=${this.toggleSplitView}
+                >Side by side</button>
+                <button
+                  class="toolbar-button"
+                  ?disabled=${this.isTranslating}
+                  @click=${this.startEditing}
+                >Edit</button>
+              `}
+            </div>
+          ` : nothing}
         </div>
 
         <div class="code-container">
@@ -1569,7 +2245,8 @@ export class I18nCodeViewer extends LitElement {
                 <span>Loading intents...</span>
               </div>
             ` : nothing}
-            <div class="code-table">
+            ${this.isEditing ? this.renderEditor() : this.splitView ? this.renderSplitView() : html`
+            <div class="code-table" dir="ltr">
               ${this.getHighlightedLines(displayCode).map((lineHtml, i) => {
                 const lineNum = i + 1
                 const hasIntent = this.getLineIntentCount(lineNum) > 0
@@ -1593,10 +2270,12 @@ export class I18nCodeViewer extends LitElement {
                 `
               })}
             </div>
+            `}
           `}
         </div>
       </div>
       ${this.renderIntentTooltip()}
+      ${this.renderSpanTooltip()}
     `
   }
 }
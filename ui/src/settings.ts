@@ -24,7 +24,7 @@ interface TranslationScope {
 }
 
 type TranslationPreset = 'quick' | 'comprehensive' | 'full' | 'custom'
-type TranslationMode = 'local' | 'api'
+type TranslationMode = 'local' | 'api' | 'openai-compatible' | 'glossary'
 
 // Preset definitions (markdownFiles is always false in presets - it's an independent opt-in)
 const PRESET_DEFINITIONS: Record<Exclude<TranslationPreset, 'custom'>, TranslationScope> = {
@@ -60,6 +60,10 @@ interface Translations {
   providerLocalHint: string
   providerCloud: string
   providerCloudHint: string
+  providerSelfHosted: string
+  providerSelfHostedHint: string
+  providerGlossary: string
+  providerGlossaryHint: string
 }
 
 const TRANSLATIONS: Record<SupportedLanguage, Translations> = {
@@ -87,6 +91,10 @@ const TRANSLATIONS: Record<SupportedLanguage, Translations> = {
     providerLocalHint: 'Uses Claude CLI on your machine — code never leaves your device',
     providerCloud: 'Cloud',
     providerCloudHint: 'Uses Kawa API — requires no local setup, but code is sent to the server',
+    providerSelfHosted: 'Self-hosted',
+    providerSelfHostedHint: 'Uses an OpenAI-compatible server such as Ollama — set endpoint and model in ~/.kawa-code/i18n/settings.json',
+    providerGlossary: 'Glossary',
+    providerGlossaryHint: 'Translates identifiers word by word from a glossary, without an LLM — set a fallback in ~/.kawa-code/i18n/settings.json',
   },
   ja: {
     description: 'コードを希望の言語で表示する際に翻訳される内容を制御します。',
@@ -112,6 +120,10 @@ const TRANSLATIONS: Record<SupportedLanguage, Translations> = {
     providerLocalHint: 'マシン上のClaude CLIを使用 — コードはデバイスから送信されません',
     providerCloud: 'クラウド',
     providerCloudHint: 'Kawa APIを使用 — ローカル設定不要、コードはサーバーに送信されます',
+    providerSelfHosted: 'セルフホスト',
+    providerSelfHostedHint: 'Ollama などの OpenAI 互換サーバーを使用 — エンドポイントとモデルは ~/.kawa-code/i18n/settings.json で設定',
+    providerGlossary: '用語集',
+    providerGlossaryHint: 'LLMを使わず、用語集で識別子を単語ごとに翻訳 — フォールバックは ~/.kawa-code/i18n/settings.json で設定',
   },
   de: {
     description: 'Steuern Sie, was übersetzt wird, wenn Sie Code in Ihrer bevorzugten Sprache anzeigen.',
@@ -137,6 +149,10 @@ const TRANSLATIONS: Record<SupportedLanguage, Translations> = {
     providerLocalHint: 'Verwendet Claude CLI auf Ihrem Gerät — Code verlässt Ihr Gerät nicht',
     providerCloud: 'Cloud',
     providerCloudHint: 'Verwendet Kawa API — keine lokale Einrichtung nötig, Code wird an den Server gesendet',
+    providerSelfHosted: 'Selbst gehostet',
+    providerSelfHostedHint: 'Verwendet einen OpenAI-kompatiblen Server wie Ollama — Endpunkt und Modell in ~/.kawa-code/i18n/settings.json festlegen',
+    providerGlossary: 'Glossar',
+    providerGlossaryHint: 'Übersetzt Bezeichner Wort für Wort mit einem Glossar, ohne LLM — Fallback in ~/.kawa-code/i18n/settings.json festlegen',
   },
   he: {
     description: 'שלוט במה שמתורגם בעת צפייה בקוד בשפה המועדפת עליך.',
@@ -162,6 +178,10 @@ const TRANSLATIONS: Record<SupportedLanguage, Translations> = {
     providerLocalHint: 'משתמש ב-Claude CLI במכשיר שלך — הקוד לא עוזב את המכשיר',
     providerCloud: 'ענן',
     providerCloudHint: 'משתמש ב-Kawa API — ללא הגדרה מקומית, הקוד נשלח לשרת',
+    providerSelfHosted: 'אירוח עצמי',
+    providerSelfHostedHint: 'משתמש בשרת תואם OpenAI כמו Ollama — כתובת ומודל מוגדרים ב-~/.kawa-code/i18n/settings.json',
+    providerGlossary: 'מילון מונחים',
+    providerGlossaryHint: 'מתרגם מזהים מילה אחר מילה לפי מילון מונחים, ללא LLM — גיבוי מוגדר ב-~/.kawa-code/i18n/settings.json',
   },
   zh: {
     description: '控制以首选语言查看代码时翻译的内容。',
@@ -187,6 +207,10 @@ const TRANSLATIONS: Record<SupportedLanguage, Translations> = {
     providerLocalHint: '使用设备上的 Claude CLI — 代码不会离开您的设备',
     providerCloud: '云端',
     providerCloudHint: '使用 Kawa API — 无需本地设置，代码将发送至服务器',
+    providerSelfHosted: '自托管',
+    providerSelfHostedHint: '使用 Ollama 等兼容 OpenAI 的服务器 — 在 ~/.kawa-code/i18n/settings.json 中设置端点和模型',
+    providerGlossary: '术语表',
+    providerGlossaryHint: '不使用 LLM，按术语表逐词翻译标识符 — 在 ~/.kawa-code/i18n/settings.json 中设置后备提供方',
   },
   ko: {
     description: '선호하는 언어로 코드를 볼 때 번역되는 내용을 제어합니다.',
@@ -212,6 +236,10 @@ const TRANSLATIONS: Record<SupportedLanguage, Translations> = {
     providerLocalHint: '기기의 Claude CLI를 사용 — 코드가 기기를 떠나지 않습니다',
     providerCloud: '클라우드',
     providerCloudHint: 'Kawa API를 사용 — 로컬 설정 불필요, 코드가 서버로 전송됩니다',
+    providerSelfHosted: '셀프 호스팅',
+    providerSelfHostedHint: 'Ollama 등 OpenAI 호환 서버를 사용 — 엔드포인트와 모델은 ~/.kawa-code/i18n/settings.json 에서 설정',
+    providerGlossary: '용어집',
+    providerGlossaryHint: 'LLM 없이 용어집으로 식별자를 단어별로 번역 — 대체 제공자는 ~/.kawa-code/i18n/settings.json 에서 설정',
   },
   ru: {
     description: 'Управляйте тем, что переводится при просмотре кода на предпочитаемом языке.',
@@ -237,6 +265,10 @@ const TRANSLATIONS: Record<SupportedLanguage, Translations> = {
     providerLocalHint: 'Использует Claude CLI на вашем устройстве — код не покидает устройство',
     providerCloud: 'Облако',
     providerCloudHint: 'Использует Kawa API — не требует локальной настройки, код отправляется на сервер',
+    providerSelfHosted: 'Свой сервер',
+    providerSelfHostedHint: 'Использует OpenAI-совместимый сервер, например Ollama — адрес и модель задаются в ~/.kawa-code/i18n/settings.json',
+    providerGlossary: 'Глоссарий',
+    providerGlossaryHint: 'Переводит идентификаторы по словам с помощью глоссария, без LLM — резервный провайдер задаётся в ~/.kawa-code/i18n/settings.json',
   },
   ar: {
     description: 'تحكم فيما يتم ترجمته عند عرض الكود بلغتك المفضلة.',
@@ -262,6 +294,10 @@ const TRANSLATIONS: Record<SupportedLanguage, Translations> = {
     providerLocalHint: 'يستخدم Claude CLI على جهازك — الكود لا يغادر جهازك',
     providerCloud: 'سحابي',
     providerCloudHint: 'يستخدم Kawa API — لا حاجة لإعداد محلي، يتم إرسال الكود إلى الخادم',
+    providerSelfHosted: 'استضافة ذاتية',
+    providerSelfHostedHint: 'يستخدم خادمًا متوافقًا مع OpenAI مثل Ollama — يتم ضبط العنوان والنموذج في ~/.kawa-code/i18n/settings.json',
+    providerGlossary: 'مسرد',
+    providerGlossaryHint: 'يترجم المعرّفات كلمة بكلمة من مسرد، دون LLM — يتم ضبط البديل في ~/.kawa-code/i18n/settings.json',
   },
 }
 
@@ -631,7 +667,7 @@ export class I18nSettings extends LitElement {
     const preset = this.activePreset
 
     return html`
-      <div class="settings-container">
+      <div class="settings-container" dir=${this.uiLang === 'he' || this.uiLang === 'ar' ? 'rtl' : 'ltr'}>
         <p class="description">
           ${this.t.description}
         </p>
@@ -655,6 +691,22 @@ export class I18nSettings extends LitElement {
               <span class="provider-icon">${this.translationMode === 'api' ? '\u2713 ' : ''}${this.t.providerCloud}</span>
               <span class="provider-hint">${this.t.providerCloudHint}</span>
             </button>
+            <button
+              class="provider-btn ${this.translationMode === 'openai-compatible' ? 'active' : ''}"
+              @click=${() => this.onModeChange('openai-compatible')}
+              ?disabled=${this.saving}
+            >
+              <span class="provider-icon">${this.translationMode === 'openai-compatible' ? '\u2713 ' : ''}${this.t.providerSelfHosted}</span>
+              <span class="provider-hint">${this.t.providerSelfHostedHint}</span>
+            </button>
+            <button
+              class="provider-btn ${this.translationMode === 'glossary' ? 'active' : ''}"
+              @click=${() => this.onModeChange('glossary')}
+              ?disabled=${this.saving}
+            >
+              <span class="provider-icon">${this.translationMode === 'glossary' ? '\u2713 ' : ''}${this.t.providerGlossary}</span>
+              <span class="provider-hint">${this.t.providerGlossaryHint}</span>
+            </button>
           </div>
         </div>
 